@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { entitlementDenied, loadEntitlements } from '@/lib/entitlements/server';
 import { isNSFWQuery, getNSFWExcludeText, getNSFWExcludeDomains } from '@/lib/nsfw-filter';
 
 const EXA_API_KEY = process.env.EXA_API_KEY;
@@ -24,10 +25,10 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
   const { user, supabase } = authResult;
-  // Gate by subscription plan
-  const { data: userRow } = await supabase.from('users').select('subscription_plan').eq('id', user.id).single();
-  if (!userRow || userRow.subscription_plan !== 'premium') {
-    return NextResponse.json({ error: 'Atlas is available for premium users only' }, { status: 403 });
+  // Gate by plan (expired plans lose access here)
+  const { planId, entitlements } = await loadEntitlements(supabase, user.id);
+  if (!entitlements.atlas) {
+    return entitlementDenied('atlas', planId);
   }
   if (!EXA_API_KEY) {
     return NextResponse.json({ error: 'Exa API key is not configured.' }, { status: 500 });
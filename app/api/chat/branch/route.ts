@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { loadActivePath } from '@/lib/chat/history';
+import { setActiveLeafId } from '@/lib/chat/tree';
+
+// Switch the visible branch of a chat to the one containing messageId
+export async function POST(req: Request) {
+  try {
+    const authResult = await getAuthenticatedUser(req);
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const { user, supabase } = authResult;
+    const userId = user.id;
+
+    let body;
+    try { body = await req.json(); } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }); }
+    const { chatId, messageId } = body;
+    if (!chatId || typeof chatId !== 'string' || !messageId || typeof messageId !== 'string') {
+      return NextResponse.json({ error: 'chatId and messageId are required' }, { status: 400 });
+    }
+
+    // Ensure the message belongs to this user's chat
+    const { data: message } = await supabase
+      .from('messages')
+      .select('id')
+      .eq('id', messageId)
+      .eq('chat_id', chatId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!message) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+    const { leafId, messages } = await loadActivePath(supabase, userId, chatId, messageId);
+    if (leafId) {
+      await setActiveLeafId(supabase, userId, chatId, leafId);
+    }
+
+    return NextResponse.json({ messages, leafId });
+  } catch (error) {
+    console.error('Error in POST /api/chat/branch:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { loadActivePath } from '@/lib/chat/history';
 
 export async function GET(req: Request) {
   try {
@@ -17,58 +18,13 @@ export async function GET(req: Request) {
       return NextResponse.json({ messages: [], teacherId: null });
     }
     
-    // Messages for this chat + user
-    const { data, error } = await supabase
-      .from('messages')
-      .select('id, role, content, created_at')
-      .eq('user_id', userId)
-      .eq('chat_id', chatId)
-      .order('created_at', { ascending: true });
-    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-    
-    // Fetch attachments for user messages
-    const messagesWithAttachments = await Promise.all(
-      (data || []).map(async (m) => {
-        if (m.role === 'user') {
-          const { data: attachments } = await supabase
-            .from('attachments')
-            .select('id, file_name, file_type, file_size, file_path')
-            .eq('message_id', m.id)
-            .eq('user_id', userId);
-          
-          if (attachments && attachments.length > 0) {
-            // Get URLs for attachments
-            const attachmentsWithUrls = await Promise.all(
-              attachments.map(async (att: any) => {
-                const { data: urlData } = supabase.storage
-                  .from('chat-files')
-                  .getPublicUrl(att.file_path);
-                return {
-                  id: att.id,
-                  url: urlData?.publicUrl || '',
-                  filename: att.file_name,
-                  file_type: att.file_type,
-                  file_size: att.file_size
-                };
-              })
-            );
-            return {
-              type: 'user',
-              content: m.content,
-              messageId: m.id,
-              attachments: attachmentsWithUrls
-            };
-          }
-        }
-        return {
-          type: m.role === 'assistant' ? 'ai' : 'user',
-          content: m.content,
-          messageId: m.id
-        };
-      })
-    );
-    
-    const messages = messagesWithAttachments;
+    // Messages on the active branch of this chat, with sibling info for branch navigation
+    let messages;
+    try {
+      ({ messages } = await loadActivePath(supabase, userId, chatId));
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load messages' }, { status: 400 });
+    }
     
     // Optionally fetch teacher_type from chat for frontend use
     const { data: chatData } = await supabase
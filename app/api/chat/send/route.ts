@@ -1,11 +1,27 @@
 import { NextResponse } from 'next/server'
-import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase/server';
 import { createClient } from '@supabase/supabase-js';
 import { randomUUID } from 'crypto';
-
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY!;
+import { getLLMProvider, generateChatTitle, LLMMessage } from '@/lib/llm';
+import { buildChatContext, estimateTokens, HistoryTurn } from '@/lib/chat/context';
+import { loadChatTree, getActivePath, getCurrentLeaf, setActiveLeafId } from '@/lib/chat/tree';
+import { createResumableResponse } from '@/lib/streaming/resumable';
+import { entitlementDenied, loadEntitlements } from '@/lib/entitlements/server';
+import { getCreditBalance } from '@/lib/credits/ledger';
+import { countTokens, holdCredits, MessageUsage, MIN_CHARGE, priceUsage, settleCredits } from '@/lib/credits/metering';
+import { FileProcessingJob, waitForFileJobs } from '@/lib/files/jobs';
+import { linkAttachmentsToMessage, loadMessageAttachments } from '@/lib/files/library';
+import { CITATION_INSTRUCTIONS, FileSource, formatExcerpts, hasUsableText, IndexableAttachment, retrieveChunks, toFileSources } from '@/lib/rag';
+import { computeTableAnswers } from '@/lib/tables';
+import { createQuizBlockFilter, describeMessageQuizzes, parseQuizBlock, parseQuizCommand, quizCommandInstructions, QUIZ_INSTRUCTIONS, saveQuiz } from '@/lib/quizzes';
+import { buildMasteryPrompt, createProgressBlockFilter, parseProgressBlock, recordEvidence, toCheckEvidence } from '@/lib/mastery';
+import { createCurriculumBlockFilter, Curriculum, curriculumInstructions, loadCurriculum, markTopics, parseCurriculumBlock } from '@/lib/curriculum';
+
+const MAX_REPLY_TOKENS = 512;
+// Replies to "/quiz" hold several questions with their answer key
+const QUIZ_REPLY_TOKENS = 1536;
+// How long a question waits for its files to finish processing
+const FILE_PROCESSING_WAIT_MS = 20000;
 
 // Default educational teacher system prompt for regular chats
 const DEFAULT_EDUCATIONAL_SYSTEM_PROMPT = `## Persona
@@ -62,133 +78,58 @@ Encouraging: "Great question." "That's exactly right." "Almost, let's try lookin
 
 Patient: Never make the user feel bad for not knowing a term. Treat every question as an opportunity to build their foundation.`;
 
-// Helper function to get attachments with extracted text for a message
-async function getAttachmentsWithText(supabase: any, userId: string, messageId: string): Promise<string> {
-  try {
-    console.log('[CHAT SEND] Fetching attachments for message:', messageId);
-    const { data: attachments, error } = await supabase
-      .from('attachments')
-      .select('id, file_name, extracted_text, message_id')
-      .eq('user_id', userId)
-      .eq('message_id', messageId);
-    
-    console.log('[CHAT SEND] Found attachments:', attachments?.length || 0, 'Error:', error?.message);
-    
-    if (error || !attachments || attachments.length === 0) {
-      return '';
-    }
-    
-    // Build file content text
-    let fileContent = '';
-    for (const att of attachments) {
-      console.log('[CHAT SEND] Attachment:', att.file_name, 'Has text:', !!att.extracted_text, 'Length:', att.extracted_text?.length || 0);
-      if (att.extracted_text && att.extracted_text.trim()) {
-        // Check if it's an error message
-        if (att.extracted_text.includes('[File processing failed:') || 
-            att.extracted_text.includes('Failed to extract')) {
-          // Don't include error messages in the content - let AI know there was an issue
-          fileContent += `\n\n[File: ${att.file_name} - Unable to extract text content. The file may be image-based, encrypted, or in an unsupported format.]\n`;
-        } else {
-          // Valid extracted text
-          fileContent += `\n\n[File: ${att.file_name}]\n${att.extracted_text}\n`;
-        }
-      } else {
-        // File hasn't been processed yet, mention it
-        fileContent += `\n\n[File: ${att.file_name} - Processing in progress, content may be available shortly]\n`;
-      }
-    }
-    
-    console.log('[CHAT SEND] Final file content length:', fileContent.length);
-    return fileContent;
-  } catch (error) {
-    console.error('Error fetching attachments:', error);
-    return '';
+const ATTACHMENT_COLUMNS = 'id, message_id, file_name, file_path, extracted_text, indexed_at, embedding_model, ocr_confidence';
+// Below this mean OCR confidence (0-100) the tutor is warned the file's text may be misread
+const LOW_OCR_CONFIDENCE = 60;
+
+type ChatAttachment = IndexableAttachment & { message_id: string; ocr_confidence?: number | null };
+
+// Placeholder for a file in the conversation; its content reaches the model as retrieved excerpts
+function describeAttachment(att: ChatAttachment, job?: FileProcessingJob): string {
+  if (job?.status === 'failed' || (att.extracted_text && !hasUsableText(att.extracted_text))) {
+    return `[File: ${att.file_name} - Unable to extract text content${job?.error ? ` (${job.error})` : ''}. The file may be image-based, encrypted, or in an unsupported format.]`;
+  }
+  if (!att.extracted_text || !att.extracted_text.trim()) {
+    return `[File: ${att.file_name} - Processing in progress, content may be available shortly]`;
+  }
+  if (att.ocr_confidence != null && att.ocr_confidence < LOW_OCR_CONFIDENCE) {
+    return `[File: ${att.file_name} - Text was read with OCR at low confidence (${Math.round(att.ocr_confidence)}%) and may contain recognition errors. If an answer depends on unclear text, say so and ask the student to confirm what it says.]`;
   }
+  return `[File: ${att.file_name}]`;
 }
 
-async function getMessages(supabase: any, userId: string, chatId: string) {
-  const { data, error } = await supabase
-    .from('messages')
-    .select('id, role, content, created_at')
-    .eq('user_id', userId)
-    .eq('chat_id', chatId)
-    .order('created_at', { ascending: true });
-  if (error) throw new Error(error.message);
-  
-  // For each user message, fetch and append file content
-  const messagesWithFiles = await Promise.all(
-    (data || []).map(async (m: any) => {
-      if (m.role === 'user' && m.id) {
-        const fileContent = await getAttachmentsWithText(supabase, userId, m.id);
-        if (fileContent) {
-          return {
-            ...m,
-            content: m.content + fileContent
-          };
-        }
-      }
-      return m;
-    })
-  );
-  
-  return messagesWithFiles;
-}
+// Loads the branch of the conversation that ends at leafId, plus the files attached along it
+// and the quizzes in its answers (read with the service role `admin`)
+async function getMessages(supabase: any, admin: any, userId: string, chatId: string, leafId: string, fileJobs: Map<string, FileProcessingJob>) {
+  const tree = await loadChatTree(supabase, userId, chatId);
+  const path = getActivePath(tree, leafId);
 
-// Generate a concise chat title (1-4 words) from the first user message
-async function generateChatTitle(firstMessage: string): Promise<string> {
+  const userMessageIds = path.filter(m => m.role === 'user').map(m => m.id);
+  let attachments: ChatAttachment[] = [];
   try {
-    const prompt = `Create a very short, concise title for this conversation. The title should be 1-4 words maximum, summarizing the main topic or question. 
-    
-Rules:
-- No punctuation (no periods, commas, quotes, etc.)
-- No emojis
-- Use only the most important keywords
-- Keep it as brief as possible while still being descriptive
-
-User message: "${firstMessage.trim()}"
-
-Return ONLY the title, nothing else:`;
-
-    const titleRes = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: OPENAI_MODEL,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a title generator. Generate very short, concise titles (1-4 words) with no punctuation or emojis.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 15,
-        temperature: 0.3,
-      }),
-    });
+    attachments = await loadMessageAttachments<ChatAttachment>(supabase, userId, userMessageIds, ATTACHMENT_COLUMNS);
+  } catch (error) {
+    console.error('[CHAT SEND] Error fetching attachments:', error);
+  }
+  console.log('[CHAT SEND] Found attachments on path:', attachments.length);
 
-    const titleData = await titleRes.json();
-    if (titleRes.ok && titleData.choices && titleData.choices[0]) {
-      let title = titleData.choices[0].message.content.trim();
-      // Clean up: remove any punctuation, quotes, emojis
-      title = title.replace(/[.,;:!?'"()\[\]{}]/g, '').replace(/[^\w\s]/g, '').trim();
-      // Limit to 50 characters and ensure it's not empty
-      if (title && title.length > 0) {
-        return title.slice(0, 50);
-      }
-    }
+  // The tutor sees its earlier quizzes (held out of the saved answers) and how they went
+  let quizNotes = new Map<string, string>();
+  try {
+    quizNotes = await describeMessageQuizzes(admin, userId, path.filter(m => m.role === 'assistant').map(m => m.id));
   } catch (error) {
-    console.error('Error generating chat title:', error);
+    console.error('[CHAT SEND] Error fetching quizzes:', error);
   }
-  
-  // Fallback: create a simple title from the first few words
-  const words = firstMessage.trim().split(/\s+/).slice(0, 4);
-  return words.join(' ') || 'New Chat';
+
+  const messages = path.map((m: any) => {
+    const notes = attachments.filter(att => att.message_id === m.id).map(att => describeAttachment(att, fileJobs.get(att.id)));
+    if (quizNotes.has(m.id)) notes.push(quizNotes.get(m.id)!);
+    return notes.length > 0 ? { ...m, content: `${m.content}\n\n${notes.join('\n')}` } : m;
+  });
+
+  // A file sent again from the library is searched once
+  const files = attachments.filter((att, i) => attachments.findIndex(other => other.id === att.id) === i);
+  return { messages, attachments: files };
 }
 
 export async function POST(req: Request) {
@@ -204,13 +145,19 @@ export async function POST(req: Request) {
 
     let body;
     try { body = await req.json(); } catch { body = {}; }
-    const { chatId = 'new-chat', content, teacherId, attachmentIds } = body;
-    if ((!content || typeof content !== 'string' || !content.trim()) && (!attachmentIds || !Array.isArray(attachmentIds) || attachmentIds.length === 0)) {
+    // editMessageId: resend an edited question as a sibling of the original
+    // regenerateMessageId: answer the same question again as a sibling of that answer
+    const { chatId = 'new-chat', content, teacherId, attachmentIds, editMessageId, regenerateMessageId } = body;
+    const isRegenerate = typeof regenerateMessageId === 'string' && !!regenerateMessageId;
+    if (isRegenerate && chatId === 'new-chat') {
+      return NextResponse.json({ error: 'chatId is required to regenerate a message.' }, { status: 400 });
+    }
+    if (!isRegenerate && (!content || typeof content !== 'string' || !content.trim()) && (!attachmentIds || !Array.isArray(attachmentIds) || attachmentIds.length === 0)) {
       return NextResponse.json({ error: 'Message content or attachment is required.' }, { status: 400 });
     }
     
     // Use provided content or generate default for files
-    const actualContent = (content && content.trim()) || (attachmentIds && attachmentIds.length > 0 
+    let actualContent = (content && content.trim()) || (attachmentIds && attachmentIds.length > 0 
       ? `Please analyze the attached file${attachmentIds.length > 1 ? 's' : ''}.` 
       : '');
 
@@ -218,10 +165,9 @@ export async function POST(req: Request) {
     const actualChatId = chatId === 'new-chat' ? randomUUID() : chatId;
 
     // 2: Check credits - handle case where user row might not exist
-    let credits = 15; // Default credits
     const { data: creditData, error: creditError } = await supabase
       .from('users')
-      .select('credits')
+      .select('subscription_plan')
       .eq('id', userId)
       .maybeSingle(); // Changed from .single() to .maybeSingle()
 
@@ -230,24 +176,32 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: creditError.message }, { status: 400 });
     }
 
-    // If user row exists, use their credits; otherwise create row with defaults
-    if (creditData && typeof creditData.credits === 'number') {
-      credits = creditData.credits;
-    } else if (!creditData) {
-      // User row doesn't exist, create it with default credits
+    if (!creditData) {
+      // User row doesn't exist, create it with default credits (recorded in the ledger by a trigger)
       const userEmail = user.email || '';
       const { error: insertError } = await supabase
         .from('users')
         .insert({ id: userId, email: userEmail, credits: 15 });
       if (insertError) {
         console.error('Failed to create user row:', insertError);
-        // Continue with default credits anyway
-      } else {
-        credits = 15; // Newly created user gets 15 credits
       }
     }
 
-    if (credits < 1) return NextResponse.json({ error: 'Insufficient credits' }, { status: 402 });
+    // Quick check before doing any work; credits are actually held atomically before streaming
+    const credits = await getCreditBalance(supabase, userId).catch(() => 0);
+    const { planId, entitlements } = await loadEntitlements(supabase, userId);
+    if (credits < MIN_CHARGE) return entitlementDenied('tutor_credits', planId);
+
+    // Credits are held and settled, and quizzes and progress notes stored, with the service
+    // role (a user session can only spend credits, and quiz answer keys stay on the server)
+    const admin = createAdminClient();
+    if (!admin) {
+      console.error('[CHAT SEND] Service role key is not configured');
+      return NextResponse.json({ error: 'The tutor is not available right now' }, { status: 503 });
+    }
+
+    // Pick the LLM provider for this deployment and the model tier of the user's plan
+    const llm = getLLMProvider(entitlements.modelTier);
 
     // 3: Insert user message to messages
     const now = new Date().toISOString();
@@ -297,118 +251,124 @@ export async function POST(req: Request) {
       }
     }
     
-    const { data: insertedMessage, error: messageInsertError } = await supabase
-      .from('messages')
-      .insert({ chat_id: actualChatId, user_id: userId, role: 'user', content: actualContent, created_at: now })
-      .select('id')
-      .single();
-    
-    if (messageInsertError) {
-      return NextResponse.json({ error: `Failed to save message: ${messageInsertError.message}` }, { status: 400 });
-    }
-    
-    const userMessageId = insertedMessage?.id;
-    
-    // Get file attachments content for this message
-    let fileContent = '';
-    
-    // Link attachments to this message if provided
-    if (attachmentIds && Array.isArray(attachmentIds) && attachmentIds.length > 0 && userMessageId) {
-      console.log('[CHAT SEND] Linking attachments:', attachmentIds, 'to message:', userMessageId);
-      const { error: updateError } = await supabase
-        .from('attachments')
-        .update({ message_id: userMessageId })
-        .in('id', attachmentIds)
-        .eq('user_id', userId);
-      
-      if (updateError) {
-        console.error('[CHAT SEND] Error linking attachments to message:', updateError);
+    // Work out where the new turn hangs in the conversation tree
+    let userMessageId: string;
+    // Files the edited question was sent with go with the edit too
+    let editedAttachmentIds: string[] = [];
+    if (isRegenerate) {
+      // Regenerating reuses the question the original answer replied to
+      const tree = isNewChat ? [] : await loadChatTree(supabase, userId, actualChatId);
+      const original = tree.find(m => m.id === regenerateMessageId && m.role === 'assistant');
+      const question = original?.parent_id ? tree.find(m => m.id === original.parent_id) : undefined;
+      if (!question) {
+        return NextResponse.json({ error: 'Message to regenerate not found' }, { status: 404 });
       }
-      
-      // Wait for file processing to complete (with retries)
-      // Some files might still be processing
-      let retries = 0;
-      const maxRetries = 10; // Try for up to 5 seconds (10 * 500ms)
-      
-      while (retries < maxRetries) {
-        // Try to get attachments by attachment IDs (more reliable than message_id immediately after update)
-        const { data: attachments, error: attachError } = await supabase
-          .from('attachments')
-          .select('id, file_name, extracted_text, message_id')
-          .in('id', attachmentIds)
-          .eq('user_id', userId);
-        
-        console.log(`[CHAT SEND] Retry ${retries + 1}/${maxRetries}: Found ${attachments?.length || 0} attachments`);
-        
-        if (!attachError && attachments && attachments.length > 0) {
-          // Log raw extracted_text lengths for debugging
-          attachments.forEach((att: any) => {
-            console.log(`[CHAT SEND] Attachment ${att.file_name}: extracted_text length = ${att.extracted_text?.length || 0}, type = ${typeof att.extracted_text}`);
-          });
-          
-          // Check if all files are processed (have extracted_text or error)
-          const processed = attachments.filter(att => 
-            att.extracted_text !== null && 
-            att.extracted_text !== undefined &&
-            (att.extracted_text.trim().length > 0 || 
-             att.extracted_text.includes('[File processing failed:') ||
-             att.extracted_text.includes('Failed to extract'))
-          );
-          
-          console.log(`[CHAT SEND] Processed: ${processed.length}/${attachments.length} files`);
-          
-          if (processed.length === attachments.length && processed.length > 0) {
-            // All files processed, build content
-            for (const att of processed) {
-              console.log(`[CHAT SEND] Building content for attachment: ${att.file_name}, extracted_text length: ${att.extracted_text?.length || 0}`);
-              if (att.extracted_text && att.extracted_text.trim()) {
-                if (att.extracted_text.includes('[File processing failed:') || 
-                    att.extracted_text.includes('Failed to extract')) {
-                  fileContent += `\n\n[File: ${att.file_name} - Unable to extract text content. The file may be image-based, encrypted, or in an unsupported format.]\n`;
-                } else {
-                  const textToAdd = att.extracted_text;
-                  console.log(`[CHAT SEND] Adding ${textToAdd.length} characters from ${att.file_name}`);
-                  fileContent += `\n\n[File: ${att.file_name}]\n${textToAdd}\n`;
-                }
-              }
-            }
-            console.log('[CHAT SEND] Successfully retrieved file content, total length:', fileContent.length);
-            break;
-          }
+      userMessageId = question.id;
+      actualContent = question.content;
+    } else {
+      let parentId: string | null = null;
+      if (typeof editMessageId === 'string' && editMessageId) {
+        // An edited question becomes a sibling of the original
+        const tree = isNewChat ? [] : await loadChatTree(supabase, userId, actualChatId);
+        const original = tree.find(m => m.id === editMessageId && m.role === 'user');
+        if (!original) {
+          return NextResponse.json({ error: 'Message to edit not found' }, { status: 404 });
         }
-        
-        // Wait 500ms before retrying
-        await new Promise(resolve => setTimeout(resolve, 500));
-        retries++;
+        parentId = original.parent_id;
+        try {
+          editedAttachmentIds = (await loadMessageAttachments<{ id: string }>(supabase, userId, [original.id], 'id')).map(att => att.id);
+        } catch (attachmentsError) {
+          console.error('[CHAT SEND] Failed to load the edited message\'s attachments:', attachmentsError);
+        }
+      } else if (!isNewChat) {
+        parentId = await getCurrentLeaf(supabase, userId, actualChatId);
       }
+
+      const { data: insertedMessage, error: messageInsertError } = await supabase
+        .from('messages')
+        .insert({ chat_id: actualChatId, user_id: userId, role: 'user', content: actualContent, parent_id: parentId, created_at: now })
+        .select('id')
+        .single();
       
-      // If still no content after retries, use the original function as fallback
-      if (!fileContent) {
-        console.log('[CHAT SEND] Retries exhausted, trying fallback method');
-        fileContent = await getAttachmentsWithText(supabase, userId, userMessageId);
+      if (messageInsertError) {
+        return NextResponse.json({ error: `Failed to save message: ${messageInsertError.message}` }, { status: 400 });
       }
-    } else if (userMessageId) {
-      // No attachmentIds provided, but check if message has any attachments
-      fileContent = await getAttachmentsWithText(supabase, userId, userMessageId);
+      
+      userMessageId = insertedMessage?.id;
     }
     
-    // Build the final content with file attachments
-    const finalContent = actualContent + fileContent;
-    console.log('[CHAT SEND] Final content length (message + files):', finalContent.length);
+    // Link attachments to this message if provided
+    const messageAttachmentIds: string[] = Array.from(new Set([...(Array.isArray(attachmentIds) ? attachmentIds : []), ...editedAttachmentIds]));
+    if (messageAttachmentIds.length > 0 && userMessageId) {
+      console.log('[CHAT SEND] Linking attachments:', messageAttachmentIds, 'to message:', userMessageId);
+      try {
+        // Files picked from "My Files" (or sent with an edited question) keep their first message and are linked to this one too
+        await linkAttachmentsToMessage(supabase, userId, userMessageId, messageAttachmentIds);
+      } catch (linkError) {
+        console.error('[CHAT SEND] Error linking attachments to message:', linkError);
+      }
+    }
+
+    // Give files still in the processing queue a chance to finish (the client already waits for its uploads)
+    let fileJobs = new Map<string, FileProcessingJob>();
+    if (messageAttachmentIds.length > 0) {
+      try {
+        fileJobs = await waitForFileJobs(supabase, userId, messageAttachmentIds, FILE_PROCESSING_WAIT_MS);
+        console.log('[CHAT SEND] File jobs:', Array.from(fileJobs.values(), job => `${job.attachment_id}:${job.status}`));
+      } catch (jobsError) {
+        console.error('[CHAT SEND] Failed to check file jobs:', jobsError);
+      }
+    }
+
+    const quizTopic = parseQuizCommand(actualContent);
+    const replyTokens = quizTopic !== null ? QUIZ_REPLY_TOKENS : MAX_REPLY_TOKENS;
+
+    const { messages: messagesForAI, attachments: pathAttachments } = await getMessages(supabase, admin, userId, actualChatId, userMessageId, fileJobs);
+
+    // Only the excerpts of the conversation's files that are relevant to this question go into the prompt
+    let sources: FileSource[] = [];
+    let excerpts = '';
+    let tableAnswers = '';
+    if (pathAttachments.length > 0) {
+      try {
+        const chunks = await retrieveChunks(supabase, userId, pathAttachments, actualContent);
+        sources = await toFileSources(supabase, chunks, pathAttachments);
+        excerpts = formatExcerpts(chunks, pathAttachments);
+        console.log('[CHAT SEND] Retrieved', chunks.length, 'excerpts, length:', excerpts.length);
+      } catch (retrievalError) {
+        console.error('[CHAT SEND] Retrieval failed:', retrievalError);
+      }
+      // Arithmetic over spreadsheets is done here, not by the model
+      try {
+        tableAnswers = await computeTableAnswers(supabase, userId, pathAttachments, actualContent);
+        if (tableAnswers) console.log('[CHAT SEND] Computed table answers, length:', tableAnswers.length);
+      } catch (tablesError) {
+        console.error('[CHAT SEND] Table analysis failed:', tablesError);
+      }
+    }
+
+    // Build the final content with file notes, excerpts and computed results
+    const currentMessage = messagesForAI.find((m: any) => m.id === userMessageId);
+    const finalContent = (currentMessage?.content ?? actualContent)
+      + (excerpts ? `\n\n${excerpts}` : '')
+      + (tableAnswers ? `\n\n${tableAnswers}` : '');
+    console.log('[CHAT SEND] Final content length (message + excerpts + computed results):', finalContent.length);
 
     // 4: Load teacher system prompt if chat is associated with a teacher
     let teacherSystemPrompt = '';
+    let teacherName = '';
     if (resolvedTeacherId) {
       try {
         const { data: teacher } = await supabase
           .from('custom_teachers')
-          .select('system_prompt')
+          .select('name, system_prompt')
           .eq('id', resolvedTeacherId)
           .eq('user_id', userId) // Security: ensure teacher belongs to user
           .single();
         if (teacher?.system_prompt) {
           teacherSystemPrompt = teacher.system_prompt;
         }
+        teacherName = teacher?.name || '';
       } catch (err) {
         console.error('Error fetching teacher system prompt:', err);
       }
@@ -437,193 +397,247 @@ export async function POST(req: Request) {
       }
     } catch {}
 
-    // 6: Call OpenAI with streaming
-    // Create a ReadableStream to stream the response
-    const stream = new ReadableStream({
-      async start(controller) {
-        const encoder = new TextEncoder();
-        let fullAnswer = '';
-        let aiError: string | null = null;
+    // 5b: What the student has shown they understand, across chats, that matters here
+    let masteryPrompt = '';
+    try {
+      const recentText = messagesForAI.slice(-6).map((m: any) => m.content).concat(teacherName).join('\n');
+      masteryPrompt = await buildMasteryPrompt(supabase, userId, actualChatId, recentText);
+    } catch (masteryError) {
+      console.error('[CHAT SEND] Failed to load concept mastery:', masteryError);
+    }
+
+    // 5c: The tutor's course outline (built from its syllabus) with the student's progress
+    let curriculum: Curriculum | null = null;
+    if (resolvedTeacherId) {
+      try {
+        curriculum = await loadCurriculum(supabase, userId, resolvedTeacherId);
+      } catch (curriculumError) {
+        console.error('[CHAT SEND] Failed to load curriculum:', curriculumError);
+      }
+    }
+
+
+    // 6: Build the prompt: teacher system prompt first (if exists), else default educational prompt, then user settings, then conversation
+    const systemMessages: LLMMessage[] = [];
+    if (teacherSystemPrompt) {
+      systemMessages.push({ role: 'system', content: teacherSystemPrompt });
+    } else {
+      systemMessages.push({ role: 'system', content: DEFAULT_EDUCATIONAL_SYSTEM_PROMPT });
+    }
+    if (userSystemPrompt) {
+      systemMessages.push({ role: 'system', content: userSystemPrompt });
+    }
+    systemMessages.push({ role: 'system', content: QUIZ_INSTRUCTIONS });
+    if (masteryPrompt) {
+      systemMessages.push({ role: 'system', content: masteryPrompt });
+    }
+    if (curriculum) {
+      systemMessages.push({ role: 'system', content: curriculumInstructions(curriculum) });
+    }
+    if (quizTopic !== null) {
+      systemMessages.push({ role: 'system', content: quizCommandInstructions(quizTopic) });
+    }
+    if (sources.length > 0) {
+      systemMessages.push({ role: 'system', content: CITATION_INSTRUCTIONS });
+    }
+
+    // The just-saved user message is replaced by finalContent (which includes file excerpts)
+    const history: HistoryTurn[] = messagesForAI
+      .filter((m: any) => m.id !== userMessageId)
+      .map((m: any) => ({ id: m.id, role: m.role, content: m.content }))
+      .concat([{ id: userMessageId, role: 'user', content: finalContent }]);
+
+    const messages = await buildChatContext({
+      supabase,
+      userId,
+      chatId: actualChatId,
+      llm,
+      systemMessages,
+      history,
+      replyTokens,
+    });
+    const inputTokens = countTokens(messages);
+
+    // Hold the expected cost now (the whole prompt, full-length reply) so concurrent sends can't
+    // spend the same balance. It is settled to the metered usage once the answer is done.
+    const newAttachments = !isRegenerate && Array.isArray(attachmentIds) ? attachmentIds.length : 0;
+    const estimate = priceUsage('tutor', {
+      inputTokens,
+      outputTokens: replyTokens,
+      attachments: newAttachments,
+    });
+    const hold = await holdCredits(admin, userId, 'tutor', estimate.credits, 'Tutor message', { chatId: actualChatId, messageId: userMessageId });
+    if (!hold) {
+      return entitlementDenied('tutor_credits', planId);
+    }
+
+    // 6b: Call the LLM provider with streaming
+    // Stream the reply as numbered SSE events the client can resume after a dropped connection
+    return await createResumableResponse(supabase, userId, async ({ push: send, signal }) => {
+      let fullAnswer = '';
+      // The answer without its quiz, progress and curriculum blocks, as the student sees it
+      let shownAnswer = '';
+      const quizFilter = createQuizBlockFilter();
+      const progressFilter = createProgressBlockFilter();
+      const curriculumFilter = createCurriculumBlockFilter();
+      let interrupted = false;
+
+      try {
+        if (sources.length > 0) {
+          // Lets the client render [SourceN] markers while the answer streams
+          send({ sources });
+        }
 
         try {
-          const messagesForAI = await getMessages(supabase, userId, actualChatId);
-          // Build messages array: teacher system prompt first (if exists), else default educational prompt, then user settings, then conversation
-          const systemMessages = [];
-          if (teacherSystemPrompt) {
-            systemMessages.push({ role: 'system', content: teacherSystemPrompt });
-          } else {
-            systemMessages.push({ role: 'system', content: DEFAULT_EDUCATIONAL_SYSTEM_PROMPT });
+          for await (const content of llm.stream(messages, { maxTokens: replyTokens, temperature: 0.7, signal })) {
+            fullAnswer += content;
+            const wasInQuiz = quizFilter.inBlock;
+            // Forward chunk to client (without quiz blocks, which hold the answers, progress notes and curriculum marks)
+            const shown = curriculumFilter.push(progressFilter.push(quizFilter.push(content)));
+            if (shown) {
+              shownAnswer += shown;
+              send({ content: shown });
+            }
+            // Lets the client show that a quiz is on its way
+            if (quizFilter.inBlock && !wasInQuiz) send({ quizPending: true });
           }
-          if (userSystemPrompt) {
-            systemMessages.push({ role: 'system', content: userSystemPrompt });
+        } catch (streamError) {
+          if (!signal.aborted) throw streamError;
+          interrupted = true;
+          console.log('[CHAT SEND] Generation stopped after', fullAnswer.length, 'characters');
+        }
+        const rest = curriculumFilter.push(progressFilter.push(quizFilter.flush()) + progressFilter.flush()) + curriculumFilter.flush();
+        if (rest) {
+          shownAnswer += rest;
+          if (!interrupted) send({ content: rest });
+        }
+        const quiz = quizFilter.blocks.map(block => parseQuizBlock(block, quizTopic || '')).find(draft => draft !== null) || null;
+        if (quizFilter.blocks.length > 0 && !quiz) {
+          console.log('[CHAT SEND] Could not parse the quiz in the answer');
+        }
+
+        // Stopped before anything was generated: nothing to save or charge
+        if (interrupted && !shownAnswer.trim() && !quiz) {
+          await settleCredits(admin, hold, 0, 'Stopped before answering');
+          // The question is saved; the client still needs the chat it is in
+          send({ done: true, chatId: actualChatId, userMessageId, interrupted });
+          return;
+        }
+
+        // 6c: Settle the held credits to the metered usage (stopped answers are free unless they got far enough)
+        const outputTokens = estimateTokens(fullAnswer);
+        const metered = priceUsage('tutor', { inputTokens, outputTokens, attachments: newAttachments });
+        // A stopped answer is only charged once it got at least halfway
+        const isFree = interrupted && outputTokens < replyTokens / 2;
+        const charged = await settleCredits(admin, hold, isFree ? 0 : metered.credits, isFree ? 'Stopped answer' : 'Tutor message usage');
+        const usage: MessageUsage = { ...metered, credits: charged };
+
+        // After streaming completes, save to DB and do post-processing
+        try {
+          // DEBUG: Log server-side content before DB insert (point 1)
+          const hasMatrix = /\\begin\{[^}]+\}[\s\S]*?\\end\{[^}]+\}/.test(fullAnswer);
+          if (hasMatrix) {
+            const snippet = fullAnswer.slice(0, 200).replace(/\n/g, '\\n');
+            const backslashCount = (fullAnswer.match(/\\\\/g) || []).length;
+            console.log('[DEBUG POINT 1] Server received fullAnswer snippet:', JSON.stringify(snippet));
+            console.log('[DEBUG POINT 1] Count of \\\\ sequences:', backslashCount);
+            console.log('[DEBUG POINT 1] Full length:', fullAnswer.length);
           }
           
-          const payload = {
-            model: OPENAI_MODEL,
-            messages: (
-              systemMessages
-              .concat(messagesForAI.map((m: any) => ({ role: m.role, content: m.content })))
-              .concat([{ role: 'user', content: finalContent }])
-            ),
-            max_tokens: 512,
-            temperature: 0.7,
-            stream: true, // Enable streaming
-          };
-          
-          const aiRes = await fetch(OPENAI_API_URL, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${OPENAI_API_KEY}` },
-            body: JSON.stringify(payload),
-          });
-
-          if (!aiRes.ok) {
-            const errorData = await aiRes.json().catch(() => ({ error: { message: 'Unknown AI error' } }));
-            aiError = errorData.error ? errorData.error.message : 'Unknown AI error';
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: aiError })}\n\n`));
-            controller.close();
-            return;
-          }
+          // 7: Insert AI response
+          const { data: aiMessage, error: aiMessageError } = await supabase
+            .from('messages')
+            .insert({ chat_id: actualChatId, user_id: userId, role: 'assistant', content: shownAnswer.trim(), parent_id: userMessageId, interrupted, usage, sources: sources.length > 0 ? sources : null, created_at: new Date().toISOString() })
+            .select('id')
+            .single();
+          let quizId: string | null = null;
+          let curriculumUpdated = false;
+          if (aiMessageError) {
+            console.error('Failed to save AI response:', aiMessageError);
+          } else {
+            // The new answer is now the end of the visible branch
+            await setActiveLeafId(supabase, userId, actualChatId, aiMessage.id);
 
-          // Parse OpenAI streaming response
-          const reader = aiRes.body?.getReader();
-          const decoder = new TextDecoder();
-          
-          if (!reader) {
-            aiError = 'No response body from OpenAI';
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: aiError })}\n\n`));
-            controller.close();
-            return;
-          }
+            if (quiz) {
+              try {
+                quizId = await saveQuiz(admin, userId, actualChatId, aiMessage.id, quiz);
+                console.log('[CHAT SEND] Saved quiz', quizId, 'on', quiz.topic, 'with', quiz.questions.length, 'questions');
+              } catch (quizError) {
+                console.error('[CHAT SEND] Failed to save quiz:', quizError);
+              }
+            }
 
-          let buffer = '';
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-            for (const line of lines) {
-              if (line.trim() === '' || !line.startsWith('data: ')) continue;
-              
-              // Handle OpenAI's [DONE] marker
-              if (line.includes('[DONE]')) {
-                continue;
+            // The tutor's notes on the student's answers to its check questions
+            const progress = progressFilter.blocks.flatMap(block => parseProgressBlock(block));
+            if (progress.length > 0) {
+              try {
+                const recorded = await recordEvidence(admin, userId, toCheckEvidence(progress, actualChatId, userMessageId));
+                console.log('[CHAT SEND] Recorded', recorded, 'concept evidence from', progress.length, 'progress notes');
+              } catch (progressError) {
+                console.error('[CHAT SEND] Failed to record progress:', progressError);
               }
+            }
 
+            // The topics the tutor marked as covered or mastered
+            if (curriculum && curriculumFilter.blocks.length > 0) {
+              const marks = curriculumFilter.blocks.map(block => parseCurriculumBlock(block));
               try {
-                const jsonStr = line.slice(6); // Remove 'data: ' prefix
-                const data = JSON.parse(jsonStr);
-
-                // Handle content chunks
-                if (data.choices && data.choices[0] && data.choices[0].delta) {
-                  const content = data.choices[0].delta.content;
-                  if (content) {
-                    fullAnswer += content;
-                    // Forward chunk to client
-                    controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
-                  }
-                }
-
-                // Handle finish reason (stream complete)
-                if (data.choices && data.choices[0] && data.choices[0].finish_reason) {
-                  // Stream is done
-                  break;
-                }
-              } catch (e) {
-                console.error('Error parsing OpenAI SSE chunk:', e);
+                curriculumUpdated = await markTopics(supabase, userId, curriculum, {
+                  covered: marks.flatMap(mark => mark.covered),
+                  mastered: marks.flatMap(mark => mark.mastered),
+                }) > 0;
+              } catch (curriculumError) {
+                console.error('[CHAT SEND] Failed to save curriculum progress:', curriculumError);
               }
             }
-          }
 
-          // After streaming completes, save to DB and do post-processing
-          try {
-            // DEBUG: Log server-side content before DB insert (point 1)
+            // DEBUG: Log after DB insert (point 2) - verify what was saved
             const hasMatrix = /\\begin\{[^}]+\}[\s\S]*?\\end\{[^}]+\}/.test(fullAnswer);
             if (hasMatrix) {
-              const snippet = fullAnswer.slice(0, 200).replace(/\n/g, '\\n');
-              const backslashCount = (fullAnswer.match(/\\\\/g) || []).length;
-              console.log('[DEBUG POINT 1] Server received fullAnswer snippet:', JSON.stringify(snippet));
-              console.log('[DEBUG POINT 1] Count of \\\\ sequences:', backslashCount);
-              console.log('[DEBUG POINT 1] Full length:', fullAnswer.length);
-            }
-            
-            // 7: Insert AI response
-            const { error: aiMessageError } = await supabase
-              .from('messages')
-              .insert({ chat_id: actualChatId, user_id: userId, role: 'assistant', content: fullAnswer, created_at: new Date().toISOString() });
-            if (aiMessageError) {
-              console.error('Failed to save AI response:', aiMessageError);
-            } else {
-              // DEBUG: Log after DB insert (point 2) - verify what was saved
-              const hasMatrix = /\\begin\{[^}]+\}[\s\S]*?\\end\{[^}]+\}/.test(fullAnswer);
-              if (hasMatrix) {
-                const { data: savedMsg } = await supabase
-                  .from('messages')
-                  .select('content')
-                  .eq('chat_id', actualChatId)
-                  .eq('user_id', userId)
-                  .eq('role', 'assistant')
-                  .order('created_at', { ascending: false })
-                  .limit(1)
-                  .single();
-                if (savedMsg) {
-                  const snippet = savedMsg.content.slice(0, 200).replace(/\n/g, '\\n');
-                  const backslashCount = (savedMsg.content.match(/\\\\/g) || []).length;
-                  console.log('[DEBUG POINT 2] After DB insert - saved content snippet:', JSON.stringify(snippet));
-                  console.log('[DEBUG POINT 2] Count of \\\\ sequences:', backslashCount);
-                }
+              const { data: savedMsg } = await supabase
+                .from('messages')
+                .select('content')
+                .eq('chat_id', actualChatId)
+                .eq('user_id', userId)
+                .eq('role', 'assistant')
+                .order('created_at', { ascending: false })
+                .limit(1)
+                .single();
+              if (savedMsg) {
+                const snippet = savedMsg.content.slice(0, 200).replace(/\n/g, '\\n');
+                const backslashCount = (savedMsg.content.match(/\\\\/g) || []).length;
+                console.log('[DEBUG POINT 2] After DB insert - saved content snippet:', JSON.stringify(snippet));
+                console.log('[DEBUG POINT 2] Count of \\\\ sequences:', backslashCount);
               }
             }
-            
-            // 7b: Generate and update chat title for new chats
-            if (isNewChat && actualContent.trim()) {
-              try {
-                const generatedTitle = await generateChatTitle(actualContent);
-                await supabase
-                  .from('chats')
-                  .update({ title: generatedTitle })
-                  .eq('id', actualChatId)
-                  .eq('user_id', userId);
-              } catch (titleError) {
-                console.error('Failed to update chat title:', titleError);
-              }
-            }
-            
-            // 8: Decrement credits
-            const { error: updateError } = await supabase
-              .from('users')
-              .update({ credits: credits - 1 })
-              .eq('id', userId);
-            if (updateError) {
-              console.error('Failed to decrement credits:', updateError);
+          }
+          
+          // 7b: Generate and update chat title for new chats
+          if (isNewChat && actualContent.trim()) {
+            try {
+              const generatedTitle = await generateChatTitle(llm, actualContent);
+              await supabase
+                .from('chats')
+                .update({ title: generatedTitle })
+                .eq('id', actualChatId)
+                .eq('user_id', userId);
+            } catch (titleError) {
+              console.error('Failed to update chat title:', titleError);
             }
-
-            // Send completion signal
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ done: true, chatId: actualChatId })}\n\n`));
-          } catch (dbError) {
-            console.error('Error saving to database:', dbError);
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: 'Failed to save response' })}\n\n`));
           }
-
-          controller.close();
-        } catch (streamError) {
-          console.error('Streaming error:', streamError);
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: streamError instanceof Error ? streamError.message : 'Streaming failed' })}\n\n`));
-          controller.close();
+          
+          // Send completion signal
+          send({ done: true, chatId: actualChatId, messageId: aiMessage?.id, userMessageId, interrupted, usage, sources, quizId, curriculumUpdated });
+        } catch (dbError) {
+          console.error('Error saving to database:', dbError);
+          send({ error: 'Failed to save response' });
         }
+      } catch (streamError) {
+        console.error('Streaming error:', streamError);
+        await settleCredits(admin, hold, 0, 'Failed answer');
+        send({ error: streamError instanceof Error ? streamError.message : 'Streaming failed' });
       }
     });
-
-    // Return streaming response
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
   } catch (error) {
     console.error('Error in POST /api/chat/send:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
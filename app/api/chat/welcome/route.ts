@@ -1,10 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
 import { randomUUID } from 'crypto';
-
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY!;
+import { getLLMProvider } from '@/lib/llm';
+import { loadEntitlements } from '@/lib/entitlements/server';
+import { setActiveLeafId } from '@/lib/chat/tree';
+import { Curriculum, findNextTopic, formatOutline, loadCurriculum } from '@/lib/curriculum';
 
 export async function POST(req: Request) {
   try {
@@ -115,8 +115,18 @@ export async function POST(req: Request) {
 
 Keep it concise (2-4 sentences) but warm and encouraging.`;
 
-    // Include syllabus context if available
-    if (teacher.syllabus_text && teacher.syllabus_text.trim()) {
+    // The course outline built from the syllabus, when there is one, else the start of the syllabus
+    let curriculum: Curriculum | null = null;
+    try {
+      curriculum = await loadCurriculum(supabase, userId, teacherId);
+    } catch (curriculumError) {
+      console.error('[WELCOME DEBUG] Failed to load curriculum:', curriculumError);
+    }
+    if (curriculum) {
+      const next = findNextTopic(curriculum);
+      console.log('[WELCOME DEBUG] Including curriculum in welcome prompt:', { units: curriculum.units.length, nextTopicId: next?.id });
+      welcomePrompt += `\n\nThe student's syllabus has been turned into this course outline ([ ] not started, [~] covered, [x] mastered):\n\n${formatOutline(curriculum, true)}\n\n${next ? `Suggest starting with ${next.id} ${next.title}, unless your system prompt names another starting topic.` : 'The student has mastered every topic; offer to review.'}`;
+    } else if (teacher.syllabus_text && teacher.syllabus_text.trim()) {
       console.log('[WELCOME DEBUG] Including syllabus in welcome prompt:', {
         syllabusLength: teacher.syllabus_text.length,
         truncatedLength: Math.min(2000, teacher.syllabus_text.length)
@@ -131,16 +141,14 @@ Keep it concise (2-4 sentences) but warm and encouraging.`;
       welcomePrompt += `\n\nYour teaching persona and context:\n${teacher.system_prompt}`;
     }
 
-    // Call OpenAI to generate welcome message
-    const openAIResponse = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: OPENAI_MODEL,
-        messages: [
+    // Generate welcome message with the model tier of this user's plan
+    const { entitlements } = await loadEntitlements(supabase, userId);
+    const llm = getLLMProvider(entitlements.modelTier);
+
+    let welcomeMessage: string;
+    try {
+      welcomeMessage = await llm.complete(
+        [
           {
             role: 'system',
             content: `You are ${teacher.name || 'an AI tutor'}. Generate a personalized welcome message for a new student starting their learning journey.`
@@ -150,35 +158,33 @@ Keep it concise (2-4 sentences) but warm and encouraging.`;
             content: welcomePrompt
           }
         ],
-        max_tokens: 300,
-        temperature: 0.7
-      })
-    });
-
-    if (!openAIResponse.ok) {
-      const errorData = await openAIResponse.json().catch(() => ({ error: { message: 'OpenAI API error' } }));
+        { maxTokens: 300, temperature: 0.7 }
+      );
+    } catch (aiError) {
       return NextResponse.json({ 
-        error: errorData.error?.message || 'Failed to generate welcome message' 
+        error: aiError instanceof Error ? aiError.message : 'Failed to generate welcome message' 
       }, { status: 500 });
     }
+    welcomeMessage = welcomeMessage || 'Hello! I\'m excited to help you learn. Let\'s get started!';
 
-    const aiData = await openAIResponse.json();
-    const welcomeMessage = aiData.choices?.[0]?.message?.content || 'Hello! I\'m excited to help you learn. Let\'s get started!';
-
-    // Save welcome message to database
-    const { error: messageError } = await supabase
+    // Save welcome message to database (root of the conversation tree)
+    const { data: savedMessage, error: messageError } = await supabase
       .from('messages')
       .insert({
         chat_id: actualChatId,
         user_id: userId,
         role: 'assistant',
         content: welcomeMessage,
+        parent_id: null,
         created_at: now
-      });
+      })
+      .select('id')
+      .single();
 
     if (messageError) {
       return NextResponse.json({ error: `Failed to save welcome message: ${messageError.message}` }, { status: 500 });
     }
+    await setActiveLeafId(supabase, userId, actualChatId, savedMessage.id);
 
     return NextResponse.json({
       chatId: actualChatId,
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { debitCredits } from '@/lib/credits/ledger';
 
 export async function POST(req: Request) {
   const authResult = await getAuthenticatedUser(req);
@@ -10,32 +11,16 @@ export async function POST(req: Request) {
   const userId = user.id;
 
   const { amount } = await req.json().catch(() => ({ amount: 1 }));
-  const decrementBy = (typeof amount === 'number' && amount > 0) ? amount : 1;
-
-  // Fetch current credits
-  const { data, error: getError } = await supabase
-    .from('users')
-    .select('credits')
-    .eq('id', userId)
-    .single();
-  if (getError) return NextResponse.json({ error: getError.message }, { status: 400 });
-  let currentCredits = typeof data?.credits === 'number' ? data.credits : 15;
-
-  if (currentCredits < decrementBy) {
-    return NextResponse.json({ error: 'Insufficient credits' }, { status: 402 });
+  const decrementBy = (typeof amount === 'number' && amount > 0) ? Math.floor(amount) || 1 : 1;
+
+  // Balance check and debit happen atomically in the ledger
+  try {
+    const result = await debitCredits(supabase, userId, decrementBy, 'Credits used');
+    if (!result.applied) {
+      return NextResponse.json({ error: 'Insufficient credits' }, { status: 402 });
+    }
+    return NextResponse.json({ credits: result.balance });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to update credits' }, { status: 400 });
   }
-  // Decrement atomically
-  const newCredits = currentCredits - decrementBy;
-
-  const { error: updateError } = await supabase
-    .from('users')
-    .update({ credits: newCredits })
-    .eq('id', userId);
-  if (updateError) return NextResponse.json({ error: updateError.message }, { status: 400 });
-  return NextResponse.json({ credits: newCredits });
 }
-
-
-
-
-
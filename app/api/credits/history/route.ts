@@ -1,6 +1,16 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
 
+// Fallback labels for ledger entries without a description
+const TRANSACTION_LABELS: Record<string, string> = {
+  signup_bonus: 'Welcome Credits',
+  opening_balance: 'Opening Balance',
+  purchase: 'Credit Purchase',
+  usage: 'Message Sent',
+  refund: 'Refund',
+  adjustment: 'Balance Adjustment',
+};
+
 export async function GET(req: Request) {
   const authResult = await getAuthenticatedUser(req);
   if (!authResult) {
@@ -9,15 +19,13 @@ export async function GET(req: Request) {
   const { user, supabase } = authResult;
   const userId = user.id;
 
-  // Fetch credit transactions - only purchases (transaction_type should be 'purchase')
-  // The transaction_type field might need to be checked based on your schema
+  // Fetch the credit ledger: purchases, usage, refunds and adjustments
   const { data, error } = await supabase
     .from('credit_transactions')
-    .select('id, amount, transaction_type, description, created_at')
+    .select('id, amount, transaction_type, description, balance_after, pool, created_at')
     .eq('user_id', userId)
-    .eq('transaction_type', 'purchase') // Only show purchase transactions
     .order('created_at', { ascending: false })
-    .limit(50); // Limit to last 50 purchases
+    .limit(50); // Limit to last 50 transactions
 
   // If error or no data, return empty array (gracefully handle missing table or no transactions)
   if (error || !data) {
@@ -25,18 +33,20 @@ export async function GET(req: Request) {
   }
 
   // Format the transactions for the frontend
-  const transactions = data.map((transaction) => ({
+  const transactions = data.map((transaction: any) => ({
     id: transaction.id,
     date: new Date(transaction.created_at).toLocaleDateString('en-US', { 
       month: 'short', 
       day: 'numeric', 
       year: 'numeric' 
     }),
-    action: transaction.description || 'Credit Purchase',
-    amount: transaction.amount,
-    type: 'add' as const, // Purchases are always additions
+    action: transaction.description || TRANSACTION_LABELS[transaction.transaction_type] || 'Credit Change',
+    amount: Math.abs(transaction.amount),
+    type: transaction.amount >= 0 ? 'add' as const : 'subtract' as const,
+    transactionType: transaction.transaction_type,
+    balanceAfter: transaction.balance_after ?? null,
+    pool: transaction.pool || 'tutor',
   }));
 
   return NextResponse.json({ transactions });
 }
-
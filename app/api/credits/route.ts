@@ -1,7 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
-
-const INITIAL_CREDITS = 15;
+import { getCreditBalance } from '@/lib/credits/ledger';
 
 export async function GET(req: Request) {
   const authResult = await getAuthenticatedUser(req);
@@ -10,18 +9,14 @@ export async function GET(req: Request) {
   }
   const { user, supabase } = authResult;
   const userId = user.id;
-  // Fetch credits from users, fallback to INITIAL_CREDITS if not set
-  const { data, error: getError } = await supabase
-    .from('users')
-    .select('credits')
-    .eq('id', userId)
-    .single();
-  if (getError) return NextResponse.json({ error: getError.message }, { status: 400 });
-  const credits = typeof data?.credits === 'number' ? data.credits : INITIAL_CREDITS;
-  return NextResponse.json({ credits });
+  // Each balance is the sum of its pool in the credit ledger
+  try {
+    const [credits, atlasCredits] = await Promise.all([
+      getCreditBalance(supabase, userId, 'tutor'),
+      getCreditBalance(supabase, userId, 'atlas'),
+    ]);
+    return NextResponse.json({ credits, atlasCredits });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load credits' }, { status: 400 });
+  }
 }
-
-
-
-
-
@@ -1,25 +1,50 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { deleteAttachment, getUserFile, renameUserFile } from '@/lib/files/library';
 
+// A file of "My Files" with a preview of its text
 export async function GET(req: Request, { params }: any) {
   const authResult = await getAuthenticatedUser(req);
   if (!authResult) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
   const { user, supabase } = authResult;
-  const userId = user.id;
   const { fileId } = params;
-  const { data: file, error } = await supabase
-    .from('files')
-    .select('*')
-    .eq('id', fileId)
-    .eq('user_id', userId)
-    .single();
-  if (error || !file) return NextResponse.json({ error: 'Not found' }, { status: 404 });
-  // Respond with file metadata; for secure download, you could redirect to signed URL
-  return NextResponse.json({ ...file });
+  try {
+    const file = await getUserFile(supabase, user.id, fileId);
+    if (!file) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ file });
+  } catch (error) {
+    console.error('[FILES] Failed to load file:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load file' }, { status: 500 });
+  }
+}
+
+// Renames a file: { filename }
+export async function PATCH(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { fileId } = params;
+  let body;
+  try { body = await req.json(); } catch { body = {}; }
+  const { filename } = body || {};
+  if (!filename || typeof filename !== 'string' || !filename.trim() || filename.length > 255 || /[\\/]/.test(filename)) {
+    return NextResponse.json({ error: 'filename (non-empty, without slashes) required' }, { status: 400 });
+  }
+  try {
+    const file = await renameUserFile(supabase, user.id, fileId, filename);
+    if (!file) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ file });
+  } catch (error) {
+    console.error('[FILES] Failed to rename file:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to rename file' }, { status: 500 });
+  }
 }
 
+// Deletes a file; it is removed from every message it was sent with
 export async function DELETE(req: Request, { params }: any) {
   const authResult = await getAuthenticatedUser(req);
   if (!authResult) {
@@ -36,16 +61,11 @@ export async function DELETE(req: Request, { params }: any) {
     .eq('user_id', userId)
     .single();
   if (error || !attachment) return NextResponse.json({ error: 'Not found' }, { status: 404 });
-  // Delete from Supabase Storage
-  if (attachment.file_path) {
-    await supabase.storage.from('chat-files').remove([attachment.file_path]);
+  try {
+    await deleteAttachment(supabase, attachment);
+  } catch (deleteError) {
+    console.error('[FILES] Failed to delete file:', deleteError);
+    return NextResponse.json({ error: deleteError instanceof Error ? deleteError.message : 'Failed to delete file' }, { status: 500 });
   }
-  // Delete attachment row
-  await supabase.from('attachments').delete().eq('id', fileId).eq('user_id', userId);
   return NextResponse.json({ success: true });
 }
-
-
-
-
-
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { SIGNED_URL_TTL_SECONDS, signFileUrl } from '@/lib/files/urls';
+
+// A fresh signed link to one of the user's files (links in chat expire)
+export async function GET(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { fileId } = params;
+  const { data: attachment } = await supabase
+    .from('attachments')
+    .select('file_path')
+    .eq('id', fileId)
+    .eq('user_id', user.id)
+    .neq('quarantine_status', 'quarantined')
+    .maybeSingle();
+  if (!attachment?.file_path) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const url = await signFileUrl(supabase, attachment.file_path);
+  if (!url) return NextResponse.json({ error: 'Failed to get file URL' }, { status: 500 });
+  return NextResponse.json({ url, expiresIn: SIGNED_URL_TTL_SECONDS });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { getFileJobs } from '@/lib/files/jobs';
+
+// Processing state of the given files: GET /api/files/jobs?attachmentIds=a,b
+export async function GET(req: Request) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const attachmentIds = (new URL(req.url).searchParams.get('attachmentIds') || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  try {
+    const jobs = await getFileJobs(supabase, user.id, attachmentIds);
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load file jobs' }, { status: 400 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { drainFileJobs } from '@/lib/files/worker';
+import { deleteOrphanedUploads } from '@/lib/files/library';
+
+// Node.js runtime for file extraction (PDF parsing, OCR)
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Stop claiming new jobs early enough for the last one to finish
+const CLAIM_WINDOW_MS = 30000;
+
+// Runs queued file jobs, and deletes uploads that were never sent, for hosts
+// without a long-running server process.
+// Call from a cron with `Authorization: Bearer <CRON_SECRET>`.
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const admin = createAdminClient();
+  if (!admin) {
+    return NextResponse.json({ error: 'File processing is not configured' }, { status: 503 });
+  }
+  try {
+    const processed = await drainFileJobs(admin, `cron-${Date.now()}`, Date.now() + CLAIM_WINDOW_MS);
+    const orphansDeleted = await deleteOrphanedUploads(admin);
+    return NextResponse.json({ processed, orphansDeleted });
+  } catch (error) {
+    console.error('[FILE WORKER] Cron run failed:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'File processing failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { listUserFiles } from '@/lib/files/library';
+
+// The user's files for "My Files", newest first.
+// ?query= matches file names and text; ?limit= and ?offset= page through them.
+export async function GET(req: Request) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { searchParams } = new URL(req.url);
+  const limit = Number(searchParams.get('limit')) || undefined;
+  const offset = Number(searchParams.get('offset')) || 0;
+
+  try {
+    const files = await listUserFiles(supabase, user.id, { query: searchParams.get('query') || '', limit, offset });
+    return NextResponse.json({ files });
+  } catch (error) {
+    console.error('[FILES] Failed to list files:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to list files' }, { status: 500 });
+  }
+}
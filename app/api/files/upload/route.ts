@@ -1,8 +1,15 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
 import { randomUUID } from 'crypto';
+import { countUploadsToday, entitlementDenied, getStorageUsage, loadEntitlements } from '@/lib/entitlements/server';
+import { enqueueFileProcessing } from '@/lib/files/jobs';
+import { wakeFileWorker } from '@/lib/files/worker';
+import { isOcrLanguage } from '@/lib/files/languages';
+import { findStoredCopy, hashContent, StoredCopy } from '@/lib/files/dedup';
+import { signFileUrl } from '@/lib/files/urls';
+import { checkUpload } from '@/lib/files/validation';
 
-// Use Node.js runtime for PDF extraction
+// Use Node.js runtime (wakes the in-process file worker)
 export const runtime = 'nodejs';
 
 // Removed deprecated config - App Router handles this automatically
@@ -13,10 +20,16 @@ async function parseMultipart(req: Request) {
   const form = await req.formData();
   const file = form.get('file');
   const chatId = form.get('chatId');
-  if (!file || typeof file === 'string' || !chatId || typeof chatId !== 'string') {
-    throw new Error('Must provide file (as File) and chatId (as string)');
+  // Without a chatId the file isn't for a chat (e.g. a tutor's syllabus) and no chat is created
+  if (!file || typeof file === 'string' || (chatId !== null && (!chatId || typeof chatId !== 'string'))) {
+    throw new Error('Must provide file (as File) and optionally chatId (as string)');
   }
-  return { file, chatId };
+  // Optional language to read images and scanned pages in; defaults to the user's setting
+  const ocrLanguage = form.get('ocrLanguage');
+  if (ocrLanguage !== null && !isOcrLanguage(ocrLanguage)) {
+    throw new Error('Unsupported ocrLanguage');
+  }
+  return { file, chatId: typeof chatId === 'string' ? chatId : null, ocrLanguage: typeof ocrLanguage === 'string' ? ocrLanguage : null };
 }
 
 export async function POST(req: Request) {
@@ -26,9 +39,9 @@ export async function POST(req: Request) {
   }
   const { user, supabase } = authResult;
   const userId = user.id;
-  let file: File, chatId: string;
+  let file: File, chatId: string | null, ocrLanguage: string | null;
   try {
-    ({ file, chatId } = await parseMultipart(req));
+    ({ file, chatId, ocrLanguage } = await parseMultipart(req));
   } catch (err) {
     return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
   }
@@ -38,21 +51,54 @@ export async function POST(req: Request) {
   
   // Ensure chat exists (create if needed)
   const now = new Date().toISOString();
-  const { data: existingChat } = await supabase
-    .from('chats')
-    .select('id')
-    .eq('id', actualChatId)
-    .eq('user_id', userId)
-    .maybeSingle();
+  const { data: existingChat } = actualChatId
+    ? await supabase
+      .from('chats')
+      .select('id')
+      .eq('id', actualChatId)
+      .eq('user_id', userId)
+      .maybeSingle()
+    : { data: null };
   
-  // Validate file size/type
+  // Validate the plan's upload limits
   const size = file.size;
-  if (size > 30 * 1024 * 1024) return NextResponse.json({ error: 'File too large' }, { status: 413 });
-  const mime = file.type || 'application/octet-stream';
-  const ext = (file.name || '').split('.').pop();
-  const filename = file.name || `upload.${ext}`;
-  
-  if (!existingChat) {
+  const { planId, entitlements } = await loadEntitlements(supabase, userId);
+  if (size > entitlements.maxFileSizeMb * 1024 * 1024) {
+    return entitlementDenied('file_size', planId, entitlements.maxFileSizeMb);
+  }
+  if (entitlements.dailyFileUploads !== null) {
+    const uploadsToday = await countUploadsToday(supabase, userId).catch(() => 0);
+    if (uploadsToday >= entitlements.dailyFileUploads) {
+      return entitlementDenied('file_uploads', planId, entitlements.dailyFileUploads);
+    }
+  }
+  const filename = file.name || 'upload';
+  const bytes = await file.arrayBuffer();
+
+  // The content must be what the extension says; the browser's type isn't trusted
+  const check = checkUpload(new Uint8Array(bytes), filename, file.type || '');
+  if ('error' in check) {
+    return NextResponse.json({ error: check.error }, { status: check.status });
+  }
+  const mime = check.format.mimeType;
+  const contentHash = hashContent(bytes);
+
+  // A file the user already uploaded is not stored again
+  let storedCopy: StoredCopy | null = null;
+  try {
+    storedCopy = await findStoredCopy(supabase, userId, contentHash);
+  } catch (lookupErr) {
+    console.error('[UPLOAD DEBUG] Failed to look up identical uploads:', lookupErr);
+  }
+  // Only new stored files count toward the plan's storage
+  if (!storedCopy) {
+    const storageUsed = await getStorageUsage(supabase, userId).catch(() => 0);
+    if (storageUsed + size > entitlements.storageQuotaMb * 1024 * 1024) {
+      return entitlementDenied('storage', planId, entitlements.storageQuotaMb);
+    }
+  }
+
+  if (actualChatId && !existingChat) {
     // Generate a title from the filename or use default
     const chatTitle = filename || 'File Upload';
     const { error: insertError } = await supabase
@@ -67,55 +113,49 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: `Failed to create chat: ${insertError.message}` }, { status: 400 });
     }
   }
-  const storagePath = `${userId}/${Date.now()}-${filename}`;
-  // Upload to Supabase Storage via signed URL REST
-  const bytes = await file.arrayBuffer();
-  const buffer = Buffer.from(bytes);
-  
-  // Extract text if it's a PDF
-  let extractedText = null;
-  if (mime === 'application/pdf' || ext?.toLowerCase() === 'pdf') {
-    try {
-      const { extractTextFromBuffer } = await import('@/lib/pdfExtractor');
-      extractedText = await extractTextFromBuffer(buffer);
-      console.log('[UPLOAD DEBUG] PDF text extracted, length:', extractedText.length);
-    } catch (extractErr) {
-      console.error('[UPLOAD DEBUG] PDF extraction failed:', extractErr);
-      // Continue with upload even if extraction fails
-    }
+  let storagePath: string;
+  if (storedCopy) {
+    storagePath = storedCopy.file_path;
+    console.log('[UPLOAD DEBUG] Reusing stored file of attachment', storedCopy.id);
+  } else {
+    storagePath = `${userId}/${Date.now()}-${filename}`;
+    // Upload to Supabase Storage via signed URL REST
+    const { error: uploadErr } = await supabase.storage
+      .from('chat-files')
+      .upload(storagePath, new Uint8Array(bytes), { contentType: mime });
+    if (uploadErr) return NextResponse.json({ error: uploadErr.message }, { status: 500 });
   }
-  
-  const { data: storageRes, error: uploadErr } = await supabase.storage
-    .from('chat-files')
-    .upload(storagePath, new Uint8Array(bytes), { contentType: mime });
-  if (uploadErr) return NextResponse.json({ error: uploadErr.message }, { status: 500 });
-  // Get public URL
-  const { data: urlData } = supabase.storage.from('chat-files').getPublicUrl(storagePath);
-  const url = urlData?.publicUrl;
+  // Signed link for the composer's preview (the bucket is private)
+  const url = await signFileUrl(supabase, storagePath);
   if (!url) return NextResponse.json({ error: 'Failed to get file URL' }, { status: 500 });
-  // Create a message placeholder and link attachment record
-  const createdAt = new Date().toISOString();
-  const { data: messageRow, error: messageErr } = await supabase
-    .from('messages')
-    .insert({ chat_id: actualChatId, user_id: userId, role: 'user', content: filename, created_at: createdAt })
-    .select('id')
-    .single();
-  if (messageErr) return NextResponse.json({ error: messageErr.message }, { status: 500 });
-
+  // Create the attachment record; /api/chat/send links it to the user message it is sent with.
+  // (A placeholder message here would show up as a stray branch in the conversation tree.)
   const { data: attachmentRow, error: attachErr } = await supabase
     .from('attachments')
     .insert({
       user_id: userId,
-      message_id: messageRow.id,
+      message_id: null,
       file_name: filename,
       file_path: storagePath,
       file_size: size,
       file_type: mime,
-      extracted_text: extractedText, // Store extracted text if available
+      ocr_language: ocrLanguage,
+      content_hash: contentHash,
+      // The file worker scans it before anything is read from it
+      quarantine_status: 'pending',
     })
     .select('id, created_at')
     .single();
   if (attachErr) return NextResponse.json({ error: attachErr.message }, { status: 500 });
+  // Scanning, text extraction and indexing run in the background worker (reusing an identical file's)
+  let job = null;
+  try {
+    job = await enqueueFileProcessing(supabase, attachmentRow.id);
+    wakeFileWorker();
+  } catch (queueErr) {
+    // The client can queue it again through /api/files/process
+    console.error('[UPLOAD DEBUG] Failed to queue file processing:', queueErr);
+  }
   // Respond
   return NextResponse.json({
     id: attachmentRow.id,
@@ -125,8 +165,7 @@ export async function POST(req: Request) {
     mime,
     chatId: actualChatId, // Return actual UUID
     uploadedAt: attachmentRow.created_at,
-    messageId: messageRow.id,
-    extractedTextLength: extractedText?.length ?? null,
+    job,
   });
 }
 
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { REVIEW_RATINGS, reviewCard } from '@/lib/flashcards';
+
+// Records a review of a card: { rating: again | hard | good | easy }
+export async function POST(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { cardId } = params;
+  let body;
+  try { body = await req.json(); } catch { body = {}; }
+  const { rating } = body || {};
+  if (!REVIEW_RATINGS.includes(rating)) {
+    return NextResponse.json({ error: `rating (${REVIEW_RATINGS.join(', ')}) required` }, { status: 400 });
+  }
+  try {
+    const card = await reviewCard(supabase, user.id, cardId, rating);
+    if (!card) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ card });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to record review:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to record review' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { deleteCard, MAX_BACK_LENGTH, MAX_FRONT_LENGTH, updateCard } from '@/lib/flashcards';
+
+// Edits a card: { front?, back? }; its schedule is kept
+export async function PATCH(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { cardId } = params;
+  let body;
+  try { body = await req.json(); } catch { body = {}; }
+  const { front, back } = body || {};
+  const validFront = front === undefined || (typeof front === 'string' && front.trim() && front.length <= MAX_FRONT_LENGTH);
+  const validBack = back === undefined || (typeof back === 'string' && back.trim() && back.length <= MAX_BACK_LENGTH);
+  if ((front === undefined && back === undefined) || !validFront || !validBack) {
+    return NextResponse.json({ error: `front (up to ${MAX_FRONT_LENGTH} characters) or back (up to ${MAX_BACK_LENGTH}) required` }, { status: 400 });
+  }
+  try {
+    const card = await updateCard(supabase, user.id, cardId, { front, back });
+    if (!card) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ card });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to update card:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to update card' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { cardId } = params;
+  try {
+    const deleted = await deleteCard(supabase, user.id, cardId);
+    if (!deleted) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to delete card:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to delete card' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { addCards, getDeck, MAX_BACK_LENGTH, MAX_FRONT_LENGTH } from '@/lib/flashcards';
+
+// Adds a card written by the user: { front, back }
+export async function POST(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { deckId } = params;
+  let body;
+  try { body = await req.json(); } catch { body = {}; }
+  const { front, back } = body || {};
+  if (typeof front !== 'string' || !front.trim() || front.length > MAX_FRONT_LENGTH
+    || typeof back !== 'string' || !back.trim() || back.length > MAX_BACK_LENGTH) {
+    return NextResponse.json({ error: `front (up to ${MAX_FRONT_LENGTH} characters) and back (up to ${MAX_BACK_LENGTH}) required` }, { status: 400 });
+  }
+  try {
+    const deck = await getDeck(supabase, user.id, deckId);
+    if (!deck) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    const [card] = await addCards(supabase, user.id, deckId, [{ front: front.trim(), back: back.trim() }]);
+    return NextResponse.json({ card });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to add card:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to add card' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { exportDeck, getDeck, listDeckCards } from '@/lib/flashcards';
+
+// Downloads a deck: ?format=apkg (Anki) or csv
+export async function GET(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { deckId } = params;
+  const format = new URL(req.url).searchParams.get('format') || 'apkg';
+  if (format !== 'apkg' && format !== 'csv') {
+    return NextResponse.json({ error: 'format must be apkg or csv' }, { status: 400 });
+  }
+  try {
+    const deck = await getDeck(supabase, user.id, deckId);
+    if (!deck) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    const cards = await listDeckCards(supabase, user.id, deckId);
+    const file = await exportDeck(deck, cards, format);
+    console.log('[FLASHCARDS] Exported deck', deckId, 'as', format, `(${cards.length} cards)`);
+    return new Response(new Uint8Array(file.body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to export deck:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to export deck' }, { status: 500 });
+  }
+}
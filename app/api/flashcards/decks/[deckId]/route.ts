@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { deleteDeck, getDeck, listDeckCards, MAX_DECK_NAME_LENGTH, renameDeck } from '@/lib/flashcards';
+
+// A deck with its cards: ?dueBefore= (ISO time, defaults to now)
+export async function GET(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { deckId } = params;
+  const dueBefore = new URL(req.url).searchParams.get('dueBefore') || new Date().toISOString();
+  if (Number.isNaN(Date.parse(dueBefore))) {
+    return NextResponse.json({ error: 'dueBefore must be an ISO time' }, { status: 400 });
+  }
+  try {
+    const deck = await getDeck(supabase, user.id, deckId, dueBefore);
+    if (!deck) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    const cards = await listDeckCards(supabase, user.id, deckId);
+    return NextResponse.json({ deck, cards });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to load deck:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load deck' }, { status: 500 });
+  }
+}
+
+// Renames a deck: { name }
+export async function PATCH(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { deckId } = params;
+  let body;
+  try { body = await req.json(); } catch { body = {}; }
+  const { name } = body || {};
+  if (!name || typeof name !== 'string' || !name.trim() || name.length > MAX_DECK_NAME_LENGTH) {
+    return NextResponse.json({ error: `name (1-${MAX_DECK_NAME_LENGTH} characters) required` }, { status: 400 });
+  }
+  try {
+    const deck = await renameDeck(supabase, user.id, deckId, name);
+    if (!deck) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ deck });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to rename deck:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to rename deck' }, { status: 500 });
+  }
+}
+
+// Deletes a deck with its cards
+export async function DELETE(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { deckId } = params;
+  try {
+    const deleted = await deleteDeck(supabase, user.id, deckId);
+    if (!deleted) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to delete deck:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to delete deck' }, { status: 500 });
+  }
+}
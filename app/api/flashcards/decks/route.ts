@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { listDecks } from '@/lib/flashcards';
+
+// The user's decks with their due counts: ?dueBefore= (ISO time, defaults to now)
+export async function GET(req: Request) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const dueBefore = new URL(req.url).searchParams.get('dueBefore') || new Date().toISOString();
+  if (Number.isNaN(Date.parse(dueBefore))) {
+    return NextResponse.json({ error: 'dueBefore must be an ISO time' }, { status: 400 });
+  }
+  try {
+    const decks = await listDecks(supabase, user.id, dueBefore);
+    return NextResponse.json({ decks });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to load decks:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load decks' }, { status: 500 });
+  }
+}
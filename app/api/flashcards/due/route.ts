@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { listDueCards } from '@/lib/flashcards';
+
+// Cards to review: ?dueBefore= (ISO time, e.g. the end of the user's day; defaults
+// to now) &deckId= (all decks when omitted)
+export async function GET(req: Request) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const searchParams = new URL(req.url).searchParams;
+  const dueBefore = searchParams.get('dueBefore') || new Date().toISOString();
+  if (Number.isNaN(Date.parse(dueBefore))) {
+    return NextResponse.json({ error: 'dueBefore must be an ISO time' }, { status: 400 });
+  }
+  try {
+    const cards = await listDueCards(supabase, user.id, dueBefore, searchParams.get('deckId'));
+    return NextResponse.json({ cards });
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to load due cards:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load due cards' }, { status: 500 });
+  }
+}
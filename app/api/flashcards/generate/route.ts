@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase/server';
+import { getLLMProvider } from '@/lib/llm';
+import { entitlementDenied, loadEntitlements } from '@/lib/entitlements/server';
+import { getCreditBalance } from '@/lib/credits/ledger';
+import { countTokens, holdCredits, MIN_CHARGE, priceUsage, settleCredits } from '@/lib/credits/metering';
+import {
+  addCards,
+  buildGenerationMessages,
+  findOrCreateDeck,
+  generateCards,
+  getDeck,
+  GENERATION_REPLY_TOKENS,
+  listDeckCards,
+  loadChatTranscript,
+} from '@/lib/flashcards';
+
+// Makes flashcards of a chat's key concepts: { chatId }. They go into the deck of the
+// chat's tutor, and are charged like a tutor message.
+export async function POST(req: Request) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const userId = user.id;
+  let body;
+  try { body = await req.json(); } catch { body = {}; }
+  const { chatId } = body || {};
+  if (!chatId || typeof chatId !== 'string') {
+    return NextResponse.json({ error: 'chatId required' }, { status: 400 });
+  }
+
+  const { data: chat } = await supabase
+    .from('chats')
+    .select('id, teacher_type')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!chat) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const credits = await getCreditBalance(supabase, userId).catch(() => 0);
+  const { planId, entitlements } = await loadEntitlements(supabase, userId);
+  if (credits < MIN_CHARGE) return entitlementDenied('tutor_credits', planId);
+  // Credits are held and settled with the service role; a user session can only spend them
+  const admin = createAdminClient();
+  if (!admin) {
+    console.error('[FLASHCARDS] Service role key is not configured');
+    return NextResponse.json({ error: 'Flashcards are not available right now' }, { status: 503 });
+  }
+
+  let transcript: string;
+  let deck;
+  let existingFronts: string[];
+  try {
+    transcript = await loadChatTranscript(supabase, userId, chatId);
+    deck = await findOrCreateDeck(supabase, userId, chat.teacher_type);
+    existingFronts = (await listDeckCards(supabase, userId, deck.id)).map(card => card.front);
+  } catch (error) {
+    console.error('[FLASHCARDS] Failed to load chat:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load chat' }, { status: 500 });
+  }
+  if (!transcript) {
+    return NextResponse.json({ error: 'This chat has nothing to make flashcards from yet' }, { status: 400 });
+  }
+
+  const messages = buildGenerationMessages(transcript, existingFronts);
+  const inputTokens = countTokens(messages);
+  const estimate = priceUsage('tutor', { inputTokens, outputTokens: GENERATION_REPLY_TOKENS });
+  const hold = await holdCredits(admin, userId, 'tutor', estimate.credits, 'Flashcards', { chatId, deckId: deck.id });
+  if (!hold) {
+    return entitlementDenied('tutor_credits', planId);
+  }
+
+  try {
+    const llm = getLLMProvider(entitlements.modelTier);
+    const { cards: drafts, outputTokens } = await generateCards(llm, messages, existingFronts);
+    const cards = await addCards(supabase, userId, deck.id, drafts, chatId);
+    // Nothing new to learn is not charged
+    const metered = priceUsage('tutor', { inputTokens, outputTokens });
+    await settleCredits(admin, hold, cards.length > 0 ? metered.credits : 0, cards.length > 0 ? 'Flashcards usage' : 'No new flashcards');
+    console.log('[FLASHCARDS] Generated', cards.length, 'cards from chat', chatId, 'into deck', deck.id);
+    return NextResponse.json({ deck: (await getDeck(supabase, userId, deck.id)) || deck, cards });
+  } catch (error) {
+    await settleCredits(admin, hold, 0, 'Failed flashcards');
+    console.error('[FLASHCARDS] Failed to generate cards:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to make flashcards' }, { status: 500 });
+  }
+}
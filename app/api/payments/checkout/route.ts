@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser, createAdminClient } from '@/lib/supabase/server';
+import { getPaymentProvider, getProduct } from '@/lib/payments';
+import { createPaymentOrder } from '@/lib/payments/orders';
+
+// Start a purchase: creates a payment order for a catalog product.
+// Credits are granted later, when the provider's webhook confirms the payment.
+export async function POST(req: Request) {
+  try {
+    const authResult = await getAuthenticatedUser(req);
+    if (!authResult) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const { user } = authResult;
+
+    let body;
+    try { body = await req.json(); } catch { return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }); }
+    const product = typeof body?.productId === 'string' ? getProduct(body.productId) : null;
+    if (!product) {
+      return NextResponse.json({ error: 'Unknown product' }, { status: 400 });
+    }
+
+    const provider = getPaymentProvider();
+    const admin = createAdminClient();
+    if (!provider || !admin) {
+      console.error('[PAYMENTS] Payment provider or service role key is not configured');
+      return NextResponse.json({ error: 'Payments are not available right now' }, { status: 503 });
+    }
+
+    const order = await createPaymentOrder(admin, provider, user.id, product);
+    return NextResponse.json({
+      orderId: order.orderId,
+      provider: provider.name,
+      product: { id: product.id, name: product.name, amount: product.amount, currency: product.currency },
+      checkout: order.checkout,
+    });
+  } catch (error) {
+    console.error('Error in POST /api/payments/checkout:', error);
+    return NextResponse.json({ error: 'Failed to start checkout' }, { status: 500 });
+  }
+}
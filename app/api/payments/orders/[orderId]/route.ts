@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+
+// Status of one of the user's payment orders (polled after checkout)
+export async function GET(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { orderId } = params;
+
+  const { data: order, error } = await supabase
+    .from('payment_orders')
+    .select('id, product_id, amount, currency, status, created_at, paid_at')
+    .eq('id', orderId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (error || !order) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return NextResponse.json({ order });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getPaymentProvider } from '@/lib/payments';
+import { fulfillPaymentEvent } from '@/lib/payments/orders';
+
+// Payment provider webhook (no user session; authenticated by signature)
+export async function POST(req: Request) {
+  const provider = getPaymentProvider();
+  const admin = createAdminClient();
+  if (!provider || !admin) {
+    console.error('[PAYMENTS] Webhook received but payments are not configured');
+    return NextResponse.json({ error: 'Payments are not configured' }, { status: 503 });
+  }
+
+  // The signature covers the exact raw body
+  const rawBody = await req.text();
+  const event = provider.verifyWebhook(rawBody, req.headers);
+  if (!event) {
+    console.error('[PAYMENTS] Invalid webhook signature');
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  try {
+    const handled = await fulfillPaymentEvent(admin, provider, event);
+    if (!handled) {
+      // Acknowledge so the provider stops retrying an event we can't use
+      console.error('[PAYMENTS] Webhook did not match an order:', event.providerOrderId);
+    }
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error('Error in POST /api/payments/webhook:', error);
+    // Non-2xx makes the provider retry later
+    return NextResponse.json({ error: 'Failed to process webhook' }, { status: 500 });
+  }
+}
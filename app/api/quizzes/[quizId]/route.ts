@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase/server';
+import { loadQuiz } from '@/lib/quizzes';
+
+// A quiz's questions, with the graded answers once it is submitted
+export async function GET(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user } = authResult;
+  // Questions live next to their answer key, which only the server reads
+  const admin = createAdminClient();
+  if (!admin) {
+    console.error('[QUIZZES] Service role key is not configured');
+    return NextResponse.json({ error: 'Quizzes are not available right now' }, { status: 503 });
+  }
+  try {
+    const quiz = await loadQuiz(admin, user.id, params.quizId);
+    if (!quiz) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ quiz });
+  } catch (error) {
+    console.error('[QUIZZES] Failed to load quiz:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load quiz' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase/server';
+import { MAX_QUIZ_QUESTIONS, submitQuiz } from '@/lib/quizzes';
+import { recordEvidence } from '@/lib/mastery';
+
+// Grades the answers to a quiz: { answers: [{ questionId, response }] }
+export async function POST(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user } = authResult;
+  let body;
+  try { body = await req.json(); } catch { body = {}; }
+  const { answers } = body || {};
+  if (!Array.isArray(answers) || answers.length > MAX_QUIZ_QUESTIONS
+    || !answers.every((a: any) => a && typeof a.questionId === 'string' && (typeof a.response === 'string' || typeof a.response === 'number'))) {
+    return NextResponse.json({ error: `answers (up to ${MAX_QUIZ_QUESTIONS} of { questionId, response }) required` }, { status: 400 });
+  }
+  const admin = createAdminClient();
+  if (!admin) {
+    console.error('[QUIZZES] Service role key is not configured');
+    return NextResponse.json({ error: 'Quizzes are not available right now' }, { status: 503 });
+  }
+  try {
+    const result = await submitQuiz(admin, user.id, params.quizId, answers);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    console.log('[QUIZZES] Quiz', params.quizId, 'scored', `${result.quiz.correctCount}/${result.quiz.questions.length}`);
+
+    // Each graded question is evidence of how well the student knows the quiz's topic
+    const { quiz } = result;
+    try {
+      await recordEvidence(admin, user.id, quiz.results.map(r => ({
+        subject: quiz.subject || 'General',
+        concept: quiz.topic,
+        correct: r.correct,
+        source: 'quiz' as const,
+        chatId: quiz.chatId,
+        sourceId: r.questionId,
+      })));
+    } catch (masteryError) {
+      console.error('[QUIZZES] Failed to record concept evidence:', masteryError);
+    }
+    return NextResponse.json({ quiz: result.quiz });
+  } catch (error) {
+    console.error('[QUIZZES] Failed to submit quiz:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to submit quiz' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { listChatQuizResults } from '@/lib/quizzes';
+
+// Quiz results of a chat by topic: ?chatId=
+export async function GET(req: Request) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const chatId = new URL(req.url).searchParams.get('chatId');
+  if (!chatId) {
+    return NextResponse.json({ error: 'chatId required' }, { status: 400 });
+  }
+  try {
+    const topics = await listChatQuizResults(supabase, user.id, chatId);
+    return NextResponse.json({ topics });
+  } catch (error) {
+    console.error('[QUIZZES] Failed to load results:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load quiz results' }, { status: 500 });
+  }
+}
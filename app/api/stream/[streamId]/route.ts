@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { formatSSEEvent, getStreamStatus, readStreamEvents, stopResumableStream } from '@/lib/streaming/resumable';
+
+const POLL_INTERVAL_MS = 500;
+// Keep a resume connection short; the client simply reconnects again
+const MAX_RESUME_MS = 50_000;
+
+// Resume a chat/Atlas answer stream after the events the client already has (Last-Event-ID)
+export async function GET(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const userId = user.id;
+  const { streamId } = params;
+
+  const initialStatus = await getStreamStatus(supabase, userId, streamId);
+  if (!initialStatus) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  const url = new URL(req.url);
+  const lastEventId = req.headers.get('Last-Event-ID') || url.searchParams.get('lastEventId') || '0';
+  let lastSeq = parseInt(lastEventId, 10) || 0;
+
+  let closed = false;
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now();
+      try {
+        while (!closed && Date.now() - startedAt < MAX_RESUME_MS) {
+          // Status first: once it is final, the events read next are complete
+          const status = await getStreamStatus(supabase, userId, streamId);
+          const events = await readStreamEvents(supabase, streamId, lastSeq);
+          for (const event of events) {
+            controller.enqueue(encoder.encode(formatSSEEvent(event)));
+            lastSeq = event.seq;
+          }
+          if (status !== 'streaming') break;
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('[STREAM] Resume failed:', error);
+      }
+      if (!closed) {
+        try { controller.close(); } catch {}
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// Stop generating: the partial answer is saved as interrupted
+export async function DELETE(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { streamId } = params;
+
+  const stopped = await stopResumableStream(supabase, user.id, streamId);
+  return NextResponse.json({ success: true, stopped });
+}
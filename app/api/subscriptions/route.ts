@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/supabase/server';
+import { refreshSubscription } from '@/lib/subscriptions';
+import { getEntitlements } from '@/lib/entitlements';
+
+// Current plan of the user, after applying any due expiry or renewal
+export async function GET(req: Request) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+
+  try {
+    const subscription = await refreshSubscription(supabase, user.id);
+    const { data: upcoming } = await supabase
+      .from('subscriptions')
+      .select('plan, started_at, ends_at')
+      .eq('user_id', user.id)
+      .eq('status', 'scheduled')
+      .order('started_at', { ascending: true });
+
+    return NextResponse.json({
+      subscription: {
+        plan: subscription.plan.id,
+        name: subscription.plan.name,
+        status: subscription.status,
+        endsAt: subscription.endsAt,
+        graceEndsAt: subscription.graceEndsAt,
+        entitlements: getEntitlements(subscription.plan.id),
+        upcoming: (upcoming || []).map((s: any) => ({ plan: s.plan, startsAt: s.started_at, endsAt: s.ends_at })),
+      },
+    });
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load subscription' }, { status: 400 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase/server';
+import { getLLMProvider } from '@/lib/llm';
+import { entitlementDenied, loadEntitlements } from '@/lib/entitlements/server';
+import { getCreditBalance } from '@/lib/credits/ledger';
+import { MIN_CHARGE } from '@/lib/credits/metering';
+import { buildAndSaveCurriculum, estimateCurriculumCredits, loadCurriculum } from '@/lib/curriculum';
+
+// The tutor's curriculum with the user's progress, whether it has a syllabus to build
+// one from, and the most a build costs in tutor credits
+export async function GET(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const { teacherId } = params;
+  const { data: teacher } = await supabase
+    .from('custom_teachers')
+    .select('id, syllabus_text')
+    .eq('id', teacherId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (!teacher) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  try {
+    const curriculum = await loadCurriculum(supabase, user.id, teacherId);
+    const syllabus = (teacher.syllabus_text || '').trim();
+    return NextResponse.json({
+      curriculum,
+      hasSyllabus: !!syllabus,
+      buildCredits: syllabus ? estimateCurriculumCredits(syllabus) : null,
+    });
+  } catch (error) {
+    console.error('[CURRICULUM] Failed to load curriculum:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load curriculum' }, { status: 500 });
+  }
+}
+
+// (Re)builds the tutor's curriculum from its syllabus, charged like a tutor message.
+// Progress on a previous curriculum is cleared.
+export async function POST(req: Request, { params }: any) {
+  const authResult = await getAuthenticatedUser(req);
+  if (!authResult) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { user, supabase } = authResult;
+  const userId = user.id;
+  const { teacherId } = params;
+  const { data: teacher } = await supabase
+    .from('custom_teachers')
+    .select('id, syllabus_text')
+    .eq('id', teacherId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!teacher) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  const syllabus = (teacher.syllabus_text || '').trim();
+  if (!syllabus) {
+    return NextResponse.json({ error: 'This tutor has no syllabus to build a curriculum from' }, { status: 400 });
+  }
+
+  const credits = await getCreditBalance(supabase, userId).catch(() => 0);
+  const { planId, entitlements } = await loadEntitlements(supabase, userId);
+  if (credits < MIN_CHARGE) return entitlementDenied('tutor_credits', planId);
+  // Credits are held and settled with the service role; a user session can only spend them
+  const admin = createAdminClient();
+  if (!admin) {
+    console.error('[CURRICULUM] Service role key is not configured');
+    return NextResponse.json({ error: 'Course outlines are not available right now' }, { status: 503 });
+  }
+
+  try {
+    const result = await buildAndSaveCurriculum(supabase, admin, getLLMProvider(entitlements.modelTier), userId, teacherId, syllabus);
+    if (result.status === 'no_credits') {
+      return entitlementDenied('tutor_credits', planId);
+    }
+    if (result.status === 'empty') {
+      return NextResponse.json({ error: "Couldn't find a course outline in this syllabus" }, { status: 422 });
+    }
+    console.log('[CURRICULUM] Built', result.curriculum?.units.length ?? 0, 'units for teacher', teacherId);
+    return NextResponse.json({ curriculum: result.curriculum });
+  } catch (error) {
+    console.error('[CURRICULUM] Failed to build curriculum:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to build curriculum' }, { status: 500 });
+  }
+}
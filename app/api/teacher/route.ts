@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/supabase/server';
 import { randomUUID } from 'crypto';
+import { entitlementDenied, loadEntitlements } from '@/lib/entitlements/server';
+import { getExtractedText } from '@/lib/files/library';
 
 const VALID_FIELDS = ['name', 'description', 'system_prompt', 'personality'];
 
@@ -43,6 +45,30 @@ export async function POST(req: Request) {
   if (!insert.name || !insert.system_prompt) {
     return NextResponse.json({ error: 'Name and system_prompt required.' }, { status: 400 });
   }
+  // The syllabus is an upload whose text has been extracted (/api/files/upload)
+  if (body.syllabus_attachment_id !== undefined) {
+    if (typeof body.syllabus_attachment_id !== 'string' || !body.syllabus_attachment_id) {
+      return NextResponse.json({ error: 'Invalid syllabus_attachment_id' }, { status: 400 });
+    }
+    try {
+      insert.syllabus_text = await getExtractedText(supabase, userId, body.syllabus_attachment_id);
+    } catch (err) {
+      console.error('[TEACHER] Failed to load syllabus text:', err);
+    }
+    if (!insert.syllabus_text) {
+      return NextResponse.json({ error: "The syllabus couldn't be read. Upload it again, or continue without one." }, { status: 400 });
+    }
+  }
+  const { planId, entitlements } = await loadEntitlements(supabase, userId);
+  if (entitlements.maxTeachers !== null) {
+    const { count } = await supabase
+      .from('custom_teachers')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    if ((count ?? 0) >= entitlements.maxTeachers) {
+      return entitlementDenied('teachers', planId, entitlements.maxTeachers);
+    }
+  }
   insert.id = randomUUID();
   const { data, error } = await supabase
     .from('custom_teachers')
@@ -62,8 +62,7 @@ export async function PUT(req: Request) {
     // Split to users vs user_settings
     const userUpdates: any = {};
     if (typeof incoming.name === 'string') userUpdates.name = incoming.name;
-    if (typeof incoming.subscription_plan === 'string') userUpdates.subscription_plan = incoming.subscription_plan;
-    if (typeof incoming.credits === 'number') userUpdates.credits = incoming.credits;
+    // subscription_plan follows the user's subscriptions (src/lib/subscriptions)
 
     const settingsUpdates: any = {};
     const settingsMap = [
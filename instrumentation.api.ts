@@ -0,0 +1,8 @@
+// Named with a pageExtensions suffix (next.config.js) so Next.js picks it up
+export async function register() {
+  // The worker needs Node.js APIs (file extraction, child processes)
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startFileWorker } = await import('@/lib/files/worker');
+    startFileWorker();
+  }
+}
@@ -4,7 +4,8 @@ import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs';
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '@/types/database.types';
 
-const AUTH_WHITELIST = ['/api/auth/login', '/api/auth/signup'];
+// Payment webhooks carry no session; they are verified by signature instead
+const AUTH_WHITELIST = ['/api/auth/login', '/api/auth/signup', '/api/payments/webhook'];
 
 // Get credentials from environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -0,0 +1,106 @@
+-- Migration: Retrieval over uploaded attachments
+-- After /api/files/process extracts a file's text it is split into chunks (tagged
+-- with the page or section they came from) and embedded. /api/chat/send retrieves
+-- only the chunks relevant to the question instead of pasting whole files.
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS attachment_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  -- PDF page number, if known
+  page INTEGER,
+  -- Nearest heading (or spreadsheet sheet) above the chunk, if any
+  section TEXT,
+  token_count INTEGER NOT NULL DEFAULT 0,
+  -- No fixed dimension so any embedding model can be configured. Searches are
+  -- limited to the attachments of one conversation, so an exact scan is fine.
+  embedding vector,
+  embedding_model TEXT,
+  content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (attachment_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_chunks_user_id ON attachment_chunks(user_id);
+CREATE INDEX IF NOT EXISTS idx_attachment_chunks_content_tsv ON attachment_chunks USING gin(content_tsv);
+
+-- When the attachment was chunked, and with which embedding model (NULL = keyword search only)
+ALTER TABLE attachments
+ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+-- File excerpts an assistant answer cited: [{ attachmentId, fileName, url, page, section, snippet }]
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS sources JSONB;
+
+ALTER TABLE attachment_chunks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own attachment chunks" ON attachment_chunks;
+
+-- Allow users to index, search and re-index chunks of their own files
+CREATE POLICY "Users can manage their own attachment chunks"
+ON attachment_chunks
+FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Top chunks of the given attachments for a question. Ranks by cosine similarity
+-- when a query embedding is passed, otherwise by keyword match (any term).
+-- Runs as the caller, so row level security limits it to the user's own files.
+CREATE OR REPLACE FUNCTION match_attachment_chunks(
+  p_attachment_ids UUID[],
+  p_query TEXT,
+  p_query_embedding vector DEFAULT NULL,
+  p_embedding_model TEXT DEFAULT NULL,
+  p_match_count INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+  id UUID,
+  attachment_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  page INTEGER,
+  section TEXT,
+  score DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_query tsquery;
+BEGIN
+  IF p_query_embedding IS NOT NULL THEN
+    RETURN QUERY
+    SELECT c.id, c.attachment_id, c.chunk_index, c.content, c.page, c.section,
+           1 - (c.embedding <=> p_query_embedding) AS score
+    FROM attachment_chunks c
+    WHERE c.attachment_id = ANY(p_attachment_ids)
+      AND c.embedding IS NOT NULL
+      AND c.embedding_model = p_embedding_model
+    ORDER BY c.embedding <=> p_query_embedding
+    LIMIT p_match_count;
+    RETURN;
+  END IF;
+
+  -- plainto_tsquery ANDs every word; a chunk only needs to share some of them
+  v_query := NULLIF(replace(plainto_tsquery('english', COALESCE(p_query, ''))::TEXT, '&', '|'), '')::tsquery;
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.attachment_id, c.chunk_index, c.content, c.page, c.section,
+         ts_rank(c.content_tsv, v_query)::DOUBLE PRECISION AS score
+  FROM attachment_chunks c
+  WHERE c.attachment_id = ANY(p_attachment_ids)
+    AND c.content_tsv @@ v_query
+  ORDER BY score DESC, c.chunk_index
+  LIMIT p_match_count;
+END;
+$$;
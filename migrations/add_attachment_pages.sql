@@ -0,0 +1,33 @@
+-- Migration: Per-page text of uploaded PDFs
+-- The file-processing worker stores the text of every page, including pages of
+-- scanned PDFs it read with OCR, so answers and citations can refer to a page.
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS attachment_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  -- 'text' = the PDF's text layer, 'ocr' = recognised from the rendered page
+  source TEXT NOT NULL DEFAULT 'text' CHECK (source IN ('text', 'ocr')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (attachment_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_pages_user_id ON attachment_pages(user_id);
+
+-- Number of pages of paged files (NULL for other formats)
+ALTER TABLE attachments
+ADD COLUMN IF NOT EXISTS page_count INTEGER;
+
+ALTER TABLE attachment_pages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own attachment pages" ON attachment_pages;
+
+-- Pages are written by the worker (service role); users can read their own
+CREATE POLICY "Users can view their own attachment pages"
+ON attachment_pages
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- Migration: Typed tables of uploaded spreadsheets
+-- The file-processing worker stores each sheet of a spreadsheet or CSV file as a
+-- typed table with its column schema and statistics, so questions like "average of
+-- column C" are computed from the data instead of by the model.
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS attachment_tables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Position of the sheet in the workbook
+  sheet_index INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  -- Data rows in the sheet (rows may hold fewer for large sheets)
+  row_count INTEGER NOT NULL DEFAULT 0,
+  -- Name, letter, type and statistics of each column (over all rows)
+  columns JSONB NOT NULL DEFAULT '[]',
+  -- Pearson correlations between number columns
+  correlations JSONB NOT NULL DEFAULT '[]',
+  -- Typed cell values, one array per row
+  rows JSONB NOT NULL DEFAULT '[]',
+  -- Spreadsheet row number of each stored row
+  row_numbers INTEGER[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (attachment_id, sheet_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_tables_user_id ON attachment_tables(user_id);
+
+ALTER TABLE attachment_tables ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own attachment tables" ON attachment_tables;
+
+-- Tables are written by the worker (service role); users can read their own
+CREATE POLICY "Users can view their own attachment tables"
+ON attachment_tables
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,117 @@
+-- Migration: Concept mastery (learner model)
+-- Evidence of what each student understands, per subject and concept: graded quiz
+-- questions and the tutor's notes on answers to its check questions (src/lib/mastery).
+-- Each piece of evidence moves the concept's mastery (0-1) towards 1 when the answer
+-- was correct and towards 0 when it wasn't; the tutor is told about relevant concepts.
+-- Run this SQL in your Supabase SQL Editor
+
+-- Subject of a quiz, as named by the tutor
+ALTER TABLE quizzes ADD COLUMN IF NOT EXISTS subject TEXT;
+
+CREATE TABLE IF NOT EXISTS concept_mastery (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Names as last written by the tutor; the keys (lowercase) identify the concept
+  subject TEXT NOT NULL,
+  concept TEXT NOT NULL,
+  subject_key TEXT NOT NULL,
+  concept_key TEXT NOT NULL,
+  mastery REAL NOT NULL DEFAULT 0.5,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  correct_count INTEGER NOT NULL DEFAULT 0,
+  last_evidence_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, subject_key, concept_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_concept_mastery_user_recent ON concept_mastery(user_id, last_evidence_at DESC);
+
+CREATE TABLE IF NOT EXISTS concept_evidence (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  subject_key TEXT NOT NULL,
+  concept_key TEXT NOT NULL,
+  correct BOOLEAN NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('quiz', 'check')),
+  chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+  -- The quiz question, or the student message that answered a check question
+  source_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- A regenerated answer doesn't count the same evidence twice
+  UNIQUE (user_id, source_id, concept_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_concept_evidence_chat_id ON concept_evidence(user_id, chat_id);
+
+ALTER TABLE concept_mastery ENABLE ROW LEVEL SECURITY;
+ALTER TABLE concept_evidence ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own concept mastery" ON concept_mastery;
+DROP POLICY IF EXISTS "Users can view their own concept evidence" ON concept_evidence;
+
+-- Evidence is recorded by the server (service role) through record_concept_evidence();
+-- users can read their own
+CREATE POLICY "Users can view their own concept mastery"
+ON concept_mastery
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own concept evidence"
+ON concept_evidence
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Records evidence items ({ subject, concept, correct, source, chat_id, source_id })
+-- and updates the mastery of their concepts. Evidence that was already recorded is
+-- skipped. Returns how many items were new.
+CREATE OR REPLACE FUNCTION record_concept_evidence(p_user_id UUID, p_items JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- How far one answer moves mastery: two correct answers in a row reach 0.8
+  v_weight CONSTANT REAL := 0.4;
+  v_item JSONB;
+  v_subject TEXT;
+  v_concept TEXT;
+  v_correct BOOLEAN;
+  v_outcome REAL;
+  v_recorded INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Only the server can record concept evidence';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_subject := btrim(v_item->>'subject');
+    v_concept := btrim(v_item->>'concept');
+    v_correct := (v_item->>'correct')::BOOLEAN;
+    CONTINUE WHEN coalesce(v_subject, '') = '' OR coalesce(v_concept, '') = '' OR v_correct IS NULL;
+    v_outcome := CASE WHEN v_correct THEN 1 ELSE 0 END;
+
+    INSERT INTO concept_evidence (user_id, subject_key, concept_key, correct, source, chat_id, source_id)
+    VALUES (p_user_id, lower(v_subject), lower(v_concept), v_correct, v_item->>'source', (v_item->>'chat_id')::UUID, (v_item->>'source_id')::UUID)
+    ON CONFLICT (user_id, source_id, concept_key) DO NOTHING;
+    CONTINUE WHEN NOT FOUND;
+
+    INSERT INTO concept_mastery AS m (user_id, subject, concept, subject_key, concept_key, mastery, attempts, correct_count)
+    VALUES (p_user_id, v_subject, v_concept, lower(v_subject), lower(v_concept), 0.5 * (1 - v_weight) + v_weight * v_outcome, 1, v_outcome::INTEGER)
+    ON CONFLICT (user_id, subject_key, concept_key) DO UPDATE
+    SET subject = EXCLUDED.subject,
+        concept = EXCLUDED.concept,
+        mastery = m.mastery * (1 - v_weight) + v_weight * v_outcome,
+        attempts = m.attempts + 1,
+        correct_count = m.correct_count + v_outcome::INTEGER,
+        last_evidence_at = NOW(),
+        updated_at = NOW();
+    v_recorded := v_recorded + 1;
+  END LOOP;
+
+  RETURN v_recorded;
+END;
+$$;
@@ -0,0 +1,33 @@
+-- Migration: Deduplicating uploads by content
+-- Uploads are hashed (SHA-256). Uploading a file the user already has reuses its
+-- stored object and, once that copy is processed, its extracted text, pages, tables
+-- and chunks instead of extracting (and OCRing) it again. The storage quota of the
+-- user's plan counts each stored object once.
+-- Run this SQL in your Supabase SQL Editor
+
+-- Hex SHA-256 of the file's bytes; NULL for files uploaded before hashing (the
+-- file worker fills it in when it processes them)
+ALTER TABLE attachments
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_attachments_user_content_hash ON attachments(user_id, content_hash) WHERE content_hash IS NOT NULL;
+-- Deleting a file keeps its stored object while another attachment uses it
+CREATE INDEX IF NOT EXISTS idx_attachments_file_path ON attachments(file_path);
+
+-- Bytes stored for a user, counting attachments that share a stored object once
+CREATE OR REPLACE FUNCTION get_storage_usage(p_user_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(file_size), 0)::BIGINT
+  FROM (
+    SELECT DISTINCT ON (file_path) file_size
+    FROM attachments
+    WHERE user_id = p_user_id
+      AND file_path IS NOT NULL
+      AND (auth.uid() = p_user_id OR auth.role() = 'service_role')
+  ) stored;
+$$;
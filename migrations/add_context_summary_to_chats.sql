@@ -0,0 +1,14 @@
+-- Migration: Add rolling context summary columns to chats table
+-- Long chats keep their most recent turns verbatim and replace older turns with a
+-- stored summary, so the summary is reused instead of regenerated on every send.
+-- Run this SQL in your Supabase SQL Editor
+
+ALTER TABLE chats
+ADD COLUMN IF NOT EXISTS context_summary TEXT;
+
+-- Id of the last message folded into context_summary
+ALTER TABLE chats
+ADD COLUMN IF NOT EXISTS context_summary_through UUID;
+
+ALTER TABLE chats
+ADD COLUMN IF NOT EXISTS context_summary_updated_at TIMESTAMPTZ;
@@ -0,0 +1,140 @@
+-- Migration: Credit ledger
+-- Every change to a user's credits is a row in credit_transactions (positive = added,
+-- negative = spent) and is applied by apply_credit_transaction(), which locks the
+-- user row so concurrent requests can't both spend the same credit. A user session can
+-- only spend its own credits; adding credits needs the service role (server only).
+-- The balance is the sum of the ledger; users.credits is kept in sync as a cached copy.
+-- Run this SQL in your Supabase SQL Editor
+
+ALTER TABLE credit_transactions
+ADD COLUMN IF NOT EXISTS balance_after INTEGER,
+-- Optional idempotency key (e.g. payment id); the same reference is never applied twice
+ADD COLUMN IF NOT EXISTS reference TEXT,
+ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user_created
+ON credit_transactions(user_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_user_reference
+ON credit_transactions(user_id, transaction_type, reference)
+WHERE reference IS NOT NULL;
+
+-- Backfill: an opening balance row so the ledger sums to each user's current credits
+INSERT INTO credit_transactions (user_id, amount, transaction_type, description, balance_after, created_at)
+SELECT u.id,
+       COALESCE(u.credits, 0) - COALESCE(t.total, 0),
+       'opening_balance',
+       'Opening balance',
+       COALESCE(u.credits, 0),
+       NOW()
+FROM users u
+LEFT JOIN (
+  SELECT user_id, SUM(amount) AS total FROM credit_transactions GROUP BY user_id
+) t ON t.user_id = u.id
+WHERE COALESCE(u.credits, 0) - COALESCE(t.total, 0) <> 0;
+
+-- Balance derived from the ledger
+CREATE OR REPLACE FUNCTION get_credit_balance(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)::INTEGER
+  FROM credit_transactions
+  WHERE user_id = p_user_id
+    AND (auth.uid() = p_user_id OR auth.role() = 'service_role');
+$$;
+
+-- Applies one ledger entry atomically.
+-- Debits that would take the balance below zero are not applied (applied = false).
+-- A repeated reference returns the original entry without applying it again.
+CREATE OR REPLACE FUNCTION apply_credit_transaction(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_type TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (applied BOOLEAN, balance INTEGER, transaction_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_existing UUID;
+  v_id UUID;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+      RAISE EXCEPTION 'Not allowed to change credits of another user';
+    END IF;
+    IF p_amount > 0 THEN
+      RAISE EXCEPTION 'Credits can only be added by the server';
+    END IF;
+  END IF;
+  IF p_amount = 0 THEN
+    RAISE EXCEPTION 'Credit transaction amount must not be zero';
+  END IF;
+
+  -- Serialises all credit changes of this user
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+  FROM credit_transactions
+  WHERE user_id = p_user_id;
+
+  IF p_reference IS NOT NULL THEN
+    SELECT id INTO v_existing
+    FROM credit_transactions
+    WHERE user_id = p_user_id AND transaction_type = p_type AND reference = p_reference;
+    IF v_existing IS NOT NULL THEN
+      RETURN QUERY SELECT TRUE, v_balance, v_existing;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_balance + p_amount < 0 THEN
+    RETURN QUERY SELECT FALSE, v_balance, NULL::UUID;
+    RETURN;
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, amount, transaction_type, description, reference, metadata, balance_after)
+  VALUES (p_user_id, p_amount, p_type, p_description, p_reference, p_metadata, v_balance + p_amount)
+  RETURNING id INTO v_id;
+
+  UPDATE users SET credits = v_balance + p_amount WHERE id = p_user_id;
+
+  RETURN QUERY SELECT TRUE, v_balance + p_amount, v_id;
+END;
+$$;
+
+-- Starting credits given when a user row is created go through the ledger too
+CREATE OR REPLACE FUNCTION record_initial_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.credits, 0) <> 0 THEN
+    INSERT INTO credit_transactions (user_id, amount, transaction_type, description, balance_after)
+    VALUES (NEW.id, NEW.credits, 'signup_bonus', 'Welcome credits', NEW.credits);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_record_initial_credits ON users;
+CREATE TRIGGER users_record_initial_credits
+AFTER INSERT ON users
+FOR EACH ROW EXECUTE FUNCTION record_initial_credits();
+
+GRANT EXECUTE ON FUNCTION get_credit_balance(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_credit_transaction(UUID, INTEGER, TEXT, TEXT, TEXT, JSONB) TO authenticated;
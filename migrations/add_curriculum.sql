@@ -0,0 +1,58 @@
+-- Migration: Syllabus-driven curricula
+-- A tutor's syllabus is turned into a curriculum (units, topics and learning
+-- objectives) stored with the tutor (src/lib/curriculum). The tutor marks topics as
+-- covered or mastered while teaching; the chat shows the outline with that progress.
+-- Run this SQL in your Supabase SQL Editor
+
+-- { units: [{ id, title, topics: [{ id, title, objectives }] }] }
+ALTER TABLE custom_teachers ADD COLUMN IF NOT EXISTS curriculum JSONB;
+ALTER TABLE custom_teachers ADD COLUMN IF NOT EXISTS curriculum_built_at TIMESTAMPTZ;
+
+-- Topics without a row are not started
+CREATE TABLE IF NOT EXISTS curriculum_progress (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES custom_teachers(id) ON DELETE CASCADE,
+  -- Position of the topic in the outline, e.g. "2.3"
+  topic_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('covered', 'mastered')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (teacher_id, topic_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_curriculum_progress_user_id ON curriculum_progress(user_id);
+
+ALTER TABLE curriculum_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own curriculum progress" ON curriculum_progress;
+DROP POLICY IF EXISTS "Users can insert their own curriculum progress" ON curriculum_progress;
+DROP POLICY IF EXISTS "Users can update their own curriculum progress" ON curriculum_progress;
+DROP POLICY IF EXISTS "Users can delete their own curriculum progress" ON curriculum_progress;
+
+CREATE POLICY "Users can view their own curriculum progress"
+ON curriculum_progress
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Progress can only be kept on the user's own tutors
+CREATE POLICY "Users can insert their own curriculum progress"
+ON curriculum_progress
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM custom_teachers t WHERE t.id = teacher_id AND t.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own curriculum progress"
+ON curriculum_progress
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own curriculum progress"
+ON curriculum_progress
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
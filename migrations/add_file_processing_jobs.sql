@@ -0,0 +1,122 @@
+-- Migration: Background file-processing job queue
+-- Every uploaded file gets a job that a worker outside the request (see
+-- src/lib/files/worker.ts) picks up: queued -> processing -> done, or back to
+-- queued with a delay after an error until its attempts run out (failed).
+-- Clients follow their jobs through Supabase Realtime.
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS file_processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attachment_id UUID NOT NULL UNIQUE REFERENCES attachments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'done', 'failed')),
+  -- downloading | extracting | indexing while processing
+  stage TEXT,
+  progress INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  -- Why the last attempt failed
+  error TEXT,
+  -- Retries are delayed; a job isn't picked up before this
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_processing_jobs_pending ON file_processing_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_file_processing_jobs_user_id ON file_processing_jobs(user_id);
+
+ALTER TABLE file_processing_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own file jobs" ON file_processing_jobs;
+
+-- Users can only read their jobs; they are queued by enqueue_file_processing_job()
+-- and updated by the worker (service role)
+CREATE POLICY "Users can view their own file jobs"
+ON file_processing_jobs
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Queues a file for processing. A finished or failed file is processed again;
+-- a file that is already queued or processing is left alone.
+CREATE OR REPLACE FUNCTION enqueue_file_processing_job(p_attachment_id UUID)
+RETURNS SETOF file_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT a.user_id INTO v_user_id FROM attachments a WHERE a.id = p_attachment_id;
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Attachment not found';
+  END IF;
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Not allowed to process the file of another user';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO file_processing_jobs AS j (attachment_id, user_id)
+  VALUES (p_attachment_id, v_user_id)
+  ON CONFLICT (attachment_id) DO UPDATE
+  SET status = 'queued', stage = NULL, progress = 0, attempts = 0, error = NULL,
+      run_after = NOW(), locked_by = NULL, locked_at = NULL, finished_at = NULL, updated_at = NOW()
+  WHERE j.status IN ('done', 'failed')
+  RETURNING j.*;
+
+  -- Nothing returned above: the job was already pending
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT * FROM file_processing_jobs j WHERE j.attachment_id = p_attachment_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION enqueue_file_processing_job(UUID) TO authenticated;
+
+-- Hands the next due job to a worker. Jobs whose worker stopped responding
+-- (locked longer than p_lock_timeout_seconds) are handed out again.
+CREATE OR REPLACE FUNCTION claim_file_processing_job(p_worker_id TEXT, p_lock_timeout_seconds INTEGER DEFAULT 600)
+RETURNS SETOF file_processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Only the server can claim file jobs';
+  END IF;
+
+  RETURN QUERY
+  UPDATE file_processing_jobs j
+  SET status = 'processing', stage = NULL, progress = 0, attempts = j.attempts + 1,
+      locked_by = p_worker_id, locked_at = NOW(), updated_at = NOW()
+  WHERE j.id = (
+    SELECT c.id
+    FROM file_processing_jobs c
+    WHERE (c.status = 'queued' AND c.run_after <= NOW())
+       OR (c.status = 'processing' AND c.locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds))
+    ORDER BY c.run_after
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- Stream job updates to subscribed clients (row level security still applies)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND tablename = 'file_processing_jobs'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE file_processing_jobs;
+  END IF;
+END;
+$$;
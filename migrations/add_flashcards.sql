@@ -0,0 +1,108 @@
+-- Migration: Spaced-repetition flashcards
+-- Each user has a deck of their own and one per tutor (custom teacher). Cards are
+-- generated from chats on demand and can be edited; the SM-2 schedule of each card
+-- decides when it comes back for review (src/lib/flashcards).
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS flashcard_decks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- The tutor the deck belongs to; NULL for the user's own deck. A deleted tutor's
+  -- deck is kept as a deck of the user.
+  teacher_id UUID REFERENCES custom_teachers(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_decks_user_id ON flashcard_decks(user_id, teacher_id);
+
+CREATE TABLE IF NOT EXISTS flashcards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deck_id UUID NOT NULL REFERENCES flashcard_decks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  -- Chat the card was generated from
+  source_chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+  -- SM-2 schedule: intervals grow by the ease factor; repetitions counts reviews
+  -- remembered in a row and lapses the times a learned card was forgotten
+  ease_factor REAL NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  -- New cards are due right away
+  due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_deck_id ON flashcards(deck_id);
+CREATE INDEX IF NOT EXISTS idx_flashcards_user_due ON flashcards(user_id, due_at);
+
+ALTER TABLE flashcard_decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flashcards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own decks" ON flashcard_decks;
+DROP POLICY IF EXISTS "Users can insert their own decks" ON flashcard_decks;
+DROP POLICY IF EXISTS "Users can update their own decks" ON flashcard_decks;
+DROP POLICY IF EXISTS "Users can delete their own decks" ON flashcard_decks;
+DROP POLICY IF EXISTS "Users can view their own flashcards" ON flashcards;
+DROP POLICY IF EXISTS "Users can insert their own flashcards" ON flashcards;
+DROP POLICY IF EXISTS "Users can update their own flashcards" ON flashcards;
+DROP POLICY IF EXISTS "Users can delete their own flashcards" ON flashcards;
+
+CREATE POLICY "Users can view their own decks"
+ON flashcard_decks
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own decks"
+ON flashcard_decks
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own decks"
+ON flashcard_decks
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own decks"
+ON flashcard_decks
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own flashcards"
+ON flashcards
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Cards can only go into the user's own decks
+CREATE POLICY "Users can insert their own flashcards"
+ON flashcards
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM flashcard_decks d WHERE d.id = deck_id AND d.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own flashcards"
+ON flashcards
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own flashcards"
+ON flashcards
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
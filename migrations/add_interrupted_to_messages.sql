@@ -0,0 +1,7 @@
+-- Migration: Mark assistant answers that were stopped before they finished
+-- When the user stops generation (or closes the tab) the partial answer is still
+-- saved so the conversation stays consistent, flagged with interrupted = true.
+-- Run this SQL in your Supabase SQL Editor
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS interrupted BOOLEAN NOT NULL DEFAULT FALSE;
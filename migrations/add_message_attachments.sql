@@ -0,0 +1,48 @@
+-- Migration: Reusing uploaded files ("My Files")
+-- A file is linked to the message it was uploaded with (attachments.message_id).
+-- Sending it again from the user's file library links it to that message as well,
+-- without uploading it again.
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS message_attachments (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  attachment_id UUID NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (message_id, attachment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_attachment_id ON message_attachments(attachment_id);
+CREATE INDEX IF NOT EXISTS idx_message_attachments_user_id ON message_attachments(user_id);
+
+-- Uploads never sent with a message are deleted after a day by the file worker
+CREATE INDEX IF NOT EXISTS idx_attachments_unsent ON attachments(created_at) WHERE message_id IS NULL;
+
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own message attachments" ON message_attachments;
+DROP POLICY IF EXISTS "Users can link their own files" ON message_attachments;
+DROP POLICY IF EXISTS "Users can unlink their own files" ON message_attachments;
+
+CREATE POLICY "Users can view their own message attachments"
+ON message_attachments
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Both the message and the file must belong to the user
+CREATE POLICY "Users can link their own files"
+ON message_attachments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM attachments a WHERE a.id = attachment_id AND a.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM messages m WHERE m.id = message_id AND m.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can unlink their own files"
+ON message_attachments
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,25 @@
+-- Migration: Store messages as a conversation tree
+-- Edited questions and regenerated answers become sibling branches (same parent_id)
+-- instead of overwriting, and chats remember which branch is currently shown.
+-- Run this SQL in your Supabase SQL Editor
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
+
+-- Leaf message of the branch the user last viewed
+ALTER TABLE chats
+ADD COLUMN IF NOT EXISTS active_leaf_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+-- Backfill: existing chats are linear, so each message's parent is the previous one
+WITH ordered AS (
+  SELECT id, LAG(id) OVER (PARTITION BY chat_id ORDER BY created_at, id) AS prev_id
+  FROM messages
+)
+UPDATE messages m
+SET parent_id = ordered.prev_id
+FROM ordered
+WHERE m.id = ordered.id
+  AND m.parent_id IS NULL
+  AND ordered.prev_id IS NOT NULL;
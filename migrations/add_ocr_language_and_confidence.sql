@@ -0,0 +1,15 @@
+-- Migration: OCR language and confidence
+-- Images and scanned PDF pages are read in the language chosen for the upload, or
+-- the user's language setting (user_settings.language). The OCR confidence is kept
+-- so the tutor can be told when a file's text may contain recognition errors.
+-- Run this SQL in your Supabase SQL Editor
+
+-- App language code chosen for this upload (e.g. 'hi'); NULL = use the user's setting
+ALTER TABLE attachments
+ADD COLUMN IF NOT EXISTS ocr_language TEXT,
+-- Mean OCR confidence (0-100) of the text recognised from images; NULL if no OCR was needed
+ADD COLUMN IF NOT EXISTS ocr_confidence REAL;
+
+-- OCR confidence (0-100) of pages recognised from their image
+ALTER TABLE attachment_pages
+ADD COLUMN IF NOT EXISTS confidence REAL;
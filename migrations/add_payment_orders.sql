@@ -0,0 +1,102 @@
+-- Migration: Server-verified purchases
+-- Checkout creates a payment_orders row; credits are only granted when the payment
+-- provider's signed webhook confirms the order (see /api/payments/webhook).
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS payment_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Catalog entry from src/lib/payments/catalog.ts
+  product_id TEXT NOT NULL,
+  -- Smallest currency unit (paise)
+  amount INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'INR',
+  provider TEXT NOT NULL,
+  provider_order_id TEXT NOT NULL,
+  provider_payment_id TEXT,
+  -- created | paid | failed
+  status TEXT NOT NULL DEFAULT 'created',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  paid_at TIMESTAMPTZ,
+  UNIQUE (provider, provider_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_orders_user_id ON payment_orders(user_id, created_at DESC);
+
+ALTER TABLE payment_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can select their own payment orders" ON payment_orders;
+
+-- Users can only read their orders; they are created and confirmed by the server
+CREATE POLICY "Users can select their own payment orders"
+ON payment_orders
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Users may only spend their own credits. Purchases, grants, refunds and adjustments
+-- need the service role (webhook, server routes, admin tasks).
+CREATE OR REPLACE FUNCTION apply_credit_transaction(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_type TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (applied BOOLEAN, balance INTEGER, transaction_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_existing UUID;
+  v_id UUID;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+      RAISE EXCEPTION 'Not allowed to change credits of another user';
+    END IF;
+    IF p_amount > 0 THEN
+      RAISE EXCEPTION 'Credits can only be added by the server';
+    END IF;
+  END IF;
+  IF p_amount = 0 THEN
+    RAISE EXCEPTION 'Credit transaction amount must not be zero';
+  END IF;
+
+  -- Serialises all credit changes of this user
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+  FROM credit_transactions
+  WHERE user_id = p_user_id;
+
+  IF p_reference IS NOT NULL THEN
+    SELECT id INTO v_existing
+    FROM credit_transactions
+    WHERE user_id = p_user_id AND transaction_type = p_type AND reference = p_reference;
+    IF v_existing IS NOT NULL THEN
+      RETURN QUERY SELECT TRUE, v_balance, v_existing;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_balance + p_amount < 0 THEN
+    RETURN QUERY SELECT FALSE, v_balance, NULL::UUID;
+    RETURN;
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, amount, transaction_type, description, reference, metadata, balance_after)
+  VALUES (p_user_id, p_amount, p_type, p_description, p_reference, p_metadata, v_balance + p_amount)
+  RETURNING id INTO v_id;
+
+  UPDATE users SET credits = v_balance + p_amount WHERE id = p_user_id;
+
+  RETURN QUERY SELECT TRUE, v_balance + p_amount, v_id;
+END;
+$$;
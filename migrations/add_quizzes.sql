@@ -0,0 +1,79 @@
+-- Migration: Quizzes with server-side grading
+-- The tutor writes quizzes as structured blocks (src/lib/quizzes). The chat route
+-- stores each quiz with its answer key, the quiz card in the chat submits the
+-- student's answers, and the server grades them and keeps the results per chat and topic.
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS quizzes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  -- The tutor answer the quiz appears in
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  topic TEXT NOT NULL,
+  question_count INTEGER NOT NULL,
+  -- Set once the quiz is submitted; score is the share of correct answers (0-100)
+  correct_count INTEGER,
+  score INTEGER,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_chat_id ON quizzes(chat_id);
+CREATE INDEX IF NOT EXISTS idx_quizzes_message_id ON quizzes(message_id);
+CREATE INDEX IF NOT EXISTS idx_quizzes_user_topic ON quizzes(user_id, topic);
+
+-- Questions with their answer key; only the server (service role) reads them
+CREATE TABLE IF NOT EXISTS quiz_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('multiple_choice', 'numeric', 'short_answer')),
+  prompt TEXT NOT NULL,
+  -- Options of a multiple choice question
+  choices JSONB,
+  -- Unit of a numeric answer
+  unit TEXT,
+  -- { choice } | { value, tolerance } | { accepted, keywords }
+  answer_key JSONB NOT NULL,
+  explanation TEXT,
+  UNIQUE (quiz_id, position)
+);
+
+-- The student's graded answers
+CREATE TABLE IF NOT EXISTS quiz_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL UNIQUE REFERENCES quiz_questions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  response TEXT NOT NULL DEFAULT '',
+  correct BOOLEAN NOT NULL,
+  -- The expected answer as shown to the student
+  expected TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_answers_quiz_id ON quiz_answers(quiz_id);
+
+ALTER TABLE quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_answers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own quizzes" ON quizzes;
+DROP POLICY IF EXISTS "Users can view their own quiz answers" ON quiz_answers;
+
+-- Quizzes and answers are written by the server (service role) so results can't be
+-- edited; users can read their own. quiz_questions has no policy: answer keys stay
+-- on the server until a quiz is submitted.
+CREATE POLICY "Users can view their own quizzes"
+ON quizzes
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own quiz answers"
+ON quiz_answers
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
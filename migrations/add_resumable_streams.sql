@@ -0,0 +1,47 @@
+-- Migration: Buffer streamed answers so clients can resume after a dropped connection
+-- Every SSE event of /api/chat/send and /api/atlas/answer is stored with a sequence
+-- number; /api/stream/[streamId] replays events after the client's Last-Event-ID.
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS response_streams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- streaming | done | stopped
+  status TEXT NOT NULL DEFAULT 'streaming',
+  -- Last time a resuming client polled this stream
+  client_seen_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_streams_user_id ON response_streams(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS response_stream_events (
+  stream_id UUID NOT NULL REFERENCES response_streams(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (stream_id, seq)
+);
+
+ALTER TABLE response_streams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE response_stream_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own streams" ON response_streams;
+DROP POLICY IF EXISTS "Users can manage their own stream events" ON response_stream_events;
+
+-- Allow users to create, read and stop their own streams
+CREATE POLICY "Users can manage their own streams"
+ON response_streams
+FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Allow users to write and replay events of their own streams
+CREATE POLICY "Users can manage their own stream events"
+ON response_stream_events
+FOR ALL
+TO authenticated
+USING (EXISTS (SELECT 1 FROM response_streams s WHERE s.id = stream_id AND s.user_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM response_streams s WHERE s.id = stream_id AND s.user_id = auth.uid()));
@@ -0,0 +1,147 @@
+-- Migration: Subscription lifecycle
+-- Each plan purchase is a row in subscriptions. A row is 'scheduled' until it starts,
+-- 'active' until ends_at, then in 'grace' until grace_ends_at and finally 'expired'.
+-- refresh_subscription() applies these transitions and keeps users.subscription_plan
+-- (the cached current plan) in sync. See src/lib/subscriptions.
+-- Run this SQL in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  plan TEXT NOT NULL,
+  status TEXT DEFAULT 'active',
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  ends_at TIMESTAMPTZ,
+  stripe_subscription_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS grace_ends_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS payment_order_id UUID REFERENCES payment_orders(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW(),
+-- Length and grace of the plan, for rows queued behind an open-ended plan (a plan set by
+-- hand, like legacy 'premium'): they have no dates until it ends
+ADD COLUMN IF NOT EXISTS duration_days INTEGER,
+ADD COLUMN IF NOT EXISTS grace_days INTEGER;
+
+-- One subscription per paid order (webhooks may be delivered more than once)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_payment_order_id
+ON subscriptions(payment_order_id)
+WHERE payment_order_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_status ON subscriptions(user_id, status);
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can select their own subscriptions" ON subscriptions;
+
+-- Users can only read their subscriptions; they are created by the payment webhook
+CREATE POLICY "Users can select their own subscriptions"
+ON subscriptions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- users.subscription_plan is only changed by the server or by refresh_subscription()
+CREATE OR REPLACE FUNCTION protect_subscription_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.subscription_plan IS DISTINCT FROM OLD.subscription_plan
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND current_setting('app.subscription_refresh', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'subscription_plan can only be changed by the server';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_protect_subscription_plan ON users;
+CREATE TRIGGER users_protect_subscription_plan
+BEFORE UPDATE OF subscription_plan ON users
+FOR EACH ROW
+EXECUTE FUNCTION protect_subscription_plan();
+
+CREATE OR REPLACE FUNCTION refresh_subscription(p_user_id UUID)
+RETURNS TABLE (id UUID, plan TEXT, status TEXT, started_at TIMESTAMPTZ, ends_at TIMESTAMPTZ, grace_ends_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current subscriptions%ROWTYPE;
+  v_queued subscriptions%ROWTYPE;
+  v_cursor TIMESTAMPTZ;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to refresh the subscription of another user';
+  END IF;
+
+  -- Serialises with purchases of the same user
+  PERFORM 1 FROM users u WHERE u.id = p_user_id FOR UPDATE;
+
+  -- Once no open-ended plan is running, undated plans are queued after the dated ones
+  IF NOT EXISTS (
+    SELECT 1 FROM subscriptions s
+    WHERE s.user_id = p_user_id AND s.status = 'active' AND s.ends_at IS NULL
+  ) THEN
+    SELECT GREATEST(NOW(), COALESCE(MAX(s.ends_at), NOW())) INTO v_cursor
+    FROM subscriptions s
+    WHERE s.user_id = p_user_id AND s.status IN ('scheduled', 'active') AND s.ends_at IS NOT NULL;
+    FOR v_queued IN
+      SELECT * FROM subscriptions s
+      WHERE s.user_id = p_user_id AND s.status = 'scheduled' AND s.started_at IS NULL
+      ORDER BY s.created_at
+    LOOP
+      UPDATE subscriptions s
+      SET started_at = v_cursor,
+          ends_at = v_cursor + make_interval(days => COALESCE(v_queued.duration_days, 0)),
+          grace_ends_at = v_cursor + make_interval(days => COALESCE(v_queued.duration_days, 0) + COALESCE(v_queued.grace_days, 0)),
+          updated_at = NOW()
+      WHERE s.id = v_queued.id;
+      v_cursor := v_cursor + make_interval(days => COALESCE(v_queued.duration_days, 0));
+    END LOOP;
+  END IF;
+
+  UPDATE subscriptions s
+  SET status = CASE
+      WHEN s.started_at IS NULL OR s.started_at > NOW() THEN 'scheduled'
+      WHEN s.ends_at IS NULL OR s.ends_at > NOW() THEN 'active'
+      WHEN COALESCE(s.grace_ends_at, s.ends_at) > NOW() THEN 'grace'
+      ELSE 'expired'
+    END,
+    updated_at = NOW()
+  WHERE s.user_id = p_user_id
+    AND s.status IN ('scheduled', 'active', 'grace');
+
+  -- A plan in grace ends as soon as the next one has started
+  UPDATE subscriptions s
+  SET status = 'expired', updated_at = NOW()
+  WHERE s.user_id = p_user_id
+    AND s.status = 'grace'
+    AND EXISTS (SELECT 1 FROM subscriptions a WHERE a.user_id = p_user_id AND a.status = 'active');
+
+  SELECT * INTO v_current
+  FROM subscriptions s
+  WHERE s.user_id = p_user_id AND s.status IN ('active', 'grace')
+  ORDER BY (s.status = 'active') DESC, s.started_at DESC
+  LIMIT 1;
+
+  -- Users without any subscription keep whatever plan was set for them by hand
+  IF v_current.id IS NOT NULL OR EXISTS (SELECT 1 FROM subscriptions s WHERE s.user_id = p_user_id) THEN
+    PERFORM set_config('app.subscription_refresh', 'on', true);
+    UPDATE users u
+    SET subscription_plan = COALESCE(v_current.plan, 'free')
+    WHERE u.id = p_user_id AND u.subscription_plan IS DISTINCT FROM COALESCE(v_current.plan, 'free');
+    PERFORM set_config('app.subscription_refresh', 'off', true);
+  END IF;
+
+  IF v_current.id IS NOT NULL THEN
+    RETURN QUERY SELECT v_current.id, v_current.plan, v_current.status, v_current.started_at, v_current.ends_at, v_current.grace_ends_at;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refresh_subscription(UUID) TO authenticated;
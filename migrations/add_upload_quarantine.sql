@@ -0,0 +1,51 @@
+-- Migration: Malware scanning and quarantine of uploads
+-- The file worker scans every upload before extracting it (src/lib/files/scanners).
+-- Files the scanner flags are quarantined: they are never extracted, listed, linked
+-- or shown in chat. See FILE_SCANNER in FILE_UPLOAD_IMPLEMENTATION.md.
+-- Run this SQL in your Supabase SQL Editor
+
+-- Files uploaded before scanning count as clean; new uploads wait for their scan
+ALTER TABLE attachments
+ADD COLUMN IF NOT EXISTS quarantine_status TEXT NOT NULL DEFAULT 'clean'
+  CHECK (quarantine_status IN ('pending', 'clean', 'quarantined')),
+-- What the scanner found, for quarantined files
+ADD COLUMN IF NOT EXISTS quarantine_reason TEXT,
+ADD COLUMN IF NOT EXISTS scanned_at TIMESTAMPTZ,
+-- Scanner that gave the verdict ('clamav', 'stub'); NULL when it was copied from an identical file
+ADD COLUMN IF NOT EXISTS scanned_by TEXT;
+
+ALTER TABLE attachments ALTER COLUMN quarantine_status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_attachments_quarantined ON attachments(user_id) WHERE quarantine_status = 'quarantined';
+
+-- Only the file worker (service role) records verdicts: files signed-in users add
+-- start out pending, and they can't change the verdict of their own files
+CREATE OR REPLACE FUNCTION protect_quarantine_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.quarantine_status := 'pending';
+    NEW.quarantine_reason := NULL;
+    NEW.scanned_at := NULL;
+    NEW.scanned_by := NULL;
+  ELSE
+    NEW.quarantine_status := OLD.quarantine_status;
+    NEW.quarantine_reason := OLD.quarantine_reason;
+    NEW.scanned_at := OLD.scanned_at;
+    NEW.scanned_by := OLD.scanned_by;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_quarantine_status ON attachments;
+CREATE TRIGGER protect_quarantine_status
+BEFORE INSERT OR UPDATE ON attachments
+FOR EACH ROW
+EXECUTE FUNCTION protect_quarantine_status();
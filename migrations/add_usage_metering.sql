@@ -0,0 +1,153 @@
+-- Migration: Usage-based metering with separate Tutor and Atlas balances
+-- Ledger entries now belong to a pool ('tutor' or 'atlas'); each pool has its own
+-- balance. Answers record what they cost in messages.usage.
+-- Run this SQL in your Supabase SQL Editor
+
+ALTER TABLE credit_transactions
+ADD COLUMN IF NOT EXISTS pool TEXT NOT NULL DEFAULT 'tutor';
+
+DROP INDEX IF EXISTS idx_credit_transactions_user_reference;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_user_pool_reference
+ON credit_transactions(user_id, pool, transaction_type, reference)
+WHERE reference IS NOT NULL;
+
+-- Cached Atlas balance (like users.credits for Tutor). New users start with the
+-- free plan's 10 Atlas credits, recorded in the ledger by record_initial_credits().
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS atlas_credits INTEGER NOT NULL DEFAULT 10;
+
+-- Existing users got the default above; put it in the ledger as well
+INSERT INTO credit_transactions (user_id, amount, transaction_type, description, balance_after, pool, created_at)
+SELECT u.id, u.atlas_credits, 'opening_balance', 'Opening Atlas balance', u.atlas_credits, 'atlas', NOW()
+FROM users u
+WHERE u.atlas_credits <> 0
+  AND NOT EXISTS (
+    SELECT 1 FROM credit_transactions t WHERE t.user_id = u.id AND t.pool = 'atlas'
+  );
+
+-- What an assistant answer cost: { pool, credits, inputTokens, outputTokens, attachments, searches }
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS usage JSONB;
+
+DROP FUNCTION IF EXISTS get_credit_balance(UUID);
+CREATE OR REPLACE FUNCTION get_credit_balance(p_user_id UUID, p_pool TEXT DEFAULT 'tutor')
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)::INTEGER
+  FROM credit_transactions
+  WHERE user_id = p_user_id
+    AND pool = p_pool
+    AND (auth.uid() = p_user_id OR auth.role() = 'service_role');
+$$;
+
+-- Users may only spend their own credits; holds are settled (refunds, overruns) by the
+-- server with the service role. A refund points at a debit of the same user and pool,
+-- at most its amount, and (by the unique reference index) each debit is refunded once.
+DROP FUNCTION IF EXISTS apply_credit_transaction(UUID, INTEGER, TEXT, TEXT, TEXT, JSONB);
+CREATE OR REPLACE FUNCTION apply_credit_transaction(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_type TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL,
+  p_pool TEXT DEFAULT 'tutor'
+)
+RETURNS TABLE (applied BOOLEAN, balance INTEGER, transaction_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_existing UUID;
+  v_debit INTEGER;
+  v_id UUID;
+BEGIN
+  IF p_pool NOT IN ('tutor', 'atlas') THEN
+    RAISE EXCEPTION 'Unknown credit pool %', p_pool;
+  END IF;
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF auth.uid() IS DISTINCT FROM p_user_id THEN
+      RAISE EXCEPTION 'Not allowed to change credits of another user';
+    END IF;
+    IF p_amount > 0 THEN
+      RAISE EXCEPTION 'Credits can only be added by the server';
+    END IF;
+  END IF;
+  IF p_amount = 0 THEN
+    RAISE EXCEPTION 'Credit transaction amount must not be zero';
+  END IF;
+  IF p_type = 'refund' THEN
+    SELECT -amount INTO v_debit
+    FROM credit_transactions
+    WHERE id::TEXT = p_reference AND user_id = p_user_id AND pool = p_pool AND amount < 0;
+    IF v_debit IS NULL OR p_amount < 0 OR p_amount > v_debit THEN
+      RAISE EXCEPTION 'A refund must give back at most the amount of one of the user''s debits';
+    END IF;
+  END IF;
+
+  -- Serialises all credit changes of this user
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User % not found', p_user_id;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+  FROM credit_transactions
+  WHERE user_id = p_user_id AND pool = p_pool;
+
+  IF p_reference IS NOT NULL THEN
+    SELECT id INTO v_existing
+    FROM credit_transactions
+    WHERE user_id = p_user_id AND pool = p_pool AND transaction_type = p_type AND reference = p_reference;
+    IF v_existing IS NOT NULL THEN
+      RETURN QUERY SELECT TRUE, v_balance, v_existing;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_balance + p_amount < 0 THEN
+    RETURN QUERY SELECT FALSE, v_balance, NULL::UUID;
+    RETURN;
+  END IF;
+
+  INSERT INTO credit_transactions (user_id, amount, transaction_type, description, reference, metadata, balance_after, pool)
+  VALUES (p_user_id, p_amount, p_type, p_description, p_reference, p_metadata, v_balance + p_amount, p_pool)
+  RETURNING id INTO v_id;
+
+  IF p_pool = 'atlas' THEN
+    UPDATE users SET atlas_credits = v_balance + p_amount WHERE id = p_user_id;
+  ELSE
+    UPDATE users SET credits = v_balance + p_amount WHERE id = p_user_id;
+  END IF;
+
+  RETURN QUERY SELECT TRUE, v_balance + p_amount, v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_initial_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.credits, 0) <> 0 THEN
+    INSERT INTO credit_transactions (user_id, amount, transaction_type, description, balance_after, pool)
+    VALUES (NEW.id, NEW.credits, 'signup_bonus', 'Welcome credits', NEW.credits, 'tutor');
+  END IF;
+  IF COALESCE(NEW.atlas_credits, 0) <> 0 THEN
+    INSERT INTO credit_transactions (user_id, amount, transaction_type, description, balance_after, pool)
+    VALUES (NEW.id, NEW.atlas_credits, 'signup_bonus', 'Welcome Atlas credits', NEW.atlas_credits, 'atlas');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_credit_balance(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_credit_transaction(UUID, INTEGER, TEXT, TEXT, TEXT, JSONB, TEXT) TO authenticated;
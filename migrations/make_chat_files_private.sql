@@ -0,0 +1,35 @@
+-- Migration: Private file storage
+-- Uploaded files (homework, ID scans, ...) were reachable by anyone with their public
+-- URL. The chat-files bucket is made private: the API hands out signed URLs that
+-- expire after an hour (src/lib/files/urls.ts) and GET /api/files/[fileId]/url
+-- signs a fresh one for the file's owner.
+-- Run this SQL in your Supabase SQL Editor
+
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'chat-files';
+
+-- Files are stored under "<user id>/...": users can only reach their own folder.
+-- The file worker and the orphan sweep use the service role, which bypasses these.
+DROP POLICY IF EXISTS "Users can read their own chat files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload their own chat files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own chat files" ON storage.objects;
+
+-- Also required to sign URLs
+CREATE POLICY "Users can read their own chat files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'chat-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own chat files"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'chat-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own chat files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'chat-files' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -10,7 +10,9 @@ const nextConfig = {
 
   // ✅ Existing experimental config for server-only packages
   experimental: {
-    serverExternalPackages: ["pdf-parse", "pdfjs-dist", "canvas"],
+    serverExternalPackages: ["pdf-parse", "pdfjs-dist", "canvas", "sql.js"],
+    // Starts the background file-processing worker (instrumentation.api.ts)
+    instrumentationHook: true,
   },
   
   webpack: (config, { isServer }) => {
@@ -24,7 +26,8 @@ const nextConfig = {
           if (
             request === "pdf-parse" ||
             request === "pdfjs-dist" ||
-            request === "canvas"
+            request === "canvas" ||
+            request === "sql.js"
           ) {
             return callback(null, `commonjs ${request}`);
           }
@@ -0,0 +1,52 @@
+/**
+ * Downloads tesseract language data into OCR_DATA_DIR (default ./tessdata) so
+ * servers without internet access can OCR uploads (see src/lib/files/extractors/ocr.ts).
+ *
+ * Usage:
+ *   node scripts/fetchOcrLanguages.js [lang ...]
+ *
+ * Languages are tesseract codes (eng, hin, chi_sim, ...); all languages offered in
+ * the app are downloaded when none are given. Existing files are kept.
+ */
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+// Keep in sync with OCR_LANGUAGES in src/lib/files/languages.ts
+const APP_LANGUAGES = [
+  'eng', 'hin', 'ben', 'tam', 'tel', 'mar', 'guj', 'kan', 'mal', 'pan', 'urd',
+  'fra', 'spa', 'deu', 'por', 'ita', 'ara', 'rus', 'chi_sim', 'jpn', 'kor',
+];
+// The data tesseract.js downloads by default
+const DATA_URL = 'https://cdn.jsdelivr.net/npm/@tesseract.js-data';
+const DATA_VERSION = '4.0.0_best_int';
+
+async function main() {
+  const languages = process.argv.slice(2).length > 0 ? process.argv.slice(2) : APP_LANGUAGES;
+  const dataDir = process.env.OCR_DATA_DIR || path.join(process.cwd(), 'tessdata');
+  fs.mkdirSync(dataDir, { recursive: true });
+
+  let failed = 0;
+  for (const lang of languages) {
+    const target = path.join(dataDir, `${lang}.traineddata`);
+    if (fs.existsSync(target)) {
+      console.log(`${lang}: already present`);
+      continue;
+    }
+    const res = await fetch(`${DATA_URL}/${lang}/${DATA_VERSION}/${lang}.traineddata.gz`);
+    if (!res.ok) {
+      console.error(`${lang}: download failed (${res.status})`);
+      failed++;
+      continue;
+    }
+    const data = zlib.gunzipSync(Buffer.from(await res.arrayBuffer()));
+    fs.writeFileSync(target, data);
+    console.log(`${lang}: ${(data.length / 1024 / 1024).toFixed(1)} MB`);
+  }
+  if (failed > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
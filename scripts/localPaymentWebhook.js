@@ -0,0 +1,40 @@
+/**
+ * Confirms an order created with PAYMENT_PROVIDER=local by sending the signed
+ * webhook a real payment provider would send.
+ *
+ * Usage:
+ *   LOCAL_PAYMENT_WEBHOOK_SECRET=... node scripts/localPaymentWebhook.js <orderId> [paid|failed] [amount]
+ *
+ * <orderId> is the order_local_... id logged by the browser at checkout.
+ * APP_URL defaults to http://localhost:3000.
+ */
+const crypto = require('crypto');
+
+async function main() {
+  const [orderId, type = 'paid', amount] = process.argv.slice(2);
+  const secret = process.env.LOCAL_PAYMENT_WEBHOOK_SECRET;
+  const appUrl = process.env.APP_URL || 'http://localhost:3000';
+
+  if (!orderId || !secret) {
+    console.error('Usage: LOCAL_PAYMENT_WEBHOOK_SECRET=... node scripts/localPaymentWebhook.js <orderId> [paid|failed] [amount]');
+    process.exit(1);
+  }
+
+  const event = { type, orderId };
+  if (amount) event.amount = Number(amount);
+  const body = JSON.stringify(event);
+  // Must match signLocalPaymentEvent in src/lib/payments/local.ts
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+  const res = await fetch(`${appUrl}/api/payments/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Local-Payment-Signature': signature },
+    body,
+  });
+  console.log(res.status, await res.text());
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -2,12 +2,30 @@
 
 // Robust PDF worker with pdf-parse (as class) and pdfjs-dist fallback
 
+// Usage: node pdfWorker.js <file.pdf> [renderDir] [maxRender]
+// Prints { text, pages: [{ num, text, image }], meta } as JSON. With a renderDir, pages
+// without a text layer are rendered to PNG there (image = file path) so they can be OCRed.
+
 const fs = require('fs');
 
+const path = require('path');
+
+// Pages with less embedded text than this are treated as scanned images
+
+const MIN_TEXT_CHARS = 20;
+
+// Render at twice the PDF size; OCR needs roughly 300 DPI
+
+const RENDER_SCALE = 2;
+
 (async () => {
 
   const filePath = process.argv[2];
 
+  const renderDir = process.argv[3] || null;
+
+  const maxRender = Number(process.argv[4]) || Infinity;
+
   if (!filePath) {
 
     console.error(JSON.stringify({ error: 'no-file-path' }));
@@ -38,7 +56,47 @@ const fs = require('fs');
 
       const result = await parser.getText();
 
-      const out = { text: result?.text ?? '', meta: { numPages: result?.total ?? null } };
+      const pages = (result?.pages ?? []).map(page => ({ num: page.num, text: page.text ?? '', image: null }));
+
+      // Pages without a text layer (scans) are rendered to PNG for OCR, up to maxRender pages
+
+      let rendered = 0;
+
+      if (renderDir) {
+
+        for (const page of pages) {
+
+          if (rendered >= maxRender || page.text.trim().length >= MIN_TEXT_CHARS) continue;
+
+          try {
+
+            const shot = await parser.getScreenshot({ partial: [page.num], scale: RENDER_SCALE, imageBuffer: true, imageDataUrl: false });
+
+            const image = shot?.pages?.[0]?.data;
+
+            if (image) {
+
+              page.image = path.join(renderDir, `page-${page.num}.png`);
+
+              fs.writeFileSync(page.image, image);
+
+              rendered++;
+
+            }
+
+          } catch (renderErr) {
+
+            // Leave the page without an image; the rest of the document is still usable
+
+          }
+
+        }
+
+      }
+
+      await parser.destroy?.();
+
+      const out = { text: result?.text ?? '', pages, meta: { numPages: result?.total ?? null, renderedPages: rendered } };
 
       process.stdout.write(JSON.stringify(out));
 
@@ -108,19 +166,26 @@ const fs = require('fs');
 
     let fullText = '';
 
+    const pages = [];
+
     for (let i = 1; i <= doc.numPages; i++) {
 
       const page = await doc.getPage(i);
 
       const content = await page.getTextContent();
 
-      fullText += content.items.map(it => it.str).join(' ') + '\n';
+      const pageText = content.items.map(it => it.str).join(' ');
+
+      pages.push({ num: i, text: pageText, image: null });
+
+      // Same page marker pdf-parse appends (used to cite pages)
+      fullText += pageText + `\n-- ${i} of ${doc.numPages} --\n`;
 
     }
 
 
 
-    const out = { text: fullText, meta: { numPages: doc.numPages } };
+    const out = { text: fullText, pages, meta: { numPages: doc.numPages, renderedPages: 0 } };
 
     process.stdout.write(JSON.stringify(out));
 
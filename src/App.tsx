@@ -6,7 +6,10 @@ import { ExploreArea } from "./components/ExploreArea";
 import { SettingsModal } from "./components/SettingsModal";
 import { SearchChatsDialog } from "./components/SearchChatsDialog";
 import { LibraryDialog } from "./components/LibraryDialog";
+import { MyFilesDialog } from "./components/MyFilesDialog";
+import { FlashcardsDialog } from "./components/FlashcardsDialog";
 import { HelpDialog } from "./components/HelpDialog";
+import { UpgradeModal } from "./components/UpgradeModal";
 import { ProjectsArea } from "./components/ProjectsArea";
 import { LoginPage } from "./components/LoginPage";
 import { LegalPageContent } from "./components/LegalPageContent";
@@ -21,13 +24,19 @@ import { PricingPage } from "./components/PricingPage";
 import { AccountDeleteFeedbackPage } from "./components/AccountDeleteFeedbackPage";
 import { toast, Toaster } from "sonner";
 import { AuthProvider, useAuth } from "./context/AuthContext";
+import { OPEN_UPGRADE_EVENT } from "./lib/entitlements/client";
+import type { EntitlementDenial } from "./lib/entitlements";
 
 function MainApp() {
   const { user, isLoading, logout } = useAuth();
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
   const [libraryOpen, setLibraryOpen] = useState(false);
+  const [filesOpen, setFilesOpen] = useState(false);
+  const [flashcardsOpen, setFlashcardsOpen] = useState(false);
   const [helpOpen, setHelpOpen] = useState(false);
+  const [upgradeOpen, setUpgradeOpen] = useState(false);
+  const [upgradeDenial, setUpgradeDenial] = useState<EntitlementDenial | null>(null);
   const [activeTab, setActiveTab] = useState("personalization");
   const [activeChat, setActiveChat] = useState("new-chat");
   const [activeAtlasChat, setActiveAtlasChat] = useState("new-chat");
@@ -65,6 +74,16 @@ function MainApp() {
     return () => window.removeEventListener('openHelp', handleOpenHelp);
   }, []);
 
+  // Refused features (402/403 from the API, locked sidebar items) open the upgrade modal
+  useEffect(() => {
+    const handleOpenUpgrade = (e: Event) => {
+      setUpgradeDenial((e as CustomEvent<EntitlementDenial | null>).detail);
+      setUpgradeOpen(true);
+    };
+    window.addEventListener(OPEN_UPGRADE_EVENT, handleOpenUpgrade);
+    return () => window.removeEventListener(OPEN_UPGRADE_EVENT, handleOpenUpgrade);
+  }, []);
+
   if (isLoading) return null;
   if (!user) {
     return (
@@ -361,6 +380,8 @@ function MainApp() {
         onOpenPersonalization={handleOpenPersonalization}
         onNewChat={handleNewChat}
         onOpenLibrary={() => setLibraryOpen(true)}
+        onOpenFiles={() => setFilesOpen(true)}
+        onOpenFlashcards={() => setFlashcardsOpen(true)}
         onOpenExplore={handleOpenExplore}
         onOpenAtlas={handleOpenAtlas}
         onOpenProjects={handleOpenProjects}
@@ -407,10 +428,27 @@ function MainApp() {
         onSelectChat={handleSelectChat}
       />
       
+      {/* Attaching happens from the chat composer's "My Files" button */}
+      <MyFilesDialog
+        open={filesOpen}
+        onClose={() => setFilesOpen(false)}
+      />
+      
+      <FlashcardsDialog
+        open={flashcardsOpen}
+        onClose={() => setFlashcardsOpen(false)}
+      />
+      
       <HelpDialog 
         open={helpOpen}
         onClose={() => setHelpOpen(false)}
       />
+
+      <UpgradeModal
+        open={upgradeOpen}
+        onClose={() => setUpgradeOpen(false)}
+        denial={upgradeDenial}
+      />
     </div>
   );
 }
@@ -5,6 +5,8 @@ import {
   Plus, 
   Globe, 
   FolderKanban, 
+  FolderOpen,
+  Layers,
   Sparkles,
   MessageSquare,
   Settings,
@@ -21,6 +23,9 @@ import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
 import { ThemeToggle } from "./ThemeToggle";
 import { supabase } from "../lib/supabase/client";
 import { getAvatarUrl, getUserInitials } from "../lib/avatar";
+import { fetchSubscription, CurrentSubscription } from "../lib/subscriptions/client";
+import { describeDenial } from "../lib/entitlements";
+import { openUpgrade } from "../lib/entitlements/client";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -36,6 +41,8 @@ interface AppSidebarProps {
   onOpenPersonalization: () => void;
   onNewChat: () => void;
   onOpenLibrary: () => void;
+  onOpenFiles: () => void;
+  onOpenFlashcards: () => void;
   onOpenExplore: () => void;
   onOpenAtlas: () => void;
   onOpenProjects: () => void;
@@ -53,6 +60,8 @@ export function AppSidebar({
   onOpenPersonalization,
   onNewChat,
   onOpenLibrary,
+  onOpenFiles,
+  onOpenFlashcards,
   onOpenExplore,
   onOpenAtlas,
   onOpenProjects,
@@ -77,6 +86,8 @@ export function AppSidebar({
     { id: "new-chat", icon: Plus, label: "New Chat" },
     { id: "atlas", icon: Globe, label: "Atlas" },
     { id: "projects", icon: FolderKanban, label: "Projects" },
+    { id: "files", icon: FolderOpen, label: "My Files" },
+    { id: "flashcards", icon: Layers, label: "Flashcards" },
   ];
 
   const gptItems = [
@@ -84,6 +95,14 @@ export function AppSidebar({
   ];
 
   const [recentChats, setRecentChats] = useState<Array<{ id: string; title: string }>>([]);
+  const [subscription, setSubscription] = useState<CurrentSubscription | null>(null);
+
+  useEffect(() => {
+    fetchSubscription().then(setSubscription).catch(() => {});
+  }, [user?.id]);
+
+  // The server enforces the same entitlements; this only saves a round trip
+  const atlasLocked = !!subscription && !subscription.entitlements.atlas;
 
   // Fetch last 5 chats when sidebar is open
   useEffect(() => {
@@ -161,10 +180,16 @@ export function AppSidebar({
             label={item.label}
             active={activeItem === item.id}
             collapsed={!isOpen}
+            locked={item.id === "atlas" && atlasLocked}
             onClick={() => {
               if (item.id === "new-chat") onNewChat();
-              if (item.id === "atlas") onOpenAtlas();
+              if (item.id === "atlas") {
+                if (atlasLocked) openUpgrade(describeDenial('atlas', subscription?.plan));
+                else onOpenAtlas();
+              }
               if (item.id === "projects") onOpenProjects();
+              if (item.id === "files") onOpenFiles();
+              if (item.id === "flashcards") onOpenFlashcards();
             }}
           />
         ))}
@@ -266,7 +291,7 @@ export function AppSidebar({
                     className="flex-1 text-left overflow-hidden"
                   >
                     <div className="text-[var(--text-primary)] truncate">{user?.email || user?.id}</div>
-                    <div className="text-[var(--text-secondary)]">Free</div>
+                    <div className="text-[var(--text-secondary)]">{subscription?.name || 'Free'}</div>
                   </motion.div>
                 )}
               </AnimatePresence>
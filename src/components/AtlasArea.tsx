@@ -3,6 +3,9 @@ import { Send, Loader2 } from "lucide-react";
 import { MessageCard } from "./MessageCard";
 import { StockChart } from "./StockChart";
 import { supabase } from "../lib/supabase/client";
+import { readResumableStream } from "../lib/streaming/client";
+import type { MessageUsage } from "../lib/credits/metering";
+import { asEntitlementDenial, openUpgrade } from "../lib/entitlements/client";
 
 interface AtlasAreaProps {
   chatId?: string;
@@ -37,6 +40,8 @@ type ChatMessage = {
   content: string; 
   images?: string[];
   stockCharts?: StockChartData[];
+  // Atlas credits charged for the answer
+  usage?: MessageUsage | null;
 };
 
 export function AtlasArea({ chatId = "new-chat", onChatIdUpdate }: AtlasAreaProps) {
@@ -119,160 +124,124 @@ export function AtlasArea({ chatId = "new-chat", onChatIdUpdate }: AtlasAreaProp
         }),
       });
 
-      if (res.status === 403) {
-        setError('Atlas is available for premium users only.');
-        setMessages(optimisticMessages);
-        setIsLoading(false);
-        return;
-      }
-
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({ error: 'Request failed' }));
+        const denial = asEntitlementDenial(res.status, errorData);
+        if (denial) openUpgrade(denial);
         setError(errorData.error || 'Failed to get answer');
         setMessages(optimisticMessages);
         setIsLoading(false);
         return;
       }
 
-      // Handle streaming response
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
+      // Handle streaming response (reconnects automatically if the connection drops)
       let accumulatedContent = "";
       let accumulatedImages: string[] = [];
       let accumulatedStockCharts: StockChartData[] = [];
       let newChatId = chatId;
 
-      if (!reader) {
-        setError('No response body');
-        setMessages(optimisticMessages);
-        setIsLoading(false);
-        return;
-      }
-
-      let streamCompleted = false;
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            // Stream ended - mark as done
-            if (accumulatedContent || accumulatedImages.length > 0) {
-              // We have content or images, stream completed successfully
-              streamCompleted = true;
-              setIsLoading(false);
-            } else {
-              // Stream ended with no content - might be an error
-              setError('Stream ended unexpectedly');
+        await readResumableStream(res, {
+          onEvent: (data) => {
+            // Handle error
+            if (data.error) {
+              setError(data.error);
               setMessages(optimisticMessages);
               setIsLoading(false);
+              return;
             }
-            break;
-          }
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n');
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const jsonStr = line.slice(6); // Remove 'data: ' prefix
-                const data = JSON.parse(jsonStr);
 
-                // Handle error
-                if (data.error) {
-                  setError(data.error);
-                  setMessages(optimisticMessages);
-                  setIsLoading(false);
-                  return;
-                }
-
-                // Handle stock charts
-                if (data.stockCharts && Array.isArray(data.stockCharts)) {
-                  console.log('Received stockCharts:', data.stockCharts.length, 'charts');
-                  accumulatedStockCharts = data.stockCharts;
-                  // Update the last AI message with stock charts
-                  setMessages(prev => {
-                    const newMsgs = [...prev];
-                    if (newMsgs.length > 0 && newMsgs[newMsgs.length - 1].type === 'ai') {
-                      newMsgs[newMsgs.length - 1] = { 
-                        type: 'ai', 
-                        content: accumulatedContent,
-                        images: accumulatedImages.length > 0 ? [...accumulatedImages] : undefined,
-                        stockCharts: accumulatedStockCharts.length > 0 ? [...accumulatedStockCharts] : undefined
-                      };
-                      console.log('Updated message with stockCharts:', newMsgs[newMsgs.length - 1].stockCharts?.length);
-                    }
-                    return newMsgs;
-                  });
+            // Handle stock charts
+            if (data.stockCharts && Array.isArray(data.stockCharts)) {
+              console.log('Received stockCharts:', data.stockCharts.length, 'charts');
+              accumulatedStockCharts = data.stockCharts;
+              // Update the last AI message with stock charts
+              setMessages(prev => {
+                const newMsgs = [...prev];
+                if (newMsgs.length > 0 && newMsgs[newMsgs.length - 1].type === 'ai') {
+                  newMsgs[newMsgs.length - 1] = { 
+                    type: 'ai', 
+                    content: accumulatedContent,
+                    images: accumulatedImages.length > 0 ? [...accumulatedImages] : undefined,
+                    stockCharts: accumulatedStockCharts.length > 0 ? [...accumulatedStockCharts] : undefined
+                  };
+                  console.log('Updated message with stockCharts:', newMsgs[newMsgs.length - 1].stockCharts?.length);
                 }
+                return newMsgs;
+              });
+            }
 
-                // Handle content chunk
-                if (data.content) {
-                  accumulatedContent += data.content;
-                  // Update the last AI message with accumulated content and images (preserve images and charts)
-                  setMessages(prev => {
-                    const newMsgs = [...prev];
-                    if (newMsgs.length > 0 && newMsgs[newMsgs.length - 1].type === 'ai') {
-                      // Preserve existing images if they exist, otherwise use accumulatedImages
-                      const existingImages = (newMsgs[newMsgs.length - 1] as any).images;
-                      const existingCharts = (newMsgs[newMsgs.length - 1] as any).stockCharts;
-                      const imagesToUse = existingImages && Array.isArray(existingImages) && existingImages.length > 0
-                        ? existingImages
-                        : (accumulatedImages.length > 0 ? [...accumulatedImages] : undefined);
-                      const chartsToUse = existingCharts && Array.isArray(existingCharts) && existingCharts.length > 0
-                        ? existingCharts
-                        : (accumulatedStockCharts.length > 0 ? [...accumulatedStockCharts] : undefined);
-                      newMsgs[newMsgs.length - 1] = { 
-                        type: 'ai', 
-                        content: accumulatedContent,
-                        images: imagesToUse,
-                        stockCharts: chartsToUse
-                      };
-                    }
-                    return newMsgs;
-                  });
+            // Handle content chunk
+            if (data.content) {
+              accumulatedContent += data.content;
+              // Update the last AI message with accumulated content and images (preserve images and charts)
+              setMessages(prev => {
+                const newMsgs = [...prev];
+                if (newMsgs.length > 0 && newMsgs[newMsgs.length - 1].type === 'ai') {
+                  // Preserve existing images if they exist, otherwise use accumulatedImages
+                  const existingImages = (newMsgs[newMsgs.length - 1] as any).images;
+                  const existingCharts = (newMsgs[newMsgs.length - 1] as any).stockCharts;
+                  const imagesToUse = existingImages && Array.isArray(existingImages) && existingImages.length > 0
+                    ? existingImages
+                    : (accumulatedImages.length > 0 ? [...accumulatedImages] : undefined);
+                  const chartsToUse = existingCharts && Array.isArray(existingCharts) && existingCharts.length > 0
+                    ? existingCharts
+                    : (accumulatedStockCharts.length > 0 ? [...accumulatedStockCharts] : undefined);
+                  newMsgs[newMsgs.length - 1] = { 
+                    type: 'ai', 
+                    content: accumulatedContent,
+                    images: imagesToUse,
+                    stockCharts: chartsToUse
+                  };
                 }
+                return newMsgs;
+              });
+            }
 
-                // Handle images
-                if (data.images && Array.isArray(data.images)) {
-                  accumulatedImages = [...new Set([...accumulatedImages, ...data.images])].slice(0, 3); // Limit to max 3
-                  // Update the last AI message with images (preserve charts)
-                  setMessages(prev => {
-                    const newMsgs = [...prev];
-                    if (newMsgs.length > 0 && newMsgs[newMsgs.length - 1].type === 'ai') {
-                      const existingCharts = (newMsgs[newMsgs.length - 1] as any).stockCharts;
-                      newMsgs[newMsgs.length - 1] = { 
-                        type: 'ai', 
-                        content: accumulatedContent,
-                        images: accumulatedImages.length > 0 ? [...accumulatedImages] : undefined,
-                        stockCharts: existingCharts && Array.isArray(existingCharts) && existingCharts.length > 0
-                          ? existingCharts
-                          : undefined
-                      };
-                    }
-                    return newMsgs;
-                  });
+            // Handle images
+            if (data.images && Array.isArray(data.images)) {
+              accumulatedImages = [...new Set([...accumulatedImages, ...data.images])].slice(0, 3); // Limit to max 3
+              // Update the last AI message with images (preserve charts)
+              setMessages(prev => {
+                const newMsgs = [...prev];
+                if (newMsgs.length > 0 && newMsgs[newMsgs.length - 1].type === 'ai') {
+                  const existingCharts = (newMsgs[newMsgs.length - 1] as any).stockCharts;
+                  newMsgs[newMsgs.length - 1] = { 
+                    type: 'ai', 
+                    content: accumulatedContent,
+                    images: accumulatedImages.length > 0 ? [...accumulatedImages] : undefined,
+                    stockCharts: existingCharts && Array.isArray(existingCharts) && existingCharts.length > 0
+                      ? existingCharts
+                      : undefined
+                  };
                 }
+                return newMsgs;
+              });
+            }
 
-                // Handle citations (we can display these later if needed)
-                if (data.citations) {
-                  // Citations are received but we'll handle them in the future
-                }
+            // Handle citations (we can display these later if needed)
+            if (data.citations) {
+              // Citations are received but we'll handle them in the future
+            }
 
-                // Handle completion
-                if (data.done) {
-                  streamCompleted = true;
-                  if (data.chatId && chatId === 'new-chat' && data.chatId !== chatId && onChatIdUpdate) {
-                    newChatId = data.chatId;
-                    onChatIdUpdate(data.chatId);
-                  }
-                  setIsLoading(false);
-                }
-              } catch (e) {
-                console.error('Error parsing SSE chunk:', e);
+            // Handle completion
+            if (data.done) {
+              if (data.usage) {
+                setMessages(prev => {
+                  const newMsgs = [...prev];
+                  const last = newMsgs[newMsgs.length - 1];
+                  if (last?.type === 'ai') newMsgs[newMsgs.length - 1] = { ...last, usage: data.usage };
+                  return newMsgs;
+                });
               }
+              if (data.chatId && chatId === 'new-chat' && data.chatId !== chatId && onChatIdUpdate) {
+                newChatId = data.chatId;
+                onChatIdUpdate(data.chatId);
+              }
+              setIsLoading(false);
             }
-          }
-        }
+          },
+        });
       } catch (streamError) {
         console.error('Stream reading error:', streamError);
         setError('Error reading stream');
@@ -378,6 +347,7 @@ export function AtlasArea({ chatId = "new-chat", onChatIdUpdate }: AtlasAreaProp
                   type={message.type} 
                   content={message.content} 
                   images={message.images} 
+                  usage={message.usage}
                 />
               </div>
             ))}
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "./ui/dialog";
 import { Input } from "./ui/input";
 import { supabase } from "../lib/supabase/client";
+import { asEntitlementDenial, openUpgrade } from "../lib/entitlements/client";
 
 type Result = { title: string; link: string; snippet?: string; image?: string };
 
@@ -32,7 +33,8 @@ export function AtlasDialog({ open, onClose }: AtlasDialogProps) {
         body: JSON.stringify({ query: q, searchType }) 
       });
       const data = await res.json();
-      if (res.status === 403) { setError('Atlas is available for premium users only.'); return; }
+      const denial = asEntitlementDenial(res.status, data);
+      if (denial) { setError(denial.error); openUpgrade(denial); return; }
       if (res.ok && Array.isArray(data.results)) setResults(data.results);
       else setError(data.error || 'Search failed');
     } catch {
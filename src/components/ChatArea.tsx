@@ -1,9 +1,24 @@
 import React from "react";
 import { useState, useEffect, useRef } from "react";
-import { Send, Paperclip, ArrowUp, Loader2, X } from "lucide-react";
+import { Send, Paperclip, ArrowUp, Loader2, X, Square, FolderOpen, Layers } from "lucide-react";
+import { toast } from "sonner";
 import { MessageCard } from "./MessageCard";
+import { MyFilesDialog } from "./MyFilesDialog";
+import { CurriculumPanel } from "./CurriculumPanel";
 import { ScrollArea } from "./ui/scroll-area";
 import { supabase } from "../lib/supabase/client";
+import { readResumableStream, getStreamId, stopResumableStream } from "../lib/streaming/client";
+import type { MessageUsage } from "../lib/credits/metering";
+import type { FileSource } from "../lib/rag/types";
+import { asEntitlementDenial, openUpgrade } from "../lib/entitlements/client";
+import { createFileJobTracker, describeJob, FileJobMap, FileJobTracker, isJobSettled, LibraryFile, requestFileProcessing } from "../lib/files/client";
+import { OCR_LANGUAGES } from "../lib/files/languages";
+import { UPLOAD_ACCEPT } from "../lib/files/formats";
+import { generateFlashcards } from "../lib/flashcards/client";
+import type { CurriculumTopic } from "../lib/curriculum/client";
+
+// How long sending waits for attached files to finish processing
+const FILE_PROCESSING_WAIT_MS = 60000;
 
 interface ChatAreaProps {
   chatId: string;
@@ -18,12 +33,43 @@ type Attachment = {
   filename: string;
   file_type: string;
   file_size: number;
+  // Language chosen to re-read the file's text with OCR
+  ocrLanguage?: string;
 };
 
+// Files whose text may come from OCR, so they can be re-read in another language
+const isOcrReadable = (file: Attachment) =>
+  file.file_type.startsWith('image/') || file.file_type === 'application/pdf' || /\.pdf$/i.test(file.filename);
+
 type ChatMessage = { 
   type: "user" | "ai"; 
   content: string;
   attachments?: Attachment[];
+  // Present once the message is saved; used for edit/regenerate/branch switching
+  messageId?: string;
+  siblingIds?: string[];
+  siblingIndex?: number;
+  // Answer was stopped before it finished
+  interrupted?: boolean;
+  // Credits charged for the answer
+  usage?: MessageUsage | null;
+  // File excerpts the answer cites
+  sources?: FileSource[] | null;
+  // Quiz in the answer
+  quizId?: string | null;
+  // A quiz is being written into the answer
+  quizPending?: boolean;
+};
+
+type StreamReplyOptions = {
+  body: Record<string, any>;
+  // Messages shown before the new turn
+  baseMessages: ChatMessage[];
+  // Optimistic user turn (omitted when regenerating)
+  userTurn?: ChatMessage;
+  // What to show if the request fails
+  restoreMessages: ChatMessage[];
+  waitForFileIds?: string[];
 };
 
 /**
@@ -50,8 +96,21 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
   const [isLoading, setIsLoading] = useState(false);
   const [attachedFiles, setAttachedFiles] = useState<Attachment[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [makingFlashcards, setMakingFlashcards] = useState(false);
+  const [myFilesOpen, setMyFilesOpen] = useState(false);
+  // The tutor of an existing chat (from its history), when the chat wasn't opened from one
+  const [chatTeacherId, setChatTeacherId] = useState<string | null>(null);
+  // Bumped when the tutor marked course topics, to reload the outline
+  const [curriculumVersion, setCurriculumVersion] = useState(0);
+  // Processing state of uploaded files, by attachment id
+  const [fileJobs, setFileJobs] = useState<FileJobMap>({});
+  const fileJobTrackerRef = useRef<FileJobTracker | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Aborts the in-flight /api/chat/send request when the user presses stop
+  const abortRef = useRef<AbortController | null>(null);
+  // Id of the answer stream being read, used to stop it server-side
+  const streamIdRef = useRef<string | null>(null);
 
   // Load user settings (call_me_by) on mount and when settings are updated
   const loadUserName = async () => {
@@ -116,94 +175,114 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
     };
   }, []);
 
-  useEffect(() => {
-    const load = async () => {
-      try {
-        const { data: { session } } = await supabase.auth.getSession();
-        const token = session?.access_token;
-        
-        const res = await fetch(`/api/chat/history?chatId=${encodeURIComponent(chatId)}`, {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          }
-        });
-        
-        // Check if response is JSON before parsing
-        const contentType = res.headers.get('content-type');
-        let data;
-        if (contentType && contentType.includes('application/json')) {
-          data = await res.json();
-        } else {
-          // If not JSON, log error and set empty messages
-          const text = await res.text();
-          console.error('Non-JSON response from server when loading chat history:', text);
-          setMessages([]);
-          return;
-        }
-        
-        // DEV-only: log raw strings for the last messages
-        if (process.env.NODE_ENV !== "production") {
-          console.log("[DEV] RAW MESSAGES FROM API:", data.messages?.slice(-3).map((m: any) => ({ 
-            id: m.id, 
-            contentPreview: m.content?.slice(0, 400) || '' 
-          })));
-        }
-        
-        if (res.ok && Array.isArray(data.messages)) {
-          // Normalize math syntax for all loaded messages (both AI and user)
-          const normalizedMessages = data.messages.map((msg: any) => ({
-            ...msg,
-            content: normalizeMathSyntax(msg.content || ''),
-            attachments: msg.attachments || []
-          }));
-          setMessages(normalizedMessages);
-        } else {
-          setMessages([]);
+  const loadHistory = async (targetChatId: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const token = session?.access_token;
+      
+      const res = await fetch(`/api/chat/history?chatId=${encodeURIComponent(targetChatId)}`, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
         }
-      } catch (error) {
-        console.error('Error loading chat history:', error);
+      });
+      
+      // Check if response is JSON before parsing
+      const contentType = res.headers.get('content-type');
+      let data;
+      if (contentType && contentType.includes('application/json')) {
+        data = await res.json();
+      } else {
+        // If not JSON, log error and set empty messages
+        const text = await res.text();
+        console.error('Non-JSON response from server when loading chat history:', text);
         setMessages([]);
+        return;
       }
-    };
-    load();
+      
+      // DEV-only: log raw strings for the last messages
+      if (process.env.NODE_ENV !== "production") {
+        console.log("[DEV] RAW MESSAGES FROM API:", data.messages?.slice(-3).map((m: any) => ({ 
+          id: m.id, 
+          contentPreview: m.content?.slice(0, 400) || '' 
+        })));
+      }
+      
+      setChatTeacherId(res.ok ? data.teacherId || null : null);
+      if (res.ok && Array.isArray(data.messages)) {
+        // Normalize math syntax for all loaded messages (both AI and user)
+        const normalizedMessages = data.messages.map((msg: any) => ({
+          ...msg,
+          content: normalizeMathSyntax(msg.content || ''),
+          attachments: msg.attachments || []
+        }));
+        setMessages(normalizedMessages);
+      } else {
+        setMessages([]);
+      }
+    } catch (error) {
+      console.error('Error loading chat history:', error);
+      setMessages([]);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory(chatId);
   }, [chatId]);
 
+  useEffect(() => {
+    const tracker = createFileJobTracker(setFileJobs);
+    fileJobTrackerRef.current = tracker;
+    return () => tracker.dispose();
+  }, []);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
   }, [messages]);
 
-  const handleSend = async () => {
-    if ((!inputValue.trim() && attachedFiles.length === 0) || isLoading || isUploading) return;
-    
-    const userMessage = inputValue.trim();
-    const filesToSend = [...attachedFiles];
-    
-    // Create optimistic message with attachments
-    const optimisticMessage: ChatMessage = {
-      type: "user",
-      content: userMessage || filesToSend.map(f => f.filename).join(', '),
-      attachments: filesToSend
-    };
-    
-    const optimisticMessages = [...messages, optimisticMessage];
-    setMessages(optimisticMessages);
-    setInputValue("");
-    setAttachedFiles([]);
+  // Picks up the saved turn once the server has stored it
+  const syncSavedTurn = (savedChatId?: string) => {
+    if (savedChatId && chatId === 'new-chat' && savedChatId !== chatId && onChatIdUpdate) {
+      // Changing chatId reloads history with the saved message ids
+      onChatIdUpdate(savedChatId);
+    } else {
+      // Refresh to pick up message ids and branch info for the new turn
+      loadHistory(savedChatId || chatId);
+    }
+  };
+
+  // Streams a reply from /api/chat/send into a placeholder AI message
+  const streamReply = async ({ body, baseMessages, userTurn, restoreMessages, waitForFileIds = [] }: StreamReplyOptions) => {
+    const optimisticMessages = userTurn ? [...baseMessages, userTurn] : baseMessages;
     setIsLoading(true);
 
     // Add AI message placeholder for streaming
     setMessages([...optimisticMessages, { type: "ai", content: "" }]);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // After a stop, keep what was streamed so far (the server saves it as interrupted)
+    const keepPartialAnswer = () => {
+      setMessages(prev => {
+        const last = prev[prev.length - 1];
+        if (!last || last.type !== 'ai') return prev;
+        if (!last.content) return prev.slice(0, -1);
+        return [...prev.slice(0, -1), { ...last, interrupted: true }];
+      });
+      setIsLoading(false);
+    };
+
     try {
       const { data: { session } } = await supabase.auth.getSession();
       const token = session?.access_token;
       
-      // Wait briefly for file processing (non-blocking, max 2 seconds)
-      if (filesToSend.length > 0) {
-        await waitForFileProcessing(filesToSend.map(f => f.id), 2000);
+      // Let attached files finish processing so the answer can use them
+      if (waitForFileIds.length > 0 && fileJobTrackerRef.current) {
+        await fileJobTrackerRef.current.waitUntilSettled(waitForFileIds, FILE_PROCESSING_WAIT_MS, controller.signal);
+        if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
       }
       
       const res = await fetch('/api/chat/send', {
@@ -212,102 +291,207 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`
         },
-        body: JSON.stringify({ 
-          chatId, 
-          content: userMessage || (filesToSend.length > 0 ? `Please analyze these files: ${filesToSend.map(f => f.filename).join(', ')}` : ''),
-          teacherId: teacherId,
-          attachmentIds: filesToSend.map(f => f.id)
-        }),
+        body: JSON.stringify(body),
+        signal: controller.signal,
       });
 
       if (!res.ok) {
         // Handle non-streaming errors (like 401, 402, etc.)
         const errorData = await res.json().catch(() => ({ error: 'Request failed' }));
         console.error('Chat send error:', errorData);
-        setMessages(optimisticMessages);
+        const denial = asEntitlementDenial(res.status, errorData);
+        if (denial) openUpgrade(denial);
+        setMessages(restoreMessages);
         setIsLoading(false);
         return;
       }
 
-      // Handle streaming response
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
-      let accumulatedContent = "";
-      let newChatId = chatId;
+      streamIdRef.current = getStreamId(res);
 
-      if (!reader) {
-        console.error('No response body');
-        setMessages(optimisticMessages);
-        setIsLoading(false);
-        return;
-      }
+      // Handle streaming response (reconnects automatically if the connection drops)
+      let accumulatedContent = "";
+      let streamedSources: FileSource[] | null = null;
+      let quizPending = false;
+      let failed = false;
 
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            setIsLoading(false);
-            break;
-          }
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n');
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const jsonStr = line.slice(6); // Remove 'data: ' prefix
-                const data = JSON.parse(jsonStr);
-
-                // Handle error
-                if (data.error) {
-                  console.error('Stream error:', data.error);
-                  setMessages(optimisticMessages);
-                  setIsLoading(false);
-                  return;
-                }
+        await readResumableStream(res, {
+          signal: controller.signal,
+          onEvent: (data) => {
+            // Handle error
+            if (data.error) {
+              console.error('Stream error:', data.error);
+              failed = true;
+              setMessages(restoreMessages);
+              setIsLoading(false);
+              return;
+            }
 
-                // Handle content chunk
-                if (data.content) {
-                  accumulatedContent += data.content;
-                  // Normalize math syntax before updating the message
-                  const normalizedContent = normalizeMathSyntax(accumulatedContent);
-                  // Update the last AI message with accumulated content
-                  setMessages(prev => {
-                    const newMsgs = [...prev];
-                    if (newMsgs.length > 0 && newMsgs[newMsgs.length - 1].type === 'ai') {
-                      newMsgs[newMsgs.length - 1] = { 
-                        type: 'ai', 
-                        content: normalizedContent
-                      };
-                    }
-                    return newMsgs;
-                  });
-                }
+            // Excerpts retrieved from attached files arrive before the answer
+            if (Array.isArray(data.sources)) {
+              streamedSources = data.sources;
+            }
 
-                // Handle completion
-                if (data.done) {
-                  if (data.chatId && chatId === 'new-chat' && data.chatId !== chatId && onChatIdUpdate) {
-                    newChatId = data.chatId;
-                    onChatIdUpdate(data.chatId);
-                  }
-                  setIsLoading(false);
+            // The tutor started a quiz; its questions arrive with the saved answer
+            if (data.quizPending) {
+              quizPending = true;
+              setMessages(prev => {
+                const last = prev[prev.length - 1];
+                if (!last || last.type !== 'ai') return prev;
+                return [...prev.slice(0, -1), { ...last, quizPending: true }];
+              });
+            }
+
+            // Handle content chunk
+            if (data.content) {
+              accumulatedContent += data.content;
+              // Normalize math syntax before updating the message
+              const normalizedContent = normalizeMathSyntax(accumulatedContent);
+              // Update the last AI message with accumulated content
+              setMessages(prev => {
+                const newMsgs = [...prev];
+                if (newMsgs.length > 0 && newMsgs[newMsgs.length - 1].type === 'ai') {
+                  newMsgs[newMsgs.length - 1] = { 
+                    type: 'ai', 
+                    content: normalizedContent,
+                    sources: streamedSources,
+                    quizPending
+                  };
                 }
-              } catch (e) {
-                console.error('Error parsing SSE chunk:', e);
-              }
+                return newMsgs;
+              });
             }
-          }
-        }
+
+            // Handle completion
+            if (data.done) {
+              if (data.curriculumUpdated) setCurriculumVersion(version => version + 1);
+              syncSavedTurn(data.chatId);
+            }
+          },
+        });
+        if (!failed) setIsLoading(false);
       } catch (streamError) {
+        if (controller.signal.aborted) {
+          keepPartialAnswer();
+          return;
+        }
         console.error('Stream reading error:', streamError);
-        setMessages(optimisticMessages);
+        setMessages(restoreMessages);
         setIsLoading(false);
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        keepPartialAnswer();
+        return;
+      }
       console.error('Chat send failed:', error);
-      setMessages(optimisticMessages);
+      setMessages(restoreMessages);
       setIsLoading(false);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        streamIdRef.current = null;
+      }
+    }
+  };
+
+  const handleStop = () => {
+    // A dropped connection keeps generating (so it can resume), so stopping must tell the server
+    const streamId = streamIdRef.current;
+    if (streamId) {
+      // The stopped answer is saved with ids (and a new chat's id) the client doesn't have yet
+      stopResumableStream(streamId).then(final => {
+        if (final?.done) syncSavedTurn(final.chatId);
+      });
+    }
+    abortRef.current?.abort();
+  };
+
+  const handleSend = async () => {
+    if ((!inputValue.trim() && attachedFiles.length === 0) || isLoading || isUploading) return;
+    
+    const userMessage = inputValue.trim();
+    const filesToSend = [...attachedFiles];
+    
+    // Create optimistic message with attachments
+    const optimisticMessage: ChatMessage = {
+      type: "user",
+      content: userMessage || filesToSend.map(f => f.filename).join(', '),
+      attachments: filesToSend
+    };
+    
+    setInputValue("");
+    setAttachedFiles([]);
+
+    await streamReply({
+      body: { 
+        chatId, 
+        content: userMessage || (filesToSend.length > 0 ? `Please analyze these files: ${filesToSend.map(f => f.filename).join(', ')}` : ''),
+        teacherId: teacherId,
+        attachmentIds: filesToSend.map(f => f.id)
+      },
+      baseMessages: messages,
+      userTurn: optimisticMessage,
+      restoreMessages: [...messages, optimisticMessage],
+      waitForFileIds: filesToSend.map(f => f.id),
+    });
+  };
+
+  // Resend an edited question as a new branch next to the original
+  const handleEditMessage = async (index: number, newContent: string) => {
+    const original = messages[index];
+    if (!original?.messageId || isLoading) return;
+
+    await streamReply({
+      body: { chatId, content: newContent, teacherId, editMessageId: original.messageId },
+      baseMessages: messages.slice(0, index),
+      // The server sends the edit with the original question's files
+      userTurn: { type: "user", content: newContent, attachments: original.attachments },
+      restoreMessages: messages,
+    });
+  };
+
+  // Ask for another answer to the same question as a new branch
+  const handleRegenerate = async (index: number) => {
+    const original = messages[index];
+    if (!original?.messageId || isLoading) return;
+
+    await streamReply({
+      body: { chatId, teacherId, regenerateMessageId: original.messageId },
+      baseMessages: messages.slice(0, index),
+      restoreMessages: messages,
+    });
+  };
+
+  // Flip to the previous/next alternative of a message
+  const handleSwitchBranch = async (index: number, direction: -1 | 1) => {
+    const message = messages[index];
+    const targetId = message?.siblingIds?.[(message.siblingIndex ?? 0) + direction];
+    if (!targetId || isLoading) return;
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const token = session?.access_token;
+      const res = await fetch('/api/chat/branch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ chatId, messageId: targetId }),
+      });
+      const data = await res.json();
+      if (res.ok && Array.isArray(data.messages)) {
+        setMessages(data.messages.map((msg: any) => ({
+          ...msg,
+          content: normalizeMathSyntax(msg.content || ''),
+          attachments: msg.attachments || []
+        })));
+      } else {
+        console.error('Branch switch error:', data.error);
+      }
+    } catch (error) {
+      console.error('Branch switch failed:', error);
     }
   };
 
@@ -353,18 +537,20 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
           file_size: data.size
         };
         setAttachedFiles([...attachedFiles, attachment]);
+        fileJobTrackerRef.current?.track(data.id, data.job);
         
-        // Trigger file processing in background
-        fetch('/api/files/process', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({ attachmentId: data.id })
-        }).catch(err => console.error('Error processing file:', err));
+        // The upload queues processing itself; queue it here if that failed
+        if (!data.job) {
+          requestFileProcessing(data.id)
+            .then(job => fileJobTrackerRef.current?.track(data.id, job))
+            .catch(err => console.error('Error processing file:', err));
+        }
       } else {
         console.error('File upload error:', data.error);
+        const denial = asEntitlementDenial(res.status, data);
+        if (denial) openUpgrade(denial);
+        // Unsupported, mismatched or oversized files
+        else if (data.error) toast.error(data.error);
       }
     } catch (error) {
       console.error('File upload error:', error);
@@ -377,41 +563,51 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
     }
   };
 
+  // Files picked from "My Files" are sent again without uploading them
+  const attachLibraryFiles = (files: LibraryFile[]) => {
+    const added = files
+      .filter(file => !attachedFiles.some(f => f.id === file.id))
+      .map(file => ({ id: file.id, url: file.url, filename: file.filename, file_type: file.file_type, file_size: file.file_size }));
+    setAttachedFiles([...attachedFiles, ...added]);
+    added.forEach(file => fileJobTrackerRef.current?.track(file.id));
+  };
+
+  const rereadFile = async (attachmentId: string, ocrLanguage: string) => {
+    setAttachedFiles(files => files.map(f => f.id === attachmentId ? { ...f, ocrLanguage } : f));
+    try {
+      const job = await requestFileProcessing(attachmentId, ocrLanguage);
+      fileJobTrackerRef.current?.track(attachmentId, job);
+    } catch (error) {
+      console.error('Error re-reading file:', error);
+    }
+  };
+
   const removeFile = (index: number) => {
     setAttachedFiles(attachedFiles.filter((_, i) => i !== index));
   };
 
-  // Wait for file processing to complete before sending
-  const waitForFileProcessing = async (attachmentIds: string[], maxWait = 3000) => {
-    if (attachmentIds.length === 0) return;
-    
-    const startTime = Date.now();
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session) return;
-    
-    while (Date.now() - startTime < maxWait) {
-      // Check if files are processed
-      const { data: attachments, error } = await supabase
-        .from('attachments')
-        .select('id, extracted_text')
-        .in('id', attachmentIds);
-      
-      if (!error && attachments && Array.isArray(attachments)) {
-        const allProcessed = attachments.every((att: any) => 
-          att.extracted_text && 
-          typeof att.extracted_text === 'string' &&
-          att.extracted_text.trim() && 
-          !att.extracted_text.includes('[File processing failed:')
-        );
-        
-        if (allProcessed) break;
-      }
-      
-      // Wait 200ms before checking again
-      await new Promise(resolve => setTimeout(resolve, 200));
+  // Cards of the chat's key concepts go into the deck of its tutor (Flashcards in the sidebar)
+  const makeFlashcards = async () => {
+    if (chatId === 'new-chat' || makingFlashcards) return;
+    setMakingFlashcards(true);
+    try {
+      const { deck, cards } = await generateFlashcards(chatId);
+      if (cards.length > 0) toast.success(`Added ${cards.length} ${cards.length === 1 ? 'card' : 'cards'} to ${deck.name}`);
+      else toast('No new flashcards: this chat\'s concepts are already in your deck');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not make flashcards');
+    } finally {
+      setMakingFlashcards(false);
     }
   };
 
+  // Fills the input with a request to teach a topic of the tutor's course outline
+  const studyTopic = (topic: CurriculumTopic) => {
+    setInputValue(`Let's study ${topic.id} ${topic.title}`);
+  };
+
+  const activeTeacherId = teacherId || chatTeacherId;
+
   return (
     <div className="flex-1 flex flex-col h-full bg-[var(--app-bg)] overflow-hidden">
       {/* Header */}
@@ -432,27 +628,56 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
             <span className="text-sm font-medium text-[var(--text-primary)] dark:text-[var(--text-secondary)]">Upgrade to Pro</span>
           </button>
         </div>
+
+        {chatId !== 'new-chat' && messages.length > 0 && (
+          <button
+            className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--hover-bg)] transition-colors disabled:opacity-50"
+            onClick={makeFlashcards}
+            disabled={makingFlashcards || isLoading}
+            title="Make flashcards of this chat's key concepts"
+          >
+            {makingFlashcards ? <Loader2 className="w-4 h-4 animate-spin" /> : <Layers className="w-4 h-4" />}
+            Make flashcards
+          </button>
+        )}
       </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto" ref={scrollRef}>
-        {messages.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full px-6">
-            <h2 className="text-[var(--text-primary)] mb-4">Hi, I'm your Private Tutor</h2>
-            <h1 className="text-[var(--text-primary)] mb-8">How can I help, {userName}?</h1>
-          </div>
-        ) : (
-          <div className="w-full">
-            {messages.map((message, index) => (
-              <MessageCard 
-                key={index} 
-                type={message.type} 
-                content={message.content} 
-                images={(message as any).images || []}
-                attachments={message.attachments || []}
-              />
-            ))}
-          </div>
+      <div className="flex-1 flex min-h-0">
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto" ref={scrollRef}>
+          {messages.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full px-6">
+              <h2 className="text-[var(--text-primary)] mb-4">Hi, I'm your Private Tutor</h2>
+              <h1 className="text-[var(--text-primary)] mb-8">How can I help, {userName}?</h1>
+            </div>
+          ) : (
+            <div className="w-full">
+              {messages.map((message, index) => (
+                <MessageCard 
+                  key={message.messageId || index} 
+                  type={message.type} 
+                  content={message.content} 
+                  images={(message as any).images || []}
+                  attachments={message.attachments || []}
+                  siblingIndex={message.siblingIndex}
+                  siblingCount={message.siblingIds?.length}
+                  onSwitchBranch={(direction) => handleSwitchBranch(index, direction)}
+                  onEdit={message.type === 'user' && message.messageId ? (newContent) => handleEditMessage(index, newContent) : undefined}
+                  onRegenerate={message.type === 'ai' && message.messageId ? () => handleRegenerate(index) : undefined}
+                  interrupted={message.interrupted}
+                  usage={message.usage}
+                  sources={message.sources}
+                  quizId={message.quizId}
+                  quizPending={message.quizPending}
+                  actionsDisabled={isLoading || isUploading}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {activeTeacherId && (
+          <CurriculumPanel teacherId={activeTeacherId} refreshKey={curriculumVersion} onStudy={studyTopic} />
         )}
       </div>
 
@@ -476,9 +701,33 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
                   ) : (
                     <Paperclip className="w-4 h-4 text-[var(--text-secondary)]" />
                   )}
-                  <span className="text-sm text-[var(--text-primary)] max-w-[200px] truncate">
-                    {file.filename}
-                  </span>
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-sm text-[var(--text-primary)] max-w-[200px] truncate">
+                      {file.filename}
+                    </span>
+                    {fileJobs[file.id] && (
+                      <span
+                        className={`text-xs ${fileJobs[file.id].status === 'failed' ? 'text-red-500' : 'text-[var(--text-secondary)]'}`}
+                        title={fileJobs[file.id].error || undefined}
+                      >
+                        {describeJob(fileJobs[file.id])}
+                      </span>
+                    )}
+                    {isOcrReadable(file) && fileJobs[file.id] && isJobSettled(fileJobs[file.id]) && (
+                      <select
+                        value={file.ocrLanguage || ''}
+                        onChange={(e) => e.target.value && rereadFile(file.id, e.target.value)}
+                        className="text-xs bg-transparent text-[var(--text-secondary)] focus:outline-none"
+                        aria-label="Re-read in language"
+                        title="Re-read scanned text in another language"
+                      >
+                        <option value="" disabled>Re-read in…</option>
+                        {OCR_LANGUAGES.map(language => (
+                          <option key={language.code} value={language.code}>{language.label}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
                   <button
                     onClick={() => removeFile(idx)}
                     className="ml-1 hover:bg-[var(--card-border)] rounded p-1 transition-colors"
@@ -501,10 +750,31 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
             >
               <Paperclip className="w-5 h-5" />
             </button>
+            <button
+              type="button"
+              className="p-2 text-muted-foreground hover:text-primary focus:outline-none rounded-full hover:bg-[var(--card-border)] active:bg-[var(--card-border)] focus:bg-[var(--card-border)] transition-colors disabled:opacity-50"
+              aria-label="Attach from My Files"
+              title="Attach from My Files"
+              onClick={() => setMyFilesOpen(true)}
+              disabled={isLoading || isUploading}
+            >
+              <FolderOpen className="w-5 h-5" />
+            </button>
             <div className="relative flex-1">
+              {/^\/[a-z]*$/i.test(inputValue.trim()) && '/quiz'.startsWith(inputValue.trim().toLowerCase()) && (
+                <button
+                  type="button"
+                  className="absolute bottom-full left-0 mb-2 flex items-center gap-2 px-3 py-2 rounded-lg bg-[var(--card-bg)] border border-[var(--card-border)] text-sm shadow-sm hover:border-[#5A5BEF] transition-colors"
+                  onClick={() => setInputValue('/quiz ')}
+                >
+                  <span className="font-mono text-[#5A5BEF]">/quiz [topic]</span>
+                  <span className="text-[var(--text-secondary)]">Get a graded quiz on a topic</span>
+                </button>
+              )}
               <input 
                 ref={fileInputRef} 
                 type="file" 
+                accept={UPLOAD_ACCEPT}
                 onChange={handleFileChange} 
                 className="hidden"
                 style={{ display: 'none' }}
@@ -531,21 +801,38 @@ export function ChatArea({ chatId, teacherId, onReset, onChatIdUpdate }: ChatAre
                   target.style.height = `${Math.min(target.scrollHeight, 200)}px`;
                 }}
               />
-              <button
-                onClick={handleSend}
-                disabled={(!inputValue.trim() && attachedFiles.length === 0) || isLoading || isUploading}
-                className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-[#5A5BEF] hover:bg-[#4A4BDF] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isLoading ? (
-                  <Loader2 className="w-4 h-4 text-white animate-spin" />
-                ) : (
-                  <Send className="w-4 h-4 text-white" />
-                )}
-              </button>
+              {isLoading ? (
+                <button
+                  onClick={handleStop}
+                  type="button"
+                  aria-label="Stop generating"
+                  className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-[#5A5BEF] hover:bg-[#4A4BDF] transition-colors"
+                >
+                  <Square className="w-4 h-4 text-white fill-white" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={(!inputValue.trim() && attachedFiles.length === 0) || isUploading}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-[#5A5BEF] hover:bg-[#4A4BDF] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isUploading ? (
+                    <Loader2 className="w-4 h-4 text-white animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4 text-white" />
+                  )}
+                </button>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      <MyFilesDialog
+        open={myFilesOpen}
+        onClose={() => setMyFilesOpen(false)}
+        onAttach={attachLibraryFiles}
+      />
     </div>
   );
 }
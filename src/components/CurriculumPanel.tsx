@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { BookOpen, Check, ChevronDown, ChevronRight, Circle, CircleDot, Loader2, PanelRightClose, PanelRightOpen, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { ScrollArea } from "./ui/scroll-area";
+import { buildCurriculumFromSyllabus, Curriculum, CurriculumTopic, CurriculumUnit, getCurriculum, TopicStatus } from "../lib/curriculum/client";
+
+interface CurriculumPanelProps {
+  teacherId: string;
+  // Changes when the tutor may have marked topics, to reload the progress
+  refreshKey?: number;
+  // Asks the tutor to teach a topic
+  onStudy: (topic: CurriculumTopic) => void;
+}
+
+const STATUS_LABELS: Record<TopicStatus, string> = { not_started: 'Not started', covered: 'Covered', mastered: 'Mastered' };
+
+function StatusIcon({ status }: { status: TopicStatus }) {
+  if (status === 'mastered') return <Check className="w-3.5 h-3.5 text-green-600 dark:text-green-500" />;
+  if (status === 'covered') return <CircleDot className="w-3.5 h-3.5 text-[#5A5BEF]" />;
+  return <Circle className="w-3.5 h-3.5 text-[var(--text-secondary)]" />;
+}
+
+function describeCost(credits: number | null): string {
+  return credits === null ? '' : ` It costs up to ${credits} tutor ${credits === 1 ? 'credit' : 'credits'}.`;
+}
+
+function unitProgress(unit: CurriculumUnit): { done: number; total: number } {
+  return { done: unit.topics.filter(topic => topic.status === 'mastered').length, total: unit.topics.length };
+}
+
+/**
+ * The course outline of a chat's tutor with the student's progress, next to the chat
+ */
+export function CurriculumPanel({ teacherId, refreshKey = 0, onStudy }: CurriculumPanelProps) {
+  const [curriculum, setCurriculum] = useState<Curriculum | null>(null);
+  const [hasSyllabus, setHasSyllabus] = useState(false);
+  // Most a build costs, shown before the student starts one
+  const [buildCredits, setBuildCredits] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [building, setBuilding] = useState(false);
+  const [confirmRebuild, setConfirmRebuild] = useState(false);
+  const [collapsed, setCollapsed] = useState(false);
+  // Units folded away by the user
+  const [foldedUnits, setFoldedUnits] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getCurriculum(teacherId)
+      .then(result => {
+        if (cancelled) return;
+        setCurriculum(result.curriculum);
+        setHasSyllabus(result.hasSyllabus);
+        setBuildCredits(result.buildCredits);
+      })
+      .catch(error => {
+        // Built-in tutors have no syllabus; the panel stays hidden
+        if (cancelled) return;
+        console.error('Error loading curriculum:', error);
+        setCurriculum(null);
+        setHasSyllabus(false);
+        setBuildCredits(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [teacherId, refreshKey]);
+
+  const build = async () => {
+    setConfirmRebuild(false);
+    setBuilding(true);
+    try {
+      const built = await buildCurriculumFromSyllabus(teacherId);
+      setCurriculum(built);
+      setFoldedUnits(new Set());
+      toast.success(`Course outline ready: ${built.units.length} ${built.units.length === 1 ? 'unit' : 'units'}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not build the course outline');
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const toggleUnit = (unitId: string) => {
+    setFoldedUnits(prev => {
+      const next = new Set(prev);
+      if (next.has(unitId)) next.delete(unitId);
+      else next.add(unitId);
+      return next;
+    });
+  };
+
+  if (!curriculum && !hasSyllabus) return null;
+
+  if (collapsed) {
+    return (
+      <div className="border-l border-[var(--card-border)] p-2">
+        <button
+          className="p-2 rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--hover-bg)] transition-colors"
+          onClick={() => setCollapsed(false)}
+          title="Show course outline"
+        >
+          <PanelRightOpen className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  const topics = curriculum ? curriculum.units.flatMap(unit => unit.topics) : [];
+  const mastered = topics.filter(topic => topic.status === 'mastered').length;
+  const nextTopic = curriculum?.nextTopicId ? topics.find(topic => topic.id === curriculum.nextTopicId) : null;
+
+  return (
+    <aside className="w-72 shrink-0 border-l border-[var(--card-border)] flex flex-col min-h-0">
+      <div className="px-4 py-3 flex items-center gap-2 border-b border-[var(--card-border)]">
+        <BookOpen className="w-4 h-4 text-[var(--text-secondary)]" />
+        <span className="text-sm font-medium text-[var(--text-primary)]">Course outline</span>
+        {curriculum && (
+          <button
+            className="ml-auto p-1 rounded text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--hover-bg)] transition-colors disabled:opacity-50"
+            onClick={() => setConfirmRebuild(true)}
+            disabled={building || !hasSyllabus}
+            title="Rebuild from syllabus"
+          >
+            {building ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+          </button>
+        )}
+        <button
+          className={`${curriculum ? '' : 'ml-auto '}p-1 rounded text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--hover-bg)] transition-colors`}
+          onClick={() => setCollapsed(true)}
+          title="Hide course outline"
+        >
+          <PanelRightClose className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {!curriculum ? (
+        <div className="p-4 flex flex-col gap-3">
+          <p className="text-sm text-[var(--text-secondary)]">
+            Turn this tutor's syllabus into units and topics, and track what you have covered and mastered as you learn.{describeCost(buildCredits)}
+          </p>
+          <button
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white text-sm transition-colors disabled:opacity-50"
+            onClick={build}
+            disabled={building || loading}
+          >
+            {building && <Loader2 className="w-4 h-4 animate-spin" />}
+            Build course outline from syllabus
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="px-4 py-3 border-b border-[var(--card-border)]">
+            <div className="flex items-center justify-between text-xs text-[var(--text-secondary)] mb-1.5">
+              <span>{mastered} of {topics.length} topics mastered</span>
+              {loading && <Loader2 className="w-3 h-3 animate-spin" />}
+            </div>
+            <div className="h-1.5 rounded-full bg-[var(--hover-bg)] overflow-hidden">
+              <div className="h-full bg-[#5A5BEF] transition-all" style={{ width: `${topics.length ? (mastered / topics.length) * 100 : 0}%` }} />
+            </div>
+            {nextTopic ? (
+              <button
+                className="mt-3 w-full text-left rounded-lg border border-[#5A5BEF]/40 bg-[#5A5BEF]/5 px-3 py-2 hover:bg-[#5A5BEF]/10 transition-colors"
+                onClick={() => onStudy(nextTopic)}
+                title="Ask the tutor to teach this topic"
+              >
+                <span className="block text-xs text-[#5A5BEF] font-medium">Next up</span>
+                <span className="block text-sm text-[var(--text-primary)]">{nextTopic.id} {nextTopic.title}</span>
+              </button>
+            ) : (
+              <p className="mt-3 text-sm text-[var(--text-primary)]">Every topic mastered. Well done!</p>
+            )}
+          </div>
+
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="py-2">
+              {curriculum.units.map(unit => {
+                const { done, total } = unitProgress(unit);
+                const folded = foldedUnits.has(unit.id);
+                return (
+                  <div key={unit.id} className="px-2">
+                    <button
+                      className="w-full flex items-start gap-1.5 px-2 py-2 rounded-lg text-left hover:bg-[var(--hover-bg)] transition-colors"
+                      onClick={() => toggleUnit(unit.id)}
+                    >
+                      {folded
+                        ? <ChevronRight className="w-4 h-4 mt-0.5 shrink-0 text-[var(--text-secondary)]" />
+                        : <ChevronDown className="w-4 h-4 mt-0.5 shrink-0 text-[var(--text-secondary)]" />}
+                      <span className="flex-1 text-sm font-medium text-[var(--text-primary)]">{unit.id}. {unit.title}</span>
+                      <span className="text-xs text-[var(--text-secondary)] mt-0.5">{done}/{total}</span>
+                    </button>
+                    {!folded && (
+                      <ul className="mb-1">
+                        {unit.topics.map(topic => (
+                          <li key={topic.id}>
+                            <button
+                              className={`w-full flex items-start gap-2 pl-8 pr-2 py-1.5 rounded-lg text-left hover:bg-[var(--hover-bg)] transition-colors ${topic.id === curriculum.nextTopicId ? 'bg-[#5A5BEF]/5' : ''}`}
+                              onClick={() => onStudy(topic)}
+                              title={[STATUS_LABELS[topic.status], ...topic.objectives.map(objective => `• ${objective}`)].join('\n')}
+                            >
+                              <span className="mt-0.5 shrink-0"><StatusIcon status={topic.status} /></span>
+                              <span className="text-sm text-[var(--text-primary)]">{topic.id} {topic.title}</span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </>
+      )}
+
+      <AlertDialog open={confirmRebuild} onOpenChange={setConfirmRebuild}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rebuild the course outline?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The outline is made again from this tutor's syllabus, and your progress on the current one is cleared.{describeCost(buildCredits)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={build}>Rebuild</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </aside>
+  );
+}
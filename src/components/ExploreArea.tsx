@@ -1,9 +1,11 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Textarea } from "./ui/textarea";
 import { MoreVertical, Edit, Trash2, ArrowRight, ArrowLeft, X, Upload, Check, Loader2 } from "lucide-react";
 import { supabase } from "../lib/supabase/client";
+import { asEntitlementDenial, openUpgrade } from "../lib/entitlements/client";
+import { createFileJobTracker, describeJob, FileJobMap, FileJobTracker, isJobSettled, uploadStandaloneFile } from "../lib/files/client";
 import { motion, AnimatePresence } from "motion/react";
 import {
   DropdownMenu,
@@ -41,6 +43,9 @@ interface ExploreAreaProps {
   onSelectTeacher: (teacherId: string) => void;
 }
 
+// How long "Start Learning" waits for the syllabus to be read (scanned pages take a while)
+const SYLLABUS_WAIT_MS = 3 * 60 * 1000;
+
 export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
   const [teachers, setTeachers] = useState<Teacher[]>([]);
   const [addOpen, setAddOpen] = useState(false);
@@ -64,11 +69,31 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
   const [startingTopic, setStartingTopic] = useState("");
   const [currentStep, setCurrentStep] = useState(1);
   const [isCreatingTutor, setIsCreatingTutor] = useState(false);
+  // The uploaded syllabus, whose text is extracted in the background while the wizard goes on
+  const [syllabusAttachmentId, setSyllabusAttachmentId] = useState<string | null>(null);
+  const [syllabusUploading, setSyllabusUploading] = useState(false);
+  const [syllabusError, setSyllabusError] = useState<string | null>(null);
+  const [syllabusJobs, setSyllabusJobs] = useState<FileJobMap>({});
+  const syllabusJobsRef = useRef<FileJobMap>({});
+  const syllabusTrackerRef = useRef<FileJobTracker | null>(null);
+  // Counts syllabus selections, so an upload that finishes after another file was picked
+  // (or the syllabus was dropped) is ignored
+  const syllabusUploadRef = useRef(0);
+  const [wizardError, setWizardError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchTeachers();
   }, []);
 
+  useEffect(() => {
+    const tracker = createFileJobTracker(jobs => {
+      syllabusJobsRef.current = jobs;
+      setSyllabusJobs(jobs);
+    });
+    syllabusTrackerRef.current = tracker;
+    return () => tracker.dispose();
+  }, []);
+
   // Reset questionnaire state when modal closes
   useEffect(() => {
     if (!addOpen) {
@@ -82,6 +107,8 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
       setSelectedLearningReason(null);
       setCustomLearningReason("");
       setStartingTopic("");
+      discardSyllabus();
+      setWizardError(null);
     }
   }, [addOpen]);
 
@@ -144,11 +171,66 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
     }
   };
 
+  // Forgets the syllabus upload, including one still in flight
+  const discardSyllabus = () => {
+    syllabusUploadRef.current += 1;
+    setSyllabusAttachmentId(null);
+    setSyllabusError(null);
+    setSyllabusUploading(false);
+  };
+
+  // Uploads the syllabus right away so its text is extracted while the wizard goes on
+  const selectSyllabusFile = async (file: File) => {
+    discardSyllabus();
+    const upload = syllabusUploadRef.current;
+    setUploadedFile(file);
+    setSyllabusUploading(true);
+    setTimeout(() => {
+      setShowUploadPopup(false);
+    }, 500);
+    try {
+      const { id, job } = await uploadStandaloneFile(file);
+      if (upload !== syllabusUploadRef.current) return;
+      setSyllabusAttachmentId(id);
+      syllabusTrackerRef.current?.track(id, job);
+    } catch (err) {
+      if (upload !== syllabusUploadRef.current) return;
+      setSyllabusError(err instanceof Error ? err.message : 'Could not upload the syllabus');
+    } finally {
+      if (upload === syllabusUploadRef.current) setSyllabusUploading(false);
+    }
+  };
+
+  const syllabusJob = syllabusAttachmentId ? syllabusJobs[syllabusAttachmentId] : undefined;
+  const syllabusProblem = syllabusError
+    || (syllabusJob?.status === 'failed' ? `${describeJob(syllabusJob)}. Upload another file, or continue without a syllabus.` : null);
+
+  // Waits until the syllabus text is extracted. Returns the upload's id, or null after
+  // reporting why the syllabus can't be used.
+  const waitForSyllabus = async (): Promise<string | null> => {
+    if (!syllabusAttachmentId) {
+      setWizardError(syllabusError || 'The syllabus was not uploaded. Upload it again, or continue without one.');
+      return null;
+    }
+    await syllabusTrackerRef.current?.waitUntilSettled([syllabusAttachmentId], SYLLABUS_WAIT_MS);
+    const job = syllabusJobsRef.current[syllabusAttachmentId];
+    if (job && !isJobSettled(job)) {
+      setWizardError('Your syllabus is still being read. Try again in a moment.');
+      return null;
+    }
+    if (job?.status === 'failed') {
+      setWizardError(`${describeJob(job)}. Upload another file, or continue without a syllabus.`);
+      return null;
+    }
+    return syllabusAttachmentId;
+  };
+
   const handleStartLearning = async () => {
     if (!startingTopic.trim()) return;
     
     setIsCreatingTutor(true);
     setError(null);
+    setWizardError(null);
     
     try {
       // Collect all questionnaire data
@@ -175,8 +257,14 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
         systemPrompt += `The student is learning ${subject} for: ${learningPurpose}. `;
       }
       
-      // Add syllabus context
+      // Add syllabus context; its text is stored with the tutor once extracted
+      let syllabusAttachment: string | null = null;
       if (hasSyllabus === true && uploadedFile) {
+        syllabusAttachment = await waitForSyllabus();
+        if (!syllabusAttachment) {
+          setIsCreatingTutor(false);
+          return;
+        }
         systemPrompt += `The student has provided a syllabus document (${uploadedFile.name}). Use this as reference for course structure and topics. `;
       }
       
@@ -211,6 +299,7 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
           name: tutorName,
           description: tutorDescription,
           system_prompt: systemPrompt,
+          ...(syllabusAttachment ? { syllabus_attachment_id: syllabusAttachment } : {}),
         })
       });
       
@@ -234,15 +323,18 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
         setSelectedLearningReason(null);
         setCustomLearningReason("");
         setStartingTopic("");
+        discardSyllabus();
         
         // Redirect to chat with the new tutor
         onSelectTeacher(data.id);
       } else {
-        setError(data.error || 'Failed to create tutor');
+        const denial = asEntitlementDenial(res.status, data);
+        if (denial) openUpgrade(denial);
+        setWizardError(data.error || 'Failed to create tutor');
         setIsCreatingTutor(false);
       }
     } catch (err) {
-      setError('Failed to create tutor');
+      setWizardError('Failed to create tutor');
       console.error('Error creating teacher:', err);
       setIsCreatingTutor(false);
     }
@@ -700,6 +792,7 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
                       onClick={() => {
                         setHasSyllabus(false);
                         setUploadedFile(null);
+                        discardSyllabus();
                         setShowUploadPopup(false);
                       }}
                       className={`p-6 rounded-lg border-2 transition-all duration-200 text-left font-medium text-base
@@ -727,9 +820,22 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
                       <span className="text-gray-600 dark:text-[#A0A0A0] ml-2 text-sm">
                         {uploadedFile.name}
                       </span>
+                      {!syllabusProblem && (syllabusUploading || syllabusJob) && (
+                        <span className="ml-auto flex items-center gap-1.5 text-gray-600 dark:text-[#A0A0A0] text-sm">
+                          {(syllabusUploading || !isJobSettled(syllabusJob)) && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                          {syllabusUploading ? 'Uploading…' : describeJob(syllabusJob)}
+                        </span>
+                      )}
                     </motion.div>
                   )}
 
+                  {/* Syllabus upload or extraction failure */}
+                  {uploadedFile && syllabusProblem && (
+                    <div className="-mt-3 mb-6 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                      <p className="text-red-500 dark:text-red-400 text-sm">{syllabusProblem}</p>
+                    </div>
+                  )}
+
                   {/* Navigation Buttons */}
                   <div className="flex justify-between mt-auto">
                     <Button
@@ -795,10 +901,7 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
                               e.currentTarget.classList.remove('border-[#5A5BEF]', 'bg-[#5A5BEF]/5');
                               const file = e.dataTransfer.files[0];
                               if (file && (file.type === 'application/pdf' || file.type.includes('word'))) {
-                                setUploadedFile(file);
-                                setTimeout(() => {
-                                  setShowUploadPopup(false);
-                                }, 500);
+                                selectSyllabusFile(file);
                               }
                             }}
                           >
@@ -819,10 +922,7 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
                               onChange={(e) => {
                                 const file = e.target.files?.[0];
                                 if (file) {
-                                  setUploadedFile(file);
-                                  setTimeout(() => {
-                                    setShowUploadPopup(false);
-                                  }, 500);
+                                  selectSyllabusFile(file);
                                 }
                               }}
                             />
@@ -946,6 +1046,12 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
                     />
                   </div>
 
+                  {wizardError && (
+                    <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                      <p className="text-red-500 dark:text-red-400 text-sm">{wizardError}</p>
+                    </div>
+                  )}
+
                   {/* Navigation Buttons */}
                   <div className="flex justify-between mt-auto">
                     <Button
@@ -960,13 +1066,13 @@ export function ExploreArea({ onSelectTeacher }: ExploreAreaProps) {
                     </Button>
                     <Button
                       onClick={handleStartLearning}
-                      disabled={!startingTopic.trim() || isCreatingTutor}
+                      disabled={!startingTopic.trim() || isCreatingTutor || syllabusUploading}
                       className="bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       {isCreatingTutor ? (
                         <>
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                          Creating...
+                          {syllabusJob && !isJobSettled(syllabusJob) ? `Reading syllabus… ${syllabusJob.progress}%` : 'Creating...'}
                         </>
                       ) : (
                         "Start Learning"
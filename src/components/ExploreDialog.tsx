@@ -4,6 +4,7 @@ import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Textarea } from "./ui/textarea";
 import { supabase } from "../lib/supabase/client";
+import { asEntitlementDenial, openUpgrade } from "../lib/entitlements/client";
 
 type Teacher = { id: string; name: string; description?: string };
 
@@ -55,6 +56,9 @@ export function ExploreDialog({ open, onClose, onSelectTeacher }: ExploreDialogP
         setTeachers(prev => [data, ...prev]);
         setAddOpen(false);
         setName(""); setSystemPrompt(""); setDescription("");
+      } else {
+        const denial = asEntitlementDenial(res.status, data);
+        if (denial) openUpgrade(denial);
       }
     } catch {}
   };
@@ -0,0 +1,480 @@
+import { useEffect, useState } from "react";
+import { ArrowLeft, Check, Download, Layers, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from "./ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { ScrollArea } from "./ui/scroll-area";
+import { Button } from "./ui/button";
+import {
+  addCard,
+  deleteCard,
+  deleteDeck,
+  downloadDeck,
+  Flashcard,
+  FlashcardDeck,
+  FlashcardExportFormat,
+  getDeck,
+  listDecks,
+  listDueCards,
+  previewIntervals,
+  renameDeck,
+  REVIEW_RATINGS,
+  reviewCard,
+  ReviewRating,
+  updateCard,
+} from "../lib/flashcards/client";
+import 'katex/dist/katex.min.css';
+
+interface FlashcardsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type View = 'decks' | 'deck' | 'review';
+
+const RATING_LABELS: Record<ReviewRating, string> = { again: 'Again', hard: 'Hard', good: 'Good', easy: 'Easy' };
+
+/**
+ * Card text, which may hold markdown and math
+ */
+function CardText({ text }: { text: string }) {
+  return (
+    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+      {text}
+    </ReactMarkdown>
+  );
+}
+
+function formatDue(card: Flashcard): string {
+  const due = new Date(card.dueAt);
+  if (due.getTime() <= Date.now()) return 'Due now';
+  return `Due ${due.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+}
+
+export function FlashcardsDialog({ open, onClose }: FlashcardsDialogProps) {
+  const [view, setView] = useState<View>('decks');
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [deck, setDeck] = useState<FlashcardDeck | null>(null);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [renamingDeck, setRenamingDeck] = useState(false);
+  const [deckName, setDeckName] = useState("");
+  const [deletingDeck, setDeletingDeck] = useState<FlashcardDeck | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [front, setFront] = useState("");
+  const [back, setBack] = useState("");
+  const [exporting, setExporting] = useState<FlashcardExportFormat | null>(null);
+  // Review session: the cards left (forgotten ones go back to the end) and how many were done
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [reviewed, setReviewed] = useState(0);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [rating, setRating] = useState(false);
+
+  const refreshDecks = async () => {
+    setLoading(true);
+    try {
+      setDecks(await listDecks());
+    } catch (error) {
+      console.error('Error loading decks:', error);
+      setDecks([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) {
+      setView('decks');
+      setDeck(null);
+      setCards([]);
+      setEditingId(null);
+      setRenamingDeck(false);
+      setQueue([]);
+      return;
+    }
+    refreshDecks();
+  }, [open]);
+
+  const openDeck = async (target: FlashcardDeck) => {
+    try {
+      const result = await getDeck(target.id);
+      setDeck(result.deck);
+      setCards(result.cards);
+      setEditingId(null);
+      setRenamingDeck(false);
+      setView('deck');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not load the deck');
+    }
+  };
+
+  const backToDecks = () => {
+    setView('decks');
+    setDeck(null);
+    setQueue([]);
+    refreshDecks();
+  };
+
+  const startReview = async (deckId?: string) => {
+    try {
+      const due = await listDueCards(deckId);
+      if (due.length === 0) {
+        toast.success('Nothing to review today');
+        return;
+      }
+      setQueue(due);
+      setReviewed(0);
+      setShowAnswer(false);
+      setView('review');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not load the cards to review');
+    }
+  };
+
+  const rate = async (value: ReviewRating) => {
+    const card = queue[0];
+    if (!card || rating) return;
+    setRating(true);
+    try {
+      const next = await reviewCard(card.id, value);
+      setQueue(prev => (value === 'again' ? [...prev.slice(1), next] : prev.slice(1)));
+      setReviewed(count => count + 1);
+      setShowAnswer(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save the review');
+    } finally {
+      setRating(false);
+    }
+  };
+
+  const saveDeckName = async () => {
+    if (!deck || !deckName.trim()) return;
+    try {
+      setDeck(await renameDeck(deck.id, deckName.trim()));
+      setRenamingDeck(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not rename the deck');
+    }
+  };
+
+  const confirmDeleteDeck = async () => {
+    if (!deletingDeck) return;
+    const target = deletingDeck;
+    setDeletingDeck(null);
+    try {
+      await deleteDeck(target.id);
+      backToDecks();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not delete the deck');
+    }
+  };
+
+  const startEditing = (card: Flashcard | null) => {
+    setEditingId(card ? card.id : 'new');
+    setFront(card ? card.front : '');
+    setBack(card ? card.back : '');
+  };
+
+  const saveCard = async () => {
+    if (!deck || !editingId || !front.trim() || !back.trim()) return;
+    try {
+      if (editingId === 'new') {
+        const card = await addCard(deck.id, front.trim(), back.trim());
+        setCards(prev => [...prev, card]);
+        setDeck(prev => (prev ? { ...prev, cardCount: prev.cardCount + 1, dueCount: prev.dueCount + 1 } : prev));
+      } else {
+        const card = await updateCard(editingId, { front: front.trim(), back: back.trim() });
+        setCards(prev => prev.map(c => (c.id === card.id ? card : c)));
+      }
+      setEditingId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save the card');
+    }
+  };
+
+  const removeCard = async (card: Flashcard) => {
+    try {
+      await deleteCard(card.id);
+      setCards(prev => prev.filter(c => c.id !== card.id));
+      setDeck(prev => (prev ? { ...prev, cardCount: prev.cardCount - 1 } : prev));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not delete the card');
+    }
+  };
+
+  const exportDeck = async (format: FlashcardExportFormat) => {
+    if (!deck) return;
+    setExporting(format);
+    try {
+      await downloadDeck(deck.id, format);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not export the deck');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const totalDue = decks.reduce((sum, d) => sum + d.dueCount, 0);
+  const current = queue[0];
+  const intervals = current ? previewIntervals(current) : null;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="max-w-4xl !bg-white dark:!bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] p-0 rounded-[12px] opacity-100">
+          <DialogTitle className="sr-only">Flashcards</DialogTitle>
+          <DialogDescription className="sr-only">
+            Flashcard decks made from your chats, to review, edit and export
+          </DialogDescription>
+
+          <div className="p-6">
+            {view === 'decks' && (
+              <>
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-gray-900 dark:text-[#EAEAEA]">Flashcards</h2>
+                  <Button onClick={() => startReview()} disabled={totalDue === 0} className="bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white">
+                    Review{totalDue > 0 ? ` (${totalDue})` : ''}
+                  </Button>
+                </div>
+                <ScrollArea className="h-[400px]">
+                  {decks.length > 0 ? (
+                    <div className="space-y-2 pr-2">
+                      {decks.map((d) => (
+                        <button
+                          key={d.id}
+                          onClick={() => openDeck(d)}
+                          className="w-full flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-[#2A2A2A] bg-white dark:bg-[#181818] hover:border-[#5A5BEF] transition-colors text-left"
+                        >
+                          <Layers className="w-5 h-5 text-[#5A5BEF] flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <div className="text-gray-900 dark:text-[#EAEAEA] truncate">{d.name}</div>
+                            <div className="text-xs text-gray-600 dark:text-[#A0A0A0]">
+                              {d.cardCount} {d.cardCount === 1 ? 'card' : 'cards'}
+                            </div>
+                          </div>
+                          {d.dueCount > 0 && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-[#5A5BEF] text-white">{d.dueCount} due</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center text-gray-600 dark:text-[#A0A0A0] py-8">
+                      {loading ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : 'No flashcards yet. Use "Make flashcards" in a chat to create some.'}
+                    </div>
+                  )}
+                </ScrollArea>
+              </>
+            )}
+
+            {view === 'deck' && deck && (
+              <>
+                <div className="flex items-center gap-2 mb-6">
+                  <button onClick={backToDecks} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]" aria-label="Back to decks">
+                    <ArrowLeft className="w-5 h-5" />
+                  </button>
+                  {renamingDeck ? (
+                    <>
+                      <Input
+                        value={deckName}
+                        onChange={(e) => setDeckName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') saveDeckName();
+                          if (e.key === 'Escape') setRenamingDeck(false);
+                        }}
+                        className="h-8 max-w-xs bg-white dark:bg-[#121212] border-gray-200 dark:border-[#2A2A2A] text-gray-900 dark:text-[#EAEAEA]"
+                        autoFocus
+                      />
+                      <button onClick={saveDeckName} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]" aria-label="Save name">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setRenamingDeck(false)} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]" aria-label="Cancel rename">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <h2 className="text-gray-900 dark:text-[#EAEAEA] truncate">{deck.name}</h2>
+                      <button
+                        onClick={() => {
+                          setRenamingDeck(true);
+                          setDeckName(deck.name);
+                        }}
+                        className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]"
+                        aria-label="Rename deck"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setDeletingDeck(deck)} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-red-500" aria-label="Delete deck">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  <div className="ml-auto flex gap-2">
+                    <Button variant="outline" onClick={() => exportDeck('apkg')} disabled={!!exporting || cards.length === 0}>
+                      {exporting === 'apkg' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      Anki
+                    </Button>
+                    <Button variant="outline" onClick={() => exportDeck('csv')} disabled={!!exporting || cards.length === 0}>
+                      {exporting === 'csv' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      CSV
+                    </Button>
+                    <Button onClick={() => startReview(deck.id)} disabled={deck.dueCount === 0} className="bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white">
+                      Review{deck.dueCount > 0 ? ` (${deck.dueCount})` : ''}
+                    </Button>
+                  </div>
+                </div>
+
+                <ScrollArea className="h-[400px]">
+                  <div className="space-y-2 pr-2">
+                    {[...cards, null].map((card) => {
+                      const id = card ? card.id : 'new';
+                      if (editingId === id) {
+                        return (
+                          <div key={id} className="p-3 rounded-lg border border-[#5A5BEF] bg-white dark:bg-[#181818] space-y-2">
+                            <Textarea
+                              value={front}
+                              onChange={(e) => setFront(e.target.value)}
+                              placeholder="Front (question)"
+                              className="bg-white dark:bg-[#121212] border-gray-200 dark:border-[#2A2A2A] text-gray-900 dark:text-[#EAEAEA]"
+                              autoFocus
+                            />
+                            <Textarea
+                              value={back}
+                              onChange={(e) => setBack(e.target.value)}
+                              placeholder="Back (answer)"
+                              className="bg-white dark:bg-[#121212] border-gray-200 dark:border-[#2A2A2A] text-gray-900 dark:text-[#EAEAEA]"
+                            />
+                            <div className="flex justify-end gap-2">
+                              <Button variant="outline" onClick={() => setEditingId(null)}>Cancel</Button>
+                              <Button onClick={saveCard} disabled={!front.trim() || !back.trim()} className="bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white">
+                                Save
+                              </Button>
+                            </div>
+                          </div>
+                        );
+                      }
+                      if (!card) {
+                        return (
+                          <button
+                            key="new"
+                            onClick={() => startEditing(null)}
+                            className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-300 dark:border-[#2A2A2A] text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF] hover:border-[#5A5BEF]"
+                          >
+                            <Plus className="w-4 h-4" />
+                            Add card
+                          </button>
+                        );
+                      }
+                      return (
+                        <div key={card.id} className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 dark:border-[#2A2A2A] bg-white dark:bg-[#181818]">
+                          <div className="flex-1 min-w-0 grid grid-cols-2 gap-4 text-sm">
+                            <div className="text-gray-900 dark:text-[#EAEAEA] break-words"><CardText text={card.front} /></div>
+                            <div className="text-gray-600 dark:text-[#A0A0A0] break-words"><CardText text={card.back} /></div>
+                          </div>
+                          <span className="text-xs text-gray-600 dark:text-[#A0A0A0] whitespace-nowrap">{formatDue(card)}</span>
+                          <button onClick={() => startEditing(card)} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]" aria-label="Edit card">
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => removeCard(card)} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-red-500" aria-label="Delete card">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </ScrollArea>
+              </>
+            )}
+
+            {view === 'review' && (
+              <>
+                <div className="flex items-center gap-2 mb-6">
+                  <button onClick={deck ? () => openDeck(deck) : backToDecks} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]" aria-label="End review">
+                    <ArrowLeft className="w-5 h-5" />
+                  </button>
+                  <h2 className="text-gray-900 dark:text-[#EAEAEA]">Review</h2>
+                  <span className="ml-auto text-sm text-gray-600 dark:text-[#A0A0A0]">
+                    {reviewed} reviewed · {queue.length} left
+                  </span>
+                </div>
+
+                {current && intervals ? (
+                  <div className="h-[400px] flex flex-col">
+                    <ScrollArea className="flex-1 rounded-lg border border-gray-200 dark:border-[#2A2A2A] bg-gray-50 dark:bg-[#181818]">
+                      <div className="p-6 text-center">
+                        <div className="text-lg text-gray-900 dark:text-[#EAEAEA]"><CardText text={current.front} /></div>
+                        {showAnswer && (
+                          <>
+                            <hr className="my-4 border-gray-200 dark:border-[#2A2A2A]" />
+                            <div className="text-gray-900 dark:text-[#EAEAEA]"><CardText text={current.back} /></div>
+                          </>
+                        )}
+                      </div>
+                    </ScrollArea>
+                    <div className="flex justify-center gap-2 mt-4">
+                      {showAnswer ? (
+                        REVIEW_RATINGS.map((value) => (
+                          <Button
+                            key={value}
+                            variant={value === 'good' ? 'default' : 'outline'}
+                            onClick={() => rate(value)}
+                            disabled={rating}
+                            className={`flex-col h-auto py-2 min-w-[88px] ${value === 'good' ? 'bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white' : ''}`}
+                          >
+                            <span>{RATING_LABELS[value]}</span>
+                            <span className="text-xs opacity-75">{intervals[value]}</span>
+                          </Button>
+                        ))
+                      ) : (
+                        <Button onClick={() => setShowAnswer(true)} className="bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white">
+                          Show answer
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="h-[400px] flex flex-col items-center justify-center text-gray-600 dark:text-[#A0A0A0]">
+                    <p className="mb-4">All done for today. You reviewed {reviewed} {reviewed === 1 ? 'card' : 'cards'}.</p>
+                    <Button variant="outline" onClick={deck ? () => openDeck(deck) : backToDecks}>Back</Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingDeck} onOpenChange={(isOpen) => { if (!isOpen) setDeletingDeck(null); }}>
+        <AlertDialogContent className="bg-[var(--card-bg)] border-[var(--card-border)]">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-[var(--text-primary)]">Delete Deck</AlertDialogTitle>
+            <AlertDialogDescription className="text-[var(--text-secondary)]">
+              Delete {deletingDeck?.name} and its {deletingDeck?.cardCount} cards? Their review history is lost. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setDeletingDeck(null)}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDeleteDeck} className="bg-red-500 hover:bg-red-600 text-white">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
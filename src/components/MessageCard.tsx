@@ -1,11 +1,16 @@
 import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
-import { Sparkles, FileIcon } from "lucide-react";
+import { Sparkles, FileIcon, Pencil, RefreshCw, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { ReactNode, useState, useEffect } from 'react';
+import { MouseEvent, ReactNode, useState, useEffect } from 'react';
 import { supabase } from "../lib/supabase/client";
 import { getAvatarUrl, getUserInitials } from "../lib/avatar";
+import { getFileUrl } from "../lib/files/client";
+import type { MessageUsage } from "../lib/credits/metering";
+import type { FileSource } from "../lib/rag/types";
+import { InlineCitationBadge } from "./InlineCitationBadge";
+import { QuizCard } from "./QuizCard";
 import 'katex/dist/katex.min.css';
 
 interface MessageCardProps {
@@ -19,6 +24,107 @@ interface MessageCardProps {
     file_type: string;
     file_size: number;
   }>;
+  // Branch navigation: position among alternative versions of this message
+  siblingIndex?: number;
+  siblingCount?: number;
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  // Edit-and-resend (user messages) / regenerate (AI messages)
+  onEdit?: (newContent: string) => void;
+  onRegenerate?: () => void;
+  actionsDisabled?: boolean;
+  // AI answer was stopped before it finished
+  interrupted?: boolean;
+  // Credits charged for this AI answer
+  usage?: MessageUsage | null;
+  // File excerpts the AI answer cites as [SourceN]
+  sources?: FileSource[] | null;
+  // Quiz the AI answer holds, shown as a quiz card below it
+  quizId?: string | null;
+  // The tutor is writing a quiz (it is shown once the answer is saved)
+  quizPending?: boolean;
+}
+
+/**
+ * Tooltip text breaking a charge down into what was metered
+ */
+function describeUsage(usage: MessageUsage): string {
+  const parts = [`${usage.inputTokens.toLocaleString()} input tokens`, `${usage.outputTokens.toLocaleString()} output tokens`];
+  if (usage.attachments > 0) parts.push(`${usage.attachments} attachment${usage.attachments === 1 ? '' : 's'}`);
+  if (usage.searches > 0) parts.push(`${usage.searches} web search${usage.searches === 1 ? '' : 'es'}`);
+  return parts.join(' · ');
+}
+
+const SOURCE_LINK_PREFIX = '#source-';
+
+/**
+ * Turns [SourceN] markers into links that the renderer swaps for citation badges
+ */
+function linkSourceMarkers(text: string, sourceCount: number): string {
+  return text
+    // "[Source1, Source3]" -> "[Source1][Source3]"
+    .replace(/\[(Source\d+(?:\s*,\s*Source\d+)+)\]/g, (_m, list: string) => list.split(/\s*,\s*/).map(s => `[${s}]`).join(''))
+    .replace(/\[Source(\d+)\](?!\()/g, (marker, n) => {
+      const index = parseInt(n, 10);
+      return index >= 1 && index <= sourceCount ? `[Source${index}](${SOURCE_LINK_PREFIX}${index})` : marker;
+    });
+}
+
+/**
+ * Badge data for a file excerpt: the file name and page (or section) stand in for the domain
+ */
+function toCitation(source: FileSource) {
+  const location = source.page !== null ? `p. ${source.page}` : source.section;
+  return {
+    title: source.section ? `${source.fileName} — ${source.section}` : source.fileName,
+    url: source.url,
+    domain: location ? `${source.fileName} · ${location}` : source.fileName,
+    snippet: source.snippet,
+  };
+}
+
+/**
+ * Opens an attached file with a fresh signed link (the one loaded with the chat expires)
+ */
+function openAttachment(event: MouseEvent, attachmentId: string, url: string) {
+  event.preventDefault();
+  // Opened before the request so the browser doesn't block it as a popup
+  const tab = window.open('', '_blank');
+  getFileUrl(attachmentId)
+    .catch(() => url)
+    .then(freshUrl => {
+      if (!tab) return;
+      tab.opener = null;
+      tab.location.href = freshUrl || url;
+    });
+}
+
+/**
+ * "< 2 / 3 >" switcher between alternative versions of a message
+ */
+function BranchSwitcher({ index, count, onSwitch, disabled }: { index: number; count: number; onSwitch: (direction: -1 | 1) => void; disabled?: boolean }) {
+  return (
+    <div className="flex items-center gap-1 text-xs text-[var(--text-secondary)]">
+      <button
+        type="button"
+        className="p-1 rounded hover:bg-[var(--card-border)] transition-colors disabled:opacity-40"
+        onClick={() => onSwitch(-1)}
+        disabled={disabled || index <= 0}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </button>
+      <span>{index + 1} / {count}</span>
+      <button
+        type="button"
+        className="p-1 rounded hover:bg-[var(--card-border)] transition-colors disabled:opacity-40"
+        onClick={() => onSwitch(1)}
+        disabled={disabled || index >= count - 1}
+        aria-label="Next version"
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
 }
 
 /**
@@ -286,8 +392,37 @@ function preprocessMath(content: string): string {
   return processed;
 }
 
-export function MessageCard({ type, content, images = [], attachments = [] }: MessageCardProps) {
+export function MessageCard({
+  type,
+  content,
+  images = [],
+  attachments = [],
+  siblingIndex = 0,
+  siblingCount = 1,
+  onSwitchBranch,
+  onEdit,
+  onRegenerate,
+  actionsDisabled = false,
+  interrupted = false,
+  usage = null,
+  sources = null,
+  quizId = null,
+  quizPending = false,
+}: MessageCardProps) {
   const [user, setUser] = useState<any>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState(content);
+  // Links fetched again for images whose link had expired, by attachment id
+  const [refreshedUrls, setRefreshedUrls] = useState<Record<string, string>>({});
+
+  const refreshAttachmentUrl = (attachmentId: string, url: string) => {
+    // Once per image, so a file that can't be loaded doesn't retry forever
+    if (attachmentId in refreshedUrls) return;
+    setRefreshedUrls(prev => ({ ...prev, [attachmentId]: url }));
+    getFileUrl(attachmentId)
+      .then(freshUrl => setRefreshedUrls(prev => ({ ...prev, [attachmentId]: freshUrl || url })))
+      .catch(() => {});
+  };
 
   // Get current user
   useEffect(() => {
@@ -300,7 +435,7 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
     loadUser();
   }, []);
 
-  if (!content && (!images || images.length === 0) && (!attachments || attachments.length === 0)) {
+  if (!content && !quizId && !quizPending && (!images || images.length === 0) && (!attachments || attachments.length === 0)) {
     return null;
   }
 
@@ -324,6 +459,12 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
   
   // Step 3: Preprocess to wrap unwrapped LaTeX expressions
   finalContent = preprocessMath(finalContent);
+
+  // Step 4: Link citations of attached files
+  const citations = (sources || []).map(toCitation);
+  if (type === 'ai' && citations.length > 0) {
+    finalContent = linkSourceMarkers(finalContent, citations.length);
+  }
   
   // DEV-only: log final content before rendering
   if (process.env.NODE_ENV !== "production" && type === 'ai') {
@@ -343,14 +484,16 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
                   <div key={att.id}>
                     {att.file_type.startsWith('image/') ? (
                       <a
-                        href={att.url}
+                        href={refreshedUrls[att.id] || att.url}
+                        onClick={(e) => openAttachment(e, att.id, att.url)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="block rounded-lg overflow-hidden border border-gray-200 dark:border-[#3A3A3A] hover:border-[#5A5BEF] transition-colors"
                         style={{ maxWidth: '300px', maxHeight: '300px' }}
                       >
                         <img
-                          src={att.url}
+                          src={refreshedUrls[att.id] || att.url}
+                          onError={() => refreshAttachmentUrl(att.id, att.url)}
                           alt={att.filename}
                           className="w-full h-full object-contain"
                           style={{ maxWidth: '300px', maxHeight: '300px' }}
@@ -359,6 +502,7 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
                     ) : (
                       <a
                         href={att.url}
+                        onClick={(e) => openAttachment(e, att.id, att.url)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="flex items-center gap-2 bg-[var(--card-bg)] border border-[var(--card-border)] rounded-lg px-3 py-2 hover:border-[#5A5BEF] transition-colors"
@@ -372,7 +516,40 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
               </div>
             )}
             
-            {content && (() => {
+            {isEditing ? (
+              <div className="flex flex-col gap-2" style={{ minWidth: '320px' }}>
+                <textarea
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  rows={3}
+                  autoFocus
+                  className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-[12px] px-3 py-2 text-[var(--text-primary)] focus:outline-none focus:border-[#5A5BEF] transition-colors resize-y"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    className="px-3 py-1.5 text-sm rounded-lg border border-[var(--card-border)] text-[var(--text-primary)] hover:bg-[var(--card-border)] transition-colors"
+                    onClick={() => {
+                      setIsEditing(false);
+                      setEditValue(content);
+                    }}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    className="px-3 py-1.5 text-sm rounded-lg bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white transition-colors disabled:opacity-50"
+                    disabled={!editValue.trim() || actionsDisabled}
+                    onClick={() => {
+                      setIsEditing(false);
+                      onEdit?.(editValue.trim());
+                    }}
+                  >
+                    Send
+                  </button>
+                </div>
+              </div>
+            ) : content && (() => {
               // For user messages, just normalize (no repair needed)
               const userFinalContent = preprocessMath(normalizeMathSyntax(content));
               return (
@@ -415,6 +592,27 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
                 </div>
               );
             })()}
+            {!isEditing && (onEdit || siblingCount > 1) && (
+              <div className="mt-1 flex items-center justify-end gap-2">
+                {siblingCount > 1 && onSwitchBranch && (
+                  <BranchSwitcher index={siblingIndex} count={siblingCount} onSwitch={onSwitchBranch} disabled={actionsDisabled} />
+                )}
+                {onEdit && (
+                  <button
+                    type="button"
+                    className="p-1 rounded text-[var(--text-secondary)] hover:bg-[var(--card-border)] transition-colors disabled:opacity-40"
+                    onClick={() => {
+                      setEditValue(content);
+                      setIsEditing(true);
+                    }}
+                    disabled={actionsDisabled}
+                    aria-label="Edit message"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            )}
           </div>
           <Avatar className="w-8 h-8 flex-shrink-0">
             {user && getAvatarUrl(user) && (
@@ -511,9 +709,15 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
               <hr className="border-t border-gray-200 dark:border-[#3A3A3A] my-6" {...props} />
             ),
             // Links with hover effect
-            a: ({children, href, ...props}: {children?: ReactNode; href?: string}) => (
-              <a href={href} className="text-[#5A5BEF] hover:text-[#6A6BFF] underline decoration-[#5A5BEF] hover:decoration-[#6A6BFF] transition-colors" target="_blank" rel="noopener noreferrer" {...props}>{children}</a>
-            ),
+            a: ({children, href, ...props}: {children?: ReactNode; href?: string}) => {
+              if (href?.startsWith(SOURCE_LINK_PREFIX)) {
+                const sourceNumber = parseInt(href.slice(SOURCE_LINK_PREFIX.length), 10);
+                return <InlineCitationBadge sourceNumber={sourceNumber} citations={citations} sameDomainCount={1} />;
+              }
+              return (
+                <a href={href} className="text-[#5A5BEF] hover:text-[#6A6BFF] underline decoration-[#5A5BEF] hover:decoration-[#6A6BFF] transition-colors" target="_blank" rel="noopener noreferrer" {...props}>{children}</a>
+              );
+            },
             // Tables
             table: ({children, ...props}: {children?: ReactNode}) => (
               <div className="overflow-x-auto mb-4">
@@ -531,6 +735,13 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
             {finalContent}
           </ReactMarkdown>
           </div>
+          {quizId ? (
+            <QuizCard quizId={quizId} />
+          ) : quizPending && (
+            <div className="mt-3 flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+              <Loader2 className="w-4 h-4 animate-spin" /> Preparing quiz…
+            </div>
+          )}
           {/* Display images if available - compact thumbnails, max 3, proportional sizing (w-32 h-32 default) */}
           {images && Array.isArray(images) && images.length > 0 && (
             <div className="mt-3 flex gap-2 flex-wrap">
@@ -590,6 +801,32 @@ export function MessageCard({ type, content, images = [], attachments = [] }: Me
             </div>
           )}
         </div>
+        {(onRegenerate || siblingCount > 1 || interrupted || usage) && (
+          <div className="mt-1 px-4 flex items-center gap-2">
+            {interrupted && (
+              <span className="text-xs italic text-[var(--text-secondary)]">Stopped</span>
+            )}
+            {usage && (
+              <span className="text-xs text-[var(--text-secondary)]" title={describeUsage(usage)}>
+                {usage.credits} {usage.pool === 'atlas' ? 'Atlas ' : ''}{usage.credits === 1 ? 'credit' : 'credits'}
+              </span>
+            )}
+            {siblingCount > 1 && onSwitchBranch && (
+              <BranchSwitcher index={siblingIndex} count={siblingCount} onSwitch={onSwitchBranch} disabled={actionsDisabled} />
+            )}
+            {onRegenerate && (
+              <button
+                type="button"
+                className="p-1 rounded text-[var(--text-secondary)] hover:bg-[var(--card-border)] transition-colors disabled:opacity-40"
+                onClick={onRegenerate}
+                disabled={actionsDisabled}
+                aria-label="Regenerate answer"
+              >
+                <RefreshCw className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { Search, FileText, Pencil, Trash2, Eye, Check, X, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from "./ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { Input } from "./ui/input";
+import { ScrollArea } from "./ui/scroll-area";
+import { Button } from "./ui/button";
+import {
+  deleteLibraryFile,
+  getLibraryFile,
+  LibraryFile,
+  LibraryFileDetails,
+  listLibraryFiles,
+  renameLibraryFile,
+} from "../lib/files/client";
+
+// Wait this long after typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface MyFilesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Offers to attach the selected files (to the chat being written)
+  onAttach?: (files: LibraryFile[]) => void;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function MyFilesDialog({ open, onClose, onAttach }: MyFilesDialogProps) {
+  const [files, setFiles] = useState<LibraryFile[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<LibraryFileDetails | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deleting, setDeleting] = useState<LibraryFile | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setSearchQuery("");
+      setSelected(new Set());
+      setPreview(null);
+      setRenamingId(null);
+      return;
+    }
+    let active = true;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const result = await listLibraryFiles(searchQuery);
+        if (active) setFiles(result);
+      } catch (error) {
+        console.error('Error loading files:', error);
+        if (active) setFiles([]);
+      } finally {
+        if (active) setLoading(false);
+      }
+    }, searchQuery ? SEARCH_DEBOUNCE_MS : 0);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [open, searchQuery]);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const openPreview = async (file: LibraryFile) => {
+    if (preview?.id === file.id) {
+      setPreview(null);
+      return;
+    }
+    try {
+      setPreview(await getLibraryFile(file.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not load the file');
+    }
+  };
+
+  const saveRename = async () => {
+    if (!renamingId || !renameValue.trim()) return;
+    try {
+      const renamed = await renameLibraryFile(renamingId, renameValue.trim());
+      setFiles(prev => prev.map(f => (f.id === renamed.id ? renamed : f)));
+      setPreview(prev => (prev?.id === renamed.id ? { ...prev, ...renamed } : prev));
+      setRenamingId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not rename the file');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    const file = deleting;
+    setDeleting(null);
+    try {
+      await deleteLibraryFile(file.id);
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      setSelected(prev => {
+        const next = new Set(prev);
+        next.delete(file.id);
+        return next;
+      });
+      if (preview?.id === file.id) setPreview(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not delete the file');
+    }
+  };
+
+  const attachSelected = () => {
+    if (!onAttach) return;
+    onAttach(files.filter(f => selected.has(f.id)));
+    onClose();
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="max-w-4xl !bg-white dark:!bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] p-0 rounded-[12px] opacity-100">
+          <DialogTitle className="sr-only">My Files</DialogTitle>
+          <DialogDescription className="sr-only">
+            Files you uploaded, to preview, rename, delete or attach again
+          </DialogDescription>
+
+          <div className="p-6">
+            <h2 className="text-gray-900 dark:text-[#EAEAEA] mb-6">My Files</h2>
+
+            <div className="relative mb-6">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 dark:text-[#A0A0A0]" />
+              <Input
+                placeholder="Search file names and contents..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="bg-white dark:bg-[#181818] border-gray-200 dark:border-[#2A2A2A] text-gray-900 dark:text-[#EAEAEA] pl-10 w-full"
+                autoFocus
+              />
+            </div>
+
+            <div className="flex gap-4">
+              <ScrollArea className="h-[400px] flex-1">
+                {files.length > 0 ? (
+                  <div className="space-y-2 pr-2">
+                    {files.map((file) => (
+                      <div
+                        key={file.id}
+                        className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${selected.has(file.id) ? 'border-[#5A5BEF]' : 'border-gray-200 dark:border-[#2A2A2A]'} bg-white dark:bg-[#181818]`}
+                      >
+                        {onAttach && (
+                          <input
+                            type="checkbox"
+                            checked={selected.has(file.id)}
+                            onChange={() => toggleSelected(file.id)}
+                            disabled={file.status === 'failed'}
+                            aria-label={`Select ${file.filename}`}
+                            className="accent-[#5A5BEF]"
+                          />
+                        )}
+                        {file.file_type.startsWith('image/') ? (
+                          <img src={file.url} alt={file.filename} className="w-8 h-8 object-cover rounded flex-shrink-0" />
+                        ) : (
+                          <FileText className="w-5 h-5 text-[#5A5BEF] flex-shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          {renamingId === file.id ? (
+                            <Input
+                              value={renameValue}
+                              onChange={(e) => setRenameValue(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') saveRename();
+                                if (e.key === 'Escape') setRenamingId(null);
+                              }}
+                              className="h-8 bg-white dark:bg-[#121212] border-gray-200 dark:border-[#2A2A2A] text-gray-900 dark:text-[#EAEAEA]"
+                              autoFocus
+                            />
+                          ) : (
+                            <div className="text-gray-900 dark:text-[#EAEAEA] truncate">{file.filename}</div>
+                          )}
+                          <div className="text-xs text-gray-600 dark:text-[#A0A0A0]">
+                            {formatSize(file.file_size)} · {formatDate(file.created_at)}
+                            {file.page_count ? ` · ${file.page_count} pages` : ''}
+                            {file.status === 'failed' ? ' · Could not be read' : ''}
+                            {!file.linked ? ' · Not sent yet (removed after a day)' : ''}
+                          </div>
+                        </div>
+                        {renamingId === file.id ? (
+                          <>
+                            <button onClick={saveRename} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]" aria-label="Save name">
+                              <Check className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => setRenamingId(null)} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]" aria-label="Cancel rename">
+                              <X className="w-4 h-4" />
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button onClick={() => openPreview(file)} className={`p-1 hover:text-[#5A5BEF] ${preview?.id === file.id ? 'text-[#5A5BEF]' : 'text-gray-600 dark:text-[#A0A0A0]'}`} aria-label="Preview">
+                              <Eye className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => {
+                                setRenamingId(file.id);
+                                setRenameValue(file.filename);
+                              }}
+                              className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-[#5A5BEF]"
+                              aria-label="Rename"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => setDeleting(file)} className="p-1 text-gray-600 dark:text-[#A0A0A0] hover:text-red-500" aria-label="Delete">
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center text-gray-600 dark:text-[#A0A0A0] py-8">
+                    {loading ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : searchQuery.trim() ? 'No files found' : 'No files yet'}
+                  </div>
+                )}
+              </ScrollArea>
+
+              {preview && (
+                <div className="w-[320px] flex-shrink-0 border border-gray-200 dark:border-[#2A2A2A] rounded-lg p-4 bg-gray-50 dark:bg-[#181818]">
+                  <div className="text-gray-900 dark:text-[#EAEAEA] mb-2 truncate">{preview.filename}</div>
+                  {preview.file_type.startsWith('image/') && (
+                    <img src={preview.url} alt={preview.filename} className="w-full max-h-[160px] object-contain rounded mb-2" />
+                  )}
+                  <ScrollArea className="h-[220px]">
+                    <pre className="text-xs text-gray-600 dark:text-[#A0A0A0] whitespace-pre-wrap font-sans">
+                      {preview.preview || 'No text was extracted from this file.'}
+                    </pre>
+                  </ScrollArea>
+                  <a href={preview.url} target="_blank" rel="noopener noreferrer" className="text-xs text-[#5A5BEF] hover:underline mt-2 inline-block">
+                    Open file
+                  </a>
+                </div>
+              )}
+            </div>
+
+            {onAttach && (
+              <div className="flex justify-end gap-2 mt-4">
+                <Button variant="outline" onClick={onClose}>Cancel</Button>
+                <Button onClick={attachSelected} disabled={selected.size === 0} className="bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white">
+                  Attach{selected.size > 0 ? ` (${selected.size})` : ''}
+                </Button>
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(isOpen) => { if (!isOpen) setDeleting(null); }}>
+        <AlertDialogContent className="bg-[var(--card-bg)] border-[var(--card-border)]">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-[var(--text-primary)]">Delete File</AlertDialogTitle>
+            <AlertDialogDescription className="text-[var(--text-secondary)]">
+              Delete {deleting?.filename}? It will also be removed from the chats it was sent in. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setDeleting(null)}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-500 hover:bg-red-600 text-white">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
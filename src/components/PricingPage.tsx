@@ -2,6 +2,8 @@ import { useState, useEffect, useRef } from "react";
 import React from "react";
 import { BrainCircuit, Book, Clock, Target, Check, Gift, ArrowLeft, X } from "lucide-react";
 import { motion, AnimatePresence } from "motion/react";
+import { startCheckout } from "../lib/payments/client";
+import { fetchSubscription, CurrentSubscription } from "../lib/subscriptions/client";
 
 const pricingPlans = [
   {
@@ -32,6 +34,8 @@ const pricingPlans = [
     badge: "Quick Access Plan",
     badgeClasses: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
     name: "Last-Night Preparer",
+    // Catalog id in src/lib/payments/catalog.ts
+    productId: "last_night_preparer",
     price: "₹99",
     description: "Survive tomorrow's paper.",
     features: [
@@ -54,10 +58,13 @@ const pricingPlans = [
     badge: "Most Popular During Exam Season",
     badgeClasses: "bg-slate-900 text-white dark:bg-slate-700 dark:text-gray-100",
     name: "Exam Sprint Plan*",
+    // Catalog id in src/lib/payments/catalog.ts
+    productId: "exam_sprint",
     price: "₹250",
     description: "Ace your semester in weeks.",
     features: [
       "200 Tutor credits",
+      "Atlas with your Atlas credits",
       "Upto 4 Personalized AI tutors",
       "20 File uploads a day",
     ],
@@ -76,6 +83,8 @@ const pricingPlans = [
     badgeBgColor: "#9333ea", // purple-600
     badgeDarkBgColor: "#9333ea", // purple-600
     name: "Term Mastery Plan",
+    // Catalog id in src/lib/payments/catalog.ts
+    productId: "term_mastery",
     price: "₹2500",
     description: "Full-term AI mentorship.",
     features: [
@@ -99,12 +108,22 @@ const pricingPlans = [
 ];
 
 // Payment Modal Component
+type PaymentStatus = 'processing' | 'success' | 'error';
+
 interface PaymentModalProps {
   open: boolean;
   onClose: () => void;
+  status: PaymentStatus;
+  message: string;
 }
 
-function PaymentModal({ open, onClose }: PaymentModalProps) {
+const PAYMENT_STATUS_TITLES: Record<PaymentStatus, string> = {
+  processing: 'Processing payment…',
+  success: 'Payment successful!',
+  error: 'Payment not completed',
+};
+
+function PaymentModal({ open, onClose, status, message }: PaymentModalProps) {
   return (
     <AnimatePresence>
       {open && (
@@ -173,12 +192,12 @@ function PaymentModal({ open, onClose }: PaymentModalProps) {
               </div>
               
               <div className="text-center mb-6">
-                <div className="text-4xl mb-4">💳</div>
+                <div className="text-4xl mb-4">{status === 'success' ? '🎉' : '💳'}</div>
                 <p className="pricing-payment-modal-text-primary text-lg font-medium mb-2">
-                  Payments are coming soon!
+                  {PAYMENT_STATUS_TITLES[status]}
                 </p>
                 <p className="pricing-payment-modal-text-secondary text-sm">
-                  We're currently working on enabling Razorpay integration. Please hold on 🙂
+                  {message}
                 </p>
               </div>
               
@@ -196,6 +215,22 @@ function PaymentModal({ open, onClose }: PaymentModalProps) {
   );
 }
 
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// Status line for the user's current plan
+function describeSubscription(subscription: CurrentSubscription): string | undefined {
+  if (subscription.status === 'grace' && subscription.graceEndsAt) {
+    return `Expired · renew by ${formatDate(subscription.graceEndsAt)} to keep access`;
+  }
+  if (subscription.status === 'active' && subscription.endsAt) {
+    const renewals = subscription.upcoming.length > 0 ? ` · ${subscription.upcoming.length} more queued` : '';
+    return `Active until ${formatDate(subscription.endsAt)}${renewals}`;
+  }
+  return undefined;
+}
+
 // Individual Pricing Card Component
 interface PricingCardProps {
   icon: React.ElementType;
@@ -205,6 +240,7 @@ interface PricingCardProps {
   badgeBgColor?: string;
   badgeDarkBgColor?: string;
   name: string;
+  productId?: string;
   price: string;
   description: string;
   features: string[];
@@ -221,6 +257,8 @@ interface PricingCardProps {
   cardDarkBgColor?: string;
   onButtonClick?: () => void;
   isFreePlan?: boolean;
+  // Shown under the price for the user's current plan
+  statusText?: string;
 }
 
 function PricingCardComponent({
@@ -247,6 +285,7 @@ function PricingCardComponent({
   cardDarkBgColor,
   onButtonClick,
   isFreePlan = false,
+  statusText,
 }: PricingCardProps) {
   const cardRef = useRef<HTMLDivElement>(null);
   const badgeRef = useRef<HTMLDivElement>(null);
@@ -343,6 +382,9 @@ function PricingCardComponent({
       {/* Price */}
       <div className="mb-6">
         <span className="text-4xl font-bold text-gray-900 dark:text-white">{price}</span>
+        {statusText && (
+          <p className="text-sm font-medium text-[#9333ea] mt-2">{statusText}</p>
+        )}
       </div>
 
       {/* Features List */}
@@ -385,6 +427,13 @@ export function PricingPage() {
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
   const [gridColumns, setGridColumns] = useState<string>('repeat(1, minmax(0, 1fr))');
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>('processing');
+  const [paymentMessage, setPaymentMessage] = useState('');
+  const [subscription, setSubscription] = useState<CurrentSubscription | null>(null);
+
+  useEffect(() => {
+    fetchSubscription().then(setSubscription).catch(() => {});
+  }, []);
 
   useEffect(() => {
     const updateGridColumns = () => {
@@ -404,8 +453,22 @@ export function PricingPage() {
     window.history.back();
   };
 
-  const handlePaymentButtonClick = () => {
+  // Credits are added by the server once the payment provider confirms the payment
+  const handlePaymentButtonClick = async (productId: string) => {
+    setPaymentStatus('processing');
+    setPaymentMessage('Complete the payment in the checkout window.');
     setPaymentModalOpen(true);
+    try {
+      await startCheckout(productId, (status) => {
+        if (status === 'confirming') setPaymentMessage('Waiting for payment confirmation…');
+      });
+      setPaymentStatus('success');
+      setPaymentMessage('Your plan is active and its credits have been added to your account.');
+      fetchSubscription().then(setSubscription).catch(() => {});
+    } catch (error) {
+      setPaymentStatus('error');
+      setPaymentMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    }
   };
 
   return (
@@ -441,19 +504,26 @@ export function PricingPage() {
           className="grid gap-8 max-w-6xl mx-auto"
           style={{ gridTemplateColumns: gridColumns }}
         >
-          {pricingPlans.map((plan, index) => (
-            <PricingCardComponent 
-              key={index} 
-              {...plan}
-              isFreePlan={plan.name === "Free"}
-              onButtonClick={handlePaymentButtonClick}
-            />
-          ))}
+          {pricingPlans.map((plan, index) => {
+            const isFreePlan = plan.name === "Free";
+            const currentPlanId = subscription?.plan || 'free';
+            const isCurrent = isFreePlan ? currentPlanId === 'free' : plan.productId === currentPlanId;
+            return (
+              <PricingCardComponent 
+                key={index} 
+                {...plan}
+                buttonText={!isFreePlan && isCurrent ? "Renew Plan" : isFreePlan && !isCurrent ? "Free Plan" : plan.buttonText}
+                statusText={isCurrent && subscription ? describeSubscription(subscription) : undefined}
+                isFreePlan={isFreePlan}
+                onButtonClick={plan.productId ? () => handlePaymentButtonClick(plan.productId!) : undefined}
+              />
+            );
+          })}
         </main>
       </div>
 
       {/* Payment Modal */}
-      <PaymentModal open={paymentModalOpen} onClose={() => setPaymentModalOpen(false)} />
+      <PaymentModal open={paymentModalOpen} onClose={() => setPaymentModalOpen(false)} status={paymentStatus} message={paymentMessage} />
     </div>
   );
 }
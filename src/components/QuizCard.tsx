@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, ClipboardList, Loader2, XCircle } from "lucide-react";
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { toast } from "sonner";
+import { getQuiz, submitQuiz, Quiz, QuizQuestion, QuizQuestionResult } from "../lib/quizzes/client";
+
+interface QuizCardProps {
+  quizId: string;
+}
+
+/**
+ * Question and choice text, which may hold inline markdown and math
+ */
+function QuizText({ text }: { text: string }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkMath]}
+      rehypePlugins={[rehypeKatex]}
+      components={{
+        p: ({ children }: any) => <span>{children}</span>,
+      }}
+    >
+      {text}
+    </ReactMarkdown>
+  );
+}
+
+function describeResponse(question: QuizQuestion, result: QuizQuestionResult): string {
+  if (!result.response.trim()) return 'No answer';
+  if (question.kind === 'multiple_choice') return question.choices?.[parseInt(result.response, 10)] ?? result.response;
+  return result.response;
+}
+
+function QuestionInput({ question, value, onChange, disabled }: { question: QuizQuestion; value: string; onChange: (value: string) => void; disabled: boolean }) {
+  if (question.kind === 'multiple_choice') {
+    return (
+      <div className="flex flex-col gap-2">
+        {(question.choices || []).map((choice, i) => (
+          <label
+            key={i}
+            className={`flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${
+              value === String(i) ? 'border-[#5A5BEF] bg-[#5A5BEF]/10' : 'border-[var(--card-border)] hover:border-[#5A5BEF]'
+            }`}
+          >
+            <input
+              type="radio"
+              name={question.id}
+              checked={value === String(i)}
+              onChange={() => onChange(String(i))}
+              disabled={disabled}
+              className="accent-[#5A5BEF]"
+            />
+            <span className="text-sm text-[var(--text-primary)]"><QuizText text={choice} /></span>
+          </label>
+        ))}
+      </div>
+    );
+  }
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="text"
+        inputMode={question.kind === 'numeric' ? 'decimal' : 'text'}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        placeholder={question.kind === 'numeric' ? 'Your answer (a number)' : 'Your answer'}
+        className="flex-1 bg-[var(--card-bg)] border border-[var(--card-border)] rounded-lg px-3 py-2 text-sm text-[var(--text-primary)] placeholder-[var(--text-secondary)] focus:outline-none focus:border-[#5A5BEF] transition-colors"
+      />
+      {question.unit && <span className="text-sm text-[var(--text-secondary)]">{question.unit}</span>}
+    </div>
+  );
+}
+
+/**
+ * A quiz from the tutor: the student answers every question, then it is graded on the server
+ */
+export function QuizCard({ quizId }: QuizCardProps) {
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(false);
+    getQuiz(quizId)
+      .then(loaded => { if (!cancelled) setQuiz(loaded); })
+      .catch(error => {
+        console.error('Failed to load quiz:', error);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => { cancelled = true; };
+  }, [quizId]);
+
+  if (loadError) {
+    return <div className="mt-3 text-sm text-[var(--text-secondary)]">This quiz couldn't be loaded.</div>;
+  }
+  if (!quiz) {
+    return (
+      <div className="mt-3 flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading quiz…
+      </div>
+    );
+  }
+
+  const submitted = !!quiz.submittedAt;
+  const answeredCount = quiz.questions.filter(q => (answers[q.id] || '').trim()).length;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      setQuiz(await submitQuiz(quiz.id, quiz.questions.map(q => ({ questionId: q.id, response: answers[q.id] || '' }))));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit quiz');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded-xl border border-[var(--card-border)] bg-white dark:bg-[#121212] p-4">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-4 h-4 text-[#5A5BEF]" />
+          <span className="text-sm font-semibold text-[var(--text-primary)]">Quiz: {quiz.topic}</span>
+        </div>
+        {submitted && (
+          <span className="text-sm font-medium text-[#5A5BEF]">
+            {quiz.correctCount} / {quiz.questions.length} correct ({quiz.score}%)
+          </span>
+        )}
+      </div>
+
+      <ol className="flex flex-col gap-5">
+        {quiz.questions.map((question, i) => {
+          const result = quiz.results.find(r => r.questionId === question.id);
+          return (
+            <li key={question.id} className="flex flex-col gap-2">
+              <div className="text-sm font-medium text-[var(--text-primary)]">
+                {i + 1}. <QuizText text={question.prompt} />
+              </div>
+              {result ? (
+                <div className="flex flex-col gap-1 text-sm">
+                  <div className={`flex items-center gap-2 ${result.correct ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {result.correct ? <CheckCircle2 className="w-4 h-4 flex-shrink-0" /> : <XCircle className="w-4 h-4 flex-shrink-0" />}
+                    <span><QuizText text={describeResponse(question, result)} /></span>
+                  </div>
+                  {!result.correct && (
+                    <div className="text-[var(--text-primary)]">Answer: <QuizText text={result.expected} /></div>
+                  )}
+                  {result.explanation && (
+                    <div className="text-[var(--text-secondary)]"><QuizText text={result.explanation} /></div>
+                  )}
+                </div>
+              ) : (
+                <QuestionInput
+                  question={question}
+                  value={answers[question.id] || ''}
+                  onChange={(value) => setAnswers(prev => ({ ...prev, [question.id]: value }))}
+                  disabled={submitted || isSubmitting}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {!submitted && (
+        <div className="mt-4 flex items-center justify-end gap-3">
+          <span className="text-xs text-[var(--text-secondary)]">{answeredCount} of {quiz.questions.length} answered</span>
+          <button
+            type="button"
+            className="px-3 py-1.5 text-sm rounded-lg bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white transition-colors disabled:opacity-50"
+            onClick={handleSubmit}
+            disabled={isSubmitting || answeredCount === 0}
+          >
+            {isSubmitting ? 'Grading…' : 'Submit answers'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,8 +8,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Textarea } from "./ui/textarea";
 import { Input } from "./ui/input";
 import { Button } from "./ui/button";
+import { DEFAULT_OCR_LANGUAGE, isOcrLanguage, OCR_LANGUAGES } from "../lib/files/languages";
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '@/lib/supabase/client';
+import { startCheckout } from '@/lib/payments/client';
 
 interface SettingsModalProps {
   open: boolean;
@@ -24,12 +26,22 @@ const tabs = [
 ];
 
 // Payment Modal Component
+type PaymentStatus = 'processing' | 'success' | 'error';
+
 interface PaymentModalProps {
   open: boolean;
   onClose: () => void;
+  status: PaymentStatus;
+  message: string;
 }
 
-function PaymentModal({ open, onClose }: PaymentModalProps) {
+const PAYMENT_STATUS_TITLES: Record<PaymentStatus, string> = {
+  processing: 'Processing payment…',
+  success: 'Payment successful!',
+  error: 'Payment not completed',
+};
+
+function PaymentModal({ open, onClose, status, message }: PaymentModalProps) {
   if (typeof window === 'undefined') return null;
   
   return createPortal(
@@ -100,12 +112,12 @@ function PaymentModal({ open, onClose }: PaymentModalProps) {
               </div>
               
               <div className="text-center mb-6">
-                <div className="text-4xl mb-4">💳</div>
+                <div className="text-4xl mb-4">{status === 'success' ? '🎉' : '💳'}</div>
                 <p className="payment-modal-text-primary text-lg font-medium mb-2">
-                  Payments are coming soon!
+                  {PAYMENT_STATUS_TITLES[status]}
                 </p>
                 <p className="payment-modal-text-secondary text-sm">
-                  We're currently working on enabling Razorpay integration. Please hold on 🙂
+                  {message}
                 </p>
               </div>
               
@@ -224,7 +236,10 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
   const [credits, setCredits] = useState(0);
   const [atlasCredits, setAtlasCredits] = useState(0);
   const [creditType, setCreditType] = useState<'normal' | 'atlas'>('normal');
+  const [creditHistory, setCreditHistory] = useState<Array<{ id: string; date: string; action: string; amount: number; type: 'add' | 'subtract'; pool?: 'tutor' | 'atlas' }>>([]);
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>('processing');
+  const [paymentMessage, setPaymentMessage] = useState('');
   const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
   
   // State for user settings
@@ -260,11 +275,14 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
         const { data: { session } } = await supabase.auth.getSession();
         const token = session?.access_token;
         
-        // Fetch credits and profile in parallel
-        const [creditsRes, profileRes] = await Promise.all([
+        // Fetch credits, credit history and profile in parallel
+        const [creditsRes, historyRes, profileRes] = await Promise.all([
           fetch('/api/credits', {
             headers: { 'Authorization': `Bearer ${token}` }
           }),
+          fetch('/api/credits/history', {
+            headers: { 'Authorization': `Bearer ${token}` }
+          }),
           fetch('/api/user/profile', {
             headers: { 'Authorization': `Bearer ${token}` }
           })
@@ -279,6 +297,11 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
           }
         }
         
+        const historyData = await historyRes.json().catch(() => ({}));
+        if (historyRes.ok && Array.isArray(historyData.transactions)) {
+          setCreditHistory(historyData.transactions);
+        }
+        
         const profileData = await profileRes.json();
         if (profileRes.ok) {
           // Update settings state with fetched data
@@ -397,44 +420,38 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
     } catch {}
   };
 
-  const handleAddCredits = async (amount: number, type: 'normal' | 'atlas' = 'normal') => {
+  const refreshCredits = async () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
-      const token = session?.access_token;
-      const res = await fetch('/api/credits/increment', { 
-        method: 'POST', 
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        }, 
-        body: JSON.stringify({ amount, type }) 
-      });
-      const data = await res.json();
-      if (res.ok) {
-        if (type === 'normal' && typeof data.credits === 'number') {
-          setCredits(data.credits);
-        } else if (type === 'atlas' && typeof data.atlasCredits === 'number') {
-          setAtlasCredits(data.atlasCredits);
-        }
-      }
+      const headers = { 'Authorization': `Bearer ${session?.access_token}` };
+      const [creditsRes, historyRes] = await Promise.all([
+        fetch('/api/credits', { headers }),
+        fetch('/api/credits/history', { headers }),
+      ]);
+      const creditsData = await creditsRes.json();
+      if (creditsRes.ok && typeof creditsData.credits === 'number') setCredits(creditsData.credits);
+      if (creditsRes.ok && typeof creditsData.atlasCredits === 'number') setAtlasCredits(creditsData.atlasCredits);
+      const historyData = await historyRes.json().catch(() => ({}));
+      if (historyRes.ok && Array.isArray(historyData.transactions)) setCreditHistory(historyData.transactions);
     } catch {}
   };
 
-  const handleResetCredits = async () => {
-    // Demo reset: set to 15 via direct update to users credits endpoint (increment negative is not allowed). Use PUT profile.
+  // Credits are added by the server once the payment provider confirms the payment
+  const handleBuyCredits = async (productId: string) => {
+    setPaymentStatus('processing');
+    setPaymentMessage('Complete the payment in the checkout window.');
+    setPaymentModalOpen(true);
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      const token = session?.access_token;
-      const res = await fetch('/api/user/profile', { 
-        method: 'PUT', 
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        }, 
-        body: JSON.stringify({ credits: 15 }) 
+      await startCheckout(productId, (status) => {
+        if (status === 'confirming') setPaymentMessage('Waiting for payment confirmation…');
       });
-      if (res.ok) setCredits(15);
-    } catch {}
+      await refreshCredits();
+      setPaymentStatus('success');
+      setPaymentMessage('Your credits have been added.');
+    } catch (error) {
+      setPaymentStatus('error');
+      setPaymentMessage(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    }
   };
 
   // Format member since text
@@ -519,6 +536,24 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
                       </Select>
                     </div>
 
+                    <div className="space-y-2">
+                      <label className="text-gray-600 dark:text-[#A0A0A0]">Language</label>
+                      <div className="text-gray-600 dark:text-[#A0A0A0] text-sm">Used to read text in photos and scanned documents you upload</div>
+                      <Select 
+                        value={isOcrLanguage(settings.language) ? settings.language : DEFAULT_OCR_LANGUAGE} 
+                        onValueChange={(v) => saveProfile({ language: v })}
+                      >
+                        <SelectTrigger className="bg-white dark:bg-[#181818] border-gray-200 dark:border-[#2A2A2A] text-gray-900 dark:text-[#EAEAEA]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-white dark:bg-[#181818] border-gray-200 dark:border-[#2A2A2A]">
+                          {OCR_LANGUAGES.map(language => (
+                            <SelectItem key={language.code} value={language.code}>{language.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <div className="space-y-2">
                       <label className="text-gray-600 dark:text-[#A0A0A0]">Custom Instructions</label>
                       <Textarea
@@ -594,7 +629,7 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
                         </div>
                       </div>
                       <p className="text-gray-600 dark:text-[#A0A0A0] text-sm">
-                        1 credit per message. Credits refill monthly or can be purchased.
+                        Answers are charged by usage: length of the conversation and reply, attached files and Atlas web searches. Credits refill monthly or can be purchased.
                       </p>
                     </div>
 
@@ -632,7 +667,7 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
                       {/* Credit Options */}
                       <div className="grid grid-cols-2 gap-4">
                         <button
-                          onClick={() => setPaymentModalOpen(true)}
+                          onClick={() => handleBuyCredits('credits_20')}
                           className="p-4 bg-white dark:bg-[#181818] border border-gray-200 dark:border-[#2A2A2A] rounded-[12px] hover:border-[#5A5BEF] transition-colors text-center"
                         >
                           <div className="text-[#5A5BEF] font-semibold text-lg mb-1">+20</div>
@@ -640,7 +675,7 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
                           <div className="text-gray-900 dark:text-[#EAEAEA] text-sm font-medium">₹30</div>
                         </button>
                         <button
-                          onClick={() => setPaymentModalOpen(true)}
+                          onClick={() => handleBuyCredits('credits_100')}
                           className="p-4 bg-white dark:bg-[#181818] border border-gray-200 dark:border-[#2A2A2A] rounded-[12px] hover:border-[#5A5BEF] transition-colors text-center"
                         >
                           <div className="text-[#5A5BEF] font-semibold text-lg mb-1">+100</div>
@@ -654,17 +689,21 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
                     <div className="space-y-4">
                       <h3 className="text-gray-900 dark:text-[#EAEAEA] text-lg font-semibold">Credit History</h3>
                       <div className="space-y-2">
-                        {[
-                          { date: "Dec 1, 2024", action: "Monthly Refill", amount: 1000, type: "add" },
-                          { date: "Nov 29, 2024", action: "Message Sent", amount: 1, type: "subtract" },
-                          { date: "Nov 28, 2024", action: "Purchased Pro Pack", amount: 5000, type: "add" },
-                        ].map((transaction, idx) => (
+                        {creditHistory.length === 0 && (
+                          <div className="text-gray-600 dark:text-[#A0A0A0] text-sm">No credit activity yet</div>
+                        )}
+                        {creditHistory.map((transaction) => (
                           <div
-                            key={idx}
+                            key={transaction.id}
                             className="flex items-center justify-between p-3 bg-white dark:bg-[#181818] border border-gray-200 dark:border-[#2A2A2A] rounded-lg"
                           >
                             <div>
-                              <div className="text-gray-900 dark:text-[#EAEAEA] text-sm">{transaction.action}</div>
+                              <div className="text-gray-900 dark:text-[#EAEAEA] text-sm">
+                                {transaction.action}
+                                {transaction.pool === 'atlas' && (
+                                  <span className="ml-2 text-xs text-[#5A5BEF]">Atlas</span>
+                                )}
+                              </div>
                               <div className="text-gray-600 dark:text-[#A0A0A0] text-xs">{transaction.date}</div>
                             </div>
                             <div
@@ -679,22 +718,6 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
                         ))}
                       </div>
                     </div>
-
-                    {/* Reset Credits (Admin/Demo) */}
-                    <div className="p-4 bg-white dark:bg-[#181818] border border-gray-200 dark:border-[#2A2A2A] rounded-[12px]">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <div className="text-gray-900 dark:text-[#EAEAEA] mb-1">Reset Credits</div>
-                          <div className="text-gray-600 dark:text-[#A0A0A0] text-sm">Reset to default 1000 credits (Demo only)</div>
-                        </div>
-                        <Button
-                          onClick={handleResetCredits}
-                          className="bg-gray-100 dark:bg-[#2A2A2A] hover:bg-gray-200 dark:hover:bg-[#1E1E1E] text-gray-900 dark:text-[#EAEAEA]"
-                        >
-                          Reset
-                        </Button>
-                      </div>
-                    </div>
                   </motion.div>
                 )}
 
@@ -766,7 +789,7 @@ export function SettingsModal({ open, onClose, initialTab = "personalization" }:
       </DialogContent>
       
       {/* Payment Modal */}
-      <PaymentModal open={paymentModalOpen} onClose={() => setPaymentModalOpen(false)} />
+      <PaymentModal open={paymentModalOpen} onClose={() => setPaymentModalOpen(false)} status={paymentStatus} message={paymentMessage} />
       {/* Confirm Delete Modal */}
       <ConfirmDeleteModal 
         open={confirmDeleteOpen} 
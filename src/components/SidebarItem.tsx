@@ -1,16 +1,18 @@
 import React from "react";
 import { motion, AnimatePresence } from "motion/react";
-import { LucideIcon } from "lucide-react";
+import { LucideIcon, Lock } from "lucide-react";
 
 interface SidebarItemProps {
   icon: LucideIcon;
   label: string;
   active?: boolean;
   collapsed?: boolean;
+  // Feature not included in the user's plan
+  locked?: boolean;
   onClick?: () => void;
 }
 
-export function SidebarItem({ icon: Icon, label, active, collapsed, onClick }: SidebarItemProps) {
+export function SidebarItem({ icon: Icon, label, active, collapsed, locked, onClick }: SidebarItemProps) {
   return (
     <motion.button
       whileHover={{ backgroundColor: undefined }}
@@ -34,6 +36,9 @@ export function SidebarItem({ icon: Icon, label, active, collapsed, onClick }: S
           </motion.span>
         )}
       </AnimatePresence>
+      {locked && !collapsed && (
+        <Lock className="w-3.5 h-3.5 ml-auto text-[var(--text-secondary)]" />
+      )}
     </motion.button>
   );
 }
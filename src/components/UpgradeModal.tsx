@@ -1,83 +1,76 @@
-import { X, Check } from "lucide-react";
+import { X, Check, Lock } from "lucide-react";
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "./ui/dialog";
 import { Button } from "./ui/button";
-import { Switch } from "./ui/switch";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "motion/react";
 import { toast } from "sonner";
+import { PLANS, PlanDefinition } from "../lib/subscriptions/plans";
+import { formatStorage, getEntitlements, EntitlementDenial } from "../lib/entitlements";
+import { getProduct } from "../lib/payments/catalog";
+import { startCheckout } from "../lib/payments/client";
+import { fetchSubscription } from "../lib/subscriptions/client";
 
 interface UpgradeModalProps {
   open: boolean;
   onClose: () => void;
+  // Why the modal was opened (a refused API request), if any
+  denial?: EntitlementDenial | null;
 }
 
-const plans = [
-  {
-    name: "Free",
-    price: "₹0",
-    period: "forever",
-    features: [
-      "Limited messages per day",
-      "Access to GPT-3.5",
-      "Standard response time",
-      "Community support",
-    ],
-    highlighted: false,
-  },
-  {
-    name: "Go",
-    price: "₹399",
-    period: "per month",
-    features: [
-      "Unlimited messages",
-      "Access to GPT-4",
-      "Faster response time",
-      "Priority support",
-      "Advanced data analysis",
-      "Custom GPTs",
-    ],
-    highlighted: true,
-  },
-  {
-    name: "Plus",
-    price: "₹1,999",
-    period: "per month",
-    features: [
-      "Everything in Go",
-      "Team collaboration (5 users)",
-      "Admin controls",
-      "Shared workspace",
-      "Usage analytics",
-      "API access",
-    ],
-    highlighted: false,
-  },
-  {
-    name: "Pro",
-    price: "₹19,900",
-    period: "per month",
-    features: [
-      "Everything in Plus",
-      "Unlimited team members",
-      "Advanced security",
-      "Dedicated support",
-      "Custom integrations",
-      "SLA guarantee",
-      "On-premise option",
-    ],
-    highlighted: false,
-  },
-];
+const purchasablePlans = PLANS.filter(plan => plan.durationDays > 0);
 
-export function UpgradeModal({ open, onClose }: UpgradeModalProps) {
-  const [isBusinessPlan, setIsBusinessPlan] = useState(false);
+function formatPrice(amount: number) {
+  return `₹${(amount / 100).toLocaleString('en-IN')}`;
+}
+
+// Feature list derived from the plan's entitlements and credit bundle
+function describePlan(plan: PlanDefinition): string[] {
+  const entitlements = getEntitlements(plan.id);
+  const product = getProduct(plan.id);
+  const features: string[] = [];
+  if (product) {
+    features.push(`${product.tutorCredits.toLocaleString()} Tutor credits`);
+    if (product.atlasCredits > 0) features.push(`${product.atlasCredits.toLocaleString()} Atlas credits`);
+  }
+  if (entitlements.atlas) features.push('Atlas web search');
+  features.push(entitlements.maxTeachers === null ? 'Unlimited personalized tutors' : `Up to ${entitlements.maxTeachers} personalized tutors`);
+  features.push(entitlements.dailyFileUploads === null ? 'Unlimited file uploads' : `${entitlements.dailyFileUploads} file uploads per day`);
+  features.push(`Files up to ${entitlements.maxFileSizeMb} MB`);
+  features.push(`${formatStorage(entitlements.storageQuotaMb)} file storage`);
+  if (entitlements.modelTier === 'advanced') features.push('Advanced AI model');
+  return features;
+}
+
+export function UpgradeModal({ open, onClose, denial }: UpgradeModalProps) {
+  const [currentPlan, setCurrentPlan] = useState<string>('free');
+  const [purchasing, setPurchasing] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchSubscription().then(subscription => setCurrentPlan(subscription?.plan || 'free')).catch(() => {});
+  }, [open]);
+
+  const recommended = denial?.upgrade?.plan || 'term_mastery';
+
+  const handlePurchase = async (productId: string, name: string) => {
+    setPurchasing(productId);
+    try {
+      await startCheckout(productId);
+      toast.success(`${name} purchased`, { description: 'Your plan and credits are active.' });
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Payment failed');
+    } finally {
+      setPurchasing(null);
+    }
+  };
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-6xl bg-[#121212] border border-[#2A2A2A] p-0 rounded-[12px]">
+      <DialogContent className="max-w-5xl bg-[#121212] border border-[#2A2A2A] p-0 rounded-[12px]">
         <DialogTitle className="sr-only">Upgrade Your Plan</DialogTitle>
         <DialogDescription className="sr-only">
-          Choose a plan that fits your needs. Compare features and pricing across our Free, Go, Plus, and Pro plans.
+          Choose a plan that fits your needs. Compare features and pricing of the Last-Night Preparer, Exam Sprint and Term Mastery plans.
         </DialogDescription>
         <div className="p-8">
           <button
@@ -89,75 +82,77 @@ export function UpgradeModal({ open, onClose }: UpgradeModalProps) {
 
           <div className="text-center mb-8">
             <h2 className="text-[#EAEAEA] mb-4">Upgrade Your Plan</h2>
-            <div className="flex items-center justify-center gap-3">
-              <span className={`${!isBusinessPlan ? 'text-[#EAEAEA]' : 'text-[#A0A0A0]'}`}>
-                Personal
-              </span>
-              <Switch
-                checked={isBusinessPlan}
-                onCheckedChange={setIsBusinessPlan}
-              />
-              <span className={`${isBusinessPlan ? 'text-[#EAEAEA]' : 'text-[#A0A0A0]'}`}>
-                Business
-              </span>
-            </div>
+            {denial && (
+              <div className="inline-flex items-center gap-3 px-4 py-2 rounded-lg bg-[#5A5BEF]/10 border border-[#5A5BEF]/30">
+                <Lock className="w-4 h-4 text-[#5A5BEF]" />
+                <span className="text-[#EAEAEA] text-sm">{denial.error}</span>
+                {denial.upgrade && !denial.upgrade.plan && (
+                  <Button
+                    onClick={() => handlePurchase(denial.upgrade!.productId, denial.upgrade!.name)}
+                    disabled={purchasing !== null}
+                    className="bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white h-8"
+                  >
+                    Buy {denial.upgrade.name}
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
 
-          <div className="grid grid-cols-4 gap-6">
-            {plans.map((plan, index) => (
-              <motion.div
-                key={plan.name}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
-                className={`relative bg-[#181818] border rounded-[12px] p-6 ${
-                  plan.highlighted
-                    ? 'border-[#5A5BEF] shadow-[0_0_20px_rgba(90,91,239,0.3)]'
-                    : 'border-[#2A2A2A]'
-                }`}
-              >
-                {plan.highlighted && (
-                  <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-[#5A5BEF] text-white px-3 py-1 rounded-full">
-                    Popular
-                  </div>
-                )}
+          <div className="grid grid-cols-3 gap-6">
+            {purchasablePlans.map((plan, index) => {
+              const product = getProduct(plan.id);
+              const highlighted = plan.id === recommended;
+              const isCurrent = plan.id === currentPlan;
+              return (
+                <motion.div
+                  key={plan.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className={`relative bg-[#181818] border rounded-[12px] p-6 ${
+                    highlighted
+                      ? 'border-[#5A5BEF] shadow-[0_0_20px_rgba(90,91,239,0.3)]'
+                      : 'border-[#2A2A2A]'
+                  }`}
+                >
+                  {highlighted && (
+                    <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-[#5A5BEF] text-white px-3 py-1 rounded-full">
+                      {denial?.upgrade?.plan ? 'Unlocks this' : 'Popular'}
+                    </div>
+                  )}
 
-                <div className="text-center mb-6">
-                  <h3 className="text-[#EAEAEA] mb-2">{plan.name}</h3>
-                  <div className="mb-1">
-                    <span className="text-[#EAEAEA]">{plan.price}</span>
+                  <div className="text-center mb-6">
+                    <h3 className="text-[#EAEAEA] mb-2">{plan.name}</h3>
+                    <div className="mb-1">
+                      <span className="text-[#EAEAEA]">{product ? formatPrice(product.amount) : ''}</span>
+                    </div>
+                    <div className="text-[#A0A0A0]">for {plan.durationDays} days</div>
                   </div>
-                  <div className="text-[#A0A0A0]">{plan.period}</div>
-                </div>
 
-                <Button
-                  onClick={() => {
-                    if (plan.name !== "Free") {
-                      toast.success(`Upgrading to ${plan.name} plan...`, {
-                        description: "You'll be redirected to payment"
-                      });
-                    }
-                  }}
-                  disabled={plan.name === "Free"}
-                  className={`w-full mb-6 ${
-                    plan.highlighted
-                      ? 'bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white'
-                      : 'bg-[#1E1E1E] hover:bg-[#2A2A2A] text-[#EAEAEA] border border-[#2A2A2A]'
-                  }`}
-                >
-                  {plan.name === "Free" ? "Current Plan" : "Upgrade"}
-                </Button>
+                  <Button
+                    onClick={() => handlePurchase(plan.id, plan.name)}
+                    disabled={purchasing !== null}
+                    className={`w-full mb-6 ${
+                      highlighted
+                        ? 'bg-[#5A5BEF] hover:bg-[#4A4BDF] text-white'
+                        : 'bg-[#1E1E1E] hover:bg-[#2A2A2A] text-[#EAEAEA] border border-[#2A2A2A]'
+                    }`}
+                  >
+                    {purchasing === plan.id ? 'Processing…' : isCurrent ? 'Renew' : 'Upgrade'}
+                  </Button>
 
-                <ul className="space-y-3">
-                  {plan.features.map((feature, idx) => (
-                    <li key={idx} className="flex items-start gap-2">
-                      <Check className="w-4 h-4 text-[#5A5BEF] flex-shrink-0 mt-0.5" />
-                      <span className="text-[#A0A0A0]">{feature}</span>
-                    </li>
-                  ))}
-                </ul>
-              </motion.div>
-            ))}
+                  <ul className="space-y-3">
+                    {describePlan(plan).map((feature, idx) => (
+                      <li key={idx} className="flex items-start gap-2">
+                        <Check className="w-4 h-4 text-[#5A5BEF] flex-shrink-0 mt-0.5" />
+                        <span className="text-[#A0A0A0]">{feature}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </motion.div>
+              );
+            })}
           </div>
         </div>
       </DialogContent>
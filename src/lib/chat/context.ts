@@ -0,0 +1,212 @@
+/**
+ * Token-budgeted context window for tutoring chats
+ *
+ * System prompts and the most recent turns are always sent verbatim. When the
+ * conversation no longer fits the budget, older turns are folded into a rolling
+ * summary stored on the chat row (context_summary / context_summary_through) so
+ * it is reused on later sends instead of being regenerated every time.
+ */
+
+import type { LLMMessage, LLMProvider } from '@/lib/llm';
+
+// Total prompt budget (system + summary + history). Reply tokens are reserved separately.
+const DEFAULT_CONTEXT_TOKENS = Number(process.env.CHAT_CONTEXT_TOKENS) || 12000;
+// Upper bound for the stored summary itself
+const SUMMARY_MAX_TOKENS = 600;
+
+export interface HistoryTurn {
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface StoredSummary {
+  summary: string | null;
+  throughMessageId: string | null;
+}
+
+export interface ContextPlan {
+  // Turns sent verbatim (always includes the latest turn)
+  recent: HistoryTurn[];
+  // Turns that must be folded into the summary before sending
+  toSummarize: HistoryTurn[];
+  // Whether the stored summary still applies to this history
+  useStoredSummary: boolean;
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English text).
+ * Good enough for budgeting without shipping a tokenizer per provider.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(messages: { content: string }[]): number {
+  // +4 per message for role/formatting overhead
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content) + 4, 0);
+}
+
+/**
+ * Cuts text down to roughly `maxTokens`, keeping the beginning
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = Math.max(0, maxTokens * 4);
+  if (text.length <= maxChars) return text;
+  return text.slice(0, maxChars) + '\n\n[...truncated to fit the context window]';
+}
+
+/**
+ * Decides which turns stay verbatim and which need summarizing.
+ *
+ * Turns up to and including `stored.throughMessageId` are already covered by the
+ * stored summary. If the remaining turns fit `budget`, nothing new is summarized.
+ * Otherwise older turns are folded until the verbatim part uses at most half the
+ * budget, so the next few sends can reuse the new summary as-is.
+ */
+export function planContext(history: HistoryTurn[], budget: number, stored: StoredSummary): ContextPlan {
+  let start = 0;
+  if (stored.summary && stored.throughMessageId) {
+    const coveredIndex = history.findIndex(t => t.id === stored.throughMessageId);
+    if (coveredIndex >= 0) start = coveredIndex + 1;
+  }
+  const useStoredSummary = start > 0;
+  const remaining = history.slice(start);
+
+  if (estimateMessageTokens(remaining) <= budget) {
+    return { recent: remaining, toSummarize: [], useStoredSummary };
+  }
+
+  // Keep the newest turns within half the budget (always at least the latest one)
+  const keepBudget = Math.floor(budget / 2);
+  let keepFrom = remaining.length - 1;
+  let used = estimateMessageTokens([remaining[keepFrom]]);
+  while (keepFrom > 0) {
+    const cost = estimateMessageTokens([remaining[keepFrom - 1]]);
+    if (used + cost > keepBudget) break;
+    used += cost;
+    keepFrom--;
+  }
+
+  return {
+    recent: remaining.slice(keepFrom),
+    toSummarize: remaining.slice(0, keepFrom),
+    useStoredSummary,
+  };
+}
+
+async function summarizeTurns(llm: LLMProvider, previousSummary: string | null, turns: HistoryTurn[]): Promise<string> {
+  const transcript = turns
+    .map(t => `${t.role === 'user' ? 'Student' : 'Tutor'}: ${truncateToTokens(t.content, 1500)}`)
+    .join('\n\n');
+
+  const prompt = `${previousSummary ? `Summary of the conversation so far:\n${previousSummary}\n\n` : ''}New conversation turns:\n${transcript}
+
+Update the summary so it covers everything above. Keep: topics covered, what the student understood or struggled with, open questions, files the student shared and their key facts, and any preferences the student stated. Write at most 250 words in plain prose.`;
+
+  const summary = await llm.complete(
+    [
+      { role: 'system', content: 'You summarize tutoring conversations so a tutor can continue them without the full transcript.' },
+      { role: 'user', content: prompt },
+    ],
+    { maxTokens: SUMMARY_MAX_TOKENS, temperature: 0.2 }
+  );
+  return summary.trim();
+}
+
+export async function loadChatSummary(supabase: any, userId: string, chatId: string): Promise<StoredSummary> {
+  const { data } = await supabase
+    .from('chats')
+    .select('context_summary, context_summary_through')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return {
+    summary: data?.context_summary || null,
+    throughMessageId: data?.context_summary_through || null,
+  };
+}
+
+async function saveChatSummary(supabase: any, userId: string, chatId: string, summary: string, throughMessageId: string) {
+  const { error } = await supabase
+    .from('chats')
+    .update({
+      context_summary: summary,
+      context_summary_through: throughMessageId,
+      context_summary_updated_at: new Date().toISOString(),
+    })
+    .eq('id', chatId)
+    .eq('user_id', userId);
+  if (error) {
+    console.error('[CHAT CONTEXT] Failed to save summary:', error);
+  }
+}
+
+interface BuildChatContextOptions {
+  supabase: any;
+  userId: string;
+  chatId: string;
+  llm: LLMProvider;
+  systemMessages: LLMMessage[];
+  // Full conversation in order, ending with the turn being answered
+  history: HistoryTurn[];
+  // Tokens reserved for the model's reply
+  replyTokens: number;
+  contextTokens?: number;
+}
+
+/**
+ * Builds the message list for a chat completion within the token budget,
+ * creating or extending the stored rolling summary when needed.
+ */
+export async function buildChatContext({
+  supabase,
+  userId,
+  chatId,
+  llm,
+  systemMessages,
+  history,
+  replyTokens,
+  contextTokens = DEFAULT_CONTEXT_TOKENS,
+}: BuildChatContextOptions): Promise<LLMMessage[]> {
+  const systemTokens = estimateMessageTokens(systemMessages);
+  const stored = await loadChatSummary(supabase, userId, chatId);
+  const summaryTokens = Math.max(estimateTokens(stored.summary || ''), SUMMARY_MAX_TOKENS) + 8;
+
+  // What's left for verbatim turns after system prompts, the summary slot and the reply
+  const historyBudget = Math.max(contextTokens - systemTokens - summaryTokens - replyTokens, 500);
+
+  const plan = planContext(history, historyBudget, stored);
+  let summary = plan.useStoredSummary ? stored.summary : null;
+
+  if (plan.toSummarize.length > 0) {
+    const lastFolded = plan.toSummarize[plan.toSummarize.length - 1];
+    try {
+      summary = await summarizeTurns(llm, summary, plan.toSummarize);
+      if (summary && lastFolded.id) {
+        await saveChatSummary(supabase, userId, chatId, summary, lastFolded.id);
+      }
+    } catch (error) {
+      // Without a summary, the older turns are simply dropped for this send
+      console.error('[CHAT CONTEXT] Failed to summarize older turns:', error);
+    }
+  }
+
+  const recent = plan.recent.map((turn, index) => {
+    // The latest turn may carry large attachments - trim it if it alone overflows
+    if (index === plan.recent.length - 1 && estimateMessageTokens([turn]) > historyBudget) {
+      return { ...turn, content: truncateToTokens(turn.content, historyBudget) };
+    }
+    return turn;
+  });
+
+  const messages: LLMMessage[] = [...systemMessages];
+  if (summary) {
+    messages.push({ role: 'system', content: `Summary of the earlier part of this conversation:\n${summary}` });
+  }
+  for (const turn of recent) {
+    messages.push({ role: turn.role, content: turn.content });
+  }
+  return messages;
+}
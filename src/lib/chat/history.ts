@@ -0,0 +1,73 @@
+import { loadChatTree, getActiveLeafId, resolveLeaf, getActivePath, PathMessage } from './tree';
+import { loadMessageAttachments } from '@/lib/files/library';
+import { signFileUrls, withPage } from '@/lib/files/urls';
+import { loadMessageQuizIds } from '@/lib/quizzes';
+import type { FileSource } from '@/lib/rag/types';
+
+/**
+ * Adds attachment info (with signed URLs) to the user messages on a path, signs the
+ * links of the files cited by answers again, marks the answers holding a quiz, and
+ * converts rows to the shape the chat UI expects.
+ */
+async function formatPathMessages(supabase: any, userId: string, path: PathMessage[]) {
+  const userMessageIds = path.filter(m => m.role === 'user').map(m => m.id);
+  const pathAttachments = await loadMessageAttachments(supabase, userId, userMessageIds, 'id, file_name, file_type, file_size, file_path')
+    .catch(error => {
+      console.error('Error loading attachments:', error);
+      return [];
+    });
+  const urls = await signFileUrls(supabase, pathAttachments.map((att: any) => att.file_path));
+  // Cited files are files of this path (answers only cite the conversation's files)
+  const pathsById = new Map(pathAttachments.map((att: any) => [att.id, att.file_path as string]));
+  const urlOf = (attachmentId: string) => urls.get(pathsById.get(attachmentId) || '') || '';
+  const quizIds = await loadMessageQuizIds(supabase, userId, path.filter(m => m.role === 'assistant').map(m => m.id))
+    .catch(error => {
+      console.error('Error loading quizzes:', error);
+      return new Map<string, string>();
+    });
+
+  return path.map((m) => {
+    const base = {
+      type: m.role === 'assistant' ? 'ai' : 'user',
+      content: m.content,
+      messageId: m.id,
+      parentId: m.parent_id,
+      siblingIds: m.siblingIds,
+      siblingIndex: m.siblingIndex,
+      interrupted: !!m.interrupted,
+      usage: m.usage ?? null,
+      sources: m.sources ? m.sources.map((source: FileSource) => ({ ...source, url: withPage(urlOf(source.attachmentId), source.page) })) : null,
+      quizId: quizIds.get(m.id) ?? null,
+    };
+    if (m.role !== 'user') return base;
+
+    const attachments = pathAttachments.filter(att => att.message_id === m.id);
+    if (attachments.length === 0) return base;
+
+    return {
+      ...base,
+      attachments: attachments.map((att: any) => ({
+        id: att.id,
+        url: urlOf(att.id),
+        filename: att.file_name,
+        file_type: att.file_type,
+        file_size: att.file_size,
+      })),
+    };
+  });
+}
+
+/**
+ * Loads the active branch of a chat, formatted for the client.
+ * When `fromMessageId` is given, the branch through that message is returned instead.
+ */
+export async function loadActivePath(supabase: any, userId: string, chatId: string, fromMessageId?: string | null) {
+  const tree = await loadChatTree(supabase, userId, chatId);
+  const startId = fromMessageId || await getActiveLeafId(supabase, userId, chatId);
+  const leafId = resolveLeaf(tree, startId);
+  const path = getActivePath(tree, leafId);
+  return {
+    leafId,
+    messages: await formatPathMessages(supabase, userId, path),
+  };
+}
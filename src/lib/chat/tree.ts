@@ -0,0 +1,144 @@
+/**
+ * Conversation tree helpers
+ *
+ * Messages form a tree through `parent_id`: editing a question or regenerating an
+ * answer creates a sibling branch instead of overwriting. `chats.active_leaf_id`
+ * remembers which branch the user is looking at, and the "active path" is the
+ * chain of messages from the root down to that leaf.
+ */
+
+import type { MessageUsage } from '@/lib/credits/metering';
+import type { FileSource } from '@/lib/rag/types';
+
+export interface TreeMessage {
+  id: string;
+  parent_id: string | null;
+  role: string;
+  content: string;
+  created_at: string;
+  // Answer was stopped before it finished
+  interrupted?: boolean;
+  // What the answer cost (see lib/credits/metering.ts)
+  usage?: MessageUsage | null;
+  // File excerpts the answer cites as [SourceN] (see lib/rag)
+  sources?: FileSource[] | null;
+}
+
+export interface PathMessage extends TreeMessage {
+  // Ids of all messages sharing this message's parent (including itself), oldest first
+  siblingIds: string[];
+  siblingIndex: number;
+}
+
+function byCreatedAt(a: TreeMessage, b: TreeMessage) {
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+}
+
+/**
+ * Chats created before branching have no parent links at all.
+ * Treat those as a single linear thread ordered by created_at.
+ */
+export function linkLegacyMessages(messages: TreeMessage[]): TreeMessage[] {
+  const sorted = [...messages].sort(byCreatedAt);
+  if (sorted.some(m => m.parent_id)) return sorted;
+  return sorted.map((m, i) => ({ ...m, parent_id: i > 0 ? sorted[i - 1].id : null }));
+}
+
+function childrenByParent(messages: TreeMessage[]): Map<string | null, TreeMessage[]> {
+  const children = new Map<string | null, TreeMessage[]>();
+  for (const m of messages) {
+    const key = m.parent_id ?? null;
+    if (!children.has(key)) children.set(key, []);
+    children.get(key)!.push(m);
+  }
+  children.forEach(list => list.sort(byCreatedAt));
+  return children;
+}
+
+/**
+ * Walks down from `fromId` to a leaf, always following the newest child
+ */
+export function resolveLeaf(messages: TreeMessage[], fromId?: string | null): string | null {
+  if (messages.length === 0) return null;
+  const children = childrenByParent(messages);
+  const byId = new Map(messages.map(m => [m.id, m]));
+
+  let current: TreeMessage | undefined = fromId ? byId.get(fromId) : undefined;
+  if (!current) {
+    // No (valid) starting point: use the most recently created message
+    current = [...messages].sort(byCreatedAt)[messages.length - 1];
+  }
+
+  let next = children.get(current.id);
+  while (next && next.length > 0) {
+    current = next[next.length - 1];
+    next = children.get(current.id);
+  }
+  return current.id;
+}
+
+/**
+ * Returns the messages from the root to `leafId`, annotated with sibling info
+ * so the UI can offer "< 2 / 3 >" navigation between alternatives.
+ */
+export function getActivePath(messages: TreeMessage[], leafId: string | null): PathMessage[] {
+  if (!leafId) return [];
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const children = childrenByParent(messages);
+
+  const path: PathMessage[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(leafId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    const siblings = children.get(current.parent_id ?? null) || [current];
+    const siblingIds = siblings.map(s => s.id);
+    path.unshift({ ...current, siblingIds, siblingIndex: siblingIds.indexOf(current.id) });
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Loads every message of a chat (for tree operations)
+ */
+export async function loadChatTree(supabase: any, userId: string, chatId: string): Promise<TreeMessage[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, parent_id, role, content, created_at, interrupted, usage, sources')
+    .eq('user_id', userId)
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message);
+  return linkLegacyMessages(data || []);
+}
+
+export async function getActiveLeafId(supabase: any, userId: string, chatId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('chats')
+    .select('active_leaf_id')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data?.active_leaf_id || null;
+}
+
+export async function setActiveLeafId(supabase: any, userId: string, chatId: string, leafId: string) {
+  const { error } = await supabase
+    .from('chats')
+    .update({ active_leaf_id: leafId })
+    .eq('id', chatId)
+    .eq('user_id', userId);
+  if (error) {
+    console.error('[CHAT TREE] Failed to update active leaf:', error);
+  }
+}
+
+/**
+ * Resolves the message new turns should be attached to (the end of the active path)
+ */
+export async function getCurrentLeaf(supabase: any, userId: string, chatId: string): Promise<string | null> {
+  const messages = await loadChatTree(supabase, userId, chatId);
+  const activeLeafId = await getActiveLeafId(supabase, userId, chatId);
+  return resolveLeaf(messages, activeLeafId);
+}
@@ -0,0 +1,107 @@
+/**
+ * Credit ledger
+ *
+ * Credits are never written directly. Every change is a row in `credit_transactions`
+ * applied by the `apply_credit_transaction` database function, which locks the user
+ * row so concurrent requests can't spend the same credit twice. A user's own client can
+ * only spend credits; adding them needs the service role client (createAdminClient).
+ * See migrations/add_credit_ledger.sql.
+ *
+ * Tutor and Atlas credits are separate pools with their own balance
+ * (migrations/add_usage_metering.sql).
+ */
+
+export type CreditPool = 'tutor' | 'atlas';
+
+export type CreditTransactionType =
+  | 'signup_bonus'
+  | 'opening_balance'
+  | 'purchase'
+  | 'usage'
+  | 'refund'
+  | 'adjustment';
+
+export interface CreditTransactionInput {
+  userId: string;
+  // Positive adds credits, negative spends them
+  amount: number;
+  type: CreditTransactionType;
+  description?: string;
+  // Idempotency key: a reference already in the ledger is not applied again
+  reference?: string;
+  metadata?: Record<string, unknown>;
+  // Defaults to 'tutor'
+  pool?: CreditPool;
+}
+
+export interface CreditTransactionResult {
+  // False when a debit was refused for lack of credits
+  applied: boolean;
+  balance: number;
+  transactionId: string | null;
+}
+
+export async function applyCreditTransaction(supabase: any, input: CreditTransactionInput): Promise<CreditTransactionResult> {
+  const { data, error } = await supabase.rpc('apply_credit_transaction', {
+    p_user_id: input.userId,
+    p_amount: Math.trunc(input.amount),
+    p_type: input.type,
+    p_description: input.description ?? null,
+    p_reference: input.reference ?? null,
+    p_metadata: input.metadata ?? null,
+    p_pool: input.pool ?? 'tutor',
+  });
+  if (error) {
+    throw new Error(`Credit transaction failed: ${error.message}`);
+  }
+  const row = Array.isArray(data) ? data[0] : data;
+  return {
+    applied: !!row?.applied,
+    balance: typeof row?.balance === 'number' ? row.balance : 0,
+    transactionId: row?.transaction_id ?? null,
+  };
+}
+
+/**
+ * Spends credits if the balance allows it
+ */
+export function debitCredits(
+  supabase: any,
+  userId: string,
+  amount: number,
+  description: string,
+  metadata?: Record<string, unknown>,
+  pool: CreditPool = 'tutor'
+) {
+  return applyCreditTransaction(supabase, { userId, amount: -Math.abs(amount), type: 'usage', description, metadata, pool });
+}
+
+/**
+ * Gives back credits taken by an earlier debit (at most once per debit). Needs the
+ * service role client.
+ */
+export function refundCredits(
+  supabase: any,
+  userId: string,
+  debitTransactionId: string,
+  amount: number,
+  description: string,
+  pool: CreditPool = 'tutor'
+) {
+  return applyCreditTransaction(supabase, {
+    userId,
+    amount: Math.abs(amount),
+    type: 'refund',
+    description,
+    reference: debitTransactionId,
+    pool,
+  });
+}
+
+export async function getCreditBalance(supabase: any, userId: string, pool: CreditPool = 'tutor'): Promise<number> {
+  const { data, error } = await supabase.rpc('get_credit_balance', { p_user_id: userId, p_pool: pool });
+  if (error) {
+    throw new Error(`Failed to load credit balance: ${error.message}`);
+  }
+  return typeof data === 'number' ? data : 0;
+}
@@ -0,0 +1,124 @@
+/**
+ * Usage-based credit metering
+ *
+ * Answers are charged by what they used: input and output tokens, attachments
+ * processed and (for Atlas) web searches. Tokens are estimated with the same
+ * heuristic as context budgeting, so the price doesn't depend on the provider.
+ *
+ * A request first holds the expected cost, then settles to the actual usage once
+ * the answer is done: the difference is refunded, or debited if it ran over.
+ * Holds and settlements are written with the service role client (createAdminClient),
+ * since a user session can only spend credits, not get them back.
+ */
+
+import { estimateTokens } from '@/lib/chat/context';
+import { debitCredits, refundCredits, CreditPool, CreditTransactionResult } from './ledger';
+
+interface PoolPricing {
+  inputTokensPerCredit: number;
+  outputTokensPerCredit: number;
+  perAttachment: number;
+  perSearch: number;
+}
+
+export const CREDIT_PRICING: Record<CreditPool, PoolPricing> = {
+  tutor: { inputTokensPerCredit: 8000, outputTokensPerCredit: 1000, perAttachment: 1, perSearch: 0 },
+  atlas: { inputTokensPerCredit: 16000, outputTokensPerCredit: 4000, perAttachment: 0, perSearch: 1 },
+};
+
+// Every answer costs at least this much
+export const MIN_CHARGE = 1;
+
+export interface UsageMeasure {
+  inputTokens: number;
+  outputTokens: number;
+  attachments?: number;
+  searches?: number;
+}
+
+// Stored on the assistant message (messages.usage) and sent with the done event
+export interface MessageUsage {
+  pool: CreditPool;
+  credits: number;
+  inputTokens: number;
+  outputTokens: number;
+  attachments: number;
+  searches: number;
+}
+
+export function priceUsage(pool: CreditPool, usage: UsageMeasure): MessageUsage {
+  const pricing = CREDIT_PRICING[pool];
+  const attachments = usage.attachments ?? 0;
+  const searches = usage.searches ?? 0;
+  const raw =
+    usage.inputTokens / pricing.inputTokensPerCredit +
+    usage.outputTokens / pricing.outputTokensPerCredit +
+    attachments * pricing.perAttachment +
+    searches * pricing.perSearch;
+  return {
+    pool,
+    credits: Math.max(MIN_CHARGE, Math.ceil(raw)),
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    attachments,
+    searches,
+  };
+}
+
+export function countTokens(messages: { content: string }[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+}
+
+export interface CreditHold {
+  userId: string;
+  pool: CreditPool;
+  credits: number;
+  transaction: CreditTransactionResult;
+}
+
+/**
+ * Takes the expected cost up front so concurrent requests can't spend the same balance.
+ * Returns null when the balance doesn't cover it.
+ */
+export async function holdCredits(
+  ledger: any,
+  userId: string,
+  pool: CreditPool,
+  credits: number,
+  description: string,
+  metadata?: Record<string, unknown>
+): Promise<CreditHold | null> {
+  const transaction = await debitCredits(ledger, userId, credits, description, metadata, pool);
+  if (!transaction.applied) return null;
+  return { userId, pool, credits, transaction };
+}
+
+/**
+ * Settles a hold to what was actually used and returns the credits charged.
+ * Pass 0 to give the whole hold back. Going over the hold is charged only as far
+ * as the balance allows. If settling fails, the hold stands as the charge.
+ */
+export async function settleCredits(ledger: any, hold: CreditHold, actualCredits: number, description: string): Promise<number> {
+  try {
+    if (actualCredits < hold.credits) {
+      if (hold.transaction.transactionId) {
+        await refundCredits(ledger, hold.userId, hold.transaction.transactionId, hold.credits - actualCredits, description, hold.pool);
+      }
+      return actualCredits;
+    }
+    if (actualCredits > hold.credits) {
+      const overrun = actualCredits - hold.credits;
+      const extra = await debitCredits(ledger, hold.userId, overrun, description, undefined, hold.pool);
+      if (extra.applied) return actualCredits;
+      // Not enough left: take what the balance still has
+      const partial = Math.min(overrun, extra.balance);
+      if (partial <= 0) return hold.credits;
+      const rest = await debitCredits(ledger, hold.userId, partial, description, undefined, hold.pool);
+      return hold.credits + (rest.applied ? partial : 0);
+    }
+    return actualCredits;
+  } catch (error) {
+    console.error('[CREDITS] Failed to settle credit hold:', error);
+    return hold.credits;
+  }
+}
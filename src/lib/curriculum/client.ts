@@ -0,0 +1,48 @@
+import { supabase } from "../supabase/client";
+import { asEntitlementDenial, openUpgrade } from "../entitlements/client";
+import type { Curriculum } from "./types";
+
+export type { Curriculum, CurriculumTopic, CurriculumUnit, TopicStatus } from "./types";
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+  return { 'Authorization': `Bearer ${session.access_token}` };
+}
+
+// Calls the curriculum endpoint of a tutor; throws with the server's message when it
+// fails, and offers an upgrade when it was refused for the user's plan or credits
+async function curriculumRequest(teacherId: string, init: RequestInit = {}): Promise<any> {
+  const res = await fetch(`/api/teacher/${encodeURIComponent(teacherId)}/curriculum`, {
+    ...init,
+    headers: await authHeaders(),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const denial = asEntitlementDenial(res.status, data);
+    if (denial) openUpgrade(denial);
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+/**
+ * The tutor's curriculum, whether it has a syllabus, and the most building the
+ * curriculum costs in tutor credits (null without a syllabus)
+ */
+export async function getCurriculum(teacherId: string): Promise<{ curriculum: Curriculum | null; hasSyllabus: boolean; buildCredits: number | null }> {
+  const data = await curriculumRequest(teacherId);
+  return {
+    curriculum: data.curriculum || null,
+    hasSyllabus: !!data.hasSyllabus,
+    buildCredits: typeof data.buildCredits === 'number' ? data.buildCredits : null,
+  };
+}
+
+/**
+ * Builds the tutor's curriculum from its syllabus (replacing any previous one)
+ */
+export async function buildCurriculumFromSyllabus(teacherId: string): Promise<Curriculum> {
+  const data = await curriculumRequest(teacherId, { method: 'POST' });
+  return data.curriculum;
+}
@@ -0,0 +1,221 @@
+/**
+ * Curricula
+ *
+ * A tutor (custom teacher) with a syllabus can have it turned into a curriculum: units
+ * of topics with learning objectives (./parse.ts), stored with the teacher. The chat
+ * route gives the tutor the outline with the student's progress, and the tutor marks
+ * topics as covered or mastered as it teaches; the chat shows the outline next to the
+ * conversation. Progress only moves forward. See migrations/add_curriculum.sql.
+ */
+
+import type { LLMMessage, LLMProvider } from '@/lib/llm';
+import { estimateTokens } from '@/lib/chat/context';
+import { countTokens, holdCredits, priceUsage, settleCredits } from '@/lib/credits/metering';
+import { buildCurriculumMessages, CURRICULUM_REPLY_TOKENS, CurriculumMarks, CurriculumUnitDraft, parseCurriculum } from './parse';
+import type { Curriculum, CurriculumTopic, TopicStatus } from './types';
+
+export { buildCurriculumMessages, createCurriculumBlockFilter, parseCurriculumBlock, CURRICULUM_REPLY_TOKENS } from './parse';
+export type { CurriculumMarks, CurriculumUnitDraft } from './parse';
+export type { Curriculum, CurriculumTopic, CurriculumUnit, TopicStatus } from './types';
+
+// Topics whose learning objectives the tutor is given, from the next one on
+const OBJECTIVES_AHEAD = 2;
+
+const STATUS_RANK: Record<TopicStatus, number> = { not_started: 0, covered: 1, mastered: 2 };
+const STATUS_MARK: Record<TopicStatus, string> = { not_started: '[ ]', covered: '[~]', mastered: '[x]' };
+
+function allTopics(curriculum: Pick<Curriculum, 'units'>): CurriculumTopic[] {
+  return curriculum.units.flatMap(unit => unit.topics);
+}
+
+/**
+ * Where to continue: the first topic not started yet, else the first one not mastered
+ */
+export function findNextTopic(curriculum: Pick<Curriculum, 'units'>): CurriculumTopic | null {
+  const topics = allTopics(curriculum);
+  return topics.find(topic => topic.status === 'not_started') || topics.find(topic => topic.status !== 'mastered') || null;
+}
+
+/**
+ * The curriculum of one of the user's tutors with their progress, or null when it has none
+ */
+export async function loadCurriculum(supabase: any, userId: string, teacherId: string): Promise<Curriculum | null> {
+  const { data: teacher, error } = await supabase
+    .from('custom_teachers')
+    .select('curriculum, curriculum_built_at')
+    .eq('id', teacherId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load curriculum: ${error.message}`);
+  }
+  const drafts: CurriculumUnitDraft[] = teacher?.curriculum?.units;
+  if (!Array.isArray(drafts) || drafts.length === 0) return null;
+
+  const { data: progress, error: progressError } = await supabase
+    .from('curriculum_progress')
+    .select('topic_id, status')
+    .eq('teacher_id', teacherId)
+    .eq('user_id', userId);
+  if (progressError) {
+    throw new Error(`Failed to load curriculum progress: ${progressError.message}`);
+  }
+  const statusOf = new Map<string, TopicStatus>((progress || []).map((row: any) => [row.topic_id, row.status]));
+  const units = drafts.map(unit => ({
+    ...unit,
+    topics: unit.topics.map(topic => ({ ...topic, status: statusOf.get(topic.id) || 'not_started' })),
+  }));
+  return {
+    teacherId,
+    units,
+    nextTopicId: findNextTopic({ units })?.id ?? null,
+    builtAt: teacher.curriculum_built_at,
+  };
+}
+
+/**
+ * Asks the model for the outline of a syllabus. Returns the units and the reply's
+ * length in tokens (for metering).
+ */
+export async function buildCurriculum(llm: LLMProvider, messages: LLMMessage[]): Promise<{ units: CurriculumUnitDraft[]; outputTokens: number }> {
+  const raw = await llm.complete(messages, { maxTokens: CURRICULUM_REPLY_TOKENS, temperature: 0.2 });
+  return { units: parseCurriculum(raw), outputTokens: estimateTokens(raw) };
+}
+
+/**
+ * Stores a tutor's curriculum; progress on the one it replaces is cleared
+ */
+export async function saveCurriculum(supabase: any, userId: string, teacherId: string, units: CurriculumUnitDraft[]): Promise<Curriculum | null> {
+  const { data, error } = await supabase
+    .from('custom_teachers')
+    .update({ curriculum: { units }, curriculum_built_at: new Date().toISOString() })
+    .eq('id', teacherId)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) {
+    throw new Error(`Failed to save curriculum: ${error.message}`);
+  }
+  if (!data?.length) return null;
+  const { error: clearError } = await supabase
+    .from('curriculum_progress')
+    .delete()
+    .eq('teacher_id', teacherId)
+    .eq('user_id', userId);
+  if (clearError) {
+    throw new Error(`Failed to reset curriculum progress: ${clearError.message}`);
+  }
+  return loadCurriculum(supabase, userId, teacherId);
+}
+
+/**
+ * What building a curriculum from the syllabus holds: the most it can cost, in tutor
+ * credits (the charge is settled to the actual reply)
+ */
+export function estimateCurriculumCredits(syllabus: string): number {
+  const inputTokens = countTokens(buildCurriculumMessages(syllabus));
+  return priceUsage('tutor', { inputTokens, outputTokens: CURRICULUM_REPLY_TOKENS }).credits;
+}
+
+/**
+ * Builds a tutor's curriculum from its syllabus and stores it, charged like a tutor
+ * message through `ledger` (the service role client). Nothing is charged when the
+ * syllabus has no usable outline or the build fails (which throws). 'no_credits'
+ * when the balance doesn't cover the build.
+ */
+export async function buildAndSaveCurriculum(
+  supabase: any,
+  ledger: any,
+  llm: LLMProvider,
+  userId: string,
+  teacherId: string,
+  syllabus: string
+): Promise<{ status: 'built'; curriculum: Curriculum | null } | { status: 'empty' } | { status: 'no_credits' }> {
+  const messages = buildCurriculumMessages(syllabus);
+  const inputTokens = countTokens(messages);
+  const hold = await holdCredits(ledger, userId, 'tutor', estimateCurriculumCredits(syllabus), 'Curriculum', { teacherId });
+  if (!hold) return { status: 'no_credits' };
+
+  try {
+    const { units, outputTokens } = await buildCurriculum(llm, messages);
+    if (units.length === 0) {
+      await settleCredits(ledger, hold, 0, 'No curriculum');
+      return { status: 'empty' };
+    }
+    const curriculum = await saveCurriculum(supabase, userId, teacherId, units);
+    const metered = priceUsage('tutor', { inputTokens, outputTokens });
+    await settleCredits(ledger, hold, metered.credits, 'Curriculum usage');
+    return { status: 'built', curriculum };
+  } catch (error) {
+    await settleCredits(ledger, hold, 0, 'Failed curriculum');
+    throw error;
+  }
+}
+
+/**
+ * Applies the tutor's marks. Topics only move forward (a mastered topic stays mastered);
+ * unknown topic ids are ignored. Returns how many topics changed.
+ */
+export async function markTopics(supabase: any, userId: string, curriculum: Curriculum, marks: CurriculumMarks): Promise<number> {
+  const current = new Map(allTopics(curriculum).map(topic => [topic.id, topic.status]));
+  const next = new Map<string, TopicStatus>();
+  for (const id of marks.covered) next.set(id, 'covered');
+  for (const id of marks.mastered) next.set(id, 'mastered');
+
+  const now = new Date().toISOString();
+  const rows = Array.from(next.entries())
+    .filter(([id, status]) => current.has(id) && STATUS_RANK[status] > STATUS_RANK[current.get(id)!])
+    .map(([id, status]) => ({ user_id: userId, teacher_id: curriculum.teacherId, topic_id: id, status, updated_at: now }));
+  if (rows.length === 0) return 0;
+  const { error } = await supabase
+    .from('curriculum_progress')
+    .upsert(rows, { onConflict: 'teacher_id,topic_id' });
+  if (error) {
+    throw new Error(`Failed to save curriculum progress: ${error.message}`);
+  }
+  return rows.length;
+}
+
+/**
+ * The outline as text, one line per unit and topic (optionally with progress marks)
+ */
+export function formatOutline(curriculum: Pick<Curriculum, 'units'>, withStatus = false): string {
+  return curriculum.units
+    .map(unit => [`${unit.id}. ${unit.title}`]
+      .concat(unit.topics.map(topic => `  ${withStatus ? `${STATUS_MARK[topic.status]} ` : ''}${topic.id} ${topic.title}`))
+      .join('\n'))
+    .join('\n');
+}
+
+/**
+ * What the tutor is told about the course: the outline with progress, the objectives
+ * of what comes next, and how to mark topics
+ */
+export function curriculumInstructions(curriculum: Curriculum): string {
+  const topics = allTopics(curriculum);
+  const nextIndex = topics.findIndex(topic => topic.id === curriculum.nextTopicId);
+  const ahead = nextIndex === -1 ? [] : topics.slice(nextIndex, nextIndex + OBJECTIVES_AHEAD);
+  const objectives = ahead
+    .filter(topic => topic.objectives.length > 0)
+    .map(topic => `${topic.id} ${topic.title}:\n${topic.objectives.map(objective => `- ${objective}`).join('\n')}`)
+    .join('\n\n');
+  const revisit = topics.filter(topic => topic.status === 'covered' && topic.id !== curriculum.nextTopicId).map(topic => topic.id);
+
+  return `## Course outline
+
+The student is following this course, built from their syllabus. [ ] not started, [~] covered, [x] mastered.
+
+${formatOutline(curriculum, true)}
+
+${curriculum.nextTopicId ? `Next topic: ${curriculum.nextTopicId}.` : 'Every topic is mastered; help the student review or go beyond the course.'}${revisit.length > 0 ? ` Covered but not mastered yet: ${revisit.join(', ')}.` : ''}${objectives ? `\n\nLearning objectives of what comes next:\n\n${objectives}` : ''}
+
+Rules:
+- Teach the course in order unless the student asks about something else; relate their questions to the outline when they fit.
+- When you have taught a topic, mark it covered. When the student has shown they meet its objectives (by answering check or quiz questions correctly), mark it mastered. Put the marks at the very end of your reply:
+
+\`\`\`curriculum
+{"covered": ["1.2"], "mastered": ["1.1"]}
+\`\`\`
+
+- The student doesn't see the block; don't mention it. Leave it out when nothing changed.
+- When you finish a topic, suggest what to study next: the next topic in the outline, or a covered topic to practise until it is mastered.`;
+}
@@ -0,0 +1,113 @@
+/**
+ * Curricula from syllabi, and the tutor's progress marks
+ *
+ * A syllabus is turned into an outline of units, topics and learning objectives by the
+ * model (buildCurriculumMessages, parseCurriculum). While teaching, the tutor marks
+ * topics as covered or mastered in a ```curriculum fenced block of JSON
+ * (curriculumInstructions), held back from the student like quiz blocks.
+ */
+
+import { createFencedBlockFilter, FencedBlockFilter } from '@/lib/streaming/blocks';
+import type { CurriculumUnit } from './types';
+
+export const MAX_UNITS = 20;
+export const MAX_TOPICS_PER_UNIT = 12;
+const MAX_OBJECTIVES = 4;
+const MAX_TITLE_LENGTH = 150;
+const MAX_OBJECTIVE_LENGTH = 200;
+// How much of the syllabus the model reads (about 15k tokens)
+export const MAX_SYLLABUS_CHARS = 60000;
+// Output budget of building an outline
+export const CURRICULUM_REPLY_TOKENS = 4000;
+
+// A unit as written by the model, before progress is attached
+export type CurriculumUnitDraft = Omit<CurriculumUnit, 'topics'> & {
+  topics: { id: string; title: string; objectives: string[] }[];
+};
+
+export interface CurriculumMarks {
+  covered: string[];
+  mastered: string[];
+}
+
+const CURRICULUM_PROMPT = `You turn a course syllabus into a curriculum outline that a tutor follows with a student.
+
+Rules:
+- Keep the syllabus' order. Units are its modules, weeks or chapters; topics are what one or two tutoring sessions can teach.
+- Give each topic 1-${MAX_OBJECTIVES} learning objectives: short statements of what the student should be able to do ("Solve linear equations in one variable").
+- Leave out administrative content (grading, schedules, office hours, policies, readings lists).
+- At most ${MAX_UNITS} units and ${MAX_TOPICS_PER_UNIT} topics per unit.
+
+Return ONLY JSON, nothing else: {"units": [{"title": "...", "topics": [{"title": "...", "objectives": ["..."]}]}]}`;
+
+export function buildCurriculumMessages(syllabusText: string): { role: 'system' | 'user'; content: string }[] {
+  const syllabus = syllabusText.length > MAX_SYLLABUS_CHARS ? `${syllabusText.slice(0, MAX_SYLLABUS_CHARS)}\n...[truncated]` : syllabusText;
+  return [
+    { role: 'system', content: CURRICULUM_PROMPT },
+    { role: 'user', content: `Syllabus:\n\n${syllabus}` },
+  ];
+}
+
+function cleanText(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, maxLength) : '';
+}
+
+/**
+ * The outline in the model's reply, numbered by position; units and topics that
+ * don't follow the format are left out. Empty when there is no usable outline.
+ */
+export function parseCurriculum(raw: string): CurriculumUnitDraft[] {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end <= start) return [];
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+  const units: CurriculumUnitDraft[] = [];
+  for (const rawUnit of Array.isArray(parsed?.units) ? parsed.units : []) {
+    const title = cleanText(rawUnit?.title, MAX_TITLE_LENGTH);
+    const rawTopics = Array.isArray(rawUnit?.topics) ? rawUnit.topics : [];
+    const unitId = String(units.length + 1);
+    const topics = rawTopics
+      .map((topic: any) => ({
+        title: cleanText(topic?.title, MAX_TITLE_LENGTH),
+        objectives: (Array.isArray(topic?.objectives) ? topic.objectives : [])
+          .map((objective: unknown) => cleanText(objective, MAX_OBJECTIVE_LENGTH))
+          .filter(Boolean)
+          .slice(0, MAX_OBJECTIVES),
+      }))
+      .filter((topic: { title: string }) => topic.title)
+      .slice(0, MAX_TOPICS_PER_UNIT)
+      .map((topic: { title: string; objectives: string[] }, i: number) => ({ id: `${unitId}.${i + 1}`, ...topic }));
+    if (!title || topics.length === 0) continue;
+    units.push({ id: unitId, title, topics });
+    if (units.length >= MAX_UNITS) break;
+  }
+  return units;
+}
+
+/**
+ * Splits a streamed answer into what the student sees and the curriculum blocks in it
+ */
+export function createCurriculumBlockFilter(): FencedBlockFilter {
+  return createFencedBlockFilter('curriculum');
+}
+
+function toTopicIds(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(id => String(id).trim()).filter(id => /^\d+\.\d+$/.test(id)) : [];
+}
+
+/**
+ * The topics a curriculum block marks as covered and mastered
+ */
+export function parseCurriculumBlock(block: string): CurriculumMarks {
+  try {
+    const raw = JSON.parse(block.trim());
+    return { covered: toTopicIds(raw?.covered), mastered: toTopicIds(raw?.mastered) };
+  } catch {
+    return { covered: [], mastered: [] };
+  }
+}
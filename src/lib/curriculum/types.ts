@@ -0,0 +1,30 @@
+/**
+ * Shared types for curricula (also used by the course outline next to the chat)
+ */
+
+export type TopicStatus = 'not_started' | 'covered' | 'mastered';
+
+export interface CurriculumTopic {
+  // Position in the outline, e.g. "2.3" (third topic of the second unit)
+  id: string;
+  title: string;
+  // What the student should be able to do once they master the topic
+  objectives: string[];
+  status: TopicStatus;
+}
+
+export interface CurriculumUnit {
+  // Position in the outline, e.g. "2"
+  id: string;
+  title: string;
+  topics: CurriculumTopic[];
+}
+
+export interface Curriculum {
+  teacherId: string;
+  units: CurriculumUnit[];
+  // Where to continue: the first topic not started yet, else the first one not mastered;
+  // null once everything is mastered
+  nextTopicId: string | null;
+  builtAt: string;
+}
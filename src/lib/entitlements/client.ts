@@ -0,0 +1,18 @@
+import type { EntitlementDenial } from "./index";
+
+export const OPEN_UPGRADE_EVENT = 'openUpgrade';
+
+/**
+ * Returns the denial payload of a 402/403 API response, if it is one
+ */
+export function asEntitlementDenial(status: number, data: any): EntitlementDenial | null {
+  if (status !== 402 && status !== 403) return null;
+  return data && typeof data.code === 'string' && typeof data.feature === 'string' ? data as EntitlementDenial : null;
+}
+
+/**
+ * Opens the upgrade modal (mounted in App), optionally explaining what was refused
+ */
+export function openUpgrade(denial?: EntitlementDenial | null) {
+  window.dispatchEvent(new CustomEvent(OPEN_UPGRADE_EVENT, { detail: denial ?? null }));
+}
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for plan entitlements
+ *
+ * Run this file with: npx tsx src/lib/entitlements/entitlements.test.ts
+ * Or import into your test runner of choice
+ */
+
+import { describeDenial, Entitlements, getEntitlements, PLAN_ENTITLEMENTS } from './index';
+import { getPlan, PLANS } from '../subscriptions/plans';
+import type { PlanId } from '../subscriptions/plans';
+
+// null limits are unlimited
+function atLeast(higher: number | null, lower: number | null): boolean {
+  return higher === null || (lower !== null && higher >= lower);
+}
+
+// Every feature and limit of `lower` is also in `higher`
+function unlocksAtLeast(higher: Entitlements, lower: Entitlements): boolean {
+  return (higher.atlas || !lower.atlas)
+    && higher.maxFileSizeMb >= lower.maxFileSizeMb
+    && atLeast(higher.dailyFileUploads, lower.dailyFileUploads)
+    && higher.storageQuotaMb >= lower.storageQuotaMb
+    && atLeast(higher.maxTeachers, lower.maxTeachers)
+    && (higher.modelTier === 'advanced' || lower.modelTier === 'standard');
+}
+
+const planIds = Object.keys(PLAN_ENTITLEMENTS) as PlanId[];
+const rankedPairs = planIds.flatMap(lower => planIds
+  .filter(higher => getPlan(higher).rank > getPlan(lower).rank)
+  .map(higher => ({ lower, higher })));
+
+// Test cases
+const tests: { name: string; passes: () => boolean }[] = [
+  ...rankedPairs.map(({ lower, higher }) => ({
+    name: `${higher} unlocks everything ${lower} does`,
+    passes: () => unlocksAtLeast(PLAN_ENTITLEMENTS[higher], PLAN_ENTITLEMENTS[lower]),
+  })),
+  {
+    name: 'Every sold plan has entitlements',
+    passes: () => PLANS.every(plan => PLAN_ENTITLEMENTS[plan.id] !== undefined),
+  },
+  {
+    name: 'Unknown plans get the free entitlements',
+    passes: () => getEntitlements('no_such_plan') === PLAN_ENTITLEMENTS.free,
+  },
+  {
+    name: 'Atlas on the free plan offers the cheapest plan with Atlas',
+    passes: () => describeDenial('atlas', 'free').upgrade?.plan === 'last_night_preparer',
+  },
+  {
+    name: 'Out of Atlas credits offers a plan whose pack has Atlas credits',
+    passes: () => describeDenial('atlas_credits', 'last_night_preparer').upgrade?.plan === 'term_mastery',
+  },
+];
+
+// Run tests
+let passed = 0;
+let failed = 0;
+
+console.log('Running entitlements tests...\n');
+
+tests.forEach((test, index) => {
+  if (test.passes()) {
+    console.log(`✓ Test ${index + 1}: ${test.name}`);
+    passed++;
+  } else {
+    console.error(`✗ Test ${index + 1}: ${test.name}`);
+    failed++;
+  }
+});
+
+console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+if (failed === 0) {
+  console.log('All tests passed! ✓');
+  process.exit(0);
+} else {
+  console.error('Some tests failed! ✗');
+  process.exit(1);
+}
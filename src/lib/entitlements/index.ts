@@ -0,0 +1,128 @@
+/**
+ * Entitlements: what each plan unlocks
+ *
+ * Shared by API routes (enforcement) and the UI (locks and upgrade prompts), so a
+ * feature is gated in exactly one place. When access is refused, routes answer
+ * with an EntitlementDenial naming the cheapest purchase that unlocks it:
+ *   402 - out of credits (buy credits or a plan with that credit pool)
+ *   403 - the plan doesn't include the feature or its daily limit was reached
+ */
+
+import { getPlan, PLANS, PlanDefinition, PlanId } from '../subscriptions/plans';
+import { getProduct } from '../payments/catalog';
+
+export type ModelTier = 'standard' | 'advanced';
+
+export interface Entitlements {
+  atlas: boolean;
+  maxFileSizeMb: number;
+  // null means unlimited
+  dailyFileUploads: number | null;
+  // Total size of the user's stored files (identical uploads are stored once)
+  storageQuotaMb: number;
+  maxTeachers: number | null;
+  // Selects the LLM configuration (LLM_PROVIDER_<TIER> in src/lib/llm)
+  modelTier: ModelTier;
+}
+
+// A higher-ranked plan never unlocks less than a lower one, so an upgrade takes nothing
+// away (checked by entitlements.test.ts)
+export const PLAN_ENTITLEMENTS: Record<PlanId, Entitlements> = {
+  free: { atlas: false, maxFileSizeMb: 10, dailyFileUploads: 1, storageQuotaMb: 100, maxTeachers: 1, modelTier: 'standard' },
+  last_night_preparer: { atlas: true, maxFileSizeMb: 20, dailyFileUploads: 2, storageQuotaMb: 250, maxTeachers: 2, modelTier: 'standard' },
+  exam_sprint: { atlas: true, maxFileSizeMb: 30, dailyFileUploads: 20, storageQuotaMb: 1024, maxTeachers: 4, modelTier: 'standard' },
+  term_mastery: { atlas: true, maxFileSizeMb: 30, dailyFileUploads: null, storageQuotaMb: 5120, maxTeachers: null, modelTier: 'advanced' },
+  premium: { atlas: true, maxFileSizeMb: 30, dailyFileUploads: null, storageQuotaMb: 10240, maxTeachers: null, modelTier: 'advanced' },
+};
+
+export function getEntitlements(planId?: string | null): Entitlements {
+  return PLAN_ENTITLEMENTS[getPlan(planId).id];
+}
+
+export type GatedFeature = 'atlas' | 'file_size' | 'file_uploads' | 'storage' | 'teachers' | 'tutor_credits' | 'atlas_credits';
+
+export interface UpgradeOption {
+  productId: string;
+  name: string;
+  // Set when the purchase is a plan rather than a credit top-up
+  plan?: PlanId;
+}
+
+export interface EntitlementDenial {
+  error: string;
+  code: 'feature_not_in_plan' | 'limit_reached' | 'insufficient_credits';
+  feature: GatedFeature;
+  plan: PlanId;
+  limit?: number;
+  upgrade: UpgradeOption | null;
+}
+
+// Top-up sold in the Credits tab of settings
+const TUTOR_CREDITS_TOP_UP: UpgradeOption = { productId: 'credits_20', name: '20 Credits' };
+
+function planOption(plan: PlanDefinition): UpgradeOption {
+  return { productId: plan.id, name: plan.name, plan: plan.id };
+}
+
+function isPurchasable(plan: PlanDefinition) {
+  return plan.durationDays > 0;
+}
+
+// Atlas credits the plan's pack comes with
+function packAtlasCredits(plan: PlanDefinition): number {
+  return getProduct(plan.id)?.atlasCredits ?? 0;
+}
+
+/**
+ * Cheapest plan (other than the current one) whose entitlements pass `unlocks`
+ */
+export function findUpgradePlan(
+  currentPlanId: string | null | undefined,
+  unlocks: (e: Entitlements, plan: PlanDefinition) => boolean
+): PlanDefinition | null {
+  const current = getPlan(currentPlanId);
+  return PLANS
+    .filter(p => isPurchasable(p) && p.id !== current.id && unlocks(PLAN_ENTITLEMENTS[p.id], p))
+    .sort((a, b) => a.rank - b.rank)[0] || null;
+}
+
+export function formatStorage(mb: number): string {
+  return mb >= 1024 ? `${+(mb / 1024).toFixed(1)} GB` : `${mb} MB`;
+}
+
+function isAbove(limit: number | null, value: number) {
+  return limit === null || limit > value;
+}
+
+/**
+ * Builds the payload returned with a 402/403 for a refused feature
+ */
+export function describeDenial(feature: GatedFeature, currentPlanId: string | null | undefined, limit?: number): EntitlementDenial {
+  const plan = getPlan(currentPlanId).id;
+  const withPlan = (code: EntitlementDenial['code'], error: string, unlocks: (e: Entitlements, plan: PlanDefinition) => boolean): EntitlementDenial => {
+    const upgrade = findUpgradePlan(currentPlanId, unlocks);
+    return { error, code, feature, plan, limit, upgrade: upgrade ? planOption(upgrade) : null };
+  };
+
+  switch (feature) {
+    case 'atlas':
+      return withPlan('feature_not_in_plan', 'Atlas is not included in your plan', e => e.atlas);
+    case 'file_size':
+      return withPlan('limit_reached', `Files on your plan can be up to ${limit} MB`, e => e.maxFileSizeMb > (limit ?? 0));
+    case 'file_uploads':
+      return withPlan('limit_reached', `Your plan allows ${limit} file upload${limit === 1 ? '' : 's'} per day`, e => isAbove(e.dailyFileUploads, limit ?? 0));
+    case 'storage':
+      return withPlan('limit_reached', `Your plan includes ${formatStorage(limit ?? 0)} of file storage`, e => e.storageQuotaMb > (limit ?? 0));
+    case 'teachers':
+      return withPlan('limit_reached', `Your plan allows up to ${limit} tutor${limit === 1 ? '' : 's'}`, e => isAbove(e.maxTeachers, limit ?? 0));
+    case 'atlas_credits':
+      // Only plan packs include Atlas credits, and not all of them
+      return withPlan('insufficient_credits', 'Insufficient Atlas credits', (e, p) => e.atlas && packAtlasCredits(p) > 0);
+    case 'tutor_credits':
+      return { error: 'Insufficient credits', code: 'insufficient_credits', feature, plan, upgrade: TUTOR_CREDITS_TOP_UP };
+  }
+}
+
+export function denialStatus(denial: EntitlementDenial): 402 | 403 {
+  return denial.code === 'insufficient_credits' ? 402 : 403;
+}
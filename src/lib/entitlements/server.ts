@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { refreshSubscription } from '@/lib/subscriptions';
+import { describeDenial, denialStatus, getEntitlements, GatedFeature } from './index';
+
+/**
+ * Current plan and entitlements of a user. Refreshes the subscription first so
+ * an expired plan loses its features right away.
+ */
+export async function loadEntitlements(supabase: any, userId: string) {
+  let planId: string | null = null;
+  try {
+    planId = (await refreshSubscription(supabase, userId)).plan.id;
+  } catch (error) {
+    console.error('[ENTITLEMENTS] Failed to refresh subscription:', error);
+    const { data: userRow } = await supabase
+      .from('users')
+      .select('subscription_plan')
+      .eq('id', userId)
+      .maybeSingle();
+    planId = userRow?.subscription_plan ?? null;
+  }
+  return { planId, entitlements: getEntitlements(planId) };
+}
+
+/**
+ * 402/403 response telling the client which purchase unlocks the feature
+ */
+export function entitlementDenied(feature: GatedFeature, planId: string | null | undefined, limit?: number) {
+  const denial = describeDenial(feature, planId, limit);
+  return NextResponse.json(denial, { status: denialStatus(denial) });
+}
+
+/**
+ * Files the user uploaded since midnight (UTC)
+ */
+export async function countUploadsToday(supabase: any, userId: string): Promise<number> {
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+  const { count, error } = await supabase
+    .from('attachments')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('created_at', startOfDay.toISOString());
+  if (error) {
+    throw new Error(`Failed to count uploads: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+/**
+ * Bytes of storage the user's files take up; identical uploads share one stored
+ * object and count once (see get_storage_usage in migrations/add_content_hash_dedup.sql)
+ */
+export async function getStorageUsage(supabase: any, userId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('get_storage_usage', { p_user_id: userId });
+  if (error) {
+    throw new Error(`Failed to measure storage: ${error.message}`);
+  }
+  return Number(data) || 0;
+}
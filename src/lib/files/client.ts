@@ -0,0 +1,208 @@
+import { supabase } from "../supabase/client";
+import { asEntitlementDenial, openUpgrade } from "../entitlements/client";
+import { FileProcessingJob, isJobSettled } from "./status";
+
+import type { LibraryFile, LibraryFileDetails } from "./types";
+
+export type { FileProcessingJob } from "./status";
+export type { LibraryFile, LibraryFileDetails } from "./types";
+export { describeJob, isJobSettled } from "./status";
+
+// Latest job of each tracked file, by attachment id
+export type FileJobMap = Record<string, FileProcessingJob>;
+
+export interface FileJobTracker {
+  // Starts following a file's job (optionally with the job returned by the upload)
+  track(attachmentId: string, job?: FileProcessingJob | null): void;
+  // Resolves once every file's job is done or failed, after `timeoutMs`, or when `signal` aborts
+  waitUntilSettled(attachmentIds: string[], timeoutMs: number, signal?: AbortSignal): Promise<void>;
+  dispose(): void;
+}
+
+async function fetchFileJobs(attachmentIds: string[]): Promise<FileProcessingJob[]> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return [];
+  const res = await fetch(`/api/files/jobs?attachmentIds=${attachmentIds.map(encodeURIComponent).join(',')}`, {
+    headers: { 'Authorization': `Bearer ${session.access_token}` },
+  });
+  const data = await res.json().catch(() => ({}));
+  return res.ok ? data.jobs || [] : [];
+}
+
+/**
+ * Queues an uploaded file for processing again, optionally reading its images and
+ * scanned pages in another language. Returns the file's job, or null if it couldn't be queued.
+ */
+export async function requestFileProcessing(attachmentId: string, ocrLanguage?: string): Promise<FileProcessingJob | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+  const res = await fetch('/api/files/process', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ attachmentId, ocrLanguage }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error('Error processing file:', data.error);
+    return null;
+  }
+  return data.job || null;
+}
+
+/**
+ * Uploads a file that isn't sent in a chat (e.g. a tutor's syllabus); processing is
+ * queued with it. Throws with the server's message when the file is refused, and offers
+ * an upgrade when that was for the user's plan.
+ */
+export async function uploadStandaloneFile(file: File): Promise<{ id: string; filename: string; job: FileProcessingJob | null }> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+  const form = new FormData();
+  form.append('file', file);
+  const res = await fetch('/api/files/upload', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${session.access_token}` },
+    body: form,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const denial = asEntitlementDenial(res.status, data);
+    if (denial) openUpgrade(denial);
+    throw new Error(data.error || 'Upload failed');
+  }
+  // The upload queues processing itself; queue it here if that failed
+  const job = data.job || await requestFileProcessing(data.id);
+  return { id: data.id, filename: data.filename, job };
+}
+
+// Calls a "My Files" endpoint; throws with the server's message when it fails
+async function libraryRequest(path: string, init: RequestInit = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+  const res = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Request failed');
+  return data;
+}
+
+/**
+ * The user's uploaded files, newest first; `query` matches names and text
+ */
+export async function listLibraryFiles(query = ''): Promise<LibraryFile[]> {
+  const data = await libraryRequest(`/api/files${query.trim() ? `?query=${encodeURIComponent(query.trim())}` : ''}`);
+  return data.files || [];
+}
+
+export async function getLibraryFile(attachmentId: string): Promise<LibraryFileDetails> {
+  const data = await libraryRequest(`/api/files/${encodeURIComponent(attachmentId)}`);
+  return data.file;
+}
+
+export async function renameLibraryFile(attachmentId: string, filename: string): Promise<LibraryFile> {
+  const data = await libraryRequest(`/api/files/${encodeURIComponent(attachmentId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ filename }),
+  });
+  return data.file;
+}
+
+export async function deleteLibraryFile(attachmentId: string): Promise<void> {
+  await libraryRequest(`/api/files/${encodeURIComponent(attachmentId)}`, { method: 'DELETE' });
+}
+
+/**
+ * A fresh signed link to a file (the links returned with chats and files expire after an hour)
+ */
+export async function getFileUrl(attachmentId: string): Promise<string> {
+  const data = await libraryRequest(`/api/files/${encodeURIComponent(attachmentId)}/url`);
+  return data.url;
+}
+
+/**
+ * Follows the processing jobs of the user's uploads through Supabase Realtime.
+ * `onChange` receives the latest job of every tracked file whenever one changes.
+ */
+export function createFileJobTracker(onChange: (jobs: FileJobMap) => void): FileJobTracker {
+  let jobs: FileJobMap = {};
+  const tracked = new Set<string>();
+  const waiters = new Set<() => void>();
+  let channel: ReturnType<typeof supabase.channel> | null = null;
+  let disposed = false;
+
+  const update = (job: FileProcessingJob) => {
+    if (disposed || !tracked.has(job.attachment_id)) return;
+    // A slow refresh must not undo a newer Realtime update
+    const current = jobs[job.attachment_id];
+    if (current && current.updated_at > job.updated_at) return;
+    jobs = { ...jobs, [job.attachment_id]: job };
+    onChange(jobs);
+    waiters.forEach(check => check());
+  };
+
+  // Catches up on changes made before the subscription was ready
+  const refresh = (attachmentIds: string[]) => {
+    fetchFileJobs(attachmentIds)
+      .then(latest => latest.forEach(update))
+      .catch(error => console.error('Error loading file jobs:', error));
+  };
+
+  // Row level security limits the stream to the user's own jobs
+  supabase.auth.getSession().then(({ data: { session } }) => {
+    if (disposed || !session?.user) return;
+    const userId = session.user.id;
+    channel = supabase
+      .channel(`file-jobs-${userId}`)
+      .on(
+        'postgres_changes' as any,
+        { event: '*', schema: 'public', table: 'file_processing_jobs', filter: `user_id=eq.${userId}` },
+        (payload: any) => {
+          if (payload.new?.attachment_id) update(payload.new as FileProcessingJob);
+        }
+      )
+      .subscribe();
+  });
+
+  return {
+    track(attachmentId, job) {
+      tracked.add(attachmentId);
+      if (job) update(job);
+      refresh([attachmentId]);
+    },
+
+    waitUntilSettled(attachmentIds, timeoutMs, signal) {
+      const pending = attachmentIds.filter(id => tracked.has(id));
+      if (pending.length === 0) return Promise.resolve();
+      refresh(pending);
+
+      return new Promise<void>(resolve => {
+        const finish = () => {
+          clearTimeout(timer);
+          waiters.delete(check);
+          signal?.removeEventListener('abort', finish);
+          resolve();
+        };
+        function check() {
+          if (pending.every(id => jobs[id] && isJobSettled(jobs[id]))) finish();
+        }
+        const timer = setTimeout(finish, timeoutMs);
+        signal?.addEventListener('abort', finish);
+        waiters.add(check);
+        check();
+      });
+    },
+
+    dispose() {
+      disposed = true;
+      if (channel) supabase.removeChannel(channel);
+    },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Deduplicating uploads by content
+ *
+ * The upload route hashes each file (hashContent). When the user already has a file
+ * with the same bytes its stored object is reused (findStoredCopy) rather than
+ * uploaded again, and the file worker copies the extraction of a processed copy
+ * (loadProcessedCopy) instead of extracting and OCRing the file again. A stored
+ * object is removed only with the last attachment using it (isFileShared).
+ * See migrations/add_content_hash_dedup.sql.
+ */
+
+import { createHash } from 'crypto';
+import { hasUsableText } from '@/lib/rag';
+import type { DataTable } from '@/lib/tables';
+import type { ExtractedDocument, ExtractedPage } from './extractors';
+
+export interface StoredCopy {
+  id: string;
+  file_path: string;
+}
+
+export interface ProcessedCopy {
+  attachmentId: string;
+  document: ExtractedDocument;
+}
+
+export function hashContent(bytes: ArrayBuffer | Uint8Array): string {
+  return createHash('sha256').update(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).digest('hex');
+}
+
+/**
+ * A stored file of the user with these bytes, or null
+ */
+export async function findStoredCopy(supabase: any, userId: string, contentHash: string): Promise<StoredCopy | null> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('id, file_path')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .not('file_path', 'is', null)
+    .order('created_at', { ascending: true })
+    .limit(1);
+  if (error) {
+    throw new Error(`Failed to look up the file: ${error.message}`);
+  }
+  return data?.[0] || null;
+}
+
+/**
+ * Whether attachments other than `attachmentId` use the stored object at `filePath`
+ */
+export async function isFileShared(supabase: any, filePath: string, attachmentId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('attachments')
+    .select('id', { count: 'exact', head: true })
+    .eq('file_path', filePath)
+    .neq('id', attachmentId);
+  if (error) {
+    throw new Error(`Failed to check file usage: ${error.message}`);
+  }
+  return (count ?? 0) > 0;
+}
+
+async function loadPages(admin: any, attachmentId: string): Promise<ExtractedPage[]> {
+  const { data, error } = await admin
+    .from('attachment_pages')
+    .select('page_number, content, source, confidence')
+    .eq('attachment_id', attachmentId)
+    .order('page_number', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load pages: ${error.message}`);
+  }
+  return (data || []).map((row: any) => ({
+    page: row.page_number,
+    text: row.content,
+    source: row.source,
+    confidence: row.confidence ?? undefined,
+  }));
+}
+
+async function loadTables(admin: any, attachmentId: string): Promise<DataTable[]> {
+  const { data, error } = await admin
+    .from('attachment_tables')
+    .select('name, row_count, columns, correlations, rows, row_numbers')
+    .eq('attachment_id', attachmentId)
+    .order('sheet_index', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load tables: ${error.message}`);
+  }
+  return (data || []).map((row: any) => ({
+    name: row.name,
+    rowCount: row.row_count,
+    columns: row.columns || [],
+    correlations: row.correlations || [],
+    rows: row.rows || [],
+    rowNumbers: row.row_numbers || [],
+  }));
+}
+
+/**
+ * The extraction of another, already processed attachment of the user with the same
+ * bytes, or null. A copy that needed OCR is only reused when it was read in the same
+ * language (`ocrLanguage`, with `defaultLanguage` standing in for copies that used the
+ * user's setting). Needs the service role client.
+ */
+export async function loadProcessedCopy(admin: any, userId: string, attachmentId: string, contentHash: string, ocrLanguage: string, defaultLanguage: string): Promise<ProcessedCopy | null> {
+  const { data, error } = await admin
+    .from('attachments')
+    .select('id, extracted_text, ocr_language, ocr_confidence')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .neq('id', attachmentId)
+    .eq('quarantine_status', 'clean')
+    .not('extracted_text', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(10);
+  if (error) {
+    throw new Error(`Failed to look up processed copies: ${error.message}`);
+  }
+  const copy = (data || []).find((row: any) =>
+    hasUsableText(row.extracted_text)
+    && (row.ocr_confidence === null || (row.ocr_language || defaultLanguage) === ocrLanguage));
+  if (!copy) return null;
+
+  const [pages, tables] = await Promise.all([loadPages(admin, copy.id), loadTables(admin, copy.id)]);
+  return {
+    attachmentId: copy.id,
+    document: {
+      text: copy.extracted_text,
+      pages: pages.length > 0 ? pages : undefined,
+      tables: tables.length > 0 ? tables : undefined,
+      ocrConfidence: copy.ocr_confidence ?? undefined,
+    },
+  };
+}
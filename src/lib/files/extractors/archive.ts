@@ -0,0 +1,37 @@
+/**
+ * Zip-based formats (PPTX, ODF, EPUB)
+ */
+
+import type JSZip from 'jszip';
+import path from 'path';
+
+export async function openArchive(buffer: Buffer, format: string): Promise<JSZip> {
+  const { default: JSZipLib } = await import('jszip');
+  try {
+    return await JSZipLib.loadAsync(buffer);
+  } catch {
+    throw new Error(`Not a valid ${format} file (could not open the archive)`);
+  }
+}
+
+/**
+ * Text of an entry, or null if the archive doesn't contain it
+ */
+export async function readEntry(zip: JSZip, entryPath: string): Promise<string | null> {
+  const entry = zip.file(entryPath);
+  return entry ? entry.async('string') : null;
+}
+
+/**
+ * Resolves a relationship or manifest target relative to the entry that references it
+ */
+export function resolveEntryPath(fromEntry: string, target: string): string {
+  let clean = target.split('#')[0];
+  try {
+    clean = decodeURIComponent(clean);
+  } catch {
+    // Keep the raw target
+  }
+  if (clean.startsWith('/')) return clean.slice(1);
+  return path.posix.normalize(path.posix.join(path.posix.dirname(fromEntry), clean));
+}
@@ -0,0 +1,65 @@
+/**
+ * EPUB e-books. Documents are read in reading (spine) order and each one starts
+ * with a "## Chapter N: Title" heading.
+ */
+
+import { openArchive, readEntry, resolveEntryPath } from './archive';
+import { attributes, htmlTitle, htmlToText } from './markup';
+import type { FileExtractor } from './types';
+
+interface ManifestItem {
+  href: string;
+  mediaType: string;
+  properties: string;
+}
+
+export const epubExtractor: FileExtractor = {
+  name: 'epub',
+  extensions: ['epub'],
+  mimeTypes: ['application/epub+zip'],
+  async extract({ buffer }) {
+    const zip = await openArchive(buffer, 'EPUB');
+    const container = await readEntry(zip, 'META-INF/container.xml');
+    const rootfile = container?.match(/<rootfile\b[^>]*>/);
+    const packagePath = rootfile ? attributes(rootfile[0])['full-path'] : null;
+    const packageXml = packagePath ? await readEntry(zip, packagePath) : null;
+    if (!packagePath || !packageXml) {
+      throw new Error('Not a valid EPUB file (missing package document)');
+    }
+
+    const manifest = new Map<string, ManifestItem>();
+    for (const [tag] of Array.from(packageXml.matchAll(/<item\b[^>]*>/g))) {
+      const attrs = attributes(tag);
+      if (attrs.id && attrs.href) {
+        manifest.set(attrs.id, {
+          href: resolveEntryPath(packagePath, attrs.href),
+          mediaType: attrs['media-type'] || '',
+          properties: attrs.properties || '',
+        });
+      }
+    }
+
+    const chapters: string[] = [];
+    for (const [tag] of Array.from(packageXml.matchAll(/<itemref\b[^>]*>/g))) {
+      const item = manifest.get(attributes(tag).idref);
+      // The navigation document only repeats the chapter titles
+      if (!item || !item.mediaType.includes('html') || item.properties.split(/\s+/).includes('nav')) continue;
+      const html = await readEntry(zip, item.href);
+      if (!html) continue;
+
+      let text = htmlToText(html);
+      // Covers and separators are images only
+      if (!text) continue;
+      const firstLine = text.split('\n', 1)[0];
+      const heading = firstLine.match(/^#{1,6}\s+(.+)$/);
+      const title = heading ? heading[1] : htmlTitle(html);
+      if (heading) text = text.slice(firstLine.length).trim();
+      chapters.push(`## Chapter ${chapters.length + 1}${title ? `: ${title}` : ''}\n${text}`);
+    }
+
+    if (chapters.length === 0) {
+      throw new Error('The e-book has no readable text');
+    }
+    return chapters.join('\n\n');
+  },
+};
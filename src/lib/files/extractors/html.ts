@@ -0,0 +1,19 @@
+/**
+ * Saved web pages (.html, .htm, .xhtml)
+ */
+
+import { htmlTitle, htmlToText } from './markup';
+import type { FileExtractor } from './types';
+
+export const htmlExtractor: FileExtractor = {
+  name: 'html',
+  extensions: ['html', 'htm', 'xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  async extract({ buffer }) {
+    const html = buffer.toString('utf-8');
+    const text = htmlToText(html);
+    const title = htmlTitle(html);
+    // Pages usually repeat their title as the first heading
+    return title && !text.startsWith('#') ? `# ${title}\n\n${text}` : text;
+  },
+};
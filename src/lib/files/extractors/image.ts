@@ -0,0 +1,24 @@
+/**
+ * Images, read with OCR (./ocr.ts)
+ */
+
+import { recognizeImages } from './ocr';
+import type { FileExtractor } from './types';
+
+export const imageExtractor: FileExtractor = {
+  name: 'image',
+  extensions: ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'tif', 'tiff'],
+  mimeTypes: ['image/'],
+  async extract({ buffer, ocrLanguages }) {
+    try {
+      // OCR can be slow and resource-intensive, wrap in try-catch for graceful failure
+      const [result] = await recognizeImages([buffer], { languages: ocrLanguages });
+      return { text: result.text, ocrConfidence: result.confidence };
+    } catch (error) {
+      console.error('OCR error:', error);
+      // Return informative message if OCR fails
+      // Images without text or unsupported formats will return this
+      return '[Image file - OCR extraction attempted but may be unavailable for this image type]';
+    }
+  },
+};
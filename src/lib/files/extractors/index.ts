@@ -0,0 +1,95 @@
+/**
+ * Text extraction for uploaded files. Runs in the file-processing worker (../worker.ts),
+ * so it must stay Node.js-only.
+ *
+ * Each format family has an extractor (./types.ts); the first one that claims the file's
+ * extension is used, then the first that claims its MIME type. Formats with structure
+ * keep it in the text (slide, chapter and section headings, notebook cells) so chunks
+ * can cite where they came from (src/lib/rag/chunking.ts). Add a format by writing an
+ * extractor and listing it below, or with registerExtractor.
+ */
+
+import { pdfExtractor } from './pdf';
+import { docExtractor, docxExtractor } from './word';
+import { odtExtractor } from './opendocument';
+import { rtfExtractor } from './rtf';
+import { odpExtractor, pptxExtractor } from './slides';
+import { csvExtractor, spreadsheetExtractor } from './spreadsheet';
+import { epubExtractor } from './epub';
+import { htmlExtractor } from './html';
+import { notebookExtractor } from './notebook';
+import { latexExtractor } from './latex';
+import { imageExtractor } from './image';
+import { textExtractor } from './text';
+import type { ExtractedDocument, ExtractionInput, FileExtractor } from './types';
+
+export type { ExtractedDocument, ExtractedPage, ExtractionInput, FileExtractor } from './types';
+
+// Earlier entries win; the catch-all text/* extractor goes last
+const extractors: FileExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  docExtractor,
+  odtExtractor,
+  rtfExtractor,
+  pptxExtractor,
+  odpExtractor,
+  spreadsheetExtractor,
+  csvExtractor,
+  epubExtractor,
+  htmlExtractor,
+  notebookExtractor,
+  latexExtractor,
+  imageExtractor,
+  textExtractor,
+];
+
+/**
+ * Adds an extractor ahead of the built-in ones
+ */
+export function registerExtractor(extractor: FileExtractor): void {
+  extractors.unshift(extractor);
+}
+
+function claimsMimeType(extractor: FileExtractor, mimeType: string): boolean {
+  return extractor.mimeTypes.some(type => (type.endsWith('/') ? mimeType.startsWith(type) : mimeType === type));
+}
+
+function fileExtension(fileName: string): string {
+  return fileName.split('.').pop()?.toLowerCase() || '';
+}
+
+export function findExtractor(fileName: string, mimeType: string): FileExtractor | null {
+  const extension = fileExtension(fileName);
+  const mime = mimeType.split(';')[0].trim().toLowerCase();
+  // Extensions first: browsers often report office formats as application/octet-stream or application/zip
+  return extractors.find(extractor => extractor.extensions.includes(extension))
+    || (mime ? extractors.find(extractor => claimsMimeType(extractor, mime)) : undefined)
+    || null;
+}
+
+type UploadedFile = File | { arrayBuffer: () => Promise<ArrayBuffer>, name: string, type: string };
+
+/**
+ * Extracts a file's text, and for paged formats the text of each page
+ */
+export async function extractFile(file: UploadedFile, options: Pick<ExtractionInput, 'attachmentId' | 'ocrLanguages' | 'onOcrProgress'> = {}): Promise<ExtractedDocument> {
+  const extractor = findExtractor(file.name, file.type || '');
+  // For other file types, return empty string
+  if (!extractor) return { text: '' };
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  console.log('[EXTRACT] Extracting text', { extractor: extractor.name, fileName: file.name, attachmentId: options.attachmentId });
+  const result = await extractor.extract({
+    buffer,
+    fileName: file.name,
+    mimeType: file.type || '',
+    extension: fileExtension(file.name),
+    ...options,
+  });
+  return typeof result === 'string' ? { text: result } : result;
+}
+
+export async function extractTextFromFile(file: UploadedFile, attachmentId?: string): Promise<string> {
+  return (await extractFile(file, { attachmentId })).text;
+}
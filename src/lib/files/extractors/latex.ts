@@ -0,0 +1,101 @@
+/**
+ * LaTeX sources (.tex). Sectioning commands become markdown headings and list items
+ * "- " lines; formatting commands are unwrapped and math is kept as written, which
+ * models read fine.
+ */
+
+import { tidyText } from './markup';
+import type { FileExtractor } from './types';
+
+const SECTION_LEVELS: Record<string, number> = {
+  part: 1, chapter: 1, section: 2, subsection: 3, subsubsection: 4, paragraph: 5,
+};
+
+// Commands replaced by their argument
+const UNWRAPPED = ['textbf', 'textit', 'textsl', 'textsc', 'texttt', 'textrm', 'textsf', 'emph', 'underline', 'mbox', 'footnote', 'url'];
+// Commands dropped with their argument
+const DROPPED = ['label', 'index', 'vspace', 'hspace', 'includegraphics', 'bibliographystyle', 'bibliography', 'pagestyle', 'thispagestyle', 'setlength', 'addcontentsline'];
+// Environments that only affect layout
+const LAYOUT_ENVIRONMENTS = ['document', 'itemize', 'enumerate', 'description', 'center', 'flushleft', 'flushright', 'quote', 'quotation', 'minipage', 'figure', 'table', 'tabular', 'frame'];
+
+function matchingBrace(tex: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < tex.length; i++) {
+    const char = tex[i];
+    if (char === '\\') i++;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Replaces \name{arg} (also \name*[opt]{arg}) using the braced argument, nested braces included
+ */
+function replaceCommands(tex: string, names: string[], replace: (arg: string, name: string) => string): string {
+  const pattern = new RegExp(`\\\\(${names.join('|')})\\*?(?:\\[[^\\]]*\\])?\\s*\\{`, 'g');
+  let result = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tex))) {
+    const open = match.index + match[0].length - 1;
+    const close = matchingBrace(tex, open);
+    if (close < 0) break;
+    result += tex.slice(last, match.index) + replace(tex.slice(open + 1, close), match[1]);
+    last = close + 1;
+    pattern.lastIndex = last;
+  }
+  return result + tex.slice(last);
+}
+
+function argumentOf(tex: string, name: string): string | null {
+  let found: string | null = null;
+  replaceCommands(tex, [name], arg => {
+    found = found ?? arg;
+    return '';
+  });
+  return found;
+}
+
+function latexToText(source: string): string {
+  // Comments run from an unescaped % to the end of the line
+  let tex = source.replace(/(^|[^\\])%.*$/gm, '$1');
+
+  const title = argumentOf(tex, 'title');
+  const body = tex.match(/\\begin\{document\}([\s\S]*?)(\\end\{document\}|$)/);
+  if (body) tex = body[1];
+
+  tex = tex.replace(/\\maketitle\b/g, title ? `\n# ${title.replace(/\\\\/g, ' ')}\n` : '');
+  tex = replaceCommands(tex, Object.keys(SECTION_LEVELS), (arg, name) => `\n${'#'.repeat(SECTION_LEVELS[name])} ${arg.trim()}\n`);
+  tex = replaceCommands(tex, DROPPED, () => '');
+  tex = replaceCommands(tex, ['cite', 'citep', 'citet'], arg => `[${arg}]`);
+  tex = replaceCommands(tex, ['ref', 'eqref', 'autoref', 'cref'], arg => `(${arg})`);
+  // Nested formatting (\textbf{\emph{...}}) takes a few passes
+  for (let pass = 0; pass < 4; pass++) {
+    const unwrapped = replaceCommands(tex, UNWRAPPED, arg => arg);
+    if (unwrapped === tex) break;
+    tex = unwrapped;
+  }
+
+  const environments = LAYOUT_ENVIRONMENTS.join('|');
+  tex = tex
+    .replace(new RegExp(`\\\\(begin|end)\\{(${environments})\\*?\\}(\\{[^}]*\\}|\\[[^\\]]*\\])*`, 'g'), '\n')
+    .replace(/\\begin\{abstract\}/g, '\nAbstract\n')
+    .replace(/\\end\{abstract\}/g, '\n')
+    .replace(/\s*\\item\s*\[([^\]]*)\]\s*/g, '\n- $1 ')
+    .replace(/\s*\\item\b\s*/g, '\n- ')
+    .replace(/\\(hline|centering|noindent|newpage|clearpage|tableofcontents|small|large|Large|bfseries|itshape)\b/g, '')
+    .replace(/\\\\\s*$/gm, '')
+    .replace(/~/g, ' ')
+    .replace(/\\([%&_#$])/g, '$1');
+  return tidyText(tex);
+}
+
+export const latexExtractor: FileExtractor = {
+  name: 'latex',
+  extensions: ['tex', 'latex'],
+  mimeTypes: ['application/x-tex', 'text/x-tex'],
+  async extract({ buffer }) {
+    return latexToText(buffer.toString('utf-8'));
+  },
+};
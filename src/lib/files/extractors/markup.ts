@@ -0,0 +1,83 @@
+/**
+ * XML/HTML helpers shared by the extractors. Office and e-book formats are
+ * machine-written, so regular expressions over their markup are enough here.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', deg: '°', times: '×', divide: '÷',
+  plusmn: '±', le: '≤', ge: '≥', ne: '≠', minus: '−', micro: 'µ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Text content of a markup fragment
+ */
+export function stripTags(markup: string): string {
+  return decodeEntities(markup.replace(/<[^>]*>/g, ''));
+}
+
+/**
+ * Attributes of an opening tag, e.g. attributes('<item id="a" href="b"/>').href === 'b'
+ */
+export function attributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of Array.from(tag.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g))) {
+    attrs[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Trims lines, collapses runs of spaces and keeps at most one blank line in a row.
+ * Drops the " | " left after the last table cell of a row.
+ */
+export function tidyText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim().replace(/\s*\|$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const BLOCK_END = /<\/(p|div|section|article|aside|header|footer|nav|main|blockquote|pre|ul|ol|dl|dd|dt|table|tr|figure|figcaption|caption)\s*>/gi;
+
+/**
+ * Readable text of an HTML/XHTML document. Headings become markdown headings
+ * (the chunker starts a section at each), list items become "- " lines.
+ */
+export function htmlToText(html: string): string {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_, level: string, inner: string) => {
+      const heading = stripTags(inner).replace(/\s+/g, ' ').trim();
+      return heading ? `\n\n${'#'.repeat(Number(level))} ${heading}\n\n` : '\n';
+    })
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/t[dh]\s*>/gi, ' | ')
+    .replace(BLOCK_END, '\n\n');
+  return tidyText(stripTags(body));
+}
+
+/**
+ * The document's <title>, if any
+ */
+export function htmlTitle(html: string): string | null {
+  const match = html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+  const title = match ? stripTags(match[1]).replace(/\s+/g, ' ').trim() : '';
+  return title || null;
+}
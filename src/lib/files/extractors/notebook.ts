@@ -0,0 +1,71 @@
+/**
+ * Jupyter notebooks (.ipynb). Every cell starts with a "--- Cell N (type) ---" line;
+ * code is fenced with the kernel's language and followed by its text output.
+ */
+
+import type { FileExtractor } from './types';
+
+// Long outputs (training logs, dataframes) are cut to this many characters
+const OUTPUT_CHARS = 2000;
+
+function joinSource(source: unknown): string {
+  return (Array.isArray(source) ? source.join('') : typeof source === 'string' ? source : '').trimEnd();
+}
+
+function outputText(output: any): string {
+  switch (output?.output_type) {
+    case 'stream':
+      return joinSource(output.text);
+    case 'execute_result':
+    case 'display_data':
+    case 'pyout':
+      if (output.data?.['text/plain']) return joinSource(output.data['text/plain']);
+      return Object.keys(output.data || {}).some(type => type.startsWith('image/')) ? '[image output]' : '';
+    case 'error':
+    case 'pyerr':
+      return `${output.ename}: ${output.evalue}`;
+    default:
+      return '';
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > OUTPUT_CHARS ? `${text.slice(0, OUTPUT_CHARS)}\n[output truncated]` : text;
+}
+
+export const notebookExtractor: FileExtractor = {
+  name: 'notebook',
+  extensions: ['ipynb'],
+  mimeTypes: ['application/x-ipynb+json'],
+  async extract({ buffer }) {
+    let notebook: any;
+    try {
+      notebook = JSON.parse(buffer.toString('utf-8'));
+    } catch {
+      throw new Error('Not a valid Jupyter notebook (invalid JSON)');
+    }
+    // nbformat 3 keeps cells in worksheets
+    const cells: any[] = notebook?.cells ?? notebook?.worksheets?.[0]?.cells;
+    if (!Array.isArray(cells)) {
+      throw new Error('Not a valid Jupyter notebook (no cells)');
+    }
+    const language = notebook.metadata?.language_info?.name || notebook.metadata?.kernelspec?.language || '';
+
+    return cells
+      .map((cell, i) => {
+        const type = cell.cell_type === 'heading' ? 'markdown' : cell.cell_type || 'raw';
+        let source = joinSource(cell.source ?? cell.input);
+        if (cell.cell_type === 'heading' && source) source = `${'#'.repeat(cell.level || 1)} ${source}`;
+        const parts = [`--- Cell ${i + 1} (${type}) ---`];
+        if (type === 'code') {
+          if (source) parts.push(`\`\`\`${language}\n${source}\n\`\`\``);
+          const outputs = (cell.outputs || []).map(outputText).filter(Boolean).join('\n');
+          if (outputs) parts.push(`Output:\n${truncate(outputs)}`);
+        } else if (source) {
+          parts.push(source);
+        }
+        return parts.join('\n');
+      })
+      .join('\n\n');
+  },
+};
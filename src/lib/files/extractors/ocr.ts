@@ -0,0 +1,137 @@
+/**
+ * OCR with tesseract.js, used for images (./image.ts) and scanned PDF pages (./pdf.ts).
+ *
+ * Language data is read from OCR_DATA_DIR (default ./tessdata). `npm run ocr:languages`
+ * bundles it there for offline servers; a language that's missing is downloaded from
+ * the tesseract.js CDN on first use and kept there.
+ *
+ * Images are upscaled when small and binarized with an adaptive threshold (photos of
+ * worksheets are unevenly lit) before recognition; tesseract deskews them (rotateAuto).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const OCR_DATA_DIR = process.env.OCR_DATA_DIR || path.join(process.cwd(), 'tessdata');
+
+// Text this small is too blurry for tesseract; upscale until the short side reaches it
+const MIN_SHORT_SIDE = 1200;
+const MAX_UPSCALE = 3;
+// Larger images are scaled down (also bounds the threshold's memory use)
+const MAX_LONG_SIDE = 3000;
+// A pixel is ink when it's this much darker than its neighbourhood (Bradley's method)
+const THRESHOLD_RATIO = 0.15;
+
+export interface OcrResult {
+  text: string;
+  // Mean word confidence, 0-100
+  confidence: number;
+}
+
+export interface OcrOptions {
+  // Tesseract languages, e.g. "hin+eng" (see src/lib/files/languages.ts)
+  languages?: string;
+  onProgress?: (done: number, total: number) => void | Promise<void>;
+}
+
+/**
+ * Adaptive threshold: each pixel is compared with the mean of the window around it,
+ * read from an integral image
+ */
+function binarize(pixels: Uint8ClampedArray, width: number, height: number) {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (pixels[i * 4] * 299 + pixels[i * 4 + 1] * 587 + pixels[i * 4 + 2] * 114) / 1000;
+  }
+
+  // Fits in 32 bits: at most MAX_LONG_SIDE² × 255
+  const stride = width + 1;
+  const integral = new Uint32Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(8, Math.floor(Math.max(width, height) / 32));
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half);
+    const y2 = Math.min(height - 1, y + half);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half);
+      const x2 = Math.min(width - 1, x + half);
+      const count = (x2 - x1 + 1) * (y2 - y1 + 1);
+      const sum = integral[(y2 + 1) * stride + x2 + 1] - integral[y1 * stride + x2 + 1]
+        - integral[(y2 + 1) * stride + x1] + integral[y1 * stride + x1];
+      const value = gray[y * width + x] * count < sum * (1 - THRESHOLD_RATIO) ? 0 : 255;
+      const i = (y * width + x) * 4;
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+      pixels[i + 3] = 255;
+    }
+  }
+}
+
+/**
+ * Scaled, black-and-white PNG of the image; the original if it can't be decoded
+ */
+async function preprocessImage(image: Buffer | string): Promise<Buffer | string> {
+  try {
+    const { createCanvas, loadImage } = await import('@napi-rs/canvas');
+    const source = await loadImage(image);
+    let scale = Math.min(MAX_UPSCALE, Math.max(1, MIN_SHORT_SIDE / Math.min(source.width, source.height)));
+    scale = Math.min(scale, MAX_LONG_SIDE / Math.max(source.width, source.height));
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(source, 0, 0, width, height);
+    const imageData = context.getImageData(0, 0, width, height);
+    binarize(imageData.data, width, height);
+    context.putImageData(imageData, 0, 0);
+    return await canvas.encode('png');
+  } catch (error) {
+    console.error('[OCR] Preprocessing failed, using the original image:', error);
+    return image;
+  }
+}
+
+/**
+ * Text and confidence of each image (a buffer or a file path), in order. One
+ * tesseract worker is shared by all images. Throws if OCR is unavailable.
+ */
+export async function recognizeImages(images: Array<Buffer | string>, { languages = 'eng', onProgress }: OcrOptions = {}): Promise<OcrResult[]> {
+  await fs.mkdir(OCR_DATA_DIR, { recursive: true });
+  const { createWorker } = await import('tesseract.js');
+
+  // tesseract reports load errors (e.g. language data that can't be downloaded) only
+  // to errorHandler and then never settles createWorker; without a handler it throws
+  // them outside any promise and takes the process down
+  let reportLoadError: (error: Error) => void = () => {};
+  const loadFailed = new Promise<never>((_, reject) => { reportLoadError = reject; });
+  loadFailed.catch(() => { /* only raced below */ });
+  const worker = await Promise.race([
+    createWorker(languages, undefined, {
+      cachePath: OCR_DATA_DIR,
+      errorHandler: error => reportLoadError(new Error(`OCR unavailable for ${languages}: ${error}`)),
+    }),
+    loadFailed,
+  ]);
+
+  try {
+    const results: OcrResult[] = [];
+    await onProgress?.(0, images.length);
+    for (const image of images) {
+      const { data } = await worker.recognize(await preprocessImage(image), { rotateAuto: true });
+      results.push({ text: data.text || '', confidence: data.confidence ?? 0 });
+      await onProgress?.(results.length, images.length);
+    }
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
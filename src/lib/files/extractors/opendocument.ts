@@ -0,0 +1,42 @@
+/**
+ * OpenDocument text (.odt). Headings keep their outline level as markdown headings.
+ */
+
+import { openArchive, readEntry } from './archive';
+import { attributes, stripTags, tidyText } from './markup';
+import type { FileExtractor } from './types';
+
+/**
+ * Readable text of an ODF content fragment (shared with the .odp extractor)
+ */
+export function odfText(xml: string): string {
+  const text = xml
+    .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, '')
+    .replace(/<text:h\b([^>]*)>([\s\S]*?)<\/text:h>/g, (tag, attrs: string, inner: string) => {
+      const level = Math.min(6, Math.max(1, Number(attributes(attrs)['text:outline-level']) || 1));
+      const heading = stripTags(inner).replace(/\s+/g, ' ').trim();
+      return heading ? `\n${'#'.repeat(level)} ${heading}\n` : '\n';
+    })
+    .replace(/<text:s\b([^>]*)\/>/g, (_, attrs: string) => ' '.repeat(Number(attributes(attrs)['text:c']) || 1))
+    .replace(/<text:tab\b[^>]*\/>/g, '\t')
+    .replace(/<text:line-break\b[^>]*\/>/g, '\n')
+    .replace(/<text:list-item\b[^>]*>/g, '\n- ')
+    .replace(/<\/table:table-cell>/g, ' | ')
+    .replace(/<\/(text:p|table:table-row)>/g, '\n');
+  return tidyText(stripTags(text));
+}
+
+export const odtExtractor: FileExtractor = {
+  name: 'odt',
+  extensions: ['odt'],
+  mimeTypes: ['application/vnd.oasis.opendocument.text'],
+  async extract({ buffer }) {
+    const zip = await openArchive(buffer, 'OpenDocument text');
+    const content = await readEntry(zip, 'content.xml');
+    if (!content) {
+      throw new Error('The document has no content');
+    }
+    const body = content.match(/<office:text\b[\s\S]*<\/office:text>/);
+    return odfText(body ? body[0] : content);
+  },
+};
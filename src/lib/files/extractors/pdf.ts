@@ -0,0 +1,140 @@
+/**
+ * PDFs, parsed in a separate Node process (scripts/pdfWorker.js) so a malformed file
+ * can't take the worker down. Pages without a text layer (scans) are rendered by the
+ * worker and read with OCR; the text keeps a "-- N of M --" marker after each page.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { OcrResult, recognizeImages } from './ocr';
+import type { ExtractedDocument, ExtractedPage, ExtractionInput, FileExtractor } from './types';
+
+const execFileAsync = promisify(execFile);
+
+// Scanned pages read with OCR per file; each takes several seconds and the job's
+// lock expires after 10 minutes
+const MAX_OCR_PAGES = 40;
+
+interface WorkerPage {
+  num: number;
+  text: string;
+  // Rendered PNG, for pages without a text layer
+  image: string | null;
+}
+
+/**
+ * OCR text for the rendered pages, embedded text for the rest
+ */
+async function recognizeScannedPages(pages: WorkerPage[], { attachmentId, ocrLanguages, onOcrProgress }: ExtractionInput): Promise<ExtractedPage[]> {
+  const scanned = pages.filter(page => page.image);
+  let recognized: OcrResult[] = [];
+  if (scanned.length > 0) {
+    console.log('[PROCESS DEBUG] Running OCR on scanned PDF pages', { attachmentId, pages: scanned.length, languages: ocrLanguages });
+    try {
+      recognized = await recognizeImages(scanned.map(page => page.image!), { languages: ocrLanguages, onProgress: onOcrProgress });
+    } catch (error) {
+      console.error('[PROCESS DEBUG] PDF OCR failed:', { error, attachmentId });
+    }
+  }
+
+  return pages.map(page => {
+    const ocr = recognized[scanned.indexOf(page)];
+    return ocr?.text.trim()
+      ? { page: page.num, text: ocr.text.trim(), source: 'ocr' as const, confidence: ocr.confidence }
+      : { page: page.num, text: page.text.trim(), source: 'text' as const };
+  });
+}
+
+// Mean confidence of the OCRed pages, weighted by how much text each contributed
+function ocrConfidence(pages: ExtractedPage[]): number | undefined {
+  const ocrPages = pages.filter(page => page.source === 'ocr');
+  const chars = ocrPages.reduce((sum, page) => sum + page.text.length, 0);
+  if (chars === 0) return undefined;
+  return ocrPages.reduce((sum, page) => sum + (page.confidence ?? 0) * page.text.length, 0) / chars;
+}
+
+// Same layout as pdf-parse's text: each page followed by its marker
+function joinPages(pages: ExtractedPage[]): string {
+  return pages.map(page => `${page.text}\n\n-- ${page.page} of ${pages.length} --`).join('\n\n');
+}
+
+/**
+ * Writes the buffer to a temp directory, spawns scripts/pdfWorker.js using node,
+ * reads its stdout (JSON), OCRs the pages it rendered, cleans up and returns the
+ * extracted text with each page's text.
+ */
+async function extractTextFromPDF(input: ExtractionInput): Promise<ExtractedDocument> {
+  const { buffer, attachmentId, fileName: filename } = input;
+  // The worker writes rendered pages next to the PDF
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pdf-'));
+  const filePath = path.join(workDir, 'input.pdf');
+  // write temp PDF
+  await fs.writeFile(filePath, buffer);
+
+  try {
+    console.log('[PROCESS DEBUG] Spawning pdf worker', { attachmentId, filename, filePath });
+    const workerPath = path.join(process.cwd(), 'scripts', 'pdfWorker.js');
+    const { stdout, stderr } = await execFileAsync('node', [workerPath, filePath, workDir, String(MAX_OCR_PAGES)], {
+      // Increase maxBuffer for large PDFs -> captured stdout
+      maxBuffer: 1024 * 1024 * 30, // 30MB
+    });
+
+    if (stderr && stderr.trim()) {
+      // worker writes JSON error objects to stderr
+      try {
+        const parsedErr = JSON.parse(stderr.trim());
+        const msg = parsedErr?.error || stderr.trim();
+        console.error('[PROCESS DEBUG] pdfWorker stderr JSON', parsedErr);
+        throw new Error(msg);
+      } catch (parseErr) {
+        // fallback to raw stderr
+        console.error('[PROCESS DEBUG] pdfWorker stderr', stderr);
+        throw new Error(stderr.trim());
+      }
+    }
+
+    if (!stdout || !stdout.trim()) {
+      throw new Error('pdfWorker produced no output');
+    }
+
+    const parsed = JSON.parse(stdout);
+    const workerPages: WorkerPage[] = Array.isArray(parsed?.pages) ? parsed.pages : [];
+    const pages = await recognizeScannedPages(workerPages, input);
+    const text = pages.length > 0 ? joinPages(pages) : parsed?.text ?? '';
+    console.log('[PROCESS DEBUG] pdfWorker extracted length', {
+      length: text.length,
+      pages: pages.length,
+      ocrPages: pages.filter(page => page.source === 'ocr').length,
+      attachmentId,
+      filename,
+    });
+    
+    // Validate extraction - throw error if extraction failed or returned minimal content
+    if (!text || typeof text !== 'string') {
+      throw new Error('PDF extraction returned invalid or empty text. The PDF may be corrupted or encrypted.');
+    }
+    
+    if (text.replace(/^-- \d+ of \d+ --$/gm, '').trim().length < 10) {
+      // Very short text likely means extraction failed or the scanned pages couldn't be read
+      throw new Error('PDF extraction returned minimal text (less than 10 characters). The PDF may be encrypted, or its scanned pages could not be read.');
+    }
+    
+    return { text, pages, ocrConfidence: ocrConfidence(pages) };
+  } catch (err: any) {
+    console.error('[PROCESS DEBUG] PDF extraction error:', { error: err?.message ?? String(err) , attachmentId, filename });
+    throw new Error(`Failed to extract text from PDF: ${err?.message ?? String(err)}`);
+  } finally {
+    // cleanup
+    try { await fs.rm(workDir, { recursive: true, force: true }); } catch(e) { /* ignore cleanup errors */ }
+  }
+}
+
+export const pdfExtractor: FileExtractor = {
+  name: 'pdf',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  extract: extractTextFromPDF,
+};
@@ -0,0 +1,88 @@
+/**
+ * Rich Text Format (.rtf). Keeps the text and paragraph breaks and drops
+ * formatting, font tables, pictures and other non-text groups.
+ */
+
+import { tidyText } from './markup';
+import type { FileExtractor } from './types';
+
+// Groups whose content isn't document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'nonshppict', 'shpinst',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'listtable', 'listoverridetable', 'rsidtbl', 'revtbl', 'filetbl', 'xmlnstbl', 'generator',
+  'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'fldinst', 'private', 'pgdsctbl',
+]);
+
+const CONTROL_WORDS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n\n', page: '\n\n', row: '\n', cell: ' | ', tab: '\t',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+  emspace: ' ', enspace: ' ', qmspace: ' ',
+};
+
+const TOKEN = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/gi;
+
+function rtfToText(rtf: string): string {
+  const decoder = new TextDecoder('windows-1252');
+  const stack: { skipping: boolean; unicodeSkip: number }[] = [];
+  let skipping = false;
+  // Fallback characters written after each \uN
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  const out: string[] = [];
+
+  for (const match of Array.from(rtf.matchAll(TOKEN))) {
+    const [, word, arg, hex, symbol, brace, text] = match;
+    if (brace) {
+      pendingSkip = 0;
+      if (brace === '{') {
+        stack.push({ skipping, unicodeSkip });
+      } else {
+        const state = stack.pop();
+        if (state) ({ skipping, unicodeSkip } = state);
+      }
+    } else if (symbol) {
+      pendingSkip = 0;
+      if (symbol === '*') skipping = true;
+      else if (skipping) continue;
+      else if (symbol === '~') out.push(' ');
+      else if (symbol === '_') out.push('-');
+      else if (symbol === '\\' || symbol === '{' || symbol === '}') out.push(symbol);
+      else if (symbol === '\n' || symbol === '\r') out.push('\n');
+    } else if (word) {
+      pendingSkip = 0;
+      if (SKIPPED_DESTINATIONS.has(word)) skipping = true;
+      else if (skipping) continue;
+      else if (word === 'uc') unicodeSkip = Number(arg) || 0;
+      else if (word === 'u') {
+        const code = Number(arg);
+        out.push(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = unicodeSkip;
+      } else if (CONTROL_WORDS[word]) out.push(CONTROL_WORDS[word]);
+    } else if (hex) {
+      if (pendingSkip > 0) pendingSkip--;
+      else if (!skipping) out.push(decoder.decode(new Uint8Array([parseInt(hex, 16)])));
+    } else if (text) {
+      let chars = text;
+      if (pendingSkip > 0) {
+        chars = chars.slice(pendingSkip);
+        pendingSkip = Math.max(0, pendingSkip - text.length);
+      }
+      if (!skipping) out.push(chars);
+    }
+  }
+  return tidyText(out.join(''));
+}
+
+export const rtfExtractor: FileExtractor = {
+  name: 'rtf',
+  extensions: ['rtf'],
+  mimeTypes: ['application/rtf', 'text/rtf'],
+  async extract({ buffer }) {
+    const rtf = buffer.toString('latin1');
+    if (!rtf.startsWith('{\\rtf')) {
+      throw new Error('Not a valid RTF file');
+    }
+    return rtfToText(rtf);
+  },
+};
@@ -0,0 +1,171 @@
+/**
+ * PowerPoint (.pptx) and OpenDocument (.odp) presentations. Each slide starts with a
+ * "## Slide N: Title" heading, so retrieved chunks cite the slide they came from;
+ * speaker notes follow the slide text.
+ */
+
+import type JSZip from 'jszip';
+import { openArchive, readEntry, resolveEntryPath } from './archive';
+import { attributes, stripTags, tidyText } from './markup';
+import { odfText } from './opendocument';
+import type { FileExtractor } from './types';
+
+interface Slide {
+  title: string | null;
+  text: string;
+  notes: string;
+}
+
+function formatSlides(slides: Slide[]): string {
+  return slides
+    .map((slide, i) => {
+      const parts = [`## Slide ${i + 1}${slide.title ? `: ${slide.title}` : ''}`];
+      if (slide.text) parts.push(slide.text);
+      if (slide.notes) parts.push(`Notes: ${slide.notes}`);
+      return parts.join('\n');
+    })
+    .join('\n\n');
+}
+
+// DrawingML paragraphs (<a:p>) of a shape, one per line
+function drawingParagraphs(xml: string): string[] {
+  return Array.from(xml.matchAll(/<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g))
+    .map(match => {
+      const runs = match[1].replace(/<a:br\b[^>]*\/?>/g, '<a:t>\n</a:t>');
+      return Array.from(runs.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>/g))
+        .map(run => stripTags(run[1]))
+        .join('');
+    })
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+function placeholderType(shapeXml: string): string | null {
+  const placeholder = shapeXml.match(/<p:ph\b[^>]*>/);
+  return placeholder ? attributes(placeholder[0]).type || 'body' : null;
+}
+
+function tableText(frameXml: string): string[] {
+  return Array.from(frameXml.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g)).map(row =>
+    Array.from(row[0].matchAll(/<a:tc\b[\s\S]*?<\/a:tc>/g))
+      .map(cell => drawingParagraphs(cell[0]).join(' '))
+      .join(' | ')
+  );
+}
+
+function parsePptxSlide(xml: string): Omit<Slide, 'notes'> {
+  let title: string | null = null;
+  const lines: string[] = [];
+  const shapes = xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>|<p:graphicFrame\b[\s\S]*?<\/p:graphicFrame>/g);
+  for (const [shape] of Array.from(shapes)) {
+    if (shape.startsWith('<p:graphicFrame')) {
+      lines.push(...tableText(shape));
+      continue;
+    }
+    const type = placeholderType(shape);
+    // Footers repeat on every slide
+    if (type === 'sldNum' || type === 'dt' || type === 'ftr') continue;
+    const paragraphs = drawingParagraphs(shape);
+    if (!title && (type === 'title' || type === 'ctrTitle') && paragraphs.length > 0) {
+      title = paragraphs.join(' ');
+    } else {
+      lines.push(...paragraphs);
+    }
+  }
+  return { title, text: lines.join('\n') };
+}
+
+function parsePptxNotes(xml: string): string {
+  return Array.from(xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g))
+    .filter(([shape]) => placeholderType(shape) === 'body')
+    .flatMap(([shape]) => drawingParagraphs(shape))
+    .join(' ');
+}
+
+// Relationship id -> target entry, for the given part
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, { type: string; target: string }>> {
+  const relsPath = `${partPath.replace(/[^/]+$/, '')}_rels/${partPath.split('/').pop()}.rels`;
+  const xml = await readEntry(zip, relsPath);
+  const relationships = new Map<string, { type: string; target: string }>();
+  for (const [tag] of Array.from((xml || '').matchAll(/<Relationship\b[^>]*>/g))) {
+    const attrs = attributes(tag);
+    if (attrs.Id && attrs.Target && attrs.TargetMode !== 'External') {
+      relationships.set(attrs.Id, { type: attrs.Type || '', target: resolveEntryPath(partPath, attrs.Target) });
+    }
+  }
+  return relationships;
+}
+
+// Slide entries in presentation order
+async function pptxSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentation = await readEntry(zip, 'ppt/presentation.xml');
+  if (presentation) {
+    const relationships = await readRelationships(zip, 'ppt/presentation.xml');
+    const ordered = Array.from(presentation.matchAll(/<p:sldId\b[^>]*>/g))
+      .map(([tag]) => relationships.get(attributes(tag)['r:id'])?.target)
+      .filter((target): target is string => !!target && !!zip.file(target));
+    if (ordered.length > 0) return ordered;
+  }
+  const slideNumber = (entry: string) => Number(entry.match(/slide(\d+)\.xml$/)?.[1] ?? 0);
+  return zip.file(/^ppt\/slides\/slide\d+\.xml$/)
+    .map(entry => entry.name)
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+export const pptxExtractor: FileExtractor = {
+  name: 'pptx',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  async extract({ buffer }) {
+    const zip = await openArchive(buffer, 'PowerPoint');
+    const slidePaths = await pptxSlidePaths(zip);
+    if (slidePaths.length === 0) {
+      throw new Error('The presentation has no slides');
+    }
+
+    const slides: Slide[] = [];
+    for (const slidePath of slidePaths) {
+      const slide = parsePptxSlide((await readEntry(zip, slidePath)) || '');
+      let notes = '';
+      const notesRel = Array.from((await readRelationships(zip, slidePath)).values())
+        .find(rel => rel.type.endsWith('/notesSlide'));
+      if (notesRel) {
+        notes = parsePptxNotes((await readEntry(zip, notesRel.target)) || '');
+      }
+      slides.push({ ...slide, notes });
+    }
+    return formatSlides(slides);
+  },
+};
+
+function parseOdpPage(pageXml: string): Slide {
+  let notes = '';
+  const body = pageXml.replace(/<presentation:notes\b[\s\S]*?<\/presentation:notes>/g, match => {
+    notes = odfText(match).replace(/\s*\n\s*/g, ' ');
+    return '';
+  });
+  let title: string | null = null;
+  const withoutTitle = body.replace(/<draw:frame\b[^>]*presentation:class="title"[^>]*>[\s\S]*?<\/draw:frame>/, match => {
+    title = odfText(match).replace(/\s*\n\s*/g, ' ') || null;
+    return '';
+  });
+  return { title, text: odfText(withoutTitle), notes };
+}
+
+export const odpExtractor: FileExtractor = {
+  name: 'odp',
+  extensions: ['odp'],
+  mimeTypes: ['application/vnd.oasis.opendocument.presentation'],
+  async extract({ buffer }) {
+    const zip = await openArchive(buffer, 'OpenDocument presentation');
+    const content = await readEntry(zip, 'content.xml');
+    if (!content) {
+      throw new Error('The presentation has no content');
+    }
+    const slides = Array.from(content.matchAll(/<draw:page\b[\s\S]*?<\/draw:page>/g)).map(([page]) => parseOdpPage(page));
+    if (slides.length === 0) {
+      throw new Error('The presentation has no slides');
+    }
+    return tidyText(formatSlides(slides));
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Spreadsheets (.xlsx, .xls, .ods) and delimited text (.csv, .tsv). Each sheet is
+ * parsed into a typed table (src/lib/tables); the text describes it under a
+ * "Sheet: name" line with its column schema, statistics and a sample of rows.
+ */
+
+import { DataTable, describeTable, tableFromGrid } from '@/lib/tables';
+import type { ExtractedDocument, FileExtractor } from './types';
+
+async function readWorkbook(data: Buffer | string): Promise<ExtractedDocument> {
+  const XLSX = await import('xlsx');
+  const workbook = typeof data === 'string'
+    ? XLSX.read(data, { type: 'string', cellDates: true })
+    : XLSX.read(data, { type: 'buffer', cellDates: true });
+
+  const tables: DataTable[] = [];
+  const parts: string[] = [];
+  workbook.SheetNames.forEach(sheetName => {
+    const sheet = workbook.Sheets[sheetName];
+    const origin = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s : { r: 0, c: 0 };
+    const grid = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: null, blankrows: true });
+    const table = tableFromGrid(sheetName, grid, { row: origin.r, col: origin.c });
+    if (table) {
+      tables.push(table);
+      parts.push(describeTable(table));
+    } else {
+      parts.push(`Sheet: ${sheetName}\n(empty)`);
+    }
+  });
+
+  return { text: parts.join('\n\n'), tables };
+}
+
+export const spreadsheetExtractor: FileExtractor = {
+  name: 'spreadsheet',
+  extensions: ['xlsx', 'xls', 'ods'],
+  mimeTypes: [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-excel',
+    'application/vnd.oasis.opendocument.spreadsheet',
+  ],
+  async extract({ buffer }) {
+    try {
+      return await readWorkbook(buffer);
+    } catch (error) {
+      console.error('Excel extraction error:', error);
+      throw new Error('Failed to extract text from Excel');
+    }
+  },
+};
+
+export const csvExtractor: FileExtractor = {
+  name: 'csv',
+  extensions: ['csv', 'tsv'],
+  mimeTypes: ['text/csv', 'text/tab-separated-values'],
+  async extract({ buffer }) {
+    try {
+      // Read as text so UTF-8 survives; the delimiter is detected
+      return await readWorkbook(buffer.toString('utf-8').replace(/^\uFEFF/, ''));
+    } catch (error) {
+      console.error('CSV extraction error:', error);
+      throw new Error('Failed to read the CSV file');
+    }
+  },
+};
@@ -0,0 +1,19 @@
+/**
+ * Plain text (.txt, .md, .json and any other text/* type)
+ */
+
+import type { FileExtractor } from './types';
+
+export const textExtractor: FileExtractor = {
+  name: 'text',
+  extensions: ['txt', 'md', 'json'],
+  mimeTypes: ['text/'],
+  async extract({ buffer }) {
+    try {
+      return buffer.toString('utf-8');
+    } catch (error) {
+      console.error('Text extraction error:', error);
+      return '';
+    }
+  },
+};
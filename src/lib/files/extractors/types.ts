@@ -0,0 +1,46 @@
+import type { DataTable } from '@/lib/tables';
+
+export interface ExtractionInput {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  // Lowercase, without the dot
+  extension: string;
+  attachmentId?: string;
+  // Tesseract languages for OCR, e.g. "hin+eng" (default English)
+  ocrLanguages?: string;
+  // Called as scanned pages are recognised (OCR is slow)
+  onOcrProgress?: (done: number, total: number) => void | Promise<void>;
+}
+
+export interface ExtractedPage {
+  page: number;
+  text: string;
+  // 'ocr' when the page had no text layer and was recognised from its image
+  source: 'text' | 'ocr';
+  // OCR confidence, 0-100
+  confidence?: number;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  // Paged formats (PDF) also return the text of each page
+  pages?: ExtractedPage[];
+  // Mean OCR confidence (0-100) when some of the text was recognised from images
+  ocrConfidence?: number;
+  // Spreadsheets and CSV files also return each sheet as a typed table
+  tables?: DataTable[];
+}
+
+/**
+ * Turns one family of file formats into plain text. Extractors throw when a file
+ * can't be read; the job then fails with that message.
+ */
+export interface FileExtractor {
+  // Shown in logs
+  name: string;
+  extensions: string[];
+  // Exact MIME types, or prefixes ending in "/" (e.g. "image/")
+  mimeTypes: string[];
+  extract(input: ExtractionInput): Promise<string | ExtractedDocument>;
+}
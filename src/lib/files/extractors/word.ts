@@ -0,0 +1,32 @@
+/**
+ * Word documents (.docx; legacy .doc can't be read)
+ */
+
+import type { FileExtractor } from './types';
+
+export const docxExtractor: FileExtractor = {
+  name: 'docx',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  async extract({ buffer }) {
+    try {
+      const mammoth = await import('mammoth');
+      const result = await mammoth.extractRawText({ buffer });
+      return result.value || '';
+    } catch (error) {
+      console.error('DOCX extraction error:', error);
+      throw new Error('Failed to extract text from DOCX');
+    }
+  },
+};
+
+export const docExtractor: FileExtractor = {
+  name: 'doc',
+  extensions: ['doc'],
+  mimeTypes: ['application/msword'],
+  async extract() {
+    // DOC format is harder to parse, you might want to use a different library
+    // or convert to DOCX first
+    return '[DOC file detected. Please convert to DOCX for better text extraction.]';
+  },
+};
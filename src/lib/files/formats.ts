@@ -0,0 +1,56 @@
+/**
+ * File formats accepted for upload, shared by the upload route (./validation.ts)
+ * and the file picker in chat. Each format names the signature its content must
+ * start with and a size limit; the plan's limit (maxFileSizeMb) applies as well.
+ */
+
+// What the first bytes of a file identify it as (see ./validation.ts)
+export type ContentSignature = 'pdf' | 'png' | 'jpeg' | 'gif' | 'bmp' | 'webp' | 'tiff' | 'zip' | 'ole' | 'rtf' | 'text';
+
+export interface FileFormat {
+  label: string;
+  extensions: string[];
+  signature: ContentSignature;
+  // Stored as the file's type instead of the one the browser reported
+  mimeType: string;
+  maxSizeMb: number;
+}
+
+export const FILE_FORMATS: FileFormat[] = [
+  { label: 'PDF', extensions: ['pdf'], signature: 'pdf', mimeType: 'application/pdf', maxSizeMb: 30 },
+  { label: 'Word', extensions: ['docx'], signature: 'zip', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', maxSizeMb: 20 },
+  { label: 'Word', extensions: ['doc'], signature: 'ole', mimeType: 'application/msword', maxSizeMb: 20 },
+  { label: 'OpenDocument', extensions: ['odt'], signature: 'zip', mimeType: 'application/vnd.oasis.opendocument.text', maxSizeMb: 20 },
+  { label: 'RTF', extensions: ['rtf'], signature: 'rtf', mimeType: 'application/rtf', maxSizeMb: 10 },
+  { label: 'PowerPoint', extensions: ['pptx'], signature: 'zip', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', maxSizeMb: 30 },
+  { label: 'OpenDocument', extensions: ['odp'], signature: 'zip', mimeType: 'application/vnd.oasis.opendocument.presentation', maxSizeMb: 30 },
+  { label: 'Excel', extensions: ['xlsx'], signature: 'zip', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', maxSizeMb: 20 },
+  { label: 'Excel', extensions: ['xls'], signature: 'ole', mimeType: 'application/vnd.ms-excel', maxSizeMb: 20 },
+  { label: 'OpenDocument', extensions: ['ods'], signature: 'zip', mimeType: 'application/vnd.oasis.opendocument.spreadsheet', maxSizeMb: 20 },
+  { label: 'EPUB', extensions: ['epub'], signature: 'zip', mimeType: 'application/epub+zip', maxSizeMb: 30 },
+  { label: 'PNG', extensions: ['png'], signature: 'png', mimeType: 'image/png', maxSizeMb: 15 },
+  { label: 'JPEG', extensions: ['jpg', 'jpeg'], signature: 'jpeg', mimeType: 'image/jpeg', maxSizeMb: 15 },
+  { label: 'GIF', extensions: ['gif'], signature: 'gif', mimeType: 'image/gif', maxSizeMb: 10 },
+  { label: 'BMP', extensions: ['bmp'], signature: 'bmp', mimeType: 'image/bmp', maxSizeMb: 15 },
+  { label: 'WebP', extensions: ['webp'], signature: 'webp', mimeType: 'image/webp', maxSizeMb: 15 },
+  { label: 'TIFF', extensions: ['tif', 'tiff'], signature: 'tiff', mimeType: 'image/tiff', maxSizeMb: 30 },
+  { label: 'CSV', extensions: ['csv'], signature: 'text', mimeType: 'text/csv', maxSizeMb: 10 },
+  { label: 'TSV', extensions: ['tsv'], signature: 'text', mimeType: 'text/tab-separated-values', maxSizeMb: 10 },
+  { label: 'HTML', extensions: ['html', 'htm', 'xhtml'], signature: 'text', mimeType: 'text/html', maxSizeMb: 5 },
+  { label: 'Notebook', extensions: ['ipynb'], signature: 'text', mimeType: 'application/x-ipynb+json', maxSizeMb: 10 },
+  { label: 'LaTeX', extensions: ['tex', 'latex'], signature: 'text', mimeType: 'application/x-tex', maxSizeMb: 5 },
+  { label: 'Text', extensions: ['txt', 'md'], signature: 'text', mimeType: 'text/plain', maxSizeMb: 5 },
+  { label: 'JSON', extensions: ['json'], signature: 'text', mimeType: 'application/json', maxSizeMb: 5 },
+];
+
+// For the file picker's `accept`
+export const UPLOAD_ACCEPT = FILE_FORMATS.flatMap(format => format.extensions.map(ext => `.${ext}`)).join(',');
+
+export function fileExtension(fileName: string): string {
+  return fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+}
+
+export function findFileFormat(fileName: string): FileFormat | null {
+  const extension = fileExtension(fileName);
+  return FILE_FORMATS.find(format => format.extensions.includes(extension)) || null;
+}
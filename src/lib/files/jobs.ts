@@ -0,0 +1,303 @@
+/**
+ * File-processing jobs
+ *
+ * Uploading a file queues a job (enqueueFileProcessing); the worker (./worker.ts)
+ * claims due jobs and runs them (runFileJob): download, scan for malware
+ * (./scanners; infected files are quarantined and go no further), extract text
+ * (OCR for scanned PDF pages), store per-page text (./pages.ts) and spreadsheet
+ * tables (src/lib/tables), index for retrieval (src/lib/rag), then save the text on
+ * the attachment. A file identical to one the user already had processed reuses
+ * that extraction and index instead (./dedup.ts). A file that can't be read fails
+ * right away; other errors are retried after a delay until max_attempts. Failed
+ * jobs keep the reason in `error`.
+ * See migrations/add_file_processing_jobs.sql.
+ */
+
+import { copyAttachmentIndex, indexAttachment, hasUsableText } from '@/lib/rag';
+import { saveAttachmentTables } from '@/lib/tables';
+import { ExtractedDocument, extractFile } from './extractors';
+import { saveAttachmentPages } from './pages';
+import { hashContent, loadProcessedCopy } from './dedup';
+import { DEFAULT_OCR_LANGUAGE, toTesseractLanguages } from './languages';
+import { getFileScanner } from './scanners';
+import { FileJobStage, FileProcessingJob, isJobSettled, quarantineError } from './status';
+
+export { isJobSettled } from './status';
+export type { FileJobStage, FileJobStatus, FileProcessingJob } from './status';
+
+// Delay before each retry (the last one is reused)
+const RETRY_DELAYS_SECONDS = [10, 60, 300];
+
+const STAGE_PROGRESS: Record<FileJobStage, number> = {
+  downloading: 10,
+  scanning: 20,
+  extracting: 30,
+  // Advances with each recognised page, up to indexing
+  ocr: 35,
+  indexing: 70,
+};
+
+/**
+ * Queues a file for processing (again, if it was processed before)
+ */
+export async function enqueueFileProcessing(supabase: any, attachmentId: string): Promise<FileProcessingJob> {
+  const { data, error } = await supabase.rpc('enqueue_file_processing_job', { p_attachment_id: attachmentId });
+  if (error) {
+    throw new Error(`Failed to queue file processing: ${error.message}`);
+  }
+  const job = Array.isArray(data) ? data[0] : data;
+  if (!job) {
+    throw new Error('Failed to queue file processing');
+  }
+  return job;
+}
+
+export async function getFileJobs(supabase: any, userId: string, attachmentIds: string[]): Promise<FileProcessingJob[]> {
+  if (attachmentIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('file_processing_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .in('attachment_id', attachmentIds);
+  if (error) {
+    throw new Error(`Failed to load file jobs: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Waits until the jobs of the given files are done or failed, up to `timeoutMs`.
+ * Files without a job (uploaded before the queue existed) count as settled.
+ * Returns the latest job of each file, by attachment id.
+ */
+export async function waitForFileJobs(supabase: any, userId: string, attachmentIds: string[], timeoutMs: number, intervalMs = 1000): Promise<Map<string, FileProcessingJob>> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const jobs = new Map((await getFileJobs(supabase, userId, attachmentIds)).map(job => [job.attachment_id, job]));
+    const pending = Array.from(jobs.values()).filter(job => !isJobSettled(job));
+    if (pending.length === 0 || Date.now() + intervalMs > deadline) return jobs;
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Next due job for this worker, or null when the queue is empty. Needs the service role client.
+ */
+export async function claimFileJob(admin: any, workerId: string): Promise<FileProcessingJob | null> {
+  const { data, error } = await admin.rpc('claim_file_processing_job', { p_worker_id: workerId });
+  if (error) {
+    throw new Error(`Failed to claim file job: ${error.message}`);
+  }
+  return (Array.isArray(data) ? data[0] : data) || null;
+}
+
+async function updateJob(admin: any, job: FileProcessingJob, changes: Record<string, any>) {
+  const { error } = await admin
+    .from('file_processing_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', job.id);
+  if (error) {
+    console.error('[FILE JOBS] Failed to update job', job.id, error.message);
+  }
+}
+
+async function setStage(admin: any, job: FileProcessingJob, stage: FileJobStage) {
+  await updateJob(admin, job, { stage, progress: STAGE_PROGRESS[stage] });
+}
+
+/**
+ * The user's language setting, used to read files uploaded without a language
+ */
+async function userLanguage(admin: any, userId: string): Promise<string> {
+  const { data: settings } = await admin
+    .from('user_settings')
+    .select('language')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return settings?.language || DEFAULT_OCR_LANGUAGE;
+}
+
+/**
+ * Scans a file for malware and records the verdict on the attachment.
+ * Returns the reason when the file was quarantined.
+ */
+async function scanFile(admin: any, job: FileProcessingJob, fileName: string, arrayBuffer: ArrayBuffer): Promise<string | null> {
+  await setStage(admin, job, 'scanning');
+  const scanner = getFileScanner();
+  const result = await scanner.scan(Buffer.from(arrayBuffer), fileName);
+  const { error } = await admin
+    .from('attachments')
+    .update({
+      quarantine_status: result.infected ? 'quarantined' : 'clean',
+      quarantine_reason: result.infected ? result.signature || 'Malware detected' : null,
+      scanned_at: new Date().toISOString(),
+      scanned_by: scanner.name,
+    })
+    .eq('id', job.attachment_id);
+  if (error) {
+    throw new Error(`Failed to save scan result: ${error.message}`);
+  }
+  if (!result.infected) return null;
+  console.warn('[FILE JOBS] Quarantined', job.attachment_id, { scanner: scanner.name, signature: result.signature });
+  return quarantineError(result.signature);
+}
+
+/**
+ * Downloads, scans and extracts the file. `extracted` is null when it was quarantined.
+ */
+async function extractStoredFile(admin: any, job: FileProcessingJob, attachment: any, ocrLanguage: string): Promise<{ extracted: ExtractedDocument | null; unreadable: string | null }> {
+  await setStage(admin, job, 'downloading');
+  const { data: fileData, error: downloadError } = await admin.storage
+    .from('chat-files')
+    .download(attachment.file_path);
+  if (downloadError || !fileData) {
+    throw new Error(`Failed to download file from storage${downloadError?.message ? `: ${downloadError.message}` : ''}`);
+  }
+  const arrayBuffer = await fileData.arrayBuffer();
+  if (!attachment.content_hash) {
+    // Uploaded before hashing: lets later identical uploads reuse this one
+    await admin
+      .from('attachments')
+      .update({ content_hash: hashContent(arrayBuffer) })
+      .eq('id', job.attachment_id);
+  }
+
+  const quarantined = await scanFile(admin, job, attachment.file_name, arrayBuffer);
+  if (quarantined) return { extracted: null, unreadable: quarantined };
+
+  await setStage(admin, job, 'extracting');
+  try {
+    const extracted = await extractFile({
+      arrayBuffer: async () => arrayBuffer,
+      name: attachment.file_name,
+      type: attachment.file_type || 'application/octet-stream',
+    }, {
+      attachmentId: job.attachment_id,
+      ocrLanguages: toTesseractLanguages(ocrLanguage),
+      onOcrProgress: async (done, total) => {
+        const span = STAGE_PROGRESS.indexing - STAGE_PROGRESS.ocr;
+        await updateJob(admin, job, { stage: 'ocr', progress: STAGE_PROGRESS.ocr + Math.floor((span * done) / total) });
+      },
+    });
+    return { extracted, unreadable: null };
+  } catch (extractionError) {
+    const unreadable = extractionError instanceof Error ? extractionError.message : 'Unknown error';
+    // Chat tells the model the file couldn't be read
+    return { extracted: { text: `[File processing failed: ${unreadable}]` }, unreadable };
+  }
+}
+
+/**
+ * Returns the reason when the file can't be read (not worth retrying);
+ * throws on errors that may go away (storage, database)
+ */
+async function processFile(admin: any, job: FileProcessingJob): Promise<string | null> {
+  const { data: attachment, error: attachmentError } = await admin
+    .from('attachments')
+    .select('file_path, file_name, file_type, ocr_language, content_hash, quarantine_status, quarantine_reason')
+    .eq('id', job.attachment_id)
+    .single();
+  if (attachmentError || !attachment) {
+    throw new Error('Attachment not found');
+  }
+  // Quarantined files are never read (e.g. when queued again)
+  if (attachment.quarantine_status === 'quarantined') {
+    return quarantineError(attachment.quarantine_reason);
+  }
+
+  // The language chosen for this upload, else the user's setting
+  const defaultLanguage = await userLanguage(admin, job.user_id);
+  const ocrLanguage = attachment.ocr_language || defaultLanguage;
+
+  // An identical file the user uploaded before is not extracted again
+  const copy = attachment.content_hash
+    ? await loadProcessedCopy(admin, job.user_id, job.attachment_id, attachment.content_hash, ocrLanguage, defaultLanguage)
+    : null;
+  if (copy) {
+    // Same bytes as a file that passed the malware scan
+    await admin
+      .from('attachments')
+      .update({ quarantine_status: 'clean', scanned_at: new Date().toISOString() })
+      .eq('id', job.attachment_id);
+  }
+  const { extracted, unreadable } = copy
+    ? { extracted: copy.document, unreadable: null }
+    : await extractStoredFile(admin, job, attachment, ocrLanguage);
+  if (!extracted) return unreadable;
+  const extractedText = extracted.text;
+
+  if (extracted.pages && extracted.pages.length > 0) {
+    await saveAttachmentPages(admin, job.user_id, job.attachment_id, extracted.pages);
+  }
+  if (extracted.tables && extracted.tables.length > 0) {
+    await saveAttachmentTables(admin, job.user_id, job.attachment_id, extracted.tables);
+  }
+
+  // Indexed before the text is saved: chat treats an attachment with text as searchable
+  if (hasUsableText(extractedText)) {
+    await setStage(admin, job, 'indexing');
+    try {
+      const copied = copy ? await copyAttachmentIndex(admin, job.user_id, copy.attachmentId, job.attachment_id) : 0;
+      if (copied === 0) {
+        await indexAttachment(admin, job.user_id, job.attachment_id, extractedText);
+      }
+    } catch (indexError) {
+      // Chat indexes it on first use instead
+      console.error('[FILE JOBS] Indexing failed:', { error: indexError, attachmentId: job.attachment_id });
+    }
+  }
+
+  const { error: updateError } = await admin
+    .from('attachments')
+    .update({ extracted_text: extractedText, ocr_confidence: extracted.ocrConfidence ?? null })
+    .eq('id', job.attachment_id);
+  if (updateError) {
+    throw new Error(`Failed to save extracted text: ${updateError.message}`);
+  }
+  console.log('[FILE JOBS] Processed', job.attachment_id, {
+    textLength: extractedText.length,
+    ocrConfidence: extracted.ocrConfidence,
+    reusedFrom: copy?.attachmentId,
+    attempt: job.attempts,
+  });
+  return unreadable;
+}
+
+/**
+ * Runs a claimed job and records the outcome (done, retry later, or failed)
+ */
+export async function runFileJob(admin: any, job: FileProcessingJob): Promise<void> {
+  try {
+    // A worker that stopped mid-job already used up an attempt
+    if (job.attempts > job.max_attempts) {
+      throw new Error('Processing did not finish in time');
+    }
+    const unreadable = await processFile(admin, job);
+    await updateJob(admin, job, {
+      status: unreadable ? 'failed' : 'done', stage: null, progress: 100, error: unreadable,
+      locked_by: null, locked_at: null, finished_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[FILE JOBS] Job', job.id, 'attempt', job.attempts, 'failed:', reason);
+
+    if (job.attempts < job.max_attempts) {
+      const delay = RETRY_DELAYS_SECONDS[Math.min(job.attempts - 1, RETRY_DELAYS_SECONDS.length - 1)];
+      await updateJob(admin, job, {
+        status: 'queued', stage: null, progress: 0, error: reason,
+        locked_by: null, locked_at: null, run_after: new Date(Date.now() + delay * 1000).toISOString(),
+      });
+      return;
+    }
+
+    // Out of attempts: chat tells the model the file couldn't be read
+    await admin
+      .from('attachments')
+      .update({ extracted_text: `[File processing failed: ${reason}]` })
+      .eq('id', job.attachment_id);
+    await updateJob(admin, job, {
+      status: 'failed', stage: null, error: reason,
+      locked_by: null, locked_at: null, finished_at: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Languages OCR can read, shared by the settings and chat UI and the file worker.
+ * `code` is the app's language code (user_settings.language, attachments.ocr_language),
+ * `tesseract` the matching traineddata file (see scripts/fetchOcrLanguages.js).
+ */
+
+export interface OcrLanguage {
+  code: string;
+  label: string;
+  tesseract: string;
+}
+
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'en', label: 'English', tesseract: 'eng' },
+  { code: 'hi', label: 'Hindi', tesseract: 'hin' },
+  { code: 'bn', label: 'Bengali', tesseract: 'ben' },
+  { code: 'ta', label: 'Tamil', tesseract: 'tam' },
+  { code: 'te', label: 'Telugu', tesseract: 'tel' },
+  { code: 'mr', label: 'Marathi', tesseract: 'mar' },
+  { code: 'gu', label: 'Gujarati', tesseract: 'guj' },
+  { code: 'kn', label: 'Kannada', tesseract: 'kan' },
+  { code: 'ml', label: 'Malayalam', tesseract: 'mal' },
+  { code: 'pa', label: 'Punjabi', tesseract: 'pan' },
+  { code: 'ur', label: 'Urdu', tesseract: 'urd' },
+  { code: 'fr', label: 'French', tesseract: 'fra' },
+  { code: 'es', label: 'Spanish', tesseract: 'spa' },
+  { code: 'de', label: 'German', tesseract: 'deu' },
+  { code: 'pt', label: 'Portuguese', tesseract: 'por' },
+  { code: 'it', label: 'Italian', tesseract: 'ita' },
+  { code: 'ar', label: 'Arabic', tesseract: 'ara' },
+  { code: 'ru', label: 'Russian', tesseract: 'rus' },
+  { code: 'zh', label: 'Chinese (Simplified)', tesseract: 'chi_sim' },
+  { code: 'ja', label: 'Japanese', tesseract: 'jpn' },
+  { code: 'ko', label: 'Korean', tesseract: 'kor' },
+];
+
+export const DEFAULT_OCR_LANGUAGE = 'en';
+
+export function isOcrLanguage(code: unknown): code is string {
+  return typeof code === 'string' && OCR_LANGUAGES.some(language => language.code === code);
+}
+
+/**
+ * Tesseract language string for an app language code, e.g. "hin+eng". English is
+ * always included: worksheets in other languages usually mix in English terms and digits.
+ */
+export function toTesseractLanguages(code: string | null | undefined): string {
+  const language = OCR_LANGUAGES.find(l => l.code === code);
+  return !language || language.tesseract === 'eng' ? 'eng' : `${language.tesseract}+eng`;
+}
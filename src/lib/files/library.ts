@@ -0,0 +1,282 @@
+/**
+ * The user's file library ("My Files")
+ *
+ * An upload is linked to the message it was sent with (attachments.message_id).
+ * Sending it again from the library, in any chat, links it to that message too
+ * (message_attachments) instead of uploading a copy. Uploads that were never sent
+ * are deleted after ORPHAN_MAX_AGE_HOURS by the file worker (deleteOrphanedUploads).
+ * See migrations/add_message_attachments.sql.
+ */
+
+import { hasUsableText } from '@/lib/rag';
+import { isFileShared } from './dedup';
+import { signFileUrls } from './urls';
+import type { FileJobStatus } from './status';
+import type { LibraryFile, LibraryFileDetails } from './types';
+
+export type { LibraryFile, LibraryFileDetails } from './types';
+
+export const ORPHAN_MAX_AGE_HOURS = 24;
+
+const LIBRARY_COLUMNS = 'id, message_id, file_name, file_path, file_type, file_size, page_count, created_at';
+const PREVIEW_CHARS = 1500;
+const ORPHAN_BATCH_SIZE = 100;
+const MAX_PAGE_SIZE = 100;
+
+export interface ListFilesOptions {
+  // Matches the file name or its text
+  query?: string;
+  limit?: number;
+  offset?: number;
+}
+
+async function linkedAttachmentIds(supabase: any, attachmentIds: string[]): Promise<Set<string>> {
+  if (attachmentIds.length === 0) return new Set();
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .select('attachment_id')
+    .in('attachment_id', attachmentIds);
+  if (error) {
+    throw new Error(`Failed to load file links: ${error.message}`);
+  }
+  return new Set((data || []).map((row: any) => row.attachment_id));
+}
+
+async function jobStatuses(supabase: any, attachmentIds: string[]): Promise<Map<string, FileJobStatus>> {
+  if (attachmentIds.length === 0) return new Map();
+  const { data } = await supabase
+    .from('file_processing_jobs')
+    .select('attachment_id, status')
+    .in('attachment_id', attachmentIds);
+  return new Map((data || []).map((row: any) => [row.attachment_id, row.status]));
+}
+
+async function toLibraryFiles(supabase: any, rows: any[]): Promise<LibraryFile[]> {
+  const ids = rows.map(row => row.id);
+  const [links, statuses, urls] = await Promise.all([
+    linkedAttachmentIds(supabase, ids),
+    jobStatuses(supabase, ids),
+    signFileUrls(supabase, rows.map(row => row.file_path)),
+  ]);
+  return rows.map(row => ({
+    id: row.id,
+    filename: row.file_name,
+    file_type: row.file_type || 'application/octet-stream',
+    file_size: row.file_size || 0,
+    url: urls.get(row.file_path) || '',
+    created_at: row.created_at,
+    page_count: row.page_count ?? null,
+    linked: !!row.message_id || links.has(row.id),
+    status: statuses.get(row.id) ?? null,
+  }));
+}
+
+/**
+ * The user's files, newest first
+ */
+export async function listUserFiles(supabase: any, userId: string, { query, limit = 50, offset = 0 }: ListFilesOptions = {}): Promise<LibraryFile[]> {
+  let request = supabase
+    .from('attachments')
+    .select(LIBRARY_COLUMNS)
+    .eq('user_id', userId)
+    .neq('quarantine_status', 'quarantined')
+    .order('created_at', { ascending: false })
+    .range(offset, offset + Math.min(limit, MAX_PAGE_SIZE) - 1);
+
+  // Characters with a meaning in PostgREST filters are dropped
+  const term = (query || '').replace(/[%_,()*\\]/g, ' ').trim();
+  if (term) {
+    request = request.or(`file_name.ilike.%${term}%,extracted_text.ilike.%${term}%`);
+  }
+
+  const { data, error } = await request;
+  if (error) {
+    throw new Error(`Failed to list files: ${error.message}`);
+  }
+  return toLibraryFiles(supabase, data || []);
+}
+
+export async function getUserFile(supabase: any, userId: string, attachmentId: string): Promise<LibraryFileDetails | null> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select(`${LIBRARY_COLUMNS}, extracted_text`)
+    .eq('id', attachmentId)
+    .eq('user_id', userId)
+    .neq('quarantine_status', 'quarantined')
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load file: ${error.message}`);
+  }
+  if (!data) return null;
+  const [file] = await toLibraryFiles(supabase, [data]);
+  return { ...file, preview: (data.extracted_text || '').slice(0, PREVIEW_CHARS) };
+}
+
+/**
+ * The text extracted from one of the user's uploads, or null while it is being
+ * processed, or when it had no readable text or was quarantined
+ */
+export async function getExtractedText(supabase: any, userId: string, attachmentId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('id, extracted_text')
+    .eq('id', attachmentId)
+    .eq('user_id', userId)
+    .neq('quarantine_status', 'quarantined')
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load file: ${error.message}`);
+  }
+  if (!data) return null;
+  const status = (await jobStatuses(supabase, [attachmentId])).get(attachmentId);
+  // Files uploaded before the job queue existed have no job
+  if (status && status !== 'done') return null;
+  return hasUsableText(data.extracted_text) ? data.extracted_text : null;
+}
+
+/**
+ * Renames a file; the original extension is kept so the file is still read as the same format
+ */
+export async function renameUserFile(supabase: any, userId: string, attachmentId: string, name: string): Promise<LibraryFile | null> {
+  const { data: current } = await supabase
+    .from('attachments')
+    .select('file_name')
+    .eq('id', attachmentId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!current) return null;
+
+  const extension = current.file_name.includes('.') ? current.file_name.slice(current.file_name.lastIndexOf('.')) : '';
+  let fileName = name.trim();
+  if (extension && !fileName.toLowerCase().endsWith(extension.toLowerCase())) {
+    fileName += extension;
+  }
+  const { data, error } = await supabase
+    .from('attachments')
+    .update({ file_name: fileName })
+    .eq('id', attachmentId)
+    .eq('user_id', userId)
+    .select(LIBRARY_COLUMNS)
+    .single();
+  if (error) {
+    throw new Error(`Failed to rename file: ${error.message}`);
+  }
+  const [file] = await toLibraryFiles(supabase, [data]);
+  return file;
+}
+
+/**
+ * Files sent with the given messages, as `columns` of attachments plus the id of the
+ * message they were sent with (a file sent more than once appears once per message).
+ * Quarantined files are left out.
+ */
+export async function loadMessageAttachments<T = any>(supabase: any, userId: string, messageIds: string[], columns: string): Promise<Array<T & { message_id: string }>> {
+  if (messageIds.length === 0) return [];
+  const columnList = columns.split(',').map(column => column.trim()).filter(column => column !== 'message_id');
+  const [uploaded, reused] = await Promise.all([
+    supabase
+      .from('attachments')
+      .select(['message_id', ...columnList].join(', '))
+      .eq('user_id', userId)
+      .neq('quarantine_status', 'quarantined')
+      .in('message_id', messageIds),
+    supabase
+      .from('message_attachments')
+      .select(`message_id, attachments!inner(${columnList.join(', ')})`)
+      .eq('user_id', userId)
+      .neq('attachments.quarantine_status', 'quarantined')
+      .in('message_id', messageIds),
+  ]);
+  if (uploaded.error) {
+    throw new Error(`Failed to load attachments: ${uploaded.error.message}`);
+  }
+  if (reused.error) {
+    throw new Error(`Failed to load attachments: ${reused.error.message}`);
+  }
+  return [
+    ...(uploaded.data || []),
+    ...(reused.data || []).map((row: any) => ({ ...row.attachments, message_id: row.message_id })),
+  ];
+}
+
+/**
+ * Links files to the message they are sent with. New uploads become the message's own
+ * attachments; files from the library (already sent with another message) are linked.
+ */
+export async function linkAttachmentsToMessage(supabase: any, userId: string, messageId: string, attachmentIds: string[]): Promise<void> {
+  if (attachmentIds.length === 0) return;
+  const { data: attachments, error } = await supabase
+    .from('attachments')
+    .select('id, message_id')
+    .eq('user_id', userId)
+    .in('id', attachmentIds);
+  if (error) {
+    throw new Error(`Failed to link attachments: ${error.message}`);
+  }
+
+  const unsent = (attachments || []).filter((att: any) => !att.message_id).map((att: any) => att.id);
+  const reused = (attachments || []).filter((att: any) => att.message_id && att.message_id !== messageId).map((att: any) => att.id);
+  if (unsent.length > 0) {
+    const { error: updateError } = await supabase
+      .from('attachments')
+      .update({ message_id: messageId })
+      .in('id', unsent)
+      .eq('user_id', userId);
+    if (updateError) {
+      throw new Error(`Failed to link attachments: ${updateError.message}`);
+    }
+  }
+  if (reused.length > 0) {
+    const { error: insertError } = await supabase
+      .from('message_attachments')
+      .upsert(reused.map((attachmentId: string) => ({ message_id: messageId, attachment_id: attachmentId, user_id: userId })), { onConflict: 'message_id,attachment_id', ignoreDuplicates: true });
+    if (insertError) {
+      throw new Error(`Failed to link attachments: ${insertError.message}`);
+    }
+  }
+}
+
+/**
+ * Deletes an attachment and its stored file, unless an identical upload still uses
+ * the file; its chunks, pages, tables, job and links go with it (ON DELETE CASCADE)
+ */
+export async function deleteAttachment(supabase: any, attachment: { id: string; file_path: string | null }): Promise<void> {
+  if (attachment.file_path && !(await isFileShared(supabase, attachment.file_path, attachment.id))) {
+    const { error: storageError } = await supabase.storage.from('chat-files').remove([attachment.file_path]);
+    if (storageError) {
+      console.error('[FILES] Failed to delete stored file:', { attachmentId: attachment.id, error: storageError });
+    }
+  }
+  const { error } = await supabase.from('attachments').delete().eq('id', attachment.id);
+  if (error) {
+    throw new Error(`Failed to delete file: ${error.message}`);
+  }
+}
+
+/**
+ * Deletes uploads that were never sent with a message (the composer was closed, or
+ * the file removed before sending). Needs the service-role client. Returns the number deleted.
+ */
+export async function deleteOrphanedUploads(admin: any, maxAgeHours = ORPHAN_MAX_AGE_HOURS): Promise<number> {
+  const cutoff = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000).toISOString();
+  const { data, error } = await admin
+    .from('attachments')
+    .select('id, file_path')
+    .is('message_id', null)
+    .lt('created_at', cutoff)
+    .limit(ORPHAN_BATCH_SIZE);
+  if (error) {
+    throw new Error(`Failed to find orphaned uploads: ${error.message}`);
+  }
+  const candidates = data || [];
+  const linked = await linkedAttachmentIds(admin, candidates.map((att: any) => att.id));
+  const orphans = candidates.filter((att: any) => !linked.has(att.id));
+
+  for (const orphan of orphans) {
+    await deleteAttachment(admin, orphan);
+  }
+  if (orphans.length > 0) {
+    console.log('[FILES] Deleted orphaned uploads:', orphans.length);
+  }
+  return orphans.length;
+}
@@ -0,0 +1,40 @@
+/**
+ * Per-page text of paged files (PDFs). See migrations/add_attachment_pages.sql.
+ */
+
+import type { ExtractedPage } from './extractors';
+
+const INSERT_BATCH_SIZE = 200;
+
+/**
+ * Replaces the stored pages of an attachment and records its page count
+ */
+export async function saveAttachmentPages(supabase: any, userId: string, attachmentId: string, pages: ExtractedPage[]): Promise<void> {
+  const rows = pages.map(page => ({
+    attachment_id: attachmentId,
+    user_id: userId,
+    page_number: page.page,
+    content: page.text,
+    source: page.source,
+    confidence: page.confidence ?? null,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('attachment_pages')
+      .upsert(rows.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'attachment_id,page_number' });
+    if (error) {
+      throw new Error(`Failed to store pages: ${error.message}`);
+    }
+  }
+  await supabase
+    .from('attachment_pages')
+    .delete()
+    .eq('attachment_id', attachmentId)
+    .gt('page_number', rows.length);
+
+  await supabase
+    .from('attachments')
+    .update({ page_count: rows.length || null })
+    .eq('id', attachmentId);
+}
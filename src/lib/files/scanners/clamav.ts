@@ -0,0 +1,69 @@
+/**
+ * ClamAV daemon (clamd) over TCP, using the INSTREAM command:
+ *   CLAMAV_HOST       - clamd host
+ *   CLAMAV_PORT       - defaults to 3310
+ *   CLAMAV_TIMEOUT_MS - defaults to 60000
+ * clamd refuses streams above its StreamMaxLength (25 MB by default); raise it to
+ * the largest upload allowed (src/lib/files/formats.ts).
+ */
+
+import net from 'net';
+import type { FileScanner, ScanResult } from './types';
+
+const DEFAULT_PORT = 3310;
+const DEFAULT_TIMEOUT_MS = 60000;
+const CHUNK_BYTES = 64 * 1024;
+
+// clamd answers "stream: OK" or "stream: <signature> FOUND"
+function parseReply(reply: string): ScanResult {
+  const text = reply.replace(/\0/g, '').trim();
+  if (/:\s*OK$/.test(text)) return { infected: false };
+  const found = text.match(/:\s*(.+)\s+FOUND$/);
+  if (found) return { infected: true, signature: found[1] };
+  throw new Error(`ClamAV could not scan the file: ${text || 'no reply'}`);
+}
+
+function instream(host: string, port: number, timeoutMs: number, buffer: Buffer): Promise<ScanResult> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    let reply = '';
+    let settled = false;
+    const finish = (error: Error | null, result?: ScanResult) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(new Error('ClamAV did not answer in time')));
+    socket.on('error', error => finish(new Error(`ClamAV is unavailable: ${error.message}`)));
+    socket.on('data', data => { reply += data.toString('utf-8'); });
+    socket.on('end', () => {
+      try {
+        finish(null, parseReply(reply));
+      } catch (error) {
+        finish(error as Error);
+      }
+    });
+    socket.on('connect', () => {
+      socket.write('zINSTREAM\0');
+      for (let offset = 0; offset < buffer.length; offset += CHUNK_BYTES) {
+        const chunk = buffer.subarray(offset, offset + CHUNK_BYTES);
+        const size = Buffer.alloc(4);
+        size.writeUInt32BE(chunk.length, 0);
+        socket.write(size);
+        socket.write(chunk);
+      }
+      // A zero-length chunk ends the stream
+      socket.write(Buffer.alloc(4));
+    });
+  });
+}
+
+export function createClamAVScanner(host: string, port = DEFAULT_PORT, timeoutMs = DEFAULT_TIMEOUT_MS): FileScanner {
+  return {
+    name: 'clamav',
+    scan: buffer => instream(host, port, timeoutMs, buffer),
+  };
+}
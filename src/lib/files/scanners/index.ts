@@ -0,0 +1,70 @@
+/**
+ * Malware scanning for uploads
+ *
+ * The file worker scans every upload before extracting it (src/lib/files/jobs.ts).
+ * Infected files are quarantined (attachments.quarantine_status): they are never
+ * extracted, listed, linked or shown in chat. The scanner is chosen by FILE_SCANNER:
+ *   'clamav' - a ClamAV daemon (./clamav.ts); the default when CLAMAV_HOST is set
+ *   'stub'   - flags only the EICAR test file (./stub.ts), for development and tests;
+ *              the default outside production. In production it must be set explicitly,
+ *              otherwise files are not scanned (and not processed) at all.
+ * Add a scanner by implementing FileScanner (./types.ts), or with registerFileScanner.
+ */
+
+import { createClamAVScanner } from './clamav';
+import { stubScanner } from './stub';
+import type { FileScanner } from './types';
+
+export type { FileScanner, ScanResult } from './types';
+
+let registered: FileScanner | null = null;
+
+/**
+ * Uses this scanner instead of the configured one
+ */
+export function registerFileScanner(scanner: FileScanner): void {
+  registered = scanner;
+}
+
+// The configured scanner's name, or '' when none is configured
+function configuredScanner(): string {
+  const configured = (process.env.FILE_SCANNER || '').trim().toLowerCase();
+  if (configured) return configured;
+  if (process.env.CLAMAV_HOST) return 'clamav';
+  // The stub passes every real file as clean, so production never falls back to it
+  return process.env.NODE_ENV === 'production' ? '' : 'stub';
+}
+
+/**
+ * Why uploads aren't really scanned in production, or null when they are
+ */
+export function fileScannerWarning(): string | null {
+  if (registered || process.env.NODE_ENV !== 'production') return null;
+  const scanner = configuredScanner();
+  if (!scanner) return 'No malware scanner is configured (set CLAMAV_HOST); uploaded files will not be processed';
+  if (scanner === 'stub') return 'FILE_SCANNER is stub; uploaded files are not scanned for malware';
+  return null;
+}
+
+export function getFileScanner(): FileScanner {
+  if (registered) return registered;
+  const scanner = configuredScanner();
+  if (!scanner) {
+    throw new Error('No malware scanner configured: set CLAMAV_HOST, or FILE_SCANNER=stub to skip scanning');
+  }
+
+  if (scanner === 'clamav') {
+    if (!process.env.CLAMAV_HOST) {
+      throw new Error('FILE_SCANNER is clamav but CLAMAV_HOST is not set');
+    }
+    return createClamAVScanner(
+      process.env.CLAMAV_HOST,
+      process.env.CLAMAV_PORT ? Number(process.env.CLAMAV_PORT) : undefined,
+      process.env.CLAMAV_TIMEOUT_MS ? Number(process.env.CLAMAV_TIMEOUT_MS) : undefined
+    );
+  }
+  if (scanner !== 'stub') {
+    throw new Error(`Unknown FILE_SCANNER: ${scanner}`);
+  }
+  return stubScanner;
+}
@@ -0,0 +1,17 @@
+/**
+ * Local scanner for development and tests: flags only the EICAR test file, the
+ * harmless string every antivirus reports as a virus. Lets quarantine be tried
+ * without running ClamAV.
+ */
+
+import type { FileScanner } from './types';
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+export const stubScanner: FileScanner = {
+  name: 'stub',
+  async scan(buffer) {
+    const infected = buffer.includes(EICAR);
+    return infected ? { infected, signature: 'EICAR-Test-File' } : { infected };
+  },
+};
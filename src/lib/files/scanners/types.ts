@@ -0,0 +1,15 @@
+export interface ScanResult {
+  infected: boolean;
+  // Name of what was found, e.g. "Win.Test.EICAR_HDB-1"
+  signature?: string;
+}
+
+/**
+ * Checks a file for malware. Scanners throw when they can't give a verdict
+ * (e.g. the daemon is down); the job is then retried.
+ */
+export interface FileScanner {
+  // Shown in logs and stored with the verdict
+  name: string;
+  scan(buffer: Buffer, fileName: string): Promise<ScanResult>;
+}
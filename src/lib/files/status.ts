@@ -0,0 +1,60 @@
+/**
+ * File-processing job state, shared by the server (./jobs.ts) and the chat UI (./client.ts)
+ */
+
+export type FileJobStatus = 'queued' | 'processing' | 'done' | 'failed';
+export type FileJobStage = 'downloading' | 'scanning' | 'extracting' | 'ocr' | 'indexing';
+
+export interface FileProcessingJob {
+  id: string;
+  attachment_id: string;
+  user_id: string;
+  status: FileJobStatus;
+  stage: FileJobStage | null;
+  progress: number;
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  run_after: string;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+const QUARANTINE_ERROR_PREFIX = 'Quarantined';
+
+/**
+ * Job error of a file the malware scan flagged
+ */
+export function quarantineError(signature?: string | null): string {
+  return `${QUARANTINE_ERROR_PREFIX}: the malware scan flagged this file${signature ? ` (${signature})` : ''}`;
+}
+
+export function isQuarantineError(error: string | null | undefined): boolean {
+  return !!error && error.startsWith(QUARANTINE_ERROR_PREFIX);
+}
+
+export function isJobSettled(job: Pick<FileProcessingJob, 'status'>): boolean {
+  return job.status === 'done' || job.status === 'failed';
+}
+
+/**
+ * Short progress label for a file chip, e.g. "Extracting text… 30%"
+ */
+export function describeJob(job: Pick<FileProcessingJob, 'status' | 'stage' | 'progress' | 'attempts' | 'error'>): string {
+  switch (job.status) {
+    case 'queued':
+      return job.error ? 'Retrying soon…' : 'Queued…';
+    case 'processing': {
+      const stage = job.stage === 'downloading' ? 'Reading file'
+        : job.stage === 'scanning' ? 'Checking for malware'
+        : job.stage === 'ocr' ? 'Reading scanned pages'
+        : job.stage === 'indexing' ? 'Indexing'
+        : 'Extracting text';
+      return `${stage}… ${job.progress}%`;
+    }
+    case 'done':
+      return 'Ready';
+    case 'failed':
+      return isQuarantineError(job.error) ? 'Blocked by malware scan' : 'Could not read file';
+  }
+}
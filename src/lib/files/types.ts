@@ -0,0 +1,24 @@
+/**
+ * The user's file library ("My Files"), shared by /api/files and the UI
+ */
+
+import type { FileJobStatus } from './status';
+
+export interface LibraryFile {
+  id: string;
+  filename: string;
+  file_type: string;
+  file_size: number;
+  url: string;
+  created_at: string;
+  page_count: number | null;
+  // Sent with at least one message; files that never were are deleted after a day
+  linked: boolean;
+  // Processing state (null for files uploaded before the processing queue)
+  status: FileJobStatus | null;
+}
+
+export interface LibraryFileDetails extends LibraryFile {
+  // Start of the extracted text
+  preview: string;
+}
@@ -0,0 +1,37 @@
+/**
+ * Links to stored files
+ *
+ * The chat-files bucket is private (migrations/make_chat_files_private.sql): files are
+ * only reachable through signed URLs that expire after SIGNED_URL_TTL_SECONDS. Signing
+ * goes through the user's client, so storage policies limit it to the user's own files.
+ * Clients get a fresh link for an attachment from GET /api/files/[fileId]/url.
+ */
+
+const BUCKET = 'chat-files';
+
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Signed URLs of stored files, by path ('' for files that couldn't be signed)
+ */
+export async function signFileUrls(supabase: any, paths: string[]): Promise<Map<string, string>> {
+  const unique = Array.from(new Set(paths.filter(Boolean)));
+  if (unique.length === 0) return new Map();
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(unique, SIGNED_URL_TTL_SECONDS);
+  if (error) {
+    console.error('[FILES] Failed to sign file URLs:', error.message);
+    return new Map();
+  }
+  return new Map((data || []).map((item: any) => [item.path, item.signedUrl || '']));
+}
+
+export async function signFileUrl(supabase: any, path: string): Promise<string> {
+  return (await signFileUrls(supabase, [path])).get(path) || '';
+}
+
+/**
+ * Link to a page of a file; browsers' PDF viewers open at #page=N
+ */
+export function withPage(url: string, page: number | null): string {
+  return url && page !== null ? `${url}#page=${page}` : url;
+}
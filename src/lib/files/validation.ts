@@ -0,0 +1,125 @@
+/**
+ * Upload validation
+ *
+ * The browser's file type and the extension are only claims. The upload route checks
+ * the file's first bytes against the format its extension names (./formats.ts),
+ * refuses executables and scripts whatever they are called, and applies the format's
+ * size limit. Malware scanning happens later, in the file worker (./scanners).
+ */
+
+import { FileFormat, fileExtension, findFileFormat } from './formats';
+
+export interface UploadRejection {
+  error: string;
+  status: 400 | 413;
+}
+
+export type UploadCheck = { format: FileFormat } | UploadRejection;
+
+// Bytes inspected to tell text from binary content
+const TEXT_SAMPLE_BYTES = 64 * 1024;
+// Share of control characters tolerated in text (form feeds, stray escapes)
+const MAX_CONTROL_CHAR_RATIO = 0.01;
+
+// Types browsers report for programs and installers
+const DANGEROUS_MIME_TYPES = [
+  'application/x-msdownload',
+  'application/x-dosexec',
+  'application/x-executable',
+  'application/x-mach-binary',
+  'application/x-msi',
+  'application/x-sh',
+  'application/x-bat',
+  'application/vnd.microsoft.portable-executable',
+  'application/java-archive',
+];
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text).map(char => char.charCodeAt(0));
+}
+
+// "%PDF" may follow a few bytes of junk, which readers tolerate
+function isPdf(bytes: Uint8Array): boolean {
+  const marker = ascii('%PDF-');
+  const end = Math.min(bytes.length - marker.length, 1024);
+  for (let i = 0; i <= end; i++) {
+    if (startsWith(bytes, marker, i)) return true;
+  }
+  return false;
+}
+
+const SIGNATURE_CHECKS: Record<Exclude<FileFormat['signature'], 'text'>, (bytes: Uint8Array) => boolean> = {
+  pdf: isPdf,
+  png: bytes => startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  jpeg: bytes => startsWith(bytes, [0xff, 0xd8, 0xff]),
+  gif: bytes => startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a')),
+  bmp: bytes => startsWith(bytes, ascii('BM')),
+  webp: bytes => startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8),
+  tiff: bytes => startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a]),
+  // Office Open XML, OpenDocument and EPUB are zip archives
+  zip: bytes => startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]),
+  // Legacy Office documents (compound file)
+  ole: bytes => startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+  rtf: bytes => startsWith(bytes, ascii('{\\rtf')),
+};
+
+/**
+ * Windows, Linux and macOS programs, and scripts with an interpreter line
+ */
+export function isExecutable(bytes: Uint8Array): boolean {
+  return startsWith(bytes, ascii('MZ'))
+    || startsWith(bytes, [0x7f, 0x45, 0x4c, 0x46])
+    || startsWith(bytes, [0xfe, 0xed, 0xfa, 0xce])
+    || startsWith(bytes, [0xfe, 0xed, 0xfa, 0xcf])
+    || startsWith(bytes, [0xce, 0xfa, 0xed, 0xfe])
+    || startsWith(bytes, [0xcf, 0xfa, 0xed, 0xfe])
+    || startsWith(bytes, [0xca, 0xfe, 0xba, 0xbe])
+    || startsWith(bytes, ascii('#!'));
+}
+
+/**
+ * Text in any ASCII-compatible encoding (UTF-8, Windows-1252, ...), or UTF-16 with a byte order mark
+ */
+export function looksLikeText(bytes: Uint8Array): boolean {
+  if (startsWith(bytes, [0xff, 0xfe]) || startsWith(bytes, [0xfe, 0xff])) return true;
+  const sample = bytes.subarray(0, TEXT_SAMPLE_BYTES);
+  let control = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte === 0) return false;
+    // Tab, line feed, vertical tab, form feed and carriage return are text
+    if (byte < 0x20 && (byte < 0x09 || byte > 0x0d) && byte !== 0x1b) control++;
+  }
+  return control <= sample.length * MAX_CONTROL_CHAR_RATIO;
+}
+
+export function matchesFormat(bytes: Uint8Array, format: FileFormat): boolean {
+  return format.signature === 'text' ? looksLikeText(bytes) : SIGNATURE_CHECKS[format.signature](bytes);
+}
+
+/**
+ * Whether an upload may be stored, and as which format
+ */
+export function checkUpload(bytes: Uint8Array, fileName: string, reportedType: string): UploadCheck {
+  const extension = fileExtension(fileName);
+  const format = findFileFormat(fileName);
+  if (!format) {
+    return { status: 400, error: extension ? `.${extension} files are not supported` : 'Files without an extension are not supported' };
+  }
+  if (bytes.length > format.maxSizeMb * 1024 * 1024) {
+    return { status: 413, error: `${format.label} files can be up to ${format.maxSizeMb} MB` };
+  }
+  const mime = reportedType.split(';')[0].trim().toLowerCase();
+  if (DANGEROUS_MIME_TYPES.includes(mime) || isExecutable(bytes)) {
+    return { status: 400, error: 'Programs and scripts cannot be uploaded' };
+  }
+  if (!matchesFormat(bytes, format)) {
+    return { status: 400, error: `The file's content doesn't match its .${extension} extension` };
+  }
+  return { format };
+}
@@ -0,0 +1,109 @@
+/**
+ * File-processing worker
+ *
+ * Runs queued jobs (./jobs.ts) outside the request that queued them:
+ *   - in the Next.js server process, started from instrumentation.api.ts
+ *     (set FILE_WORKER=off to disable, e.g. on serverless hosts)
+ *   - or in bursts from /api/files/jobs/run, for a cron on hosts without a
+ *     long-running process
+ * Several workers can run at once; jobs are claimed with SKIP LOCKED.
+ * Between jobs the worker also deletes uploads that were never sent (./library.ts).
+ */
+
+import { randomUUID } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { claimFileJob, runFileJob } from './jobs';
+import { deleteOrphanedUploads } from './library';
+import { fileScannerWarning } from './scanners';
+
+// How often an idle worker looks for new (or retried) jobs
+const IDLE_POLL_MS = 5000;
+const ERROR_BACKOFF_MS = 15000;
+// How often the in-process worker deletes uploads that were never sent
+const ORPHAN_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+interface WorkerState {
+  running: boolean;
+  // Ends the current idle wait early
+  wake: (() => void) | null;
+  lastOrphanSweep: number;
+}
+
+// Kept on globalThis: route bundles and instrumentation load separate module copies
+const globalState = globalThis as typeof globalThis & { __fileWorker?: WorkerState };
+
+/**
+ * Runs due jobs one after another until the queue is empty or `deadline` (ms) passes.
+ * Returns the number of jobs run.
+ */
+export async function drainFileJobs(admin: any, workerId: string, deadline = Infinity): Promise<number> {
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const job = await claimFileJob(admin, workerId);
+    if (!job) break;
+    console.log('[FILE WORKER]', workerId, 'running job', job.id, 'attempt', job.attempts);
+    await runFileJob(admin, job);
+    processed++;
+  }
+  return processed;
+}
+
+function idle(state: WorkerState, ms: number) {
+  return new Promise<void>(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      state.wake = null;
+      resolve();
+    }
+    state.wake = done;
+  });
+}
+
+/**
+ * Starts the in-process worker loop (once per process)
+ */
+export function startFileWorker() {
+  if (globalState.__fileWorker?.running) return;
+  if ((process.env.FILE_WORKER || '').toLowerCase() === 'off') {
+    console.log('[FILE WORKER] Disabled by FILE_WORKER=off');
+    return;
+  }
+  const admin = createAdminClient();
+  if (!admin) {
+    console.warn('[FILE WORKER] SUPABASE_SERVICE_ROLE_KEY is not set; uploaded files will not be processed');
+    return;
+  }
+  const scannerWarning = fileScannerWarning();
+  if (scannerWarning) {
+    console.error(`[FILE WORKER] ${scannerWarning}`);
+  }
+
+  const state: WorkerState = { running: true, wake: null, lastOrphanSweep: 0 };
+  globalState.__fileWorker = state;
+  const workerId = `server-${process.pid}-${randomUUID().slice(0, 8)}`;
+  console.log('[FILE WORKER] Started', workerId);
+
+  (async () => {
+    while (state.running) {
+      try {
+        await drainFileJobs(admin, workerId);
+        if (Date.now() - state.lastOrphanSweep > ORPHAN_SWEEP_INTERVAL_MS) {
+          state.lastOrphanSweep = Date.now();
+          await deleteOrphanedUploads(admin);
+        }
+        await idle(state, IDLE_POLL_MS);
+      } catch (error) {
+        console.error('[FILE WORKER] Error:', error);
+        await idle(state, ERROR_BACKOFF_MS);
+      }
+    }
+  })();
+}
+
+/**
+ * Lets an idle in-process worker pick up a job that was just queued
+ */
+export function wakeFileWorker() {
+  globalState.__fileWorker?.wake?.();
+}
@@ -0,0 +1,137 @@
+import { supabase } from "../supabase/client";
+import { asEntitlementDenial, openUpgrade } from "../entitlements/client";
+import type { Flashcard, FlashcardDeck, FlashcardExportFormat, ReviewRating } from "./types";
+
+export type { Flashcard, FlashcardDeck, FlashcardExportFormat, ReviewRating } from "./types";
+export { formatInterval, previewIntervals, REVIEW_RATINGS } from "./scheduler";
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+  return { 'Authorization': `Bearer ${session.access_token}` };
+}
+
+// Calls a flashcards endpoint; throws with the server's message when it fails, and
+// offers an upgrade when it was refused for the user's plan or credits
+async function flashcardRequest(path: string, init: RequestInit = {}): Promise<any> {
+  const res = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(await authHeaders()),
+    },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const denial = asEntitlementDenial(res.status, data);
+    if (denial) openUpgrade(denial);
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+/**
+ * The end of the user's day: cards due before it are reviewed today
+ */
+export function endOfToday(): string {
+  const end = new Date();
+  end.setHours(23, 59, 59, 999);
+  return end.toISOString();
+}
+
+export async function listDecks(): Promise<FlashcardDeck[]> {
+  const data = await flashcardRequest(`/api/flashcards/decks?dueBefore=${encodeURIComponent(endOfToday())}`);
+  return data.decks || [];
+}
+
+export async function getDeck(deckId: string): Promise<{ deck: FlashcardDeck; cards: Flashcard[] }> {
+  const data = await flashcardRequest(`/api/flashcards/decks/${encodeURIComponent(deckId)}?dueBefore=${encodeURIComponent(endOfToday())}`);
+  return { deck: data.deck, cards: data.cards || [] };
+}
+
+export async function renameDeck(deckId: string, name: string): Promise<FlashcardDeck> {
+  const data = await flashcardRequest(`/api/flashcards/decks/${encodeURIComponent(deckId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ name }),
+  });
+  return data.deck;
+}
+
+export async function deleteDeck(deckId: string): Promise<void> {
+  await flashcardRequest(`/api/flashcards/decks/${encodeURIComponent(deckId)}`, { method: 'DELETE' });
+}
+
+export async function addCard(deckId: string, front: string, back: string): Promise<Flashcard> {
+  const data = await flashcardRequest(`/api/flashcards/decks/${encodeURIComponent(deckId)}/cards`, {
+    method: 'POST',
+    body: JSON.stringify({ front, back }),
+  });
+  return data.card;
+}
+
+export async function updateCard(cardId: string, changes: { front?: string; back?: string }): Promise<Flashcard> {
+  const data = await flashcardRequest(`/api/flashcards/cards/${encodeURIComponent(cardId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return data.card;
+}
+
+export async function deleteCard(cardId: string): Promise<void> {
+  await flashcardRequest(`/api/flashcards/cards/${encodeURIComponent(cardId)}`, { method: 'DELETE' });
+}
+
+/**
+ * Cards to review today, from one deck or all of them
+ */
+export async function listDueCards(deckId?: string): Promise<Flashcard[]> {
+  const params = new URLSearchParams({ dueBefore: endOfToday() });
+  if (deckId) params.set('deckId', deckId);
+  const data = await flashcardRequest(`/api/flashcards/due?${params}`);
+  return data.cards || [];
+}
+
+/**
+ * Records a review; returns the card with its next due time
+ */
+export async function reviewCard(cardId: string, rating: ReviewRating): Promise<Flashcard> {
+  const data = await flashcardRequest(`/api/flashcards/cards/${encodeURIComponent(cardId)}/review`, {
+    method: 'POST',
+    body: JSON.stringify({ rating }),
+  });
+  return data.card;
+}
+
+/**
+ * Makes flashcards of a chat's key concepts (charged like a tutor message); returns
+ * the deck they went into and the new cards
+ */
+export async function generateFlashcards(chatId: string): Promise<{ deck: FlashcardDeck; cards: Flashcard[] }> {
+  const data = await flashcardRequest('/api/flashcards/generate', {
+    method: 'POST',
+    body: JSON.stringify({ chatId }),
+  });
+  return { deck: data.deck, cards: data.cards || [] };
+}
+
+/**
+ * Downloads a deck as an Anki package or a CSV file
+ */
+export async function downloadDeck(deckId: string, format: FlashcardExportFormat): Promise<void> {
+  const res = await fetch(`/api/flashcards/decks/${encodeURIComponent(deckId)}/export?format=${format}`, {
+    headers: await authHeaders(),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || 'Export failed');
+  }
+  const fileName = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '')?.[1] || `flashcards.${format}`;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,220 @@
+/**
+ * Exporting decks
+ *
+ * CSV has a Front,Back header and one card per row, for spreadsheets and other
+ * flashcard apps. The Anki package (.apkg) is a zip with an Anki collection (an
+ * SQLite database, written with sql.js) holding one deck of "Front/Back" notes.
+ * Cards keep their schedule, and a card exported again updates the note it was
+ * imported as instead of adding a copy.
+ */
+
+import { createHash } from 'crypto';
+import type { Flashcard, FlashcardDeck, FlashcardExportFormat } from './types';
+
+export interface DeckExport {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+}
+
+// Same note type in every export, so Anki reuses it on the next import
+const ANKI_MODEL_ID = 1718044800000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(cards: Flashcard[]): string {
+  const rows = [['Front', 'Back'], ...cards.map(card => [card.front, card.back])];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Card text as Anki field HTML: $...$ and $$...$$ math becomes MathJax \( \) and \[ \]
+ */
+export function toAnkiField(text: string): string {
+  return escapeHtml(text)
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_m, math) => `\\[${math}\\]`)
+    .replace(/\$([^$\n]+?)\$/g, (_m, math) => `\\(${math}\\)`)
+    .replace(/\r?\n/g, '<br>');
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<br>/g, ' ').replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field
+function fieldChecksum(text: string): number {
+  return parseInt(createHash('sha1').update(text).digest('hex').slice(0, 8), 16);
+}
+
+// Stable Anki deck id for a deck, so exports of the same deck land in one Anki deck
+function ankiDeckId(deckId: string): number {
+  return parseInt(deckId.replace(/-/g, '').slice(0, 12), 16) || 2;
+}
+
+function ankiModel(deckId: number, modSeconds: number) {
+  const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] });
+  return {
+    id: ANKI_MODEL_ID,
+    name: 'Basic (Tutor flashcards)',
+    type: 0,
+    mod: modSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}', did: null, bqfmt: '', bafmt: '' }],
+    flds: [field('Front', 0), field('Back', 1)],
+    css: '.card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n',
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  };
+}
+
+function ankiDeck(id: number, name: string, modSeconds: number) {
+  return {
+    id,
+    name,
+    desc: '',
+    conf: 1,
+    dyn: 0,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    mod: modSeconds,
+    usn: -1,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const ANKI_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+};
+
+const ANKI_COLLECTION_CONFIG = {
+  activeDecks: [1],
+  curDeck: 1,
+  newSpread: 0,
+  collapseTime: 1200,
+  timeLim: 0,
+  estTimes: true,
+  dueCounts: true,
+  curModel: null,
+  nextPos: 1,
+  sortType: 'noteFld',
+  sortBackwards: false,
+  addToCur: true,
+};
+
+export async function toAnkiPackage(deck: FlashcardDeck, cards: Flashcard[], now = new Date()): Promise<Buffer> {
+  const { default: initSqlJs } = await import('sql.js');
+  const { default: JSZipLib } = await import('jszip');
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run(ANKI_SCHEMA);
+
+    const nowMs = now.getTime();
+    const nowSeconds = Math.floor(nowMs / 1000);
+    // Review due dates are days since the collection was created: today
+    const createdSeconds = nowSeconds - (nowSeconds % DAY_SECONDS);
+    const deckId = ankiDeckId(deck.id);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      createdSeconds,
+      nowMs,
+      nowMs,
+      JSON.stringify(ANKI_COLLECTION_CONFIG),
+      JSON.stringify({ [ANKI_MODEL_ID]: ankiModel(deckId, nowSeconds) }),
+      JSON.stringify({ 1: ankiDeck(1, 'Default', nowSeconds), [deckId]: ankiDeck(deckId, deck.name, nowSeconds) }),
+      JSON.stringify({ 1: ANKI_DECK_CONFIG }),
+      '{}',
+    ]);
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, \'\', ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')');
+    cards.forEach((card, i) => {
+      const front = toAnkiField(card.front);
+      const sortField = stripHtml(front);
+      const id = nowMs + i;
+      // The card id is the note's guid, so Anki updates it when it is imported again
+      insertNote.run([id, card.id, ANKI_MODEL_ID, nowSeconds, `${front}\x1f${toAnkiField(card.back)}`, sortField, fieldChecksum(sortField)]);
+
+      // Cards that were learned keep their schedule; the others are new, in deck order
+      const learned = card.repetitions > 0;
+      const dueDay = Math.max(0, Math.floor((Date.parse(card.dueAt) / 1000 - createdSeconds) / DAY_SECONDS));
+      insertCard.run([
+        id,
+        id,
+        deckId,
+        nowSeconds,
+        learned ? 2 : 0,
+        learned ? 2 : 0,
+        learned ? dueDay : i + 1,
+        learned ? card.intervalDays : 0,
+        learned ? Math.round(card.easeFactor * 1000) : 0,
+        card.repetitions,
+        card.lapses,
+      ]);
+    });
+    insertNote.free();
+    insertCard.free();
+
+    const zip = new JSZipLib();
+    zip.file('collection.anki2', db.export());
+    // No images or sounds
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+}
+
+function exportFileName(deck: FlashcardDeck, extension: string): string {
+  const base = deck.name.replace(/[^A-Za-z0-9 _-]+/g, '').trim().replace(/\s+/g, '-') || 'flashcards';
+  return `${base}.${extension}`;
+}
+
+export async function exportDeck(deck: FlashcardDeck, cards: Flashcard[], format: FlashcardExportFormat): Promise<DeckExport> {
+  if (format === 'apkg') {
+    return { fileName: exportFileName(deck, 'apkg'), contentType: 'application/octet-stream', body: await toAnkiPackage(deck, cards) };
+  }
+  // With a byte order mark so spreadsheet apps read it as UTF-8
+  return { fileName: exportFileName(deck, 'csv'), contentType: 'text/csv; charset=utf-8', body: Buffer.from(`\uFEFF${toCsv(cards)}`, 'utf8') };
+}
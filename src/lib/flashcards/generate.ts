@@ -0,0 +1,106 @@
+/**
+ * Flashcards from a tutoring chat
+ *
+ * The model reads the chat's active branch (the most recent part when it is long)
+ * and writes cards for the key concepts it taught: one fact or idea per card, with
+ * a question on the front and a short answer on the back.
+ */
+
+import { estimateTokens } from '@/lib/chat/context';
+import { getActiveLeafId, getActivePath, loadChatTree, resolveLeaf } from '@/lib/chat/tree';
+import type { LLMMessage, LLMProvider } from '@/lib/llm';
+
+export const MAX_GENERATED_CARDS = 20;
+// Output budget of a generation (cards are short)
+export const GENERATION_REPLY_TOKENS = 2000;
+// How much of the chat the model reads
+const TRANSCRIPT_MAX_TOKENS = 12000;
+export const MAX_FRONT_LENGTH = 500;
+export const MAX_BACK_LENGTH = 2000;
+
+export interface CardDraft {
+  front: string;
+  back: string;
+}
+
+const GENERATION_PROMPT = `You write flashcards that help a student remember what they learned in a tutoring session.
+
+Rules:
+- Cover the key concepts, definitions, formulas and methods the tutor taught and the student worked on. Skip small talk and anything the student already knew well.
+- One idea per card. The front is a clear question or prompt that makes sense without the conversation; the back is a short, correct answer (a sentence or two, or a formula).
+- Use LaTeX between $ signs for math.
+- Don't repeat the cards the student already has (listed below, if any).
+- Write at most ${MAX_GENERATED_CARDS} cards; fewer is fine for a short session.
+
+Return ONLY a JSON array, nothing else: [{"front": "...", "back": "..."}]`;
+
+/**
+ * The chat's active branch as "Student:/Tutor:" turns, keeping the most recent part
+ * when it doesn't fit
+ */
+export async function loadChatTranscript(supabase: any, userId: string, chatId: string): Promise<string> {
+  const tree = await loadChatTree(supabase, userId, chatId);
+  const leafId = resolveLeaf(tree, await getActiveLeafId(supabase, userId, chatId));
+  const turns = getActivePath(tree, leafId)
+    .filter(m => m.content && m.content.trim())
+    .map(m => `${m.role === 'assistant' ? 'Tutor' : 'Student'}: ${m.content.trim()}`);
+
+  const kept: string[] = [];
+  let tokens = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    tokens += estimateTokens(turns[i]);
+    if (tokens > TRANSCRIPT_MAX_TOKENS && kept.length > 0) break;
+    kept.unshift(turns[i]);
+  }
+  return kept.join('\n\n');
+}
+
+export function buildGenerationMessages(transcript: string, existingFronts: string[]): LLMMessage[] {
+  const existing = existingFronts.length > 0 ? `\n\nCards the student already has:\n${existingFronts.map(front => `- ${front}`).join('\n')}` : '';
+  return [
+    { role: 'system', content: GENERATION_PROMPT },
+    { role: 'user', content: `Tutoring session:\n\n${transcript}${existing}` },
+  ];
+}
+
+function normalizeFront(front: string): string {
+  return front.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * The cards in the model's reply, without duplicates of each other or of `existingFronts`
+ */
+export function parseGeneratedCards(raw: string, existingFronts: string[] = []): CardDraft[] {
+  const start = raw.indexOf('[');
+  const end = raw.lastIndexOf(']');
+  if (start === -1 || end <= start) return [];
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const seen = new Set(existingFronts.map(normalizeFront));
+  const cards: CardDraft[] = [];
+  for (const item of parsed) {
+    const front = typeof item?.front === 'string' ? item.front.trim().slice(0, MAX_FRONT_LENGTH) : '';
+    const back = typeof item?.back === 'string' ? item.back.trim().slice(0, MAX_BACK_LENGTH) : '';
+    const key = normalizeFront(front);
+    if (!front || !back || seen.has(key)) continue;
+    seen.add(key);
+    cards.push({ front, back });
+    if (cards.length >= MAX_GENERATED_CARDS) break;
+  }
+  return cards;
+}
+
+/**
+ * Asks the model for cards on the session. Returns the cards and the reply's length
+ * in tokens (for metering).
+ */
+export async function generateCards(llm: LLMProvider, messages: LLMMessage[], existingFronts: string[]): Promise<{ cards: CardDraft[]; outputTokens: number }> {
+  const raw = await llm.complete(messages, { maxTokens: GENERATION_REPLY_TOKENS, temperature: 0.3 });
+  return { cards: parseGeneratedCards(raw, existingFronts), outputTokens: estimateTokens(raw) };
+}
@@ -0,0 +1,292 @@
+/**
+ * Flashcards
+ *
+ * Each user has a deck of their own and one per tutor (custom teacher). Cards are
+ * generated from a chat on demand (./generate.ts) into the deck of the chat's tutor,
+ * can be edited, added and deleted, and come back for review on the SM-2 schedule
+ * (./scheduler.ts). Decks export to Anki and CSV (./export.ts).
+ * See migrations/add_flashcards.sql.
+ */
+
+import { scheduleReview } from './scheduler';
+import type { CardDraft } from './generate';
+import type { Flashcard, FlashcardDeck, ReviewRating } from './types';
+
+export { buildGenerationMessages, generateCards, loadChatTranscript, GENERATION_REPLY_TOKENS, MAX_BACK_LENGTH, MAX_FRONT_LENGTH, MAX_GENERATED_CARDS } from './generate';
+export type { CardDraft } from './generate';
+export { exportDeck } from './export';
+export type { DeckExport } from './export';
+export { REVIEW_RATINGS } from './scheduler';
+export type { Flashcard, FlashcardDeck, FlashcardExportFormat, ReviewRating } from './types';
+
+// Name of the user's own deck
+export const DEFAULT_DECK_NAME = 'My Flashcards';
+export const MAX_DECK_NAME_LENGTH = 100;
+// Most cards returned for one review session
+const MAX_DUE_CARDS = 200;
+
+const DECK_COLUMNS = 'id, name, teacher_id, created_at';
+const CARD_COLUMNS = 'id, deck_id, front, back, source_chat_id, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at, created_at';
+
+function toCard(row: any): Flashcard {
+  return {
+    id: row.id,
+    deckId: row.deck_id,
+    front: row.front,
+    back: row.back,
+    sourceChatId: row.source_chat_id,
+    easeFactor: row.ease_factor,
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: row.due_at,
+    lastReviewedAt: row.last_reviewed_at,
+    createdAt: row.created_at,
+  };
+}
+
+function toDeck(row: any, cards: { deck_id: string; due_at: string }[], dueBefore: string): FlashcardDeck {
+  const deckCards = cards.filter(card => card.deck_id === row.id);
+  const dueTime = Date.parse(dueBefore);
+  return {
+    id: row.id,
+    name: row.name,
+    teacherId: row.teacher_id,
+    cardCount: deckCards.length,
+    dueCount: deckCards.filter(card => Date.parse(card.due_at) <= dueTime).length,
+    createdAt: row.created_at,
+  };
+}
+
+async function loadDueDates(supabase: any, userId: string, deckIds: string[]): Promise<{ deck_id: string; due_at: string }[]> {
+  if (deckIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('flashcards')
+    .select('deck_id, due_at')
+    .eq('user_id', userId)
+    .in('deck_id', deckIds);
+  if (error) {
+    throw new Error(`Failed to count cards: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * The user's decks with how many cards are due before `dueBefore` (an ISO time)
+ */
+export async function listDecks(supabase: any, userId: string, dueBefore: string): Promise<FlashcardDeck[]> {
+  const { data, error } = await supabase
+    .from('flashcard_decks')
+    .select(DECK_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load decks: ${error.message}`);
+  }
+  const decks = data || [];
+  const cards = await loadDueDates(supabase, userId, decks.map((deck: any) => deck.id));
+  return decks.map((deck: any) => toDeck(deck, cards, dueBefore));
+}
+
+export async function getDeck(supabase: any, userId: string, deckId: string, dueBefore = new Date().toISOString()): Promise<FlashcardDeck | null> {
+  const { data, error } = await supabase
+    .from('flashcard_decks')
+    .select(DECK_COLUMNS)
+    .eq('id', deckId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load deck: ${error.message}`);
+  }
+  if (!data) return null;
+  return toDeck(data, await loadDueDates(supabase, userId, [deckId]), dueBefore);
+}
+
+/**
+ * The deck of a tutor, or the user's own deck when `teacherId` is not one of their
+ * tutors; created on first use
+ */
+export async function findOrCreateDeck(supabase: any, userId: string, teacherId?: string | null): Promise<FlashcardDeck> {
+  let teacher: { id: string; name: string } | null = null;
+  if (teacherId) {
+    const { data } = await supabase
+      .from('custom_teachers')
+      .select('id, name')
+      .eq('id', teacherId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    teacher = data || null;
+  }
+
+  let query = supabase
+    .from('flashcard_decks')
+    .select('id')
+    .eq('user_id', userId);
+  query = teacher ? query.eq('teacher_id', teacher.id) : query.is('teacher_id', null);
+  const { data: existing, error } = await query.order('created_at', { ascending: true }).limit(1);
+  if (error) {
+    throw new Error(`Failed to look up deck: ${error.message}`);
+  }
+  if (existing?.[0]) {
+    return (await getDeck(supabase, userId, existing[0].id))!;
+  }
+
+  const { data: created, error: insertError } = await supabase
+    .from('flashcard_decks')
+    .insert({ user_id: userId, teacher_id: teacher?.id ?? null, name: (teacher?.name || DEFAULT_DECK_NAME).slice(0, MAX_DECK_NAME_LENGTH) })
+    .select(DECK_COLUMNS)
+    .single();
+  if (insertError) {
+    throw new Error(`Failed to create deck: ${insertError.message}`);
+  }
+  return toDeck(created, [], new Date().toISOString());
+}
+
+export async function renameDeck(supabase: any, userId: string, deckId: string, name: string): Promise<FlashcardDeck | null> {
+  const { data, error } = await supabase
+    .from('flashcard_decks')
+    .update({ name: name.trim(), updated_at: new Date().toISOString() })
+    .eq('id', deckId)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) {
+    throw new Error(`Failed to rename deck: ${error.message}`);
+  }
+  return data?.length ? getDeck(supabase, userId, deckId) : null;
+}
+
+/**
+ * Deletes a deck with its cards. Returns false when it isn't the user's.
+ */
+export async function deleteDeck(supabase: any, userId: string, deckId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('flashcard_decks')
+    .delete()
+    .eq('id', deckId)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) {
+    throw new Error(`Failed to delete deck: ${error.message}`);
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * The cards of a deck, oldest first
+ */
+export async function listDeckCards(supabase: any, userId: string, deckId: string): Promise<Flashcard[]> {
+  const { data, error } = await supabase
+    .from('flashcards')
+    .select(CARD_COLUMNS)
+    .eq('deck_id', deckId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load cards: ${error.message}`);
+  }
+  return (data || []).map(toCard);
+}
+
+/**
+ * Adds cards to a deck; new cards are due right away
+ */
+export async function addCards(supabase: any, userId: string, deckId: string, cards: CardDraft[], sourceChatId: string | null = null): Promise<Flashcard[]> {
+  if (cards.length === 0) return [];
+  const { data, error } = await supabase
+    .from('flashcards')
+    .insert(cards.map(card => ({
+      deck_id: deckId,
+      user_id: userId,
+      front: card.front,
+      back: card.back,
+      source_chat_id: sourceChatId,
+    })))
+    .select(CARD_COLUMNS);
+  if (error) {
+    throw new Error(`Failed to save cards: ${error.message}`);
+  }
+  return (data || []).map(toCard);
+}
+
+export async function updateCard(supabase: any, userId: string, cardId: string, changes: Partial<CardDraft>): Promise<Flashcard | null> {
+  const update: Record<string, string> = { updated_at: new Date().toISOString() };
+  if (changes.front !== undefined) update.front = changes.front.trim();
+  if (changes.back !== undefined) update.back = changes.back.trim();
+  const { data, error } = await supabase
+    .from('flashcards')
+    .update(update)
+    .eq('id', cardId)
+    .eq('user_id', userId)
+    .select(CARD_COLUMNS);
+  if (error) {
+    throw new Error(`Failed to update card: ${error.message}`);
+  }
+  return data?.[0] ? toCard(data[0]) : null;
+}
+
+export async function deleteCard(supabase: any, userId: string, cardId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('flashcards')
+    .delete()
+    .eq('id', cardId)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) {
+    throw new Error(`Failed to delete card: ${error.message}`);
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Cards due before `dueBefore` (an ISO time, e.g. the end of the user's day),
+ * most overdue first; from one deck or all of them
+ */
+export async function listDueCards(supabase: any, userId: string, dueBefore: string, deckId?: string | null): Promise<Flashcard[]> {
+  let query = supabase
+    .from('flashcards')
+    .select(CARD_COLUMNS)
+    .eq('user_id', userId)
+    .lte('due_at', dueBefore);
+  if (deckId) query = query.eq('deck_id', deckId);
+  const { data, error } = await query.order('due_at', { ascending: true }).limit(MAX_DUE_CARDS);
+  if (error) {
+    throw new Error(`Failed to load due cards: ${error.message}`);
+  }
+  return (data || []).map(toCard);
+}
+
+/**
+ * Records a review and schedules the card's next one
+ */
+export async function reviewCard(supabase: any, userId: string, cardId: string, rating: ReviewRating): Promise<Flashcard | null> {
+  const { data: row, error } = await supabase
+    .from('flashcards')
+    .select(CARD_COLUMNS)
+    .eq('id', cardId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load card: ${error.message}`);
+  }
+  if (!row) return null;
+
+  const next = scheduleReview(toCard(row), rating);
+  const { data, error: updateError } = await supabase
+    .from('flashcards')
+    .update({
+      ease_factor: next.easeFactor,
+      interval_days: next.intervalDays,
+      repetitions: next.repetitions,
+      lapses: next.lapses,
+      due_at: next.dueAt,
+      last_reviewed_at: next.lastReviewedAt,
+    })
+    .eq('id', cardId)
+    .eq('user_id', userId)
+    .select(CARD_COLUMNS)
+    .single();
+  if (updateError) {
+    throw new Error(`Failed to save review: ${updateError.message}`);
+  }
+  return toCard(data);
+}
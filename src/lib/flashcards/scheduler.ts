@@ -0,0 +1,85 @@
+/**
+ * SM-2 spaced repetition (shared with the review UI to preview intervals)
+ *
+ * Each review is rated again, hard, good or easy (SM-2 qualities 1, 3, 4 and 5).
+ * A remembered card comes back after 1 day, then 6 days, then its last interval
+ * times its ease factor; the rating nudges the ease factor up or down. A forgotten
+ * card starts over and comes back later the same day.
+ */
+
+import type { FlashcardSchedule, ReviewRating } from './types';
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+// Forgotten cards come back this much later, within the same day's reviews
+const RELEARN_DELAY_MINUTES = 10;
+// Extra growth for cards rated easy, and slower growth for cards rated hard
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REVIEW_RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy'];
+
+const QUALITY: Record<ReviewRating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+/**
+ * The schedule of a card after a review
+ */
+export function scheduleReview(card: FlashcardSchedule, rating: ReviewRating, now = new Date()): FlashcardSchedule {
+  const quality = QUALITY[rating];
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  if (rating === 'again') {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000).toISOString(),
+      lastReviewedAt: now.toISOString(),
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = rating === 'easy' ? 4 : 1;
+  } else if (repetitions === 2) {
+    intervalDays = rating === 'hard' ? 3 : 6;
+  } else {
+    const grown = rating === 'hard' ? card.intervalDays * HARD_FACTOR : card.intervalDays * easeFactor;
+    // At least a day longer than before, so short intervals still grow
+    intervalDays = Math.max(card.intervalDays + 1, Math.round(rating === 'easy' ? grown * EASY_BONUS : grown));
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lapses: card.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+/**
+ * "10 min", "1 day", "3 wk", ... until the card comes back for each rating
+ */
+export function previewIntervals(card: FlashcardSchedule, now = new Date()): Record<ReviewRating, string> {
+  const preview = {} as Record<ReviewRating, string>;
+  for (const rating of REVIEW_RATINGS) {
+    const next = scheduleReview(card, rating, now);
+    preview[rating] = rating === 'again' ? `${RELEARN_DELAY_MINUTES} min` : formatInterval(next.intervalDays);
+  }
+  return preview;
+}
+
+export function formatInterval(days: number): string {
+  if (days < 14) return `${days} ${days === 1 ? 'day' : 'days'}`;
+  if (days < 60) return `${Math.round(days / 7)} wk`;
+  if (days < 365) return `${Math.round(days / 30)} mo`;
+  return `${(days / 365).toFixed(1)} yr`;
+}
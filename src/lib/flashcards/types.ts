@@ -0,0 +1,43 @@
+/**
+ * Shared types for flashcards (also used by the flashcards UI)
+ */
+
+export interface FlashcardDeck {
+  id: string;
+  name: string;
+  // The tutor the deck belongs to; null for the user's own deck
+  teacherId: string | null;
+  cardCount: number;
+  // Cards due for review now
+  dueCount: number;
+  createdAt: string;
+}
+
+/**
+ * Where a card stands in the SM-2 schedule
+ */
+export interface FlashcardSchedule {
+  // How easy the card is; intervals grow by this factor (at least 1.3)
+  easeFactor: number;
+  intervalDays: number;
+  // Reviews in a row that were remembered
+  repetitions: number;
+  // Times the card was forgotten after it had been learned
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+export interface Flashcard extends FlashcardSchedule {
+  id: string;
+  deckId: string;
+  front: string;
+  back: string;
+  // Chat the card was generated from
+  sourceChatId: string | null;
+  createdAt: string;
+}
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export type FlashcardExportFormat = 'apkg' | 'csv';
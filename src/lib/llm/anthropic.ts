@@ -0,0 +1,100 @@
+import type { LLMMessage, LLMProvider, LLMProviderConfig, LLMRequestOptions } from './types';
+import { readSSEData, readProviderError } from './sse';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+// Anthropic requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Anthropic takes system prompts as a separate field, and expects
+ * conversation turns to alternate between user and assistant.
+ */
+function toAnthropicMessages(messages: LLMMessage[]) {
+  const system = messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n');
+
+  const turns: { role: 'user' | 'assistant'; content: string }[] = [];
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+    const last = turns[turns.length - 1];
+    if (last && last.role === m.role) {
+      // Merge consecutive turns from the same role
+      last.content += `\n\n${m.content}`;
+    } else {
+      turns.push({ role: m.role, content: m.content });
+    }
+  }
+
+  return { system, turns };
+}
+
+/**
+ * Adapter for the Anthropic Messages API
+ */
+export function createAnthropicProvider(config: LLMProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || ANTHROPIC_BASE_URL).replace(/\/+$/, '');
+
+  const request = (messages: LLMMessage[], options: LLMRequestOptions, stream: boolean) => {
+    const { system, turns } = toAnthropicMessages(messages);
+    return fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey || '',
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: config.model,
+        system: system || undefined,
+        messages: turns,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: options.temperature,
+        stream,
+      }),
+      signal: options.signal,
+    });
+  };
+
+  return {
+    name: 'anthropic',
+    model: config.model,
+
+    async complete(messages, options = {}) {
+      const res = await request(messages, options, false);
+      if (!res.ok) throw await readProviderError('Anthropic', res);
+      const data = await res.json();
+      return (data?.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+    },
+
+    async *stream(messages, options = {}) {
+      const res = await request(messages, options, true);
+      if (!res.ok) throw await readProviderError('Anthropic', res);
+
+      for await (const payload of readSSEData(res)) {
+        if (!payload) continue;
+
+        let event: any;
+        try {
+          event = JSON.parse(payload);
+        } catch (e) {
+          console.error('Error parsing Anthropic SSE chunk:', e);
+          continue;
+        }
+
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          if (event.delta.text) yield event.delta.text;
+        } else if (event.type === 'error') {
+          throw new Error(`Anthropic API error: ${event.error?.message || 'Unknown error'}`);
+        } else if (event.type === 'message_stop') {
+          return;
+        }
+      }
+    },
+  };
+}
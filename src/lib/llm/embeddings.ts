@@ -0,0 +1,86 @@
+/**
+ * Embedding provider selection
+ *
+ * Anthropic has no embeddings API, so embeddings always go through the OpenAI
+ * wire format:
+ *   EMBEDDING_PROVIDER - 'openai' or 'local' (defaults to 'local' when LLM_PROVIDER
+ *                        is local, otherwise 'openai' if OPENAI_API_KEY is set)
+ *   EMBEDDING_MODEL    - defaults to text-embedding-3-small / nomic-embed-text
+ * Credentials and base URLs are shared with the chat providers (see ./index.ts).
+ * Without a provider, retrieval falls back to keyword search.
+ */
+
+import type { EmbeddingProvider } from './types';
+import { readProviderError } from './sse';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Inputs per request; keeps request bodies small for long documents
+const EMBEDDING_BATCH_SIZE = 64;
+
+const DEFAULT_EMBEDDING_MODELS = {
+  openai: 'text-embedding-3-small',
+  local: 'nomic-embed-text',
+};
+
+function createOpenAIEmbeddingProvider(label: string, model: string, baseUrl: string, apiKey?: string): EmbeddingProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/embeddings`;
+
+  return {
+    model,
+
+    async embed(inputs, options = {}) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+        const res = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ model, input: inputs.slice(i, i + EMBEDDING_BATCH_SIZE) }),
+          signal: options.signal,
+        });
+        if (!res.ok) throw await readProviderError(label, res);
+
+        const data = await res.json();
+        const batch = [...(data?.data || [])]
+          .sort((a: any, b: any) => a.index - b.index)
+          .map((item: any) => item.embedding as number[]);
+        vectors.push(...batch);
+      }
+      if (vectors.length !== inputs.length) {
+        throw new Error(`${label} returned ${vectors.length} embeddings for ${inputs.length} inputs`);
+      }
+      return vectors;
+    },
+  };
+}
+
+/**
+ * Returns the embedding provider configured for this deployment, or null if none is
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const configured = (process.env.EMBEDDING_PROVIDER || '').trim().toLowerCase();
+  const provider = configured
+    || ((process.env.LLM_PROVIDER || '').trim().toLowerCase() === 'local' ? 'local' : '')
+    || (process.env.OPENAI_API_KEY ? 'openai' : '');
+
+  if (provider === 'local') {
+    return createOpenAIEmbeddingProvider(
+      'Local embeddings',
+      process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS.local,
+      process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      process.env.LOCAL_LLM_API_KEY
+    );
+  }
+  if (provider === 'openai' && process.env.OPENAI_API_KEY) {
+    return createOpenAIEmbeddingProvider(
+      'OpenAI embeddings',
+      process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS.openai,
+      process.env.OPENAI_BASE_URL || OPENAI_BASE_URL,
+      process.env.OPENAI_API_KEY
+    );
+  }
+  return null;
+}
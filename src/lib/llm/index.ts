@@ -0,0 +1,91 @@
+/**
+ * LLM provider selection
+ *
+ * The provider is chosen per deployment with LLM_PROVIDER / LLM_MODEL and can be
+ * overridden per model tier of the user's plan (src/lib/entitlements) with
+ * LLM_PROVIDER_<TIER> / LLM_MODEL_<TIER> (e.g. LLM_PROVIDER_ADVANCED=anthropic).
+ *
+ * Supported providers:
+ *   openai    - OPENAI_API_KEY, OPENAI_MODEL, OPENAI_BASE_URL
+ *   anthropic - ANTHROPIC_API_KEY, ANTHROPIC_MODEL, ANTHROPIC_BASE_URL
+ *   local     - any OpenAI-compatible server (Ollama, llama.cpp server):
+ *               LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL, LOCAL_LLM_API_KEY (optional)
+ */
+
+import type { LLMProvider, LLMProviderConfig, LLMProviderName } from './types';
+import { createOpenAIProvider } from './openai';
+import { createAnthropicProvider } from './anthropic';
+
+export type { EmbeddingProvider, LLMMessage, LLMProvider, LLMProviderName, LLMRequestOptions } from './types';
+export { generateChatTitle } from './title';
+export { getEmbeddingProvider } from './embeddings';
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'local'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-3.5-turbo',
+  anthropic: 'claude-3-5-haiku-latest',
+  local: 'llama3.1',
+};
+
+function tierEnvSuffix(tier: string): string {
+  return tier.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+function parseProviderName(value: string | undefined): LLMProviderName | null {
+  const name = (value || '').trim().toLowerCase() as LLMProviderName;
+  return PROVIDERS.includes(name) ? name : null;
+}
+
+/**
+ * Resolves provider, model and credentials from the environment for a model tier
+ */
+export function resolveLLMConfig(tier?: string | null): LLMProviderConfig {
+  const suffix = tier ? tierEnvSuffix(tier) : '';
+  const tierProvider = suffix ? parseProviderName(process.env[`LLM_PROVIDER_${suffix}`]) : null;
+  const provider = tierProvider || parseProviderName(process.env.LLM_PROVIDER) || 'openai';
+
+  const tierModel = suffix ? process.env[`LLM_MODEL_${suffix}`] : undefined;
+  // A deployment-wide LLM_MODEL only applies if the tier didn't switch providers
+  const sharedModel = tierProvider ? undefined : process.env.LLM_MODEL;
+
+  switch (provider) {
+    case 'anthropic':
+      return {
+        provider,
+        model: tierModel || sharedModel || process.env.ANTHROPIC_MODEL || DEFAULT_MODELS.anthropic,
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        baseUrl: process.env.ANTHROPIC_BASE_URL,
+      };
+    case 'local':
+      return {
+        provider,
+        model: tierModel || sharedModel || process.env.LOCAL_LLM_MODEL || DEFAULT_MODELS.local,
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      };
+    case 'openai':
+    default:
+      return {
+        provider: 'openai',
+        model: tierModel || sharedModel || process.env.OPENAI_MODEL || DEFAULT_MODELS.openai,
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_BASE_URL,
+      };
+  }
+}
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  if (config.provider === 'anthropic') {
+    return createAnthropicProvider(config);
+  }
+  // 'local' speaks the OpenAI wire format
+  return createOpenAIProvider(config);
+}
+
+/**
+ * Returns the provider configured for this deployment and (optionally) a model tier
+ */
+export function getLLMProvider(tier?: string | null): LLMProvider {
+  return createLLMProvider(resolveLLMConfig(tier));
+}
@@ -0,0 +1,70 @@
+import type { LLMMessage, LLMProvider, LLMProviderConfig, LLMRequestOptions } from './types';
+import { readSSEData, readProviderError } from './sse';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Adapter for the OpenAI Chat Completions API.
+ * Also used for OpenAI-compatible local servers (Ollama, llama.cpp server)
+ * by pointing `baseUrl` at their `/v1` endpoint.
+ */
+export function createOpenAIProvider(config: LLMProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, '');
+  const label = config.provider === 'local' ? 'Local LLM' : 'OpenAI';
+
+  const request = (messages: LLMMessage[], options: LLMRequestOptions, stream: boolean) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually don't need a key
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    return fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        stream,
+      }),
+      signal: options.signal,
+    });
+  };
+
+  return {
+    name: config.provider,
+    model: config.model,
+
+    async complete(messages, options = {}) {
+      const res = await request(messages, options, false);
+      if (!res.ok) throw await readProviderError(label, res);
+      const data = await res.json();
+      return data?.choices?.[0]?.message?.content ?? '';
+    },
+
+    async *stream(messages, options = {}) {
+      const res = await request(messages, options, true);
+      if (!res.ok) throw await readProviderError(label, res);
+
+      for await (const payload of readSSEData(res)) {
+        // Handle OpenAI's [DONE] marker
+        if (!payload || payload === '[DONE]') continue;
+
+        let data: any;
+        try {
+          data = JSON.parse(payload);
+        } catch (e) {
+          console.error(`Error parsing ${label} SSE chunk:`, e);
+          continue;
+        }
+
+        const choice = data?.choices?.[0];
+        const content = choice?.delta?.content;
+        if (content) yield content;
+
+        // Stream is done
+        if (choice?.finish_reason) return;
+      }
+    },
+  };
+}
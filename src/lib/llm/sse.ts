@@ -0,0 +1,46 @@
+/**
+ * Reads a Server-Sent Events response body and yields the payload of each `data:` line.
+ * Incomplete lines are buffered until the next chunk arrives.
+ */
+export async function* readSSEData(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body from LLM provider');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Builds a readable error message from a failed provider response
+ */
+export async function readProviderError(providerLabel: string, response: Response): Promise<Error> {
+  const errorText = await response.text().catch(() => '');
+  let message = errorText || response.statusText || 'Unknown AI error';
+  try {
+    const parsed = JSON.parse(errorText);
+    message = parsed?.error?.message || parsed?.message || message;
+  } catch {
+    // Not JSON - keep raw text
+  }
+  return new Error(`${providerLabel} API error: ${message}`);
+}
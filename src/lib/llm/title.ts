@@ -0,0 +1,47 @@
+import type { LLMProvider } from './types';
+
+/**
+ * Generate a concise chat title (1-4 words) from the first user message
+ */
+export async function generateChatTitle(provider: LLMProvider, firstMessage: string): Promise<string> {
+  try {
+    const prompt = `Create a very short, concise title for this conversation. The title should be 1-4 words maximum, summarizing the main topic or question.
+
+Rules:
+- No punctuation (no periods, commas, quotes, etc.)
+- No emojis
+- Use only the most important keywords
+- Keep it as brief as possible while still being descriptive
+
+User message: "${firstMessage.trim()}"
+
+Return ONLY the title, nothing else:`;
+
+    const raw = await provider.complete(
+      [
+        {
+          role: 'system',
+          content: 'You are a title generator. Generate very short, concise titles (1-4 words) with no punctuation or emojis.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      { maxTokens: 15, temperature: 0.3 }
+    );
+
+    // Clean up: remove any punctuation, quotes, emojis
+    const title = raw.trim().replace(/[.,;:!?'"()\[\]{}]/g, '').replace(/[^\w\s]/g, '').trim();
+    // Limit to 50 characters and ensure it's not empty
+    if (title && title.length > 0) {
+      return title.slice(0, 50);
+    }
+  } catch (error) {
+    console.error('Error generating chat title:', error);
+  }
+
+  // Fallback: create a simple title from the first few words
+  const words = firstMessage.trim().split(/\s+/).slice(0, 4);
+  return words.join(' ') || 'New Chat';
+}
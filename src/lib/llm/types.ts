@@ -0,0 +1,48 @@
+/**
+ * Shared types for the LLM provider layer
+ */
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMRequestOptions {
+  maxTokens?: number;
+  temperature?: number;
+  // Aborts the upstream request (and stream) when signalled
+  signal?: AbortSignal;
+}
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Common interface implemented by every provider adapter.
+ * Routes only talk to this, never to a vendor API directly.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  /** Returns the full completion as a single string */
+  complete(messages: LLMMessage[], options?: LLMRequestOptions): Promise<string>;
+  /** Yields content deltas as they arrive from the upstream stream */
+  stream(messages: LLMMessage[], options?: LLMRequestOptions): AsyncGenerator<string>;
+}
+
+/**
+ * Turns text into vectors for retrieval (see src/lib/rag)
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  /** One vector per input, in the same order */
+  embed(inputs: string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+}
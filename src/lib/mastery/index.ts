@@ -0,0 +1,204 @@
+/**
+ * Concept mastery
+ *
+ * A learner model per user: for each subject and concept, how well the student has
+ * shown they understand it. Evidence comes from graded quiz questions and from the
+ * tutor's progress notes on answers to its check questions (./parse.ts); each piece
+ * moves the concept's mastery towards 1 (correct) or 0 (wrong). The chat route tells
+ * the tutor about the concepts relevant to the conversation, so it skips prerequisites
+ * the student already knows and revisits weak ones. Evidence is recorded with the
+ * service role client. See migrations/add_concept_mastery.sql.
+ */
+
+import { cleanName, MAX_PROGRESS_ITEMS, PROGRESS_INSTRUCTIONS } from './parse';
+
+export { createProgressBlockFilter, parseProgressBlock, PROGRESS_INSTRUCTIONS } from './parse';
+export type { ProgressDraft } from './parse';
+
+export type EvidenceSource = 'quiz' | 'check';
+
+export interface ConceptEvidence {
+  subject: string;
+  concept: string;
+  correct: boolean;
+  source: EvidenceSource;
+  chatId: string | null;
+  // What the evidence came from (the quiz question, or the student message answering a
+  // check question); recording the same evidence again is a no-op
+  sourceId: string;
+}
+
+export interface ConceptMastery {
+  subject: string;
+  concept: string;
+  // 0-1, recent evidence weighs most
+  mastery: number;
+  attempts: number;
+  correctCount: number;
+  lastEvidenceAt: string;
+}
+
+export type MasteryLevel = 'known' | 'learning' | 'weak';
+
+// At or above: the student has shown they understand the concept (two correct answers in a row)
+const KNOWN_MASTERY = 0.8;
+// At or below: the student struggles with it (a wrong answer)
+const WEAK_MASTERY = 0.35;
+// A known concept not seen for this long may need a refresher
+const STALE_AFTER_DAYS = 90;
+// Concepts read per user, most recently practised first
+const MAX_LOADED_CONCEPTS = 500;
+// Concepts described to the tutor in one prompt
+const MAX_PROMPT_CONCEPTS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function nameKey(name: string): string {
+  return name.toLowerCase();
+}
+
+/**
+ * Records evidence of what the student understands. Returns how many pieces were new.
+ * Needs the service role client.
+ */
+export async function recordEvidence(admin: any, userId: string, evidence: ConceptEvidence[]): Promise<number> {
+  const items = evidence
+    .map(item => ({
+      subject: cleanName(item.subject),
+      concept: cleanName(item.concept),
+      correct: item.correct,
+      source: item.source,
+      chat_id: item.chatId,
+      source_id: item.sourceId,
+    }))
+    .filter(item => item.subject && item.concept);
+  if (items.length === 0) return 0;
+  const { data, error } = await admin.rpc('record_concept_evidence', { p_user_id: userId, p_items: items });
+  if (error) {
+    throw new Error(`Failed to record concept evidence: ${error.message}`);
+  }
+  return data ?? 0;
+}
+
+/**
+ * Evidence from a progress block on the student message `messageId` answered
+ */
+export function toCheckEvidence(drafts: { subject: string; concept: string; correct: boolean }[], chatId: string, messageId: string): ConceptEvidence[] {
+  return drafts.slice(0, MAX_PROGRESS_ITEMS).map(draft => ({ ...draft, source: 'check' as const, chatId, sourceId: messageId }));
+}
+
+export async function loadMastery(supabase: any, userId: string): Promise<ConceptMastery[]> {
+  const { data, error } = await supabase
+    .from('concept_mastery')
+    .select('subject, concept, mastery, attempts, correct_count, last_evidence_at')
+    .eq('user_id', userId)
+    .order('last_evidence_at', { ascending: false })
+    .limit(MAX_LOADED_CONCEPTS);
+  if (error) {
+    throw new Error(`Failed to load concept mastery: ${error.message}`);
+  }
+  return (data || []).map((row: any) => ({
+    subject: row.subject,
+    concept: row.concept,
+    mastery: row.mastery,
+    attempts: row.attempts,
+    correctCount: row.correct_count,
+    lastEvidenceAt: row.last_evidence_at,
+  }));
+}
+
+/**
+ * Subjects the student practised in a chat (lowercase)
+ */
+export async function loadChatSubjects(supabase: any, userId: string, chatId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('concept_evidence')
+    .select('subject_key')
+    .eq('user_id', userId)
+    .eq('chat_id', chatId);
+  if (error) {
+    throw new Error(`Failed to load chat subjects: ${error.message}`);
+  }
+  return new Set((data || []).map((row: any) => row.subject_key));
+}
+
+export function masteryLevel(concept: ConceptMastery, now = new Date()): MasteryLevel {
+  if (concept.mastery <= WEAK_MASTERY) return 'weak';
+  if (concept.mastery < KNOWN_MASTERY) return 'learning';
+  const idleDays = (now.getTime() - Date.parse(concept.lastEvidenceAt)) / DAY_MS;
+  return idleDays > STALE_AFTER_DAYS ? 'learning' : 'known';
+}
+
+// Whether every word of `name` (ignoring short ones) appears in `text` (lowercase)
+function mentions(text: string, name: string): boolean {
+  const words = nameKey(name).split(/[^a-z0-9]+/).filter(word => word.length >= 3);
+  return words.length > 0 && words.every(word => text.includes(word));
+}
+
+/**
+ * The concepts that matter for a conversation: those it mentions, then those of the
+ * subjects practised in the chat or named in it, then the most recently practised
+ */
+export function selectRelevantConcepts(concepts: ConceptMastery[], context: { text: string; subjects: Set<string> }, limit = MAX_PROMPT_CONCEPTS): ConceptMastery[] {
+  const text = context.text.toLowerCase();
+  const subjectMentioned = new Map<string, boolean>();
+  const relevance = (concept: ConceptMastery) => {
+    const subject = nameKey(concept.subject);
+    if (!subjectMentioned.has(subject)) subjectMentioned.set(subject, context.subjects.has(subject) || mentions(text, concept.subject));
+    return (mentions(text, concept.concept) ? 2 : 0) + (subjectMentioned.get(subject) ? 1 : 0);
+  };
+  // Already ordered by recency, which breaks ties (the sort is stable)
+  return concepts
+    .map(concept => ({ concept, score: relevance(concept) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => entry.concept);
+}
+
+function listBySubject(concepts: ConceptMastery[], withResults: boolean): string {
+  const bySubject = new Map<string, string[]>();
+  for (const concept of concepts) {
+    const names = bySubject.get(concept.subject) || [];
+    names.push(withResults ? `${concept.concept} (${concept.correctCount}/${concept.attempts} correct)` : concept.concept);
+    bySubject.set(concept.subject, names);
+  }
+  return Array.from(bySubject.entries(), ([subject, names]) => `- ${subject}: ${names.join(', ')}`).join('\n');
+}
+
+/**
+ * What the tutor is told about the student's progress, or '' when nothing is known yet
+ */
+export function describeMastery(concepts: ConceptMastery[], allSubjects: string[], now = new Date()): string {
+  if (concepts.length === 0) return '';
+  const known = concepts.filter(c => masteryLevel(c, now) === 'known');
+  const weak = concepts.filter(c => masteryLevel(c, now) === 'weak');
+  const learning = concepts.filter(c => masteryLevel(c, now) === 'learning');
+
+  const sections = ["## The student's progress\n\nFrom quizzes and answers to check questions in this and earlier chats."];
+  if (known.length > 0) {
+    sections.push(`Already understood (skip prerequisite checks for these and build on them; a one-line reminder is fine):\n${listBySubject(known, false)}`);
+  }
+  if (weak.length > 0) {
+    sections.push(`Struggled with (revisit briefly and check again before building on them):\n${listBySubject(weak, true)}`);
+  }
+  if (learning.length > 0) {
+    sections.push(`Still learning (a quick check is worthwhile):\n${listBySubject(learning, true)}`);
+  }
+  if (allSubjects.length > 0) {
+    sections.push(`Subjects so far: ${allSubjects.join(', ')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * The progress-note instructions plus what is known about the student that is
+ * relevant to this conversation (`contextText`: recent messages, the tutor's name)
+ */
+export async function buildMasteryPrompt(supabase: any, userId: string, chatId: string, contextText: string): Promise<string> {
+  const [concepts, subjects] = await Promise.all([
+    loadMastery(supabase, userId),
+    loadChatSubjects(supabase, userId, chatId),
+  ]);
+  const allSubjects = Array.from(new Map(concepts.map(c => [nameKey(c.subject), c.subject])).values());
+  const notes = describeMastery(selectRelevantConcepts(concepts, { text: contextText, subjects }), allSubjects);
+  return notes ? `${PROGRESS_INSTRUCTIONS}\n\n${notes}` : PROGRESS_INSTRUCTIONS;
+}
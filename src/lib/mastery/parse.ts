@@ -0,0 +1,69 @@
+/**
+ * Progress notes written by the tutor
+ *
+ * When a student answers one of the tutor's check questions, the tutor notes whether
+ * they got it right as a ```progress fenced block of JSON (PROGRESS_INSTRUCTIONS). The
+ * chat route holds those blocks back like quiz blocks and records the evidence.
+ */
+
+import { createFencedBlockFilter, FencedBlockFilter } from '@/lib/streaming/blocks';
+
+// Most concepts recorded from one answer
+export const MAX_PROGRESS_ITEMS = 5;
+export const MAX_NAME_LENGTH = 120;
+
+export interface ProgressDraft {
+  subject: string;
+  concept: string;
+  correct: boolean;
+}
+
+export const PROGRESS_INSTRUCTIONS = `## Progress notes
+
+The app keeps track of which concepts the student has shown they understand, across all their chats. When the student's last message answers one of your check questions (or a prerequisite question), note the result in a progress block at the very end of your reply:
+
+\`\`\`progress
+{"subject": "Biology", "concepts": [{"concept": "Plant cells", "correct": true}]}
+\`\`\`
+
+Rules:
+- Only note what the student demonstrated by answering; "yes, I know that" is not evidence.
+- "correct" is true when the answer shows they understand the concept, false when it shows they don't.
+- Name the subject and concepts in a few words each, and reuse the names listed under the student's progress when they fit.
+- The student doesn't see the block; don't mention it. Leave it out when there is nothing to note.`;
+
+/**
+ * Splits a streamed answer into what the student sees and the progress blocks in it
+ */
+export function createProgressBlockFilter(): FencedBlockFilter {
+  return createFencedBlockFilter('progress');
+}
+
+/**
+ * Collapses whitespace and caps the length of a subject or concept name
+ */
+export function cleanName(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH) : '';
+}
+
+/**
+ * The evidence in a progress block; items that don't follow the format are left out
+ */
+export function parseProgressBlock(block: string): ProgressDraft[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(block.trim());
+  } catch {
+    return [];
+  }
+  const subject = cleanName(raw?.subject);
+  const list = Array.isArray(raw?.concepts) ? raw.concepts : [];
+  if (!subject) return [];
+  return list
+    .map((item: any): ProgressDraft | null => {
+      const concept = cleanName(item?.concept);
+      return concept && typeof item?.correct === 'boolean' ? { subject, concept, correct: item.correct } : null;
+    })
+    .filter((item: ProgressDraft | null): item is ProgressDraft => item !== null)
+    .slice(0, MAX_PROGRESS_ITEMS);
+}
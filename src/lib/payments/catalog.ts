@@ -0,0 +1,68 @@
+/**
+ * Everything that can be bought, priced on the server.
+ * Clients only send a product id; amounts and credits never come from the request.
+ * Plan packs mirror the paid plans on PricingPage.
+ */
+
+export interface Product {
+  id: string;
+  name: string;
+  // Smallest currency unit (paise)
+  amount: number;
+  currency: 'INR';
+  tutorCredits: number;
+  atlasCredits: number;
+  // Plan this purchase belongs to, if it is a plan pack
+  plan?: string;
+}
+
+export const PRODUCTS: Product[] = [
+  {
+    id: 'last_night_preparer',
+    name: 'Last-Night Preparer',
+    amount: 9900,
+    currency: 'INR',
+    tutorCredits: 100,
+    atlasCredits: 25,
+    plan: 'last_night_preparer',
+  },
+  {
+    id: 'exam_sprint',
+    name: 'Exam Sprint Plan',
+    amount: 25000,
+    currency: 'INR',
+    tutorCredits: 200,
+    atlasCredits: 0,
+    plan: 'exam_sprint',
+  },
+  {
+    id: 'term_mastery',
+    name: 'Term Mastery Plan',
+    amount: 250000,
+    currency: 'INR',
+    tutorCredits: 2000,
+    atlasCredits: 1000,
+    plan: 'term_mastery',
+  },
+  // Top-ups from the Credits tab in settings
+  {
+    id: 'credits_20',
+    name: '20 Credits',
+    amount: 3000,
+    currency: 'INR',
+    tutorCredits: 20,
+    atlasCredits: 0,
+  },
+  {
+    id: 'credits_100',
+    name: '100 Credits',
+    amount: 12000,
+    currency: 'INR',
+    tutorCredits: 100,
+    atlasCredits: 0,
+  },
+];
+
+export function getProduct(productId: string): Product | null {
+  return PRODUCTS.find(p => p.id === productId) || null;
+}
@@ -0,0 +1,86 @@
+import { supabase } from "../supabase/client";
+
+const RAZORPAY_CHECKOUT_SCRIPT = 'https://checkout.razorpay.com/v1/checkout.js';
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type CheckoutStatus = 'starting' | 'awaiting_payment' | 'confirming';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return { 'Authorization': `Bearer ${session?.access_token}` };
+}
+
+function loadRazorpayScript(): Promise<void> {
+  if ((window as any).Razorpay) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = RAZORPAY_CHECKOUT_SCRIPT;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error('Failed to load payment checkout'));
+    document.body.appendChild(script);
+  });
+}
+
+function openRazorpay(checkout: any, product: any): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const razorpay = new (window as any).Razorpay({
+      key: checkout.keyId,
+      order_id: checkout.orderId,
+      amount: product.amount,
+      currency: product.currency,
+      description: product.name,
+      theme: { color: '#5A5BEF' },
+      // Only tells us the user finished; credits wait for the verified webhook
+      handler: () => resolve(),
+      modal: { ondismiss: () => reject(new Error('Payment cancelled')) },
+    });
+    razorpay.on('payment.failed', () => reject(new Error('Payment failed')));
+    razorpay.open();
+  });
+}
+
+/**
+ * Waits until the server has confirmed the order through the provider webhook
+ */
+async function waitForOrderPaid(orderId: string): Promise<void> {
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < POLL_TIMEOUT_MS) {
+    const res = await fetch(`/api/payments/orders/${encodeURIComponent(orderId)}`, { headers: await authHeaders() });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) {
+      if (data.order?.status === 'paid') return;
+      if (data.order?.status === 'failed') throw new Error('Payment failed');
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  throw new Error('Payment is taking longer than expected. Your credits will appear once it is confirmed.');
+}
+
+/**
+ * Buys a catalog product. Resolves once the payment is confirmed server-side.
+ */
+export async function startCheckout(productId: string, onStatus?: (status: CheckoutStatus) => void): Promise<void> {
+  onStatus?.('starting');
+  const res = await fetch('/api/payments/checkout', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ productId }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to start checkout');
+  }
+
+  onStatus?.('awaiting_payment');
+  if (data.provider === 'razorpay') {
+    await loadRazorpayScript();
+    await openRazorpay(data.checkout, data.product);
+  } else {
+    // Local stand-in: confirm with `node scripts/localPaymentWebhook.js <orderId>`
+    console.log('[PAYMENTS] Local order created:', data.checkout?.orderId);
+  }
+
+  onStatus?.('confirming');
+  await waitForOrderPaid(data.orderId);
+}
@@ -0,0 +1,36 @@
+/**
+ * Payment provider selection
+ *
+ * PAYMENT_PROVIDER chooses the provider for this deployment:
+ *   razorpay - RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET
+ *   local    - LOCAL_PAYMENT_WEBHOOK_SECRET (development stand-in, signs its own webhooks)
+ */
+
+import type { PaymentProvider, PaymentProviderName } from './types';
+import { createRazorpayProvider } from './razorpay';
+import { createLocalPaymentProvider } from './local';
+
+export type { PaymentEvent, PaymentProvider, PaymentProviderName } from './types';
+export { getProduct, PRODUCTS } from './catalog';
+export type { Product } from './catalog';
+
+export function getPaymentProviderName(): PaymentProviderName {
+  const name = (process.env.PAYMENT_PROVIDER || '').trim().toLowerCase();
+  return name === 'local' ? 'local' : 'razorpay';
+}
+
+/**
+ * Returns the configured provider, or null if its credentials are missing
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+  if (getPaymentProviderName() === 'local') {
+    const secret = process.env.LOCAL_PAYMENT_WEBHOOK_SECRET;
+    return secret ? createLocalPaymentProvider(secret) : null;
+  }
+
+  const keyId = process.env.RAZORPAY_KEY_ID;
+  const keySecret = process.env.RAZORPAY_KEY_SECRET;
+  const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!keyId || !keySecret || !webhookSecret) return null;
+  return createRazorpayProvider({ keyId, keySecret, webhookSecret });
+}
@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto';
+import type { PaymentProvider } from './types';
+import { hmacSha256Hex, isValidSignature } from './signature';
+
+export const LOCAL_SIGNATURE_HEADER = 'X-Local-Payment-Signature';
+
+/**
+ * Stand-in payment provider for development and tests.
+ * Orders are created locally; a payment is "made" by posting a webhook signed with
+ * LOCAL_PAYMENT_WEBHOOK_SECRET (see signLocalPaymentEvent).
+ */
+export function createLocalPaymentProvider(webhookSecret: string): PaymentProvider {
+  return {
+    name: 'local',
+
+    async createOrder() {
+      const providerOrderId = `order_local_${randomUUID()}`;
+      return { providerOrderId, checkout: { orderId: providerOrderId } };
+    },
+
+    verifyWebhook(rawBody, headers) {
+      if (!isValidSignature(webhookSecret, rawBody, headers.get(LOCAL_SIGNATURE_HEADER))) {
+        return null;
+      }
+      let event: any;
+      try {
+        event = JSON.parse(rawBody);
+      } catch {
+        return null;
+      }
+      if (event?.type !== 'paid' && event?.type !== 'failed') return { type: 'ignored' };
+      return {
+        type: event.type,
+        providerOrderId: event.orderId,
+        providerPaymentId: event.paymentId || `pay_local_${randomUUID()}`,
+        amount: event.amount,
+      };
+    },
+  };
+}
+
+/**
+ * Builds a signed webhook request body for the local provider
+ */
+export function signLocalPaymentEvent(
+  webhookSecret: string,
+  event: { type: 'paid' | 'failed'; orderId: string; amount?: number; paymentId?: string }
+) {
+  const body = JSON.stringify(event);
+  return { body, signature: hmacSha256Hex(webhookSecret, body) };
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import { applyCreditTransaction } from '@/lib/credits/ledger';
+import { activateSubscription } from '@/lib/subscriptions';
+import { getProduct, Product } from './catalog';
+import type { PaymentEvent, PaymentProvider } from './types';
+
+export type PaymentOrderStatus = 'created' | 'paid' | 'failed';
+
+/**
+ * Creates the provider order and records it as `created`.
+ * Needs the service role client: users can't write payment_orders themselves.
+ */
+export async function createPaymentOrder(admin: any, provider: PaymentProvider, userId: string, product: Product) {
+  const orderId = randomUUID();
+  const providerOrder = await provider.createOrder({
+    amount: product.amount,
+    currency: product.currency,
+    receipt: orderId,
+    notes: { userId, productId: product.id },
+  });
+
+  const { error } = await admin
+    .from('payment_orders')
+    .insert({
+      id: orderId,
+      user_id: userId,
+      product_id: product.id,
+      amount: product.amount,
+      currency: product.currency,
+      provider: provider.name,
+      provider_order_id: providerOrder.providerOrderId,
+      status: 'created',
+    });
+  if (error) {
+    throw new Error(`Failed to save payment order: ${error.message}`);
+  }
+
+  return { orderId, providerOrderId: providerOrder.providerOrderId, checkout: providerOrder.checkout };
+}
+
+/**
+ * Applies a verified webhook event. Safe to call repeatedly for the same payment:
+ * the credit grants use the order id as ledger reference in each pool and plan
+ * packs start at most one subscription per order.
+ * Returns false when the event doesn't match a known order.
+ */
+export async function fulfillPaymentEvent(admin: any, provider: PaymentProvider, event: PaymentEvent): Promise<boolean> {
+  if (event.type === 'ignored') return true;
+  if (!event.providerOrderId) return false;
+
+  const { data: order } = await admin
+    .from('payment_orders')
+    .select('id, user_id, product_id, amount, status')
+    .eq('provider', provider.name)
+    .eq('provider_order_id', event.providerOrderId)
+    .maybeSingle();
+  if (!order) return false;
+
+  if (event.type === 'failed') {
+    await admin
+      .from('payment_orders')
+      .update({ status: 'failed', provider_payment_id: event.providerPaymentId || null })
+      .eq('id', order.id)
+      .eq('status', 'created');
+    return true;
+  }
+
+  if (typeof event.amount === 'number' && event.amount !== order.amount) {
+    console.error('[PAYMENTS] Amount mismatch for order', order.id, event.amount, '!=', order.amount);
+    return false;
+  }
+  const product = getProduct(order.product_id);
+  if (!product) {
+    console.error('[PAYMENTS] Unknown product on order', order.id, order.product_id);
+    return false;
+  }
+
+  // A failed attempt can still be followed by a successful payment for the same order
+  const { error: updateError } = await admin
+    .from('payment_orders')
+    .update({ status: 'paid', provider_payment_id: event.providerPaymentId || null, paid_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .in('status', ['created', 'failed']);
+  if (updateError) {
+    throw new Error(`Failed to update payment order: ${updateError.message}`);
+  }
+
+  const metadata = { productId: product.id, providerPaymentId: event.providerPaymentId || null };
+  if (product.tutorCredits > 0) {
+    await applyCreditTransaction(admin, {
+      userId: order.user_id,
+      amount: product.tutorCredits,
+      type: 'purchase',
+      description: `Purchased ${product.name}`,
+      reference: order.id,
+      metadata,
+    });
+  }
+  if (product.atlasCredits > 0) {
+    await applyCreditTransaction(admin, {
+      userId: order.user_id,
+      amount: product.atlasCredits,
+      type: 'purchase',
+      description: `Purchased ${product.name}`,
+      reference: order.id,
+      metadata,
+      pool: 'atlas',
+    });
+  }
+  if (product.plan) {
+    await activateSubscription(admin, order.user_id, product.plan, order.id);
+  }
+  return true;
+}
@@ -0,0 +1,68 @@
+import type { PaymentProvider } from './types';
+import { isValidSignature } from './signature';
+
+const RAZORPAY_API_URL = 'https://api.razorpay.com/v1';
+
+interface RazorpayConfig {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+}
+
+/**
+ * Razorpay Orders API + webhooks.
+ * Webhooks are signed with HMAC-SHA256 of the raw body (X-Razorpay-Signature).
+ */
+export function createRazorpayProvider(config: RazorpayConfig): PaymentProvider {
+  return {
+    name: 'razorpay',
+
+    async createOrder({ amount, currency, receipt, notes }) {
+      const res = await fetch(`${RAZORPAY_API_URL}/orders`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Basic ${Buffer.from(`${config.keyId}:${config.keySecret}`).toString('base64')}`,
+        },
+        body: JSON.stringify({ amount, currency, receipt, notes }),
+      });
+      if (!res.ok) {
+        const errorText = await res.text().catch(() => '');
+        throw new Error(`Razorpay API error: ${errorText || res.statusText}`);
+      }
+      const order = await res.json();
+      return {
+        providerOrderId: order.id,
+        checkout: { keyId: config.keyId, orderId: order.id },
+      };
+    },
+
+    verifyWebhook(rawBody, headers) {
+      if (!isValidSignature(config.webhookSecret, rawBody, headers.get('X-Razorpay-Signature'))) {
+        return null;
+      }
+      let event: any;
+      try {
+        event = JSON.parse(rawBody);
+      } catch {
+        return null;
+      }
+
+      const payment = event?.payload?.payment?.entity;
+      switch (event?.event) {
+        case 'payment.captured':
+        case 'order.paid':
+          return {
+            type: 'paid',
+            providerOrderId: payment?.order_id || event?.payload?.order?.entity?.id,
+            providerPaymentId: payment?.id,
+            amount: payment?.amount,
+          };
+        case 'payment.failed':
+          return { type: 'failed', providerOrderId: payment?.order_id, providerPaymentId: payment?.id };
+        default:
+          return { type: 'ignored' };
+      }
+    },
+  };
+}
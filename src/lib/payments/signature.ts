@@ -0,0 +1,15 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export function hmacSha256Hex(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Constant-time comparison of a hex HMAC signature
+ */
+export function isValidSignature(secret: string, payload: string, signature: string | null): boolean {
+  if (!secret || !signature) return false;
+  const expected = Buffer.from(hmacSha256Hex(secret, payload), 'utf8');
+  const received = Buffer.from(signature.trim(), 'utf8');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,34 @@
+export type PaymentProviderName = 'razorpay' | 'local';
+
+export interface CreateOrderInput {
+  // Smallest currency unit (paise)
+  amount: number;
+  currency: string;
+  // Our payment_orders id, echoed back by the provider
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface ProviderOrder {
+  providerOrderId: string;
+  // Public values the browser needs to open the provider's checkout
+  checkout: Record<string, unknown>;
+}
+
+/**
+ * A verified webhook event.
+ * `paid` confirms the order; `failed` marks it failed; anything else is ignored.
+ */
+export interface PaymentEvent {
+  type: 'paid' | 'failed' | 'ignored';
+  providerOrderId?: string;
+  providerPaymentId?: string;
+  amount?: number;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createOrder(input: CreateOrderInput): Promise<ProviderOrder>;
+  // Returns null when the signature doesn't match
+  verifyWebhook(rawBody: string, headers: Headers): PaymentEvent | null;
+}
@@ -49,7 +49,8 @@ export async function extractTextFromBuffer(buffer) {
     for (let i = 1; i <= pdf.numPages; i++) {
       const page = await pdf.getPage(i);
       const content = await page.getTextContent();
-      text += content.items.map((item) => item.str).join(' ') + '\n';
+      // Same page marker pdf-parse appends (used to cite pages)
+      text += content.items.map((item) => item.str).join(' ') + `\n-- ${i} of ${pdf.numPages} --\n`;
     }
     
     return text;
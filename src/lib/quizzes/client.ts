@@ -0,0 +1,47 @@
+import { supabase } from "../supabase/client";
+import type { Quiz, QuizResponse, QuizTopicResults } from "./types";
+
+export type { Quiz, QuizQuestion, QuizQuestionResult, QuizResponse, QuizTopicResults } from "./types";
+
+// Calls a quiz endpoint; throws with the server's message when it fails
+async function quizRequest(path: string, init: RequestInit = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+  const res = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Request failed');
+  return data;
+}
+
+/**
+ * A quiz from the chat, with its results once submitted
+ */
+export async function getQuiz(quizId: string): Promise<Quiz> {
+  const data = await quizRequest(`/api/quizzes/${encodeURIComponent(quizId)}`);
+  return data.quiz;
+}
+
+/**
+ * Sends the answers to be graded; returns the quiz with its results
+ */
+export async function submitQuiz(quizId: string, answers: QuizResponse[]): Promise<Quiz> {
+  const data = await quizRequest(`/api/quizzes/${encodeURIComponent(quizId)}/submit`, {
+    method: 'POST',
+    body: JSON.stringify({ answers }),
+  });
+  return data.quiz;
+}
+
+/**
+ * Quiz results of a chat by topic
+ */
+export async function listQuizResults(chatId: string): Promise<QuizTopicResults[]> {
+  const data = await quizRequest(`/api/quizzes?chatId=${encodeURIComponent(chatId)}`);
+  return data.topics || [];
+}
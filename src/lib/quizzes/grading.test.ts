@@ -0,0 +1,92 @@
+/**
+ * Unit tests for gradeAnswer
+ *
+ * Run this file with: npx tsx src/lib/quizzes/grading.test.ts
+ * Or import into your test runner of choice
+ */
+
+import { gradeAnswer } from './grading';
+import type { QuizQuestionDraft } from './parse';
+
+const choice: QuizQuestionDraft = {
+  kind: 'multiple_choice',
+  prompt: 'Which organelle makes ATP?',
+  choices: ['Nucleus', 'Mitochondrion', 'Ribosome'],
+  answer: { choice: 1 },
+  explanation: null,
+};
+
+const numeric: QuizQuestionDraft = {
+  kind: 'numeric',
+  prompt: 'How fast does light travel, in km/s?',
+  unit: 'km/s',
+  answer: { value: 300000, tolerance: 500 },
+  explanation: null,
+};
+
+const noTolerance: QuizQuestionDraft = {
+  kind: 'numeric',
+  prompt: 'What is 1/3 as a decimal?',
+  answer: { value: 0.3333, tolerance: null },
+  explanation: null,
+};
+
+const shortAnswer = (accepted: string[], keywords: string[] = []): QuizQuestionDraft => ({
+  kind: 'short_answer',
+  prompt: 'Name the process.',
+  answer: { accepted, keywords },
+  explanation: null,
+});
+
+// Test cases
+const tests = [
+  { name: 'Choice: right index', question: choice, response: '1', correct: true },
+  { name: 'Choice: wrong index', question: choice, response: '0', correct: false },
+  { name: 'Choice: not an index', question: choice, response: 'Mitochondrion', correct: false },
+  { name: 'Numeric: exact with separators and unit', question: numeric, response: '300,000 km/s', correct: true },
+  { name: 'Numeric: within tolerance', question: numeric, response: '299800', correct: true },
+  { name: 'Numeric: outside tolerance', question: numeric, response: '299000', correct: false },
+  { name: 'Numeric: default 1% tolerance, as a fraction', question: noTolerance, response: '1/3', correct: true },
+  { name: 'Numeric: not a number', question: numeric, response: 'fast', correct: false },
+  { name: 'Short answer: case, accents and articles', question: shortAnswer(['The café']), response: 'CAFE', correct: true },
+  { name: 'Short answer: one typo in a long word', question: shortAnswer(['photosynthesis']), response: 'photosyntesis', correct: true },
+  { name: 'Short answer: wrong answer', question: shortAnswer(['photosynthesis']), response: 'respiration', correct: false },
+  { name: 'Short answer: keywords', question: shortAnswer(['light reactions'], ['chlorophyll']), response: 'it uses chlorophyll', correct: true },
+  { name: 'Short answer: Devanagari, verbatim', question: shortAnswer(['प्रकाश संश्लेषण']), response: 'प्रकाश संश्लेषण', correct: true },
+  { name: 'Short answer: Devanagari, wrong', question: shortAnswer(['प्रकाश संश्लेषण']), response: 'श्वसन', correct: false },
+  { name: 'Short answer: Tamil with punctuation', question: shortAnswer(['ஒளிச்சேர்க்கை']), response: 'ஒளிச்சேர்க்கை.', correct: true },
+  { name: 'Short answer: Arabic', question: shortAnswer(['التمثيل الضوئي']), response: 'التمثيل الضوئي', correct: true },
+  { name: 'Short answer: Chinese', question: shortAnswer(['光合作用']), response: '光合作用', correct: true },
+  { name: 'Short answer: Chinese, wrong', question: shortAnswer(['光合作用']), response: '呼吸作用', correct: false },
+  { name: 'Short answer: empty', question: shortAnswer(['光合作用']), response: '  ', correct: false },
+];
+
+// Run tests
+let passed = 0;
+let failed = 0;
+
+console.log('Running gradeAnswer tests...\n');
+
+tests.forEach((test, index) => {
+  const result = gradeAnswer(test.question, test.response);
+
+  if (result.correct === test.correct) {
+    console.log(`✓ Test ${index + 1}: ${test.name}`);
+    passed++;
+  } else {
+    console.error(`✗ Test ${index + 1}: ${test.name}`);
+    console.error(`  Response: ${test.response}`);
+    console.error(`  Graded:   ${result.correct ? 'correct' : 'wrong'} (expected ${result.expected})`);
+    failed++;
+  }
+});
+
+console.log(`\nResults: ${passed} passed, ${failed} failed`);
+
+if (failed === 0) {
+  console.log('All tests passed! ✓');
+  process.exit(0);
+} else {
+  console.error('Some tests failed! ✗');
+  process.exit(1);
+}
@@ -0,0 +1,118 @@
+/**
+ * Grading quiz answers against the answer key (on the server only)
+ *
+ * Multiple choice answers must pick the right choice. Numeric answers may carry
+ * thousands separators, a unit or a fraction, and are right within the question's
+ * tolerance (1% of the answer when it has none). Short answers, in any script, are
+ * compared without case, accents, punctuation or English articles, forgiving a typo in
+ * longer words, and a question with keywords accepts any answer containing all of them.
+ */
+
+import type { QuizAnswerKey, QuizQuestionDraft } from './parse';
+
+// Allowed difference when the tutor gave no tolerance, relative to the answer
+const DEFAULT_RELATIVE_TOLERANCE = 0.01;
+// Answers at least this long may be one edit off; twice as long, two edits
+const TYPO_MIN_LENGTH = 6;
+// Everything but letters, marks and digits of any script, spaces, dots and hyphens. Built
+// with RegExp because the compile target doesn't allow the `u` flag in literals.
+const NON_ANSWER_CHARS = new RegExp('[^\\p{L}\\p{M}\\p{N}\\s.-]', 'gu');
+const ANY_DIGIT = new RegExp('\\p{N}', 'u');
+
+export interface GradedAnswer {
+  correct: boolean;
+  // The expected answer as the student should read it
+  expected: string;
+}
+
+export function normalizeShortAnswer(text: string): string {
+  return text
+    .normalize('NFD')
+    // Latin accents; the vowel signs of other scripts (also marks) are kept
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(NON_ANSWER_CHARS, ' ')
+    .replace(/(^|\s)[.-]+|[.-]+(?=\s|$)/g, ' ')
+    .replace(/(^|\s)(the|a|an)(?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Edits between two strings, by character (not UTF-16 unit)
+function editDistance(left: string, right: string): number {
+  const a = Array.from(left);
+  const b = Array.from(right);
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function allowedTypos(expected: string): number {
+  // Numbers must be exact
+  if (ANY_DIGIT.test(expected)) return 0;
+  const length = Array.from(expected).length;
+  if (length >= TYPO_MIN_LENGTH * 2) return 2;
+  return length >= TYPO_MIN_LENGTH ? 1 : 0;
+}
+
+/**
+ * The number in an answer like "1,250", "-3.5 m/s", "2.5e3", "3/4" or "45%", or null
+ */
+export function parseNumericAnswer(text: string): number | null {
+  const cleaned = text.trim().replace(/(\d),(?=\d{3}\b)/g, '$1').replace(/\s+/g, ' ');
+  const fraction = /^([-+]?\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/.exec(cleaned);
+  if (fraction) {
+    const denominator = parseFloat(fraction[2]);
+    return denominator === 0 ? null : parseFloat(fraction[1]) / denominator;
+  }
+  const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/i.exec(cleaned.replace(/^[-+]\s+/, sign => sign.trim()));
+  return match ? parseFloat(match[0]) : null;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString('en-US') : String(parseFloat(value.toPrecision(10)));
+}
+
+function gradeChoice(key: { choice: number }, choices: string[], response: string): GradedAnswer {
+  const picked = /^\d+$/.test(response.trim()) ? parseInt(response, 10) : -1;
+  return { correct: picked === key.choice, expected: choices[key.choice] ?? '' };
+}
+
+function gradeNumber(key: { value: number; tolerance: number | null }, unit: string | null | undefined, response: string): GradedAnswer {
+  const value = parseNumericAnswer(response);
+  const tolerance = key.tolerance ?? Math.abs(key.value) * DEFAULT_RELATIVE_TOLERANCE;
+  // Leaves room for floating point error when the tolerance is 0
+  const correct = value !== null && Math.abs(value - key.value) <= tolerance + Math.abs(key.value) * 1e-9;
+  return { correct, expected: unit ? `${formatNumber(key.value)} ${unit}` : formatNumber(key.value) };
+}
+
+function gradeText(key: { accepted: string[]; keywords: string[] }, response: string): GradedAnswer {
+  const answer = normalizeShortAnswer(response);
+  const expected = key.accepted[0] ?? '';
+  if (!answer) return { correct: false, expected };
+
+  const matchesAccepted = key.accepted.some(accepted => {
+    const normalized = normalizeShortAnswer(accepted);
+    return normalized === answer || editDistance(normalized, answer) <= allowedTypos(normalized);
+  });
+  const words = answer.split(' ');
+  const keywords = key.keywords.map(normalizeShortAnswer).filter(Boolean);
+  const hasKeywords = keywords.length > 0 && keywords.every(keyword =>
+    keyword.includes(' ')
+      ? answer.includes(keyword)
+      : words.some(word => word === keyword || editDistance(word, keyword) <= allowedTypos(keyword)));
+  return { correct: matchesAccepted || hasKeywords, expected };
+}
+
+export function gradeAnswer(question: QuizQuestionDraft, response: string): GradedAnswer {
+  const key: QuizAnswerKey = question.answer;
+  if ('choice' in key) return gradeChoice(key, question.choices || [], response);
+  if ('value' in key) return gradeNumber(key, question.unit, response);
+  return gradeText(key, response);
+}
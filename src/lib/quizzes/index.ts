@@ -0,0 +1,264 @@
+/**
+ * Quizzes
+ *
+ * The tutor writes quizzes into its answers (./parse.ts); the chat route stores them
+ * here with their answer key (saveQuiz) and the chat shows them as quiz cards. The
+ * student submits all answers at once, they are graded on the server (./grading.ts)
+ * and the results are kept per chat and topic. Answer keys are only read with the
+ * service role client. See migrations/add_quizzes.sql.
+ */
+
+import { gradeAnswer } from './grading';
+import type { QuizAnswerKey, QuizDraft, QuizQuestionDraft } from './parse';
+import type { Quiz, QuizQuestion, QuizQuestionResult, QuizResponse, QuizTopicResults } from './types';
+
+export { createQuizBlockFilter, parseQuizBlock, parseQuizCommand, quizCommandInstructions, MAX_QUIZ_QUESTIONS, QUIZ_INSTRUCTIONS } from './parse';
+export type { QuizBlockFilter, QuizDraft } from './parse';
+export type { Quiz, QuizQuestion, QuizQuestionResult, QuizResponse, QuizTopicResults } from './types';
+
+// Longest answer stored for a question
+const MAX_RESPONSE_LENGTH = 500;
+
+const QUIZ_COLUMNS = 'id, chat_id, message_id, topic, subject, correct_count, score, submitted_at';
+const QUESTION_COLUMNS = 'id, position, kind, prompt, choices, unit, answer_key, explanation';
+
+export interface QuizRejection {
+  error: string;
+  status: 404 | 409;
+}
+
+function toDraft(row: any): QuizQuestionDraft {
+  return {
+    kind: row.kind,
+    prompt: row.prompt,
+    choices: row.choices || undefined,
+    unit: row.unit,
+    answer: row.answer_key as QuizAnswerKey,
+    explanation: row.explanation,
+  };
+}
+
+function toQuestion(row: any): QuizQuestion {
+  return {
+    id: row.id,
+    kind: row.kind,
+    prompt: row.prompt,
+    ...(row.kind === 'multiple_choice' ? { choices: row.choices || [] } : {}),
+    ...(row.kind === 'numeric' ? { unit: row.unit } : {}),
+  };
+}
+
+async function loadQuestions(admin: any, quizId: string): Promise<any[]> {
+  const { data, error } = await admin
+    .from('quiz_questions')
+    .select(QUESTION_COLUMNS)
+    .eq('quiz_id', quizId)
+    .order('position', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load quiz questions: ${error.message}`);
+  }
+  return data || [];
+}
+
+function toQuiz(row: any, questions: any[], answers: any[]): Quiz {
+  const answerOf = new Map(answers.map(answer => [answer.question_id, answer]));
+  // Results (with the expected answers) are only shown once the quiz is submitted
+  const results: QuizQuestionResult[] = row.submitted_at
+    ? questions.map(question => {
+        const answer = answerOf.get(question.id);
+        return {
+          questionId: question.id,
+          response: answer?.response ?? '',
+          correct: !!answer?.correct,
+          expected: answer?.expected ?? '',
+          explanation: question.explanation,
+        };
+      })
+    : [];
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    messageId: row.message_id,
+    topic: row.topic,
+    subject: row.subject,
+    questions: questions.map(toQuestion),
+    submittedAt: row.submitted_at,
+    correctCount: row.correct_count,
+    score: row.score,
+    results,
+  };
+}
+
+/**
+ * Stores a quiz the tutor wrote in answer `messageId`. Needs the service role client.
+ */
+export async function saveQuiz(admin: any, userId: string, chatId: string, messageId: string, draft: QuizDraft): Promise<string> {
+  const { data: quiz, error } = await admin
+    .from('quizzes')
+    .insert({ user_id: userId, chat_id: chatId, message_id: messageId, topic: draft.topic, subject: draft.subject, question_count: draft.questions.length })
+    .select('id')
+    .single();
+  if (error) {
+    throw new Error(`Failed to save quiz: ${error.message}`);
+  }
+  const { error: questionsError } = await admin
+    .from('quiz_questions')
+    .insert(draft.questions.map((question, position) => ({
+      quiz_id: quiz.id,
+      user_id: userId,
+      position,
+      kind: question.kind,
+      prompt: question.prompt,
+      choices: question.choices ?? null,
+      unit: question.unit ?? null,
+      answer_key: question.answer,
+      explanation: question.explanation,
+    })));
+  if (questionsError) {
+    await admin.from('quizzes').delete().eq('id', quiz.id);
+    throw new Error(`Failed to save quiz questions: ${questionsError.message}`);
+  }
+  return quiz.id;
+}
+
+async function loadQuizRow(admin: any, userId: string, quizId: string): Promise<any | null> {
+  const { data, error } = await admin
+    .from('quizzes')
+    .select(QUIZ_COLUMNS)
+    .eq('id', quizId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load quiz: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * A quiz of the user, with its results once submitted. Needs the service role client.
+ */
+export async function loadQuiz(admin: any, userId: string, quizId: string): Promise<Quiz | null> {
+  const row = await loadQuizRow(admin, userId, quizId);
+  if (!row) return null;
+
+  const questions = await loadQuestions(admin, quizId);
+  let answers: any[] = [];
+  if (row.submitted_at) {
+    const { data, error: answersError } = await admin
+      .from('quiz_answers')
+      .select('question_id, response, correct, expected')
+      .eq('quiz_id', quizId);
+    if (answersError) {
+      throw new Error(`Failed to load quiz answers: ${answersError.message}`);
+    }
+    answers = data || [];
+  }
+  return toQuiz(row, questions, answers);
+}
+
+/**
+ * Grades and records the answers to a quiz. A quiz is submitted once; unanswered
+ * questions count as wrong. Needs the service role client.
+ */
+export async function submitQuiz(admin: any, userId: string, quizId: string, responses: QuizResponse[]): Promise<{ quiz: Quiz } | QuizRejection> {
+  const row = await loadQuizRow(admin, userId, quizId);
+  if (!row) return { status: 404, error: 'Quiz not found' };
+  if (row.submitted_at) return { status: 409, error: 'This quiz was already submitted' };
+
+  const questions = await loadQuestions(admin, quizId);
+  const responseOf = new Map(responses.map(r => [r.questionId, String(r.response ?? '').slice(0, MAX_RESPONSE_LENGTH)]));
+  const answers = questions.map(question => {
+    const response = responseOf.get(question.id) ?? '';
+    const graded = gradeAnswer(toDraft(question), response);
+    return { quiz_id: quizId, question_id: question.id, user_id: userId, response, correct: graded.correct, expected: graded.expected };
+  });
+  const correctCount = answers.filter(answer => answer.correct).length;
+  const score = questions.length > 0 ? Math.round((correctCount / questions.length) * 100) : 0;
+
+  // Claims the submission first, so a quiz submitted twice at once is graded once
+  const submittedAt = new Date().toISOString();
+  const { data: claimed, error } = await admin
+    .from('quizzes')
+    .update({ submitted_at: submittedAt, correct_count: correctCount, score })
+    .eq('id', quizId)
+    .eq('user_id', userId)
+    .is('submitted_at', null)
+    .select('id');
+  if (error) {
+    throw new Error(`Failed to submit quiz: ${error.message}`);
+  }
+  if (!claimed || claimed.length === 0) return { status: 409, error: 'This quiz was already submitted' };
+
+  const { error: answersError } = await admin.from('quiz_answers').insert(answers);
+  if (answersError) {
+    await admin.from('quizzes').update({ submitted_at: null, correct_count: null, score: null }).eq('id', quizId);
+    throw new Error(`Failed to save quiz answers: ${answersError.message}`);
+  }
+  return { quiz: toQuiz({ ...row, submitted_at: submittedAt, correct_count: correctCount, score }, questions, answers) };
+}
+
+/**
+ * Ids of the quizzes in these answers, by message id
+ */
+export async function loadMessageQuizIds(supabase: any, userId: string, messageIds: string[]): Promise<Map<string, string>> {
+  const quizIds = new Map<string, string>();
+  if (messageIds.length === 0) return quizIds;
+  const { data, error } = await supabase
+    .from('quizzes')
+    .select('id, message_id')
+    .eq('user_id', userId)
+    .in('message_id', messageIds);
+  if (error) {
+    throw new Error(`Failed to load quizzes: ${error.message}`);
+  }
+  for (const row of data || []) quizIds.set(row.message_id, row.id);
+  return quizIds;
+}
+
+/**
+ * What the tutor is told about the quizzes in these answers (the questions, and how
+ * the student did), by message id. Needs the service role client.
+ */
+export async function describeMessageQuizzes(admin: any, userId: string, messageIds: string[]): Promise<Map<string, string>> {
+  const notes = new Map<string, string>();
+  const quizIds = await loadMessageQuizIds(admin, userId, messageIds);
+  for (const [messageId, quizId] of Array.from(quizIds.entries())) {
+    const quiz = await loadQuiz(admin, userId, quizId);
+    if (!quiz) continue;
+    const lines = quiz.questions.map((question, i) => {
+      const result = quiz.results[i];
+      const outcome = result ? ` - student answered "${question.kind === 'multiple_choice' ? question.choices?.[parseInt(result.response, 10)] ?? '' : result.response}": ${result.correct ? 'correct' : `wrong (expected ${result.expected})`}` : '';
+      return `${i + 1}. ${question.prompt}${outcome}`;
+    });
+    const status = quiz.submittedAt ? `score ${quiz.correctCount}/${quiz.questions.length}` : 'not submitted yet';
+    notes.set(messageId, `[Quiz on ${quiz.topic} (${status}):\n${lines.join('\n')}]`);
+  }
+  return notes;
+}
+
+/**
+ * Results of the submitted quizzes of a chat, by topic (most recently quizzed first)
+ */
+export async function listChatQuizResults(supabase: any, userId: string, chatId: string): Promise<QuizTopicResults[]> {
+  const { data, error } = await supabase
+    .from('quizzes')
+    .select('topic, question_count, correct_count, submitted_at')
+    .eq('user_id', userId)
+    .eq('chat_id', chatId)
+    .not('submitted_at', 'is', null)
+    .order('submitted_at', { ascending: false });
+  if (error) {
+    throw new Error(`Failed to load quiz results: ${error.message}`);
+  }
+  const byTopic = new Map<string, QuizTopicResults>();
+  for (const row of data || []) {
+    const key = row.topic.trim().toLowerCase();
+    const topic = byTopic.get(key) || { topic: row.topic, quizzes: 0, questions: 0, correct: 0, score: 0, lastSubmittedAt: row.submitted_at };
+    topic.quizzes++;
+    topic.questions += row.question_count;
+    topic.correct += row.correct_count ?? 0;
+    topic.score = topic.questions > 0 ? Math.round((topic.correct / topic.questions) * 100) : 0;
+    byTopic.set(key, topic);
+  }
+  return Array.from(byTopic.values());
+}
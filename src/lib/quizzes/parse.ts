@@ -0,0 +1,165 @@
+/**
+ * Quizzes written by the tutor
+ *
+ * The tutor writes a quiz as a ```quiz fenced block of JSON (QUIZ_INSTRUCTIONS). The
+ * chat route holds those blocks back while the answer streams (createQuizBlockFilter),
+ * so answer keys never reach the browser, and stores the parsed quiz (parseQuizBlock)
+ * instead. Students ask for one with "/quiz [topic]" (parseQuizCommand).
+ */
+
+import { createFencedBlockFilter, FencedBlockFilter } from '@/lib/streaming/blocks';
+import type { QuizQuestionKind } from './types';
+
+export const MAX_QUIZ_QUESTIONS = 10;
+const MIN_CHOICES = 2;
+const MAX_CHOICES = 6;
+const MAX_TOPIC_LENGTH = 120;
+const MAX_TEXT_LENGTH = 1000;
+
+export type QuizAnswerKey =
+  | { choice: number }
+  | { value: number; tolerance: number | null }
+  | { accepted: string[]; keywords: string[] };
+
+export interface QuizQuestionDraft {
+  kind: QuizQuestionKind;
+  prompt: string;
+  choices?: string[];
+  unit?: string | null;
+  answer: QuizAnswerKey;
+  explanation: string | null;
+}
+
+export interface QuizDraft {
+  topic: string;
+  subject: string | null;
+  questions: QuizQuestionDraft[];
+}
+
+export const QUIZ_INSTRUCTIONS = `## Quizzes
+
+When you test the student's learning with more than a quick check (or when asked for a quiz), write the questions as a quiz block so the app can show them as a quiz card and grade the answers. Write one short sentence introducing it, then put the block at the end of your reply:
+
+\`\`\`quiz
+{"subject": "Biology", "topic": "Photosynthesis", "questions": [
+  {"type": "multiple_choice", "question": "Which gas do plants take in?", "choices": ["Oxygen", "Carbon dioxide", "Nitrogen"], "answer": 1, "explanation": "Plants take in CO2 and release oxygen."},
+  {"type": "numeric", "question": "How many molecules of CO2 make one glucose molecule?", "answer": 6, "tolerance": 0, "unit": null, "explanation": "6CO2 + 6H2O -> C6H12O6 + 6O2"},
+  {"type": "short_answer", "question": "Which pigment absorbs the light?", "answer": "chlorophyll", "accept": ["chlorophyll a"], "keywords": [], "explanation": "Chlorophyll absorbs red and blue light."}
+]}
+\`\`\`
+
+Rules:
+- "topic" names the concept being tested in a few words and "subject" the subject it belongs to; reuse the same names when you test the same concept again.
+- "answer" is the 0-based index of the correct choice (multiple_choice), a number (numeric; "tolerance" is the allowed absolute difference) or the expected text (short_answer; "accept" lists other correct wordings, "keywords" are words every correct answer must contain).
+- Short answers must be a word or a short phrase. Use numeric questions for calculations.
+- Never reveal the answers outside the block, and don't write anything after it except progress or curriculum blocks. The student sees the results once they submit.
+- Quick checks in your own words are still fine; use a block for 1-2 questions after a concept, or up to ${MAX_QUIZ_QUESTIONS} when asked for a quiz.`;
+
+/**
+ * Topic of a "/quiz [topic]" message ('' for "/quiz" alone), or null for other messages
+ */
+export function parseQuizCommand(content: string): string | null {
+  const match = /^\/quiz\b\s*([\s\S]*)$/i.exec(content.trim());
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * What the tutor is told when the student asks for a quiz
+ */
+export function quizCommandInstructions(topic: string): string {
+  const subject = topic ? `on "${topic}"` : 'on what you have covered in this conversation so far';
+  return `The student asked for a quiz ${subject}. Reply with one short sentence and a quiz block of 3-5 questions that mixes question types where the topic allows it.`;
+}
+
+export type QuizBlockFilter = FencedBlockFilter;
+
+/**
+ * Splits a streamed answer into what the student sees and the quiz blocks in it
+ */
+export function createQuizBlockFilter(): QuizBlockFilter {
+  return createFencedBlockFilter('quiz');
+}
+
+function cleanText(value: unknown, maxLength = MAX_TEXT_LENGTH): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim()) {
+    const number = Number(value.replace(/,/g, '').trim());
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+function toTextList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(item => cleanText(item)).filter(Boolean) : [];
+}
+
+// The correct choice as a 0-based index; the tutor sometimes answers with a letter or the choice's text
+function toChoiceIndex(value: unknown, choices: string[]): number | null {
+  const index = typeof value === 'number' ? value : null;
+  if (index !== null) return Number.isInteger(index) && index >= 0 && index < choices.length ? index : null;
+  const text = cleanText(value);
+  if (/^[A-Fa-f]$/.test(text)) {
+    const letter = text.toUpperCase().charCodeAt(0) - 65;
+    return letter < choices.length ? letter : null;
+  }
+  const match = choices.findIndex(choice => choice.toLowerCase() === text.toLowerCase());
+  return match === -1 ? null : match;
+}
+
+function parseQuestion(raw: any): QuizQuestionDraft | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const prompt = cleanText(raw.question ?? raw.prompt);
+  if (!prompt) return null;
+  const explanation = cleanText(raw.explanation) || null;
+  const kind = cleanText(raw.type ?? raw.kind).toLowerCase();
+
+  if (kind === 'multiple_choice') {
+    const choices = toTextList(raw.choices).slice(0, MAX_CHOICES);
+    if (choices.length < MIN_CHOICES) return null;
+    const choice = toChoiceIndex(raw.answer, choices);
+    if (choice === null) return null;
+    return { kind, prompt, choices, answer: { choice }, explanation };
+  }
+  if (kind === 'numeric') {
+    const value = toNumber(raw.answer);
+    if (value === null) return null;
+    const tolerance = toNumber(raw.tolerance);
+    return {
+      kind,
+      prompt,
+      unit: cleanText(raw.unit, 40) || null,
+      answer: { value, tolerance: tolerance !== null && tolerance >= 0 ? tolerance : null },
+      explanation,
+    };
+  }
+  if (kind === 'short_answer') {
+    const answer = cleanText(raw.answer);
+    if (!answer) return null;
+    const accepted = [answer, ...toTextList(raw.accept)];
+    return { kind, prompt, answer: { accepted, keywords: toTextList(raw.keywords) }, explanation };
+  }
+  return null;
+}
+
+/**
+ * The quiz in a quiz block, or null when it has no usable question. Questions that
+ * don't follow the format are left out.
+ */
+export function parseQuizBlock(block: string, fallbackTopic = ''): QuizDraft | null {
+  let raw: any;
+  try {
+    raw = JSON.parse(block.trim());
+  } catch {
+    return null;
+  }
+  const list = Array.isArray(raw) ? raw : raw?.questions;
+  if (!Array.isArray(list)) return null;
+  const questions = list.map(parseQuestion).filter((q): q is QuizQuestionDraft => q !== null).slice(0, MAX_QUIZ_QUESTIONS);
+  if (questions.length === 0) return null;
+  const topic = cleanText(raw?.topic, MAX_TOPIC_LENGTH) || fallbackTopic.slice(0, MAX_TOPIC_LENGTH) || 'General';
+  return { topic, subject: cleanText(raw?.subject, MAX_TOPIC_LENGTH) || null, questions };
+}
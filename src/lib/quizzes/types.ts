@@ -0,0 +1,69 @@
+/**
+ * Shared types for quizzes (also used by the chat UI). Answer keys never leave the
+ * server: the client only sees questions and, once a quiz is submitted, its results.
+ */
+
+export type QuizQuestionKind = 'multiple_choice' | 'numeric' | 'short_answer';
+
+/**
+ * A question as the student sees it
+ */
+export interface QuizQuestion {
+  id: string;
+  kind: QuizQuestionKind;
+  prompt: string;
+  // Options of a multiple choice question
+  choices?: string[];
+  // Unit the numeric answer is given in
+  unit?: string | null;
+}
+
+/**
+ * How one answer was graded
+ */
+export interface QuizQuestionResult {
+  questionId: string;
+  // What the student answered (the choice index for multiple choice)
+  response: string;
+  correct: boolean;
+  // The expected answer, shown once the quiz is submitted
+  expected: string;
+  explanation: string | null;
+}
+
+export interface Quiz {
+  id: string;
+  chatId: string;
+  messageId: string | null;
+  topic: string;
+  // Subject the topic belongs to, when the tutor named it
+  subject: string | null;
+  questions: QuizQuestion[];
+  // Set once the quiz is submitted
+  submittedAt: string | null;
+  correctCount: number | null;
+  // Share of correct answers, 0-100
+  score: number | null;
+  results: QuizQuestionResult[];
+}
+
+/**
+ * A student's answer to one question
+ */
+export interface QuizResponse {
+  questionId: string;
+  response: string;
+}
+
+/**
+ * Submitted quizzes of a chat on one topic
+ */
+export interface QuizTopicResults {
+  topic: string;
+  quizzes: number;
+  questions: number;
+  correct: number;
+  // Share of correct answers over all its quizzes, 0-100
+  score: number;
+  lastSubmittedAt: string;
+}
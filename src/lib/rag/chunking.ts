@@ -0,0 +1,107 @@
+/**
+ * Splits extracted file text into retrieval chunks that remember where they came from.
+ *
+ * PDF text carries pdf-parse's page markers ("-- 3 of 120 --" after each page, also
+ * written by the pdfjs fallback), so chunks never cross a page. Headings start a new
+ * chunk and label the chunks below them with their section.
+ */
+
+import { estimateTokens } from '@/lib/chat/context';
+
+// Target chunk size; a few of these are retrieved per question
+export const CHUNK_TOKENS = 400;
+const CHUNK_CHARS = CHUNK_TOKENS * 4;
+
+const PAGE_MARKER = /^-- (\d+) of \d+ --$/;
+
+const HEADING_PATTERNS = [
+  // Markdown
+  /^#{1,6}\s+(.+)$/,
+  // Spreadsheets (written by src/lib/files/extractors/spreadsheet.ts)
+  /^Sheet:\s+(.+)$/,
+  // "Chapter 4", "Unit II - Kinematics", "Lecture 12: ..."
+  /^((?:chapter|section|unit|lecture|part)\s+[\dIVXLC]+\b.*)$/i,
+  // "2.3 Newton's laws"
+  /^(\d+(?:\.\d+){0,3}\.?\s+[A-Z][^.!?]{2,80})$/,
+];
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  page: number | null;
+  section: string | null;
+  tokenCount: number;
+}
+
+function headingOf(line: string): string | null {
+  if (line.length > 100) return null;
+  for (const pattern of HEADING_PATTERNS) {
+    const match = line.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+/**
+ * Cuts a line longer than a whole chunk (e.g. a page extracted as one line) at word boundaries
+ */
+function splitLongLine(line: string): string[] {
+  if (line.length <= CHUNK_CHARS) return [line];
+  const pieces: string[] = [];
+  let rest = line;
+  while (rest.length > CHUNK_CHARS) {
+    const cut = rest.lastIndexOf(' ', CHUNK_CHARS);
+    const end = cut > CHUNK_CHARS / 2 ? cut : CHUNK_CHARS;
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+export function chunkText(text: string): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const hasPages = /^-- \d+ of \d+ --$/m.test(text);
+  let page: number | null = hasPages ? 1 : null;
+  let section: string | null = null;
+  let buffer: string[] = [];
+  let bufferTokens = 0;
+
+  const flush = () => {
+    const content = buffer.join('\n').trim();
+    if (content) {
+      chunks.push({ index: chunks.length, content, page, section, tokenCount: estimateTokens(content) });
+    }
+    buffer = [];
+    bufferTokens = 0;
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+
+    const marker = line.match(PAGE_MARKER);
+    if (marker) {
+      // The marker closes the page it is numbered with
+      flush();
+      page = parseInt(marker[1], 10) + 1;
+      continue;
+    }
+
+    const heading = headingOf(line);
+    if (heading) {
+      flush();
+      section = heading;
+    }
+
+    for (const piece of splitLongLine(line)) {
+      const tokens = estimateTokens(piece);
+      // A short lead-in (e.g. a heading) stays with the text after it
+      if (bufferTokens + tokens > CHUNK_TOKENS && bufferTokens > CHUNK_TOKENS / 4) flush();
+      buffer.push(piece);
+      bufferTokens += tokens;
+    }
+  }
+  flush();
+
+  return chunks;
+}
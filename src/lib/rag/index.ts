@@ -0,0 +1,311 @@
+/**
+ * Retrieval over uploaded attachments
+ *
+ * The file-processing worker (src/lib/files) chunks and embeds each file once its text is extracted
+ * (indexAttachment). For every question /api/chat/send retrieves the top chunks of
+ * the conversation's files (retrieveChunks) and passes them to the model as
+ * numbered excerpts it cites as [SourceN]; the UI renders those markers as
+ * citation badges naming the file and page or section.
+ * See migrations/add_attachment_chunks.sql.
+ */
+
+import { getEmbeddingProvider } from '@/lib/llm';
+import { signFileUrls, withPage } from '@/lib/files/urls';
+import { chunkText } from './chunking';
+import type { FileSource } from './types';
+
+export type { FileSource } from './types';
+
+// Excerpts given to the model per question
+export const RETRIEVAL_TOP_K = 6;
+
+const INSERT_BATCH_SIZE = 200;
+const SNIPPET_CHARS = 200;
+
+export const CITATION_INSTRUCTIONS = `The user's files are provided as numbered excerpts ([Source1], [Source2], ...). Base answers about the files on these excerpts. Right after a statement that uses an excerpt, cite it with its marker exactly as written, e.g. [Source2]. Don't cite excerpts you didn't use, and say so if the excerpts don't cover the question.`;
+
+/**
+ * An attachment row as selected for retrieval
+ */
+export interface IndexableAttachment {
+  id: string;
+  file_name: string;
+  file_path: string;
+  extracted_text: string | null;
+  indexed_at?: string | null;
+  embedding_model?: string | null;
+}
+
+export interface RetrievedChunk {
+  attachmentId: string;
+  content: string;
+  page: number | null;
+  section: string | null;
+  score: number;
+}
+
+/**
+ * False for files still being processed or whose extraction failed
+ */
+export function hasUsableText(text: string | null | undefined): text is string {
+  return !!text && !!text.trim()
+    && !text.includes('[File processing failed:')
+    && !text.includes('Failed to extract');
+}
+
+/**
+ * Splits a file's text into chunks and stores them with embeddings (when an
+ * embedding provider is configured). Re-indexing replaces the previous chunks.
+ * Returns the number of chunks stored.
+ */
+export async function indexAttachment(supabase: any, userId: string, attachmentId: string, text: string): Promise<number> {
+  const chunks = hasUsableText(text) ? chunkText(text) : [];
+
+  const embedder = getEmbeddingProvider();
+  let embeddings: number[][] | null = null;
+  if (embedder && chunks.length > 0) {
+    try {
+      embeddings = await embedder.embed(chunks.map(c => c.content));
+    } catch (error) {
+      console.error('[RAG] Embedding failed, indexing for keyword search only:', error);
+    }
+  }
+
+  const rows = chunks.map((chunk, i) => ({
+    attachment_id: attachmentId,
+    user_id: userId,
+    chunk_index: chunk.index,
+    content: chunk.content,
+    page: chunk.page,
+    section: chunk.section,
+    token_count: chunk.tokenCount,
+    embedding: embeddings ? JSON.stringify(embeddings[i]) : null,
+    embedding_model: embeddings ? embedder!.model : null,
+  }));
+
+  // Upsert, so a concurrent index of the same file can't leave duplicates
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('attachment_chunks')
+      .upsert(rows.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'attachment_id,chunk_index' });
+    if (error) {
+      throw new Error(`Failed to store chunks: ${error.message}`);
+    }
+  }
+  await supabase
+    .from('attachment_chunks')
+    .delete()
+    .eq('attachment_id', attachmentId)
+    .gte('chunk_index', rows.length);
+
+  await supabase
+    .from('attachments')
+    .update({ indexed_at: new Date().toISOString(), embedding_model: embeddings ? embedder!.model : null })
+    .eq('id', attachmentId)
+    .eq('user_id', userId);
+
+  console.log('[RAG] Indexed attachment', attachmentId, { chunks: rows.length, embedded: !!embeddings });
+  return rows.length;
+}
+
+/**
+ * Indexes an attachment by copying the chunks of another attachment with the same
+ * text (an identical upload), saving the embedding calls. Returns the number of chunks
+ * copied; 0 when the other attachment has none (index it with indexAttachment instead).
+ */
+export async function copyAttachmentIndex(supabase: any, userId: string, fromAttachmentId: string, toAttachmentId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('attachment_chunks')
+    .select('chunk_index, content, page, section, token_count, embedding, embedding_model')
+    .eq('attachment_id', fromAttachmentId)
+    .eq('user_id', userId)
+    .order('chunk_index', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load chunks: ${error.message}`);
+  }
+  const rows = (data || []).map((row: any) => ({ ...row, attachment_id: toAttachmentId, user_id: userId }));
+  if (rows.length === 0) return 0;
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error: upsertError } = await supabase
+      .from('attachment_chunks')
+      .upsert(rows.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'attachment_id,chunk_index' });
+    if (upsertError) {
+      throw new Error(`Failed to store chunks: ${upsertError.message}`);
+    }
+  }
+  await supabase
+    .from('attachment_chunks')
+    .delete()
+    .eq('attachment_id', toAttachmentId)
+    .gte('chunk_index', rows.length);
+
+  await supabase
+    .from('attachments')
+    .update({ indexed_at: new Date().toISOString(), embedding_model: rows[0].embedding_model ?? null })
+    .eq('id', toAttachmentId)
+    .eq('user_id', userId);
+
+  console.log('[RAG] Copied index', fromAttachmentId, '->', toAttachmentId, { chunks: rows.length });
+  return rows.length;
+}
+
+function toRetrievedChunk(row: any): RetrievedChunk {
+  return {
+    attachmentId: row.attachment_id,
+    content: row.content,
+    page: row.page ?? null,
+    section: row.section ?? null,
+    score: row.score ?? 0,
+  };
+}
+
+async function matchChunks(supabase: any, attachmentIds: string[], query: string, topK: number, embedding?: { vector: number[]; model: string }) {
+  const { data, error } = await supabase.rpc('match_attachment_chunks', {
+    p_attachment_ids: attachmentIds,
+    p_query: query,
+    p_query_embedding: embedding ? JSON.stringify(embedding.vector) : null,
+    p_embedding_model: embedding?.model ?? null,
+    p_match_count: topK,
+  });
+  if (error) {
+    throw new Error(`Failed to search attachments: ${error.message}`);
+  }
+  return (data || []).map(toRetrievedChunk) as RetrievedChunk[];
+}
+
+/**
+ * Alternates between two rankings (their scores aren't comparable)
+ */
+function interleave(a: RetrievedChunk[], b: RetrievedChunk[], limit: number) {
+  const merged: RetrievedChunk[] = [];
+  for (let i = 0; merged.length < limit && (i < a.length || i < b.length); i++) {
+    if (i < a.length) merged.push(a[i]);
+    if (i < b.length && merged.length < limit) merged.push(b[i]);
+  }
+  return merged;
+}
+
+// Pages a question names, e.g. "what does page 12 say" or "pages 3 and 4"
+function referencedPages(query: string): number[] {
+  const pages = new Set<number>();
+  for (const match of Array.from(query.matchAll(/\b(?:pages?|pp?\.)\s*(\d{1,4})(?:\s*(?:-|–|to|and|&|,)\s*(\d{1,4}))?/gi))) {
+    const first = Number(match[1]);
+    const last = match[2] ? Number(match[2]) : first;
+    for (let page = first; page <= Math.min(last, first + 4); page++) pages.add(page);
+  }
+  return Array.from(pages);
+}
+
+async function pageChunks(supabase: any, attachmentIds: string[], pages: number[], limit: number): Promise<RetrievedChunk[]> {
+  const { data } = await supabase
+    .from('attachment_chunks')
+    .select('attachment_id, content, page, section, chunk_index')
+    .in('attachment_id', attachmentIds)
+    .in('page', pages)
+    .order('chunk_index', { ascending: true })
+    .limit(limit);
+  return (data || []).map(toRetrievedChunk);
+}
+
+/**
+ * Top chunks of the given attachments for a question. Files that were never
+ * indexed (uploaded before retrieval existed) are indexed first. Pages the question
+ * names come first; then files embedded with the current model are searched by
+ * similarity, the rest by keywords. If nothing matches (e.g. "summarize this
+ * file") the opening chunks are used.
+ */
+export async function retrieveChunks(supabase: any, userId: string, attachments: IndexableAttachment[], query: string, topK = RETRIEVAL_TOP_K): Promise<RetrievedChunk[]> {
+  const usable = attachments.filter(att => hasUsableText(att.extracted_text));
+  if (usable.length === 0) return [];
+
+  const embedder = getEmbeddingProvider();
+  const embedded = new Set<string>();
+  for (const att of usable) {
+    let model = att.embedding_model ?? null;
+    const stale = !att.indexed_at || (embedder && model && model !== embedder.model);
+    if (stale) {
+      try {
+        await indexAttachment(supabase, userId, att.id, att.extracted_text!);
+        model = embedder ? embedder.model : null;
+      } catch (error) {
+        console.error('[RAG] Failed to index attachment', att.id, error);
+        continue;
+      }
+    }
+    if (embedder && model === embedder.model) embedded.add(att.id);
+  }
+
+  const semanticIds = usable.filter(att => embedded.has(att.id)).map(att => att.id);
+  let keywordIds = usable.filter(att => !embedded.has(att.id)).map(att => att.id);
+
+  let semantic: RetrievedChunk[] = [];
+  if (semanticIds.length > 0 && embedder) {
+    try {
+      const [vector] = await embedder.embed([query]);
+      semantic = await matchChunks(supabase, semanticIds, query, topK, { vector, model: embedder.model });
+    } catch (error) {
+      console.error('[RAG] Semantic search failed, using keywords:', error);
+      keywordIds = keywordIds.concat(semanticIds);
+    }
+  }
+  const keyword = keywordIds.length > 0 ? await matchChunks(supabase, keywordIds, query, topK) : [];
+
+  const pages = referencedPages(query);
+  const onPages = pages.length > 0 ? await pageChunks(supabase, usable.map(att => att.id), pages, topK) : [];
+  const seen = new Set(onPages.map(chunk => `${chunk.attachmentId}:${chunk.content}`));
+  const matched = onPages
+    .concat(interleave(semantic, keyword, topK).filter(chunk => !seen.has(`${chunk.attachmentId}:${chunk.content}`)))
+    .slice(0, topK);
+  if (matched.length > 0) return matched;
+
+  const perFile = Math.max(1, Math.floor(topK / usable.length));
+  const { data: opening } = await supabase
+    .from('attachment_chunks')
+    .select('attachment_id, content, page, section, chunk_index')
+    .in('attachment_id', usable.map(att => att.id))
+    .lt('chunk_index', perFile)
+    .order('chunk_index', { ascending: true });
+  return (opening || []).slice(0, topK).map(toRetrievedChunk);
+}
+
+function describeLocation(page: number | null, section: string | null): string {
+  const parts: string[] = [];
+  if (page !== null) parts.push(`page ${page}`);
+  if (section) parts.push(`section "${section}"`);
+  return parts.join(', ');
+}
+
+/**
+ * Numbered excerpts for the prompt; [SourceN] refers to the Nth chunk
+ */
+export function formatExcerpts(chunks: RetrievedChunk[], attachments: IndexableAttachment[]): string {
+  const names = new Map(attachments.map(att => [att.id, att.file_name]));
+  return chunks
+    .map((chunk, i) => {
+      const location = describeLocation(chunk.page, chunk.section);
+      const label = `${names.get(chunk.attachmentId) || 'File'}${location ? `, ${location}` : ''}`;
+      return `[Source${i + 1}] ${label}\n${chunk.content}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Citation data saved with the answer, in the same order as the excerpts. Links are
+ * signed and expire; chat history signs them again when it is loaded.
+ */
+export async function toFileSources(supabase: any, chunks: RetrievedChunk[], attachments: IndexableAttachment[]): Promise<FileSource[]> {
+  const byId = new Map(attachments.map(att => [att.id, att]));
+  const urls = await signFileUrls(supabase, chunks.map(chunk => byId.get(chunk.attachmentId)?.file_path || ''));
+  return chunks.map(chunk => {
+    const att = byId.get(chunk.attachmentId);
+    return {
+      attachmentId: chunk.attachmentId,
+      fileName: att?.file_name || 'File',
+      url: withPage((att && urls.get(att.file_path)) || '', chunk.page),
+      page: chunk.page,
+      section: chunk.section,
+      snippet: chunk.content.slice(0, SNIPPET_CHARS),
+    };
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * Shared types for retrieval over attachments (also used by the chat UI)
+ */
+
+/**
+ * A file excerpt an answer can cite as [SourceN] (N = position in the list + 1)
+ */
+export interface FileSource {
+  attachmentId: string;
+  fileName: string;
+  url: string;
+  page: number | null;
+  section: string | null;
+  snippet: string;
+}
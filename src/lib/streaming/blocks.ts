@@ -0,0 +1,79 @@
+/**
+ * Hidden blocks in streamed answers
+ *
+ * The tutor writes data for the app (quizzes, progress notes) as fenced blocks such
+ * as ```quiz ... ```. A block filter holds those blocks back while the answer streams,
+ * so the student only sees the rest, and collects their contents for the server.
+ */
+
+export interface FencedBlockFilter {
+  // Part of the chunk to show the student; blocks are held back
+  push(chunk: string): string;
+  // What is left to show once the answer ends (an unfinished block is dropped)
+  flush(): string;
+  // Whether a block is being written right now
+  readonly inBlock: boolean;
+  // Contents of the finished blocks
+  readonly blocks: string[];
+}
+
+const CLOSING_FENCE = '```';
+
+// Length of the end of `text` that could be the start of `marker`
+function partialMarkerLength(text: string, marker: string): number {
+  for (let length = Math.min(marker.length - 1, text.length); length > 0; length--) {
+    if (marker.startsWith(text.slice(text.length - length))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Splits a streamed answer into what the student sees and the ```<language> blocks in it
+ */
+export function createFencedBlockFilter(language: string): FencedBlockFilter {
+  const openingFence = '```' + language;
+  let pending = '';
+  let inBlock = false;
+  const blocks: string[] = [];
+
+  const push = (chunk: string): string => {
+    pending += chunk;
+    let shown = '';
+    for (;;) {
+      if (inBlock) {
+        // The block's content starts after the opening fence's line
+        const lineEnd = pending.indexOf('\n');
+        const close = lineEnd === -1 ? -1 : pending.indexOf(CLOSING_FENCE, lineEnd);
+        if (close === -1) return shown;
+        blocks.push(pending.slice(lineEnd + 1, close));
+        pending = pending.slice(close + CLOSING_FENCE.length);
+        inBlock = false;
+        continue;
+      }
+      const open = pending.indexOf(openingFence);
+      if (open === -1) {
+        const held = partialMarkerLength(pending, openingFence);
+        shown += pending.slice(0, pending.length - held);
+        pending = pending.slice(pending.length - held);
+        return shown;
+      }
+      shown += pending.slice(0, open);
+      pending = pending.slice(open);
+      inBlock = true;
+    }
+  };
+
+  return {
+    push,
+    flush() {
+      const rest = inBlock ? '' : pending;
+      pending = '';
+      inBlock = false;
+      return rest;
+    },
+    get inBlock() {
+      return inBlock;
+    },
+    blocks,
+  };
+}
@@ -0,0 +1,150 @@
+import { supabase } from "../supabase/client";
+
+// Must match STREAM_ID_HEADER in ./resumable.ts
+const STREAM_ID_HEADER = 'X-Stream-Id';
+const MAX_RECONNECTS = 5;
+// After a stop, how often to look for the final event while the partial answer is saved
+const STOP_POLL_ATTEMPTS = 10;
+const STOP_POLL_INTERVAL_MS = 1000;
+
+interface ReadResumableStreamOptions {
+  // Called with the parsed `data:` payload of every event, in order
+  onEvent: (data: any) => void;
+  // Aborting stops reading and reconnecting
+  signal?: AbortSignal;
+}
+
+export function getStreamId(res: Response): string | null {
+  return res.headers.get(STREAM_ID_HEADER);
+}
+
+/**
+ * Reads a resumable SSE response from /api/chat/send or /api/atlas/answer.
+ * If the connection drops before a `done` or `error` event, reconnects to
+ * /api/stream/[streamId] with Last-Event-ID and continues where it stopped.
+ * Throws when the stream can't be resumed or `signal` was aborted.
+ */
+export async function readResumableStream(res: Response, { onEvent, signal }: ReadResumableStreamOptions): Promise<void> {
+  const streamId = getStreamId(res);
+  let lastEventId = 0;
+  let finished = false;
+  let reconnects = 0;
+
+  const readBody = async (response: Response) => {
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No response body');
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || ''; // Keep incomplete event in buffer
+
+      for (const block of blocks) {
+        let id: number | null = null;
+        let data = '';
+        for (const line of block.split('\n')) {
+          if (line.startsWith('id:')) id = parseInt(line.slice(3).trim(), 10);
+          else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        // Skip events we already have (replayed after a reconnect)
+        if (id !== null && !isNaN(id)) {
+          if (id <= lastEventId) continue;
+          lastEventId = id;
+        }
+        if (!data) continue;
+
+        let payload: any;
+        try {
+          payload = JSON.parse(data);
+        } catch (e) {
+          console.error('Error parsing SSE chunk:', e);
+          continue;
+        }
+        reconnects = 0;
+        if (payload.done || payload.error) finished = true;
+        onEvent(payload);
+      }
+    }
+  };
+
+  let response: Response | null = res;
+  while (true) {
+    if (response) {
+      try {
+        await readBody(response);
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        console.warn('Stream connection lost:', err);
+      }
+    }
+    if (finished) return;
+    if (signal?.aborted) throw new Error('Stream aborted');
+    if (!streamId) throw new Error('Stream ended unexpectedly');
+    if (reconnects >= MAX_RECONNECTS) throw new Error('Lost connection to the answer stream');
+
+    reconnects++;
+    await new Promise(resolve => setTimeout(resolve, Math.min(1000 * reconnects, 5000)));
+    if (signal?.aborted) throw new Error('Stream aborted');
+
+    let next: Response | null = null;
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      next = await fetch(`/api/stream/${encodeURIComponent(streamId)}`, {
+        headers: {
+          'Authorization': `Bearer ${session?.access_token}`,
+          'Last-Event-ID': String(lastEventId),
+        },
+        signal,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn('Stream reconnect failed:', err);
+    }
+    if (next?.status === 404) throw new Error('Answer stream is no longer available');
+    response = next?.ok ? next : null;
+  }
+}
+
+// The parsed `data:` payloads of a complete SSE body
+function parseEventPayloads(text: string): any[] {
+  const payloads: any[] = [];
+  for (const block of text.split('\n\n')) {
+    const data = block.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('');
+    if (!data) continue;
+    try {
+      payloads.push(JSON.parse(data));
+    } catch {}
+  }
+  return payloads;
+}
+
+/**
+ * Asks the server to stop generating; the partial answer is kept. Resolves with the
+ * stream's final event once the server has saved the answer (`done`, with the chat and
+ * message ids, or `error`), or null when it didn't arrive in time.
+ */
+export async function stopResumableStream(streamId: string): Promise<any | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const headers = { 'Authorization': `Bearer ${session?.access_token}` };
+    const path = `/api/stream/${encodeURIComponent(streamId)}`;
+    await fetch(path, { method: 'DELETE', headers });
+
+    // The stream reads as stopped right away; its final event is written once the answer is saved
+    for (let attempt = 0; attempt < STOP_POLL_ATTEMPTS; attempt++) {
+      const res = await fetch(path, { headers });
+      if (!res.ok) return null;
+      const final = parseEventPayloads(await res.text()).find(payload => payload.done || payload.error);
+      if (final) return final;
+      await new Promise(resolve => setTimeout(resolve, STOP_POLL_INTERVAL_MS));
+    }
+  } catch (err) {
+    console.error('Failed to stop stream:', err);
+  }
+  return null;
+}
@@ -0,0 +1,227 @@
+/**
+ * Resumable SSE streams
+ *
+ * Answers are generated once and fanned out as numbered SSE events (`id: <seq>`).
+ * Events go straight to the connection that started the request and are also
+ * buffered in `response_stream_events`, so a client whose connection dropped can
+ * reconnect to /api/stream/[streamId] with `Last-Event-ID` and continue from there.
+ *
+ * A dropped connection does not stop generation. It is only stopped when the user
+ * asks for it (DELETE /api/stream/[streamId]) or when nobody reconnects within
+ * RESUME_GRACE_MS, so closing the tab doesn't keep an answer running for nobody.
+ */
+
+export const STREAM_ID_HEADER = 'X-Stream-Id';
+
+const FLUSH_INTERVAL_MS = 300;
+const RESUME_GRACE_MS = 20_000;
+// Finished streams are only useful for a short while
+const STREAM_RETENTION_MS = 60 * 60 * 1000;
+
+export type StreamStatus = 'streaming' | 'done' | 'stopped';
+
+export interface StreamEvent {
+  seq: number;
+  payload: Record<string, unknown>;
+}
+
+export interface ResumableStream {
+  id: string;
+  // Aborted when the user stops the stream or every client has gone away
+  signal: AbortSignal;
+  push(payload: Record<string, unknown>): void;
+}
+
+// Streams generated by this server instance, so a stop request can abort them right away
+const localStreams = new Map<string, AbortController>();
+
+/**
+ * Formats one SSE event with its sequence number as the event id
+ */
+export function formatSSEEvent(event: StreamEvent): string {
+  return `id: ${event.seq}\ndata: ${JSON.stringify(event.payload)}\n\n`;
+}
+
+/**
+ * Registers a new stream and returns the SSE response that runs `run` to produce its events.
+ * The stream id is sent in the X-Stream-Id header so the client can resume or stop it.
+ */
+export async function createResumableResponse(
+  supabase: any,
+  userId: string,
+  run: (stream: ResumableStream) => Promise<void>
+): Promise<Response> {
+  const { data: row, error } = await supabase
+    .from('response_streams')
+    .insert({ user_id: userId, status: 'streaming' })
+    .select('id')
+    .single();
+  if (error || !row) {
+    throw new Error(`Failed to create stream: ${error?.message || 'unknown error'}`);
+  }
+  const streamId: string = row.id;
+
+  // Opportunistic cleanup of this user's old buffers
+  const cutoff = new Date(Date.now() - STREAM_RETENTION_MS).toISOString();
+  supabase.from('response_streams').delete().eq('user_id', userId).lt('created_at', cutoff)
+    .then(({ error: cleanupError }: any) => {
+      if (cleanupError) console.error('[STREAM] Failed to clean up old streams:', cleanupError);
+    });
+
+  const abort = new AbortController();
+  localStreams.set(streamId, abort);
+
+  const encoder = new TextEncoder();
+  let live: ReadableStreamDefaultController | null = null;
+  let detachedAt: number | null = null;
+  let seq = 0;
+  let pending: StreamEvent[] = [];
+
+  const writeLive = (event: StreamEvent) => {
+    if (!live) return;
+    try {
+      live.enqueue(encoder.encode(formatSSEEvent(event)));
+    } catch {
+      live = null;
+    }
+  };
+
+  // Writes buffered events and checks whether the stream should keep running
+  const flush = async () => {
+    if (pending.length > 0) {
+      const batch = pending;
+      pending = [];
+      const { error: insertError } = await supabase
+        .from('response_stream_events')
+        .insert(batch.map(e => ({ stream_id: streamId, seq: e.seq, payload: e.payload })));
+      if (insertError) {
+        console.error('[STREAM] Failed to buffer events:', insertError);
+      }
+    }
+
+    if (abort.signal.aborted) return;
+    const { data: state } = await supabase
+      .from('response_streams')
+      .select('status, client_seen_at')
+      .eq('id', streamId)
+      .maybeSingle();
+    if (state?.status === 'stopped') {
+      console.log('[STREAM] Stop requested for', streamId);
+      abort.abort();
+      return;
+    }
+    if (detachedAt !== null) {
+      const lastSeen = Math.max(detachedAt, state?.client_seen_at ? new Date(state.client_seen_at).getTime() : 0);
+      if (Date.now() - lastSeen > RESUME_GRACE_MS) {
+        console.log('[STREAM] No client reconnected, stopping', streamId);
+        abort.abort();
+      }
+    }
+  };
+
+  const stream: ResumableStream = {
+    id: streamId,
+    signal: abort.signal,
+    push(payload) {
+      const event = { seq: ++seq, payload };
+      pending.push(event);
+      writeLive(event);
+    },
+  };
+
+  const body = new ReadableStream({
+    async start(controller) {
+      live = controller;
+      let flushing = Promise.resolve();
+      const timer = setInterval(() => {
+        flushing = flushing.then(flush).catch(err => console.error('[STREAM] Flush failed:', err));
+      }, FLUSH_INTERVAL_MS);
+
+      try {
+        await run(stream);
+      } catch (err) {
+        console.error('[STREAM] Producer failed:', err);
+        stream.push({ error: err instanceof Error ? err.message : 'Streaming failed' });
+      } finally {
+        clearInterval(timer);
+        await flushing;
+        await flush().catch(err => console.error('[STREAM] Final flush failed:', err));
+        localStreams.delete(streamId);
+
+        const status: StreamStatus = abort.signal.aborted ? 'stopped' : 'done';
+        await supabase
+          .from('response_streams')
+          .update({ status, updated_at: new Date().toISOString() })
+          .eq('id', streamId);
+
+        if (live) {
+          try { controller.close(); } catch {}
+        }
+      }
+    },
+    cancel() {
+      // Connection dropped: keep generating so the client can resume
+      live = null;
+      detachedAt = Date.now();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      [STREAM_ID_HEADER]: streamId,
+    },
+  });
+}
+
+/**
+ * Marks a stream as stopped. The producer notices on its next flush
+ * (or immediately when it runs on this instance).
+ */
+export async function stopResumableStream(supabase: any, userId: string, streamId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('response_streams')
+    .update({ status: 'stopped', updated_at: new Date().toISOString() })
+    .eq('id', streamId)
+    .eq('user_id', userId)
+    .eq('status', 'streaming')
+    .select('id');
+  if (error) {
+    console.error('[STREAM] Failed to stop stream:', error);
+    return false;
+  }
+  localStreams.get(streamId)?.abort();
+  return Array.isArray(data) && data.length > 0;
+}
+
+export async function getStreamStatus(supabase: any, userId: string, streamId: string): Promise<StreamStatus | null> {
+  const { data } = await supabase
+    .from('response_streams')
+    .select('status')
+    .eq('id', streamId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data?.status || null;
+}
+
+/**
+ * Buffered events after `afterSeq`, oldest first. Also records that a client is
+ * still listening, which keeps a detached stream alive.
+ */
+export async function readStreamEvents(supabase: any, streamId: string, afterSeq: number): Promise<StreamEvent[]> {
+  await supabase
+    .from('response_streams')
+    .update({ client_seen_at: new Date().toISOString() })
+    .eq('id', streamId);
+
+  const { data, error } = await supabase
+    .from('response_stream_events')
+    .select('seq, payload')
+    .eq('stream_id', streamId)
+    .gt('seq', afterSeq)
+    .order('seq', { ascending: true });
+  if (error) throw new Error(error.message);
+  return data || [];
+}
@@ -0,0 +1,26 @@
+import { supabase } from "../supabase/client";
+import type { Entitlements } from "../entitlements";
+
+export interface CurrentSubscription {
+  plan: string;
+  name: string;
+  status: 'active' | 'grace' | 'none';
+  endsAt: string | null;
+  graceEndsAt: string | null;
+  entitlements: Entitlements;
+  // Plans queued behind an open-ended one have no dates yet
+  upcoming: Array<{ plan: string; startsAt: string | null; endsAt: string | null }>;
+}
+
+/**
+ * Loads the signed-in user's current plan, or null when signed out
+ */
+export async function fetchSubscription(): Promise<CurrentSubscription | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+  const res = await fetch('/api/subscriptions', {
+    headers: { 'Authorization': `Bearer ${session.access_token}` },
+  });
+  const data = await res.json().catch(() => ({}));
+  return res.ok ? data.subscription ?? null : null;
+}
@@ -0,0 +1,176 @@
+/**
+ * Subscription lifecycle
+ *
+ * Every plan purchase adds a row to `subscriptions`:
+ *   - nothing running, or an upgrade: starts now (an upgraded plan is cancelled)
+ *   - renewal or downgrade: queued as 'scheduled' after what is already running
+ * A plan set by hand (legacy 'premium') counts as running: it is recorded as an
+ * open-ended subscription, and plans queued behind it stay undated until it ends
+ * (refresh_subscription then dates them).
+ * Rows move through scheduled -> active -> grace -> expired in the
+ * `refresh_subscription` database function, which also keeps
+ * users.subscription_plan in sync. Refreshing on every access check is what makes
+ * expired plans lose access without a background job.
+ * See migrations/add_subscription_lifecycle.sql.
+ */
+
+import { getPlan, PlanDefinition } from './plans';
+
+export { getPlan, PLANS, FREE_PLAN } from './plans';
+export type { PlanDefinition, PlanId } from './plans';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SubscriptionStatus = 'scheduled' | 'active' | 'grace' | 'expired' | 'cancelled';
+
+export interface SubscriptionState {
+  plan: PlanDefinition;
+  // 'none' when the user is on the free plan (or a plan set by hand)
+  status: 'active' | 'grace' | 'none';
+  endsAt: string | null;
+  graceEndsAt: string | null;
+}
+
+/**
+ * Applies due transitions and returns the user's current plan
+ */
+export async function refreshSubscription(supabase: any, userId: string): Promise<SubscriptionState> {
+  const { data, error } = await supabase.rpc('refresh_subscription', { p_user_id: userId });
+  if (error) {
+    throw new Error(`Failed to refresh subscription: ${error.message}`);
+  }
+  const row = Array.isArray(data) ? data[0] : data;
+  if (row?.plan) {
+    return {
+      plan: getPlan(row.plan),
+      status: row.status === 'grace' ? 'grace' : 'active',
+      endsAt: row.ends_at ?? null,
+      graceEndsAt: row.grace_ends_at ?? null,
+    };
+  }
+
+  const { data: userRow } = await supabase
+    .from('users')
+    .select('subscription_plan')
+    .eq('id', userId)
+    .maybeSingle();
+  return { plan: getPlan(userRow?.subscription_plan), status: 'none', endsAt: null, graceEndsAt: null };
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Records a plan set by hand before subscriptions existed (legacy 'premium') as a
+// running, open-ended subscription, so purchases are ranked against it. Null when the
+// user has no such plan.
+async function recordHandSetPlan(admin: any, userId: string, now: Date): Promise<any | null> {
+  const { data: userRow } = await admin
+    .from('users')
+    .select('subscription_plan')
+    .eq('id', userId)
+    .maybeSingle();
+  const plan = getPlan(userRow?.subscription_plan);
+  if (plan.rank === 0 || plan.durationDays > 0) return null;
+
+  const { data, error } = await admin
+    .from('subscriptions')
+    .insert({ user_id: userId, plan: plan.id, status: 'active', started_at: now.toISOString(), ends_at: null, grace_ends_at: null })
+    .select('id, plan, status, started_at, ends_at')
+    .single();
+  if (error) {
+    throw new Error(`Failed to record ${plan.id} plan: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Starts (or queues) the plan bought with a paid order. Safe to call repeatedly
+ * for the same order. Needs the service role client.
+ */
+export async function activateSubscription(admin: any, userId: string, planId: string, paymentOrderId: string): Promise<void> {
+  const plan = getPlan(planId);
+  if (plan.durationDays <= 0) {
+    throw new Error(`Plan ${planId} can't be purchased`);
+  }
+
+  const { data: existing } = await admin
+    .from('subscriptions')
+    .select('id')
+    .eq('payment_order_id', paymentOrderId)
+    .maybeSingle();
+  if (existing) return;
+
+  // Bring statuses up to date before deciding where the new plan goes
+  await refreshSubscription(admin, userId);
+  const { data: rows, error } = await admin
+    .from('subscriptions')
+    .select('id, plan, status, started_at, ends_at')
+    .eq('user_id', userId)
+    .in('status', ['active', 'scheduled'])
+    .order('started_at', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load subscriptions: ${error.message}`);
+  }
+
+  const now = new Date();
+  const running = (rows || []).find((r: any) => r.status === 'active') || await recordHandSetPlan(admin, userId, now);
+  const scheduled = (rows || []).filter((r: any) => r.status === 'scheduled');
+  // Null while queued behind an open-ended plan
+  let startsAt: Date | null = now;
+
+  if (running && plan.rank > getPlan(running.plan).rank) {
+    // Upgrade: the current plan ends now and queued plans move back
+    await admin
+      .from('subscriptions')
+      .update({ status: 'cancelled', ends_at: now.toISOString(), updated_at: now.toISOString() })
+      .eq('id', running.id);
+
+    let cursor = addDays(now, plan.durationDays);
+    for (const row of scheduled) {
+      // Plans that waited behind an open-ended one have no dates yet
+      const length = row.started_at && row.ends_at
+        ? new Date(row.ends_at).getTime() - new Date(row.started_at).getTime()
+        : getPlan(row.plan).durationDays * DAY_MS;
+      const rowEnds = new Date(cursor.getTime() + length);
+      await admin
+        .from('subscriptions')
+        .update({
+          started_at: cursor.toISOString(),
+          ends_at: rowEnds.toISOString(),
+          grace_ends_at: addDays(rowEnds, getPlan(row.plan).graceDays).toISOString(),
+          updated_at: now.toISOString(),
+        })
+        .eq('id', row.id);
+      cursor = rowEnds;
+    }
+  } else if (running) {
+    // Renewal or downgrade: starts when everything already bought has run out
+    const queue = [running, ...scheduled];
+    startsAt = queue.some((r: any) => !r.ends_at)
+      ? null
+      : queue.reduce((latest: Date, r: any) => (new Date(r.ends_at) > latest ? new Date(r.ends_at) : latest), now);
+  }
+
+  const endsAt = startsAt ? addDays(startsAt, plan.durationDays) : null;
+  const { error: insertError } = await admin
+    .from('subscriptions')
+    .insert({
+      user_id: userId,
+      plan: plan.id,
+      status: startsAt && startsAt <= now ? 'active' : 'scheduled',
+      started_at: startsAt ? startsAt.toISOString() : null,
+      ends_at: endsAt ? endsAt.toISOString() : null,
+      grace_ends_at: endsAt ? addDays(endsAt, plan.graceDays).toISOString() : null,
+      duration_days: plan.durationDays,
+      grace_days: plan.graceDays,
+      payment_order_id: paymentOrderId,
+    });
+  if (insertError) {
+    throw new Error(`Failed to save subscription: ${insertError.message}`);
+  }
+
+  // Also ends a plan that was in its grace period and updates users.subscription_plan
+  await refreshSubscription(admin, userId);
+  console.log('[SUBSCRIPTIONS] Activated', plan.id, 'for', userId, 'from', startsAt ? startsAt.toISOString() : `the end of ${running.plan}`);
+}
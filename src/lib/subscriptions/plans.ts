@@ -0,0 +1,42 @@
+/**
+ * Subscription plans sold on PricingPage.
+ * Each one is bought through the catalog product with the same id, which also
+ * carries the plan's credit bundle (src/lib/payments/catalog.ts). What a plan
+ * unlocks is defined in src/lib/entitlements.
+ */
+
+// 'premium' was set by hand before subscriptions existed and is kept working for those accounts
+export type PlanId = 'free' | 'premium' | 'last_night_preparer' | 'exam_sprint' | 'term_mastery';
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  // How long one purchase lasts
+  durationDays: number;
+  // Access is kept this long after the plan ends so the user can renew
+  graceDays: number;
+  // Higher ranks are upgrades: they start immediately, lower ones wait their turn
+  rank: number;
+}
+
+export const FREE_PLAN: PlanDefinition = {
+  id: 'free',
+  name: 'Free',
+  durationDays: 0,
+  graceDays: 0,
+  rank: 0,
+};
+
+export const PLANS: PlanDefinition[] = [
+  FREE_PLAN,
+  { id: 'last_night_preparer', name: 'Last-Night Preparer', durationDays: 3, graceDays: 1, rank: 1 },
+  { id: 'exam_sprint', name: 'Exam Sprint Plan', durationDays: 30, graceDays: 3, rank: 2 },
+  { id: 'term_mastery', name: 'Term Mastery Plan', durationDays: 120, graceDays: 7, rank: 3 },
+];
+
+const LEGACY_PREMIUM: PlanDefinition = { id: 'premium', name: 'Premium', durationDays: 0, graceDays: 0, rank: 3 };
+
+export function getPlan(planId?: string | null): PlanDefinition {
+  if (planId === 'premium') return LEGACY_PREMIUM;
+  return PLANS.find(p => p.id === planId) || FREE_PLAN;
+}
@@ -56,3 +56,16 @@ export async function getAuthenticatedUser(req: Request) {
   return { user: session.user, supabase: supabase as any };
 }
 
+
+// Service role client for trusted server-side work without a user session
+// (e.g. payment webhooks). Returns null when SUPABASE_SERVICE_ROLE_KEY is not set.
+export function createAdminClient() {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceKey) return null;
+  return createClient<Database>(supabaseUrl, serviceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }) as any;
+}
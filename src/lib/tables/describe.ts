@@ -0,0 +1,87 @@
+/**
+ * Text of a table for the model: its column schema with statistics and a sample of
+ * its rows. Large sheets are sampled (first, evenly spaced and last rows) instead
+ * of dumped; questions about their numbers are computed from the table (./questions.ts).
+ */
+
+import { formatNumber } from './stats';
+import type { CellValue, ColumnSchema, DataTable } from './types';
+
+// Tables up to this size are shown in full
+const FULL_TABLE_ROWS = 40;
+const HEAD_ROWS = 15;
+const SPACED_ROWS = 10;
+const TAIL_ROWS = 5;
+const MAX_SAMPLE_COLUMNS = 20;
+const MAX_CELL_CHARS = 60;
+
+function describeColumn(column: ColumnSchema): string {
+  const label = `- ${column.letter} "${column.name}": ${column.type}, ${formatNumber(column.filled)} values`;
+  if (column.numeric) {
+    const { min, max, mean, median, std, sum } = column.numeric;
+    return `${label}; min ${formatNumber(min)}, max ${formatNumber(max)}, mean ${formatNumber(mean)}, median ${formatNumber(median)}, std ${formatNumber(std)}, sum ${formatNumber(sum)}`;
+  }
+  if (column.range) {
+    return `${label}; ${column.range[0]} to ${column.range[1]}`;
+  }
+  if (column.type === 'text') {
+    const common = column.topValues?.length
+      ? `; most common: ${column.topValues.map(({ value, count }) => `${formatCell(value)} (${count})`).join(', ')}`
+      : '';
+    return `${label}, ${formatNumber(column.distinct)} distinct${common}`;
+  }
+  return label;
+}
+
+function formatCell(value: CellValue): string {
+  if (value === null) return '';
+  const text = typeof value === 'number' ? formatNumber(value) : String(value);
+  const short = text.length > MAX_CELL_CHARS ? `${text.slice(0, MAX_CELL_CHARS - 1)}…` : text;
+  return short.replace(/\s+/g, ' ').replace(/\|/g, '\\|');
+}
+
+// Indexes of the rows to show; null separates the parts that aren't contiguous
+function sampleRows(count: number): Array<number | null> {
+  if (count <= FULL_TABLE_ROWS) return Array.from({ length: count }, (_, i) => i);
+  const picked = new Set<number>();
+  for (let i = 0; i < HEAD_ROWS; i++) picked.add(i);
+  const step = (count - HEAD_ROWS - TAIL_ROWS) / (SPACED_ROWS + 1);
+  for (let i = 1; i <= SPACED_ROWS; i++) picked.add(HEAD_ROWS + Math.floor(step * i));
+  for (let i = count - TAIL_ROWS; i < count; i++) picked.add(i);
+
+  const sorted = Array.from(picked).sort((a, b) => a - b);
+  return sorted.flatMap((row, i) => (i > 0 && row !== sorted[i - 1] + 1 ? [null, row] : [row]));
+}
+
+export function describeTable(table: DataTable): string {
+  const lines = [
+    `Sheet: ${table.name}`,
+    `${formatNumber(table.rowCount)} rows × ${table.columns.length} columns`,
+    'Columns:',
+    ...table.columns.map(describeColumn),
+  ];
+
+  const shownColumns = table.columns.slice(0, MAX_SAMPLE_COLUMNS);
+  const sample = sampleRows(Math.min(table.rowCount, table.rows.length));
+  if (sample.length > 0) {
+    const shown = sample.filter(row => row !== null).length;
+    lines.push('');
+    lines.push(shown === table.rowCount
+      ? 'Rows:'
+      : `Rows (${shown} of ${formatNumber(table.rowCount)}; the statistics above cover all rows):`);
+    if (shownColumns.length < table.columns.length) {
+      lines.push(`(first ${shownColumns.length} of ${table.columns.length} columns)`);
+    }
+    lines.push(`| Row | ${shownColumns.map(column => formatCell(column.name)).join(' | ')} |`);
+    lines.push(`| --- | ${shownColumns.map(() => '---').join(' | ')} |`);
+    sample.forEach(index => {
+      if (index === null) {
+        lines.push(`| … | ${shownColumns.map(() => '…').join(' | ')} |`);
+        return;
+      }
+      const row = table.rows[index];
+      lines.push(`| ${table.rowNumbers[index]} | ${shownColumns.map((_, c) => formatCell(row[c])).join(' | ')} |`);
+    });
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,92 @@
+/**
+ * Typed tables of uploaded spreadsheets and CSV files
+ *
+ * The spreadsheet extractor (src/lib/files/extractors/spreadsheet.ts) parses each sheet
+ * into a table (tableFromGrid) and gives the model its column schema, statistics and a
+ * sample of rows (describeTable) rather than the whole sheet. The file-processing worker
+ * stores the tables (saveAttachmentTables); for every question /api/chat/send computes
+ * what it asks of them (computeTableAnswers) and passes the results to the model as
+ * exact values. See migrations/add_attachment_tables.sql.
+ */
+
+import { answerTableQuestion, NamedTable, TableAnswer } from './questions';
+import type { DataTable } from './types';
+
+export type { CellValue, ColumnSchema, ColumnType, DataTable, NumericSummary } from './types';
+export type { NamedTable, TableAnswer } from './questions';
+export { tableFromGrid, columnLetter } from './parse';
+export { describeTable } from './describe';
+export { answerTableQuestion } from './questions';
+
+/**
+ * Replaces the stored tables of an attachment
+ */
+export async function saveAttachmentTables(supabase: any, userId: string, attachmentId: string, tables: DataTable[]): Promise<void> {
+  const rows = tables.map((table, index) => ({
+    attachment_id: attachmentId,
+    user_id: userId,
+    sheet_index: index,
+    name: table.name,
+    row_count: table.rowCount,
+    columns: table.columns,
+    correlations: table.correlations,
+    rows: table.rows,
+    row_numbers: table.rowNumbers,
+  }));
+
+  // One sheet at a time: a sheet's rows can be large
+  for (const row of rows) {
+    const { error } = await supabase
+      .from('attachment_tables')
+      .upsert(row, { onConflict: 'attachment_id,sheet_index' });
+    if (error) {
+      throw new Error(`Failed to store tables: ${error.message}`);
+    }
+  }
+  await supabase
+    .from('attachment_tables')
+    .delete()
+    .eq('attachment_id', attachmentId)
+    .gte('sheet_index', rows.length);
+}
+
+export async function loadAttachmentTables(supabase: any, userId: string, attachments: Array<{ id: string; file_name: string }>): Promise<NamedTable[]> {
+  if (attachments.length === 0) return [];
+  const { data, error } = await supabase
+    .from('attachment_tables')
+    .select('attachment_id, sheet_index, name, row_count, columns, correlations, rows, row_numbers')
+    .eq('user_id', userId)
+    .in('attachment_id', attachments.map(att => att.id))
+    .order('sheet_index', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load tables: ${error.message}`);
+  }
+  const names = new Map(attachments.map(att => [att.id, att.file_name]));
+  return (data || []).map((row: any) => ({
+    attachmentId: row.attachment_id,
+    fileName: names.get(row.attachment_id) || 'File',
+    name: row.name,
+    rowCount: row.row_count,
+    columns: row.columns || [],
+    correlations: row.correlations || [],
+    rows: row.rows || [],
+    rowNumbers: row.row_numbers || [],
+  }));
+}
+
+/**
+ * Results for the prompt, or '' if the question asks nothing of the tables
+ */
+export function formatTableAnswers(answers: TableAnswer[]): string {
+  if (answers.length === 0) return '';
+  return `Computed from the user's spreadsheets (exact values; use them instead of calculating these yourself):\n${answers.map(answer => `- ${answer.text}`).join('\n')}`;
+}
+
+/**
+ * Answers what the question asks of the tables of the given attachments, formatted for the prompt
+ */
+export async function computeTableAnswers(supabase: any, userId: string, attachments: Array<{ id: string; file_name: string }>, question: string): Promise<string> {
+  const tables = await loadAttachmentTables(supabase, userId, attachments);
+  if (tables.length === 0) return '';
+  return formatTableAnswers(answerTableQuestion(tables, question));
+}
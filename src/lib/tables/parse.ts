@@ -0,0 +1,167 @@
+/**
+ * Turns a sheet's grid of raw cells into a typed table: finds the header row,
+ * infers each column's type and computes its statistics over all rows.
+ */
+
+import { correlation, summarize } from './stats';
+import type { CellValue, ColumnCorrelation, ColumnSchema, ColumnType, DataTable } from './types';
+
+// A column is numeric (or dates) when this share of its filled cells are; the rest count as missing
+const TYPE_MAJORITY = 0.9;
+// Rows kept with the table; statistics always cover every row
+const MAX_STORED_CELLS = 50000;
+// Pairwise correlations are computed for up to this many number columns
+const MAX_CORRELATION_COLUMNS = 20;
+const TOP_VALUES = 5;
+
+const NUMBER_PATTERN = /^([-+]?)[$€£₹¥]?\s*(\d{1,3}(?:,\d{3})+|\d*)(\.\d+)?(e[-+]?\d+)?\s*(%?)$/i;
+
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && !value.trim());
+}
+
+/**
+ * The number a cell holds, also from text like "1,200", "$4.50" or "45%"
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(NUMBER_PATTERN);
+  if (!match || (!match[2] && !match[3])) return null;
+  const number = Number(`${match[1]}${match[2].replace(/,/g, '') || '0'}${match[3] || ''}${match[4] || ''}`);
+  return match[5] ? number / 100 : number;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  return text === 'true' ? true : text === 'false' ? false : null;
+}
+
+function toDate(value: unknown): string | null {
+  if (!(value instanceof Date) || Number.isNaN(value.getTime())) return null;
+  const iso = value.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+}
+
+function inferType(cells: unknown[]): ColumnType {
+  const filled = cells.filter(cell => !isBlank(cell));
+  if (filled.length === 0) return 'empty';
+  const share = (convert: (cell: unknown) => unknown) => filled.filter(cell => convert(cell) !== null).length / filled.length;
+  if (share(toBoolean) === 1) return 'boolean';
+  if (share(toDate) >= TYPE_MAJORITY) return 'date';
+  if (share(toNumber) >= TYPE_MAJORITY) return 'number';
+  return 'text';
+}
+
+function toCell(value: unknown, type: ColumnType): CellValue {
+  if (isBlank(value)) return null;
+  switch (type) {
+    case 'number': return toNumber(value);
+    case 'date': return toDate(value);
+    case 'boolean': return toBoolean(value);
+    default: return value instanceof Date ? toDate(value) : String(value).trim();
+  }
+}
+
+// The first row names the columns when it's all text and most columns have a name
+function isHeaderRow(row: unknown[], columnCount: number): boolean {
+  const filled = row.filter(cell => !isBlank(cell));
+  return filled.length >= Math.ceil(columnCount / 2)
+    && filled.every(cell => typeof cell === 'string' && toNumber(cell) === null);
+}
+
+function describeColumn(name: string, letter: string, type: ColumnType, values: CellValue[]): ColumnSchema {
+  const filledValues = values.filter(value => value !== null);
+  const counts = new Map<string, number>();
+  filledValues.forEach(value => counts.set(String(value), (counts.get(String(value)) || 0) + 1));
+  const column: ColumnSchema = { name, letter, type, filled: filledValues.length, distinct: counts.size };
+
+  if (type === 'number') {
+    column.numeric = summarize(filledValues as number[]);
+  } else if (type === 'date' && filledValues.length > 0) {
+    const sorted = (filledValues as string[]).slice().sort();
+    column.range = [sorted[0], sorted[sorted.length - 1]];
+  } else if (type === 'text' && counts.size < filledValues.length) {
+    column.topValues = Array.from(counts.entries())
+      .filter(([, count]) => count > 1)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count }));
+  }
+  return column;
+}
+
+function correlateColumns(columns: ColumnSchema[], rows: CellValue[][]): ColumnCorrelation[] {
+  const numeric = columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => column.type === 'number')
+    .slice(0, MAX_CORRELATION_COLUMNS);
+  const correlations: ColumnCorrelation[] = [];
+  for (let i = 0; i < numeric.length; i++) {
+    for (let j = i + 1; j < numeric.length; j++) {
+      const a = numeric[i].index;
+      const b = numeric[j].index;
+      const result = correlation(rows.map(row => row[a] as number | null), rows.map(row => row[b] as number | null));
+      if (result) correlations.push({ a, b, ...result });
+    }
+  }
+  return correlations;
+}
+
+/**
+ * Typed table of a sheet, or null if it has no cells. `grid` holds the raw cell values
+ * (numbers, text, booleans, Dates) row by row; `origin` is the position of its first
+ * cell in the sheet (0-based), so columns keep their letters.
+ */
+export function tableFromGrid(name: string, grid: unknown[][], origin: { row: number; col: number } = { row: 0, col: 0 }): DataTable | null {
+  const filledRows = grid
+    .map((row, index) => ({ row, number: origin.row + index + 1 }))
+    .filter(({ row }) => row.some(cell => !isBlank(cell)));
+  if (filledRows.length === 0) return null;
+  const body = filledRows.map(({ row }) => row);
+  const width = body.reduce((max, row) => Math.max(max, row.length), 0);
+  // Columns with no cells at all are left out
+  const kept = Array.from({ length: width }, (_, i) => i).filter(i => body.some(row => !isBlank(row[i])));
+
+  const hasHeader = body.length > 1 && isHeaderRow(kept.map(i => body[0][i]), kept.length);
+  const dataRows = hasHeader ? body.slice(1) : body;
+  const rowNumbers = (hasHeader ? filledRows.slice(1) : filledRows).map(({ number }) => number);
+  const usedNames = new Map<string, number>();
+
+  const columns: ColumnSchema[] = [];
+  const columnValues: CellValue[][] = [];
+  kept.forEach(i => {
+    const letter = columnLetter(origin.col + i);
+    let columnName = hasHeader && !isBlank(body[0][i]) ? String(body[0][i]).trim() : `Column ${letter}`;
+    const seen = usedNames.get(columnName) || 0;
+    usedNames.set(columnName, seen + 1);
+    if (seen > 0) columnName = `${columnName} (${seen + 1})`;
+
+    const cells = dataRows.map(row => row[i]);
+    const type = inferType(cells);
+    const values = cells.map(cell => toCell(cell, type));
+    columns.push(describeColumn(columnName, letter, type, values));
+    columnValues.push(values);
+  });
+
+  const rows = dataRows.map((_, r) => columnValues.map(values => values[r]));
+  const storedRows = Math.max(1, Math.floor(MAX_STORED_CELLS / Math.max(1, columns.length)));
+  return {
+    name,
+    columns,
+    rows: rows.slice(0, storedRows),
+    rowCount: rows.length,
+    rowNumbers: rowNumbers.slice(0, storedRows),
+    correlations: correlateColumns(columns, rows),
+  };
+}
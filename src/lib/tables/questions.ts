@@ -0,0 +1,182 @@
+/**
+ * Answers the computational parts of a question about the user's tables with
+ * deterministic code: "average of column C", "max Score", "correlation between
+ * Height and Weight", and rows that mention a value the question names. The
+ * results are given to the model as facts instead of letting it do arithmetic.
+ */
+
+import { formatNumber } from './stats';
+import type { ColumnSchema, DataTable, NumericSummary } from './types';
+
+type Operation = 'mean' | 'sum' | 'min' | 'max' | 'median' | 'std' | 'count' | 'correlation' | 'rows';
+
+const OPERATIONS: Array<{ operation: Operation; pattern: RegExp }> = [
+  { operation: 'mean', pattern: /\b(average|mean|avg)\b/i },
+  { operation: 'sum', pattern: /\b(sum|total)\b/i },
+  { operation: 'min', pattern: /\b(min|minimum|lowest|smallest)\b/i },
+  { operation: 'max', pattern: /\b(max|maximum|highest|largest|biggest|greatest)\b/i },
+  { operation: 'median', pattern: /\bmedian\b/i },
+  { operation: 'std', pattern: /\b(standard deviation|std|stdev|std dev)\b/i },
+  { operation: 'count', pattern: /\b(count|number of)\b/i },
+  { operation: 'correlation', pattern: /\b(correlat\w*|relationship between|related to)\b/i },
+  { operation: 'rows', pattern: /\bhow many (rows|records|entries|students|people|items)\b/i },
+];
+
+const OPERATION_LABELS: Record<Exclude<Operation, 'correlation' | 'rows'>, string> = {
+  mean: 'mean', sum: 'sum', min: 'minimum', max: 'maximum', median: 'median', std: 'standard deviation', count: 'count of values',
+};
+
+// "column C", "col B", "columns B and D"
+const COLUMN_LETTERS = /\b[Cc]ol(?:umn)?s?\.?\s+([A-Z]{1,3}(?:\s*(?:,|and|&|vs\.?|versus|with)\s*[A-Z]{1,3})*)\b/g;
+
+// Punctuation and spaces; letters of any script are kept
+const WORD_SEPARATORS = /[\s.,;:!?¿¡()[\]{}"'`“”‘’\/\\|+*=<>#%&^~_-]+/;
+
+const MAX_RESULTS = 12;
+const MAX_MATCHING_ROWS = 5;
+// Cell text shorter than this is too likely to match by accident
+const MIN_LOOKUP_CHARS = 4;
+
+export interface NamedTable extends DataTable {
+  attachmentId: string;
+  fileName: string;
+}
+
+export interface TableAnswer {
+  attachmentId: string;
+  text: string;
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(WORD_SEPARATORS)
+    .filter(Boolean)
+    // "scores" matches a "Score" column
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+function findSequence(haystack: string[], needle: string[], taken: boolean[]): number {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((word, j) => haystack[i + j] === word && !taken[i + j])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Columns the question refers to, by letter or by name, in the order it mentions them
+ */
+function referencedColumns(table: DataTable, question: string): number[] {
+  const mentions: Array<{ index: number; position: number }> = [];
+
+  Array.from(question.matchAll(COLUMN_LETTERS)).forEach(match => {
+    (match[1].match(/[A-Z]{1,3}/g) || []).forEach((letter, i) => {
+      const index = table.columns.findIndex(column => column.letter === letter);
+      if (index !== -1) mentions.push({ index, position: (match.index || 0) + i });
+    });
+  });
+
+  // Longer names first, so "Final Score" isn't also read as "Score"
+  const questionWords = words(question);
+  const taken = questionWords.map(() => false);
+  table.columns
+    .map((column, index) => ({ index, name: words(column.name) }))
+    .filter(({ name }, i) => name.length > 0 && !table.columns[i].name.startsWith('Column '))
+    .sort((a, b) => b.name.length - a.name.length)
+    .forEach(({ index, name }) => {
+      const position = findSequence(questionWords, name, taken);
+      if (position === -1) return;
+      name.forEach((_, j) => { taken[position + j] = true; });
+      // After the columns named by letter; word order among themselves
+      mentions.push({ index, position: question.length + position });
+    });
+
+  const ordered = mentions.sort((a, b) => a.position - b.position).map(mention => mention.index);
+  return ordered.filter((index, i) => ordered.indexOf(index) === i);
+}
+
+function columnLabel(column: ColumnSchema): string {
+  return `"${column.name}" (column ${column.letter})`;
+}
+
+function tableLabel(table: NamedTable): string {
+  return `${table.fileName}, sheet "${table.name}"`;
+}
+
+function statistic(summary: NumericSummary, operation: keyof typeof OPERATION_LABELS): number {
+  return operation === 'count' ? summary.count : summary[operation];
+}
+
+function answerOperation(table: NamedTable, operation: Operation, columns: number[]): string[] {
+  if (operation === 'rows') {
+    return [`${tableLabel(table)} has ${formatNumber(table.rowCount)} data rows`];
+  }
+
+  if (operation === 'correlation') {
+    if (columns.length < 2) return [];
+    const [a, b] = columns;
+    const [first, second] = [table.columns[a], table.columns[b]];
+    if (first.type !== 'number' || second.type !== 'number') {
+      return [`${tableLabel(table)}: correlation needs two number columns; ${columnLabel(first)} is ${first.type} and ${columnLabel(second)} is ${second.type}`];
+    }
+    const result = table.correlations.find(c => (c.a === a && c.b === b) || (c.a === b && c.b === a));
+    return [result
+      ? `${tableLabel(table)}: Pearson correlation of ${columnLabel(first)} and ${columnLabel(second)} = ${result.r.toFixed(4)} (${formatNumber(result.n)} rows with both values)`
+      : `${tableLabel(table)}: the correlation of ${columnLabel(first)} and ${columnLabel(second)} is undefined (too few rows with both values, or a column doesn't vary)`];
+  }
+
+  return columns.map(index => {
+    const column = table.columns[index];
+    if (operation === 'count') {
+      return `${tableLabel(table)}: ${columnLabel(column)} has ${formatNumber(column.filled)} non-empty values (${formatNumber(column.distinct)} distinct) in ${formatNumber(table.rowCount)} rows`;
+    }
+    if (!column.numeric) {
+      return `${tableLabel(table)}: ${columnLabel(column)} is a ${column.type} column, so it has no ${OPERATION_LABELS[operation]}`;
+    }
+    return `${tableLabel(table)}: ${OPERATION_LABELS[operation]} of ${columnLabel(column)} = ${formatNumber(statistic(column.numeric, operation))} (over ${formatNumber(column.numeric.count)} values)`;
+  });
+}
+
+/**
+ * Rows with a text cell the question quotes, e.g. a student's name
+ */
+function matchingRows(table: NamedTable, question: string): string[] {
+  const haystack = ` ${words(question).join(' ')} `;
+  const textColumns = table.columns.map((column, index) => ({ column, index })).filter(({ column }) => column.type === 'text');
+  if (textColumns.length === 0) return [];
+
+  const matches: string[] = [];
+  for (let r = 0; r < table.rows.length && matches.length <= MAX_MATCHING_ROWS; r++) {
+    const row = table.rows[r];
+    const hit = textColumns.some(({ index }) => {
+      const value = row[index];
+      if (typeof value !== 'string' || value.length < MIN_LOOKUP_CHARS || /^[\d\s.,:/-]*$/.test(value)) return false;
+      const needle = words(value).join(' ');
+      return needle.length >= MIN_LOOKUP_CHARS && haystack.includes(` ${needle} `);
+    });
+    if (hit) {
+      const cells = table.columns.map((column, c) => `${column.name}: ${row[c] === null ? '' : typeof row[c] === 'number' ? formatNumber(row[c] as number) : row[c]}`);
+      matches.push(`${tableLabel(table)}, row ${table.rowNumbers[r]}: ${cells.join('; ')}`);
+    }
+  }
+  // Values shared by many rows (a category, not an entity) are summarised by the statistics instead
+  return matches.length <= MAX_MATCHING_ROWS ? matches : [];
+}
+
+export function answerTableQuestion(tables: NamedTable[], question: string): TableAnswer[] {
+  const operations = OPERATIONS.filter(({ pattern }) => pattern.test(question)).map(({ operation }) => operation);
+  const answers: TableAnswer[] = [];
+
+  for (const table of tables) {
+    const columns = referencedColumns(table, question);
+    const texts: string[] = [];
+    for (const operation of operations) {
+      if (operation === 'rows' || columns.length > 0) {
+        texts.push(...answerOperation(table, operation, columns));
+      }
+    }
+    texts.push(...matchingRows(table, question));
+    texts.forEach(text => answers.push({ attachmentId: table.attachmentId, text }));
+  }
+  return answers.filter((answer, i) => answers.findIndex(other => other.text === answer.text) === i).slice(0, MAX_RESULTS);
+}
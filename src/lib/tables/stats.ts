@@ -0,0 +1,56 @@
+/**
+ * Summary statistics of table columns
+ */
+
+import type { NumericSummary } from './types';
+
+export function summarize(values: number[]): NumericSummary | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const count = sorted.length;
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  const mean = sum / count;
+  const middle = Math.floor(count / 2);
+  const median = count % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const variance = count > 1
+    ? sorted.reduce((total, value) => total + (value - mean) ** 2, 0) / (count - 1)
+    : 0;
+  return { count, sum, mean, median, std: Math.sqrt(variance), min: sorted[0], max: sorted[count - 1] };
+}
+
+/**
+ * Pearson correlation over the pairs where both values are numbers; null when
+ * there are fewer than 3 pairs or a column doesn't vary
+ */
+export function correlation(xs: Array<number | null>, ys: Array<number | null>): { r: number; n: number } | null {
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < Math.min(xs.length, ys.length); i++) {
+    const x = xs[i];
+    const y = ys[i];
+    if (x !== null && y !== null) pairs.push([x, y]);
+  }
+  const n = pairs.length;
+  if (n < 3) return null;
+
+  const meanX = pairs.reduce((total, [x]) => total + x, 0) / n;
+  const meanY = pairs.reduce((total, [, y]) => total + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return { r: covariance / Math.sqrt(varianceX * varianceY), n };
+}
+
+/**
+ * Readable number with up to 4 decimals, e.g. "1,234.5678"
+ */
+export function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) return String(value);
+  if (value !== 0 && Math.abs(value) < 0.0001) return value.toExponential(3);
+  return value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+}
@@ -0,0 +1,55 @@
+/**
+ * Typed tables parsed from spreadsheets and CSV files
+ */
+
+// Dates are ISO strings ("2024-03-01", or with a time)
+export type CellValue = number | string | boolean | null;
+
+export type ColumnType = 'number' | 'date' | 'boolean' | 'text' | 'empty';
+
+export interface NumericSummary {
+  count: number;
+  sum: number;
+  mean: number;
+  median: number;
+  // Sample standard deviation
+  std: number;
+  min: number;
+  max: number;
+}
+
+export interface ColumnSchema {
+  name: string;
+  // Spreadsheet column letter, e.g. "C"
+  letter: string;
+  type: ColumnType;
+  // Non-empty cells
+  filled: number;
+  distinct: number;
+  // Number columns
+  numeric?: NumericSummary;
+  // Date columns: earliest and latest
+  range?: [string, string];
+  // Text columns with repeated values: the most frequent ones
+  topValues?: Array<{ value: string; count: number }>;
+}
+
+// Pearson correlation of two number columns (indexes into `columns`) over rows that have both
+export interface ColumnCorrelation {
+  a: number;
+  b: number;
+  r: number;
+  n: number;
+}
+
+export interface DataTable {
+  // Sheet name ("Sheet1" for CSV files)
+  name: string;
+  columns: ColumnSchema[];
+  // Data rows, one value per column; may be cut short for large sheets (see rowCount)
+  rows: CellValue[][];
+  rowCount: number;
+  // Spreadsheet row number of each stored row (blank rows are skipped)
+  rowNumbers: number[];
+  correlations: ColumnCorrelation[];
+}